@@ -0,0 +1,72 @@
+/* eslint-disable no-restricted-globals */
+
+// Service worker do FinanceApp: guarda o "esqueleto" do app para abrir sem conexão.
+// Os dados (transações e resumo) ficam no IndexedDB, cuidados pelo próprio app;
+// aqui tratamos só de HTML, JS, CSS e ícones da mesma origem.
+
+const CACHE_NAME = 'financeapp-shell-v2';
+const SHELL_FILES = ['./', './index.html', './manifest.json', './icon.svg'];
+
+// Bundles com hash gerados pelo build (asset-manifest.json do react-scripts); sem
+// eles no cache, a primeira abertura offline mostraria uma página em branco
+const getBuildFiles = () =>
+  fetch('./asset-manifest.json', { cache: 'no-cache' })
+    .then(response => (response.ok ? response.json() : { files: {} }))
+    .then(manifest => Object.values(manifest.files || {}).filter(file => !file.endsWith('.map')))
+    .catch(() => []);
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    Promise.all([caches.open(CACHE_NAME), getBuildFiles()])
+      // URLs absolutas para não repetir "./index.html" e "/index.html" (addAll recusa duplicados)
+      .then(([cache, buildFiles]) => cache.addAll([
+        ...new Set([...SHELL_FILES, ...buildFiles].map(file => new URL(file, self.location.href).href))
+      ]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Navegação: rede primeiro (para pegar versões novas), index.html do cache se estiver offline.
+// Arquivos de /static/ têm hash no nome, então o cache pode responder primeiro.
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then(response => {
+          // Página de erro (404, 500) não substitui o esqueleto guardado
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(CACHE_NAME).then(cache => cache.put('./index.html', copy));
+          }
+          return response;
+        })
+        .catch(() => caches.match('./index.html'))
+    );
+    return;
+  }
+
+  event.respondWith(
+    caches.match(request).then(cached => {
+      if (cached) return cached;
+      return fetch(request).then(response => {
+        if (response.ok && url.pathname.includes('/static/')) {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then(cache => cache.put(request, copy));
+        }
+        return response;
+      });
+    })
+  );
+});
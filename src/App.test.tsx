@@ -0,0 +1,71 @@
+import { fireEvent, render, screen, within } from '@testing-library/react';
+import { AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import App from './App';
+import { apiClient } from './api/client';
+import { saveSession } from './api/session';
+import { Transaction } from './types/finance';
+import { computeSummary } from './utils/summary';
+
+// Sem servidor falso nem canal em tempo real: as requisições passam pelo adapter abaixo
+jest.mock('./api/client', () => ({ ...jest.requireActual('./api/client'), USE_MOCKS: false }));
+
+const transactions: Transaction[] = [
+  { _id: 't1', type: 'expense', amount: 50, description: 'Mercado do bairro', category: 'Alimentação', createdAt: new Date(2024, 8, 10, 9).toISOString(), userId: 'u1' },
+  { _id: 't2', type: 'expense', amount: 32.9, description: 'Uber centro', category: 'Transporte', createdAt: new Date(2024, 8, 15, 9).toISOString(), userId: 'u1' }
+];
+
+interface SentRequest {
+  method: string;
+  url: string;
+  authorization: string | null;
+}
+
+let requests: SentRequest[] = [];
+
+// Responde como o backend; o que ele não tem (orçamentos, contas...) vai de 404 e cai na reserva local
+const respond = (config: InternalAxiosRequestConfig): { status: number; data?: unknown } => {
+  const route = `${config.method} ${config.url}`;
+  if (route === 'get /transactions/u1') return { status: 200, data: transactions };
+  if (route === 'get /summary/u1') return { status: 200, data: computeSummary(transactions) };
+  if (route.startsWith('delete /transactions/u1/') || route === 'post /auth/logout') return { status: 204 };
+  return { status: 404, data: { message: 'Não encontrado' } };
+};
+
+const adapter: AxiosAdapter = async config => {
+  requests.push({
+    method: config.method || '',
+    url: config.url || '',
+    authorization: config.headers.get('Authorization') as string | null
+  });
+  const { status, data } = respond(config);
+  const response = { status, data, statusText: '', headers: {}, config } as AxiosResponse;
+  if (status >= 400) {
+    const error = Object.assign(new Error(`HTTP ${status}`), { isAxiosError: true, config, response });
+    throw error;
+  }
+  return response;
+};
+
+beforeEach(() => {
+  requests = [];
+  window.localStorage.clear();
+  apiClient.defaults.adapter = adapter;
+  saveSession({ token: 'segredo', userId: 'u1', expiresAt: '2999-01-01T00:00:00.000Z' });
+  window.history.pushState({}, '', '/transacoes');
+});
+
+describe('App', () => {
+  test('exclusão no prazo de desfazer é enviada com a sessão antes de sair da conta', async () => {
+    render(<App />);
+    await screen.findByText('Uber centro');
+
+    fireEvent.click(within(screen.getByText('Uber centro').closest('div.p-4') as HTMLElement).getByTitle('Apagar Transação'));
+    fireEvent.click(screen.getAllByRole('button', { name: 'Sair' })[0]);
+
+    expect(await screen.findByRole('heading', { name: 'Você saiu' })).toBeInTheDocument();
+    const deleteIndex = requests.findIndex(r => r.method === 'delete');
+    const logoutIndex = requests.findIndex(r => r.url === '/auth/logout');
+    expect(requests[deleteIndex]).toEqual({ method: 'delete', url: '/transactions/u1/t2', authorization: 'Bearer segredo' });
+    expect(deleteIndex).toBeLessThan(logoutIndex);
+  });
+});
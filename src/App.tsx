@@ -1,12 +1,31 @@
 import React from 'react';
+import { BrowserRouter } from 'react-router-dom';
+import { logout } from './api/authApi';
+import AuthGate from './components/AuthGate';
 import FinanceDashboard from './components/FinanceDashboard';
+import { ConfirmProvider } from './context/ConfirmContext';
+import { FinanceProvider } from './context/FinanceContext';
+import { ToastProvider } from './context/ToastContext';
+import { ROUTER_FUTURE } from './routes';
 
 const App = () => {
   return (
-    <div className="App">
-      <FinanceDashboard />
-    </div>
+    <BrowserRouter future={ROUTER_FUTURE}>
+      <ToastProvider>
+        <ConfirmProvider>
+          <div className="App">
+            <AuthGate>
+              {session => (
+                <FinanceProvider userId={session.userId}>
+                  <FinanceDashboard onLogout={logout} />
+                </FinanceProvider>
+              )}
+            </AuthGate>
+          </div>
+        </ConfirmProvider>
+      </ToastProvider>
+    </BrowserRouter>
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
@@ -0,0 +1,48 @@
+import { Account, AccountInput } from '../types/finance';
+import { apiClient } from './client';
+import { createLocalStore, isMissingEndpoint, shouldUseLocalFallback } from './localStore';
+import { parseAccount, parseAccounts } from './validation';
+
+// Contas seguem o mesmo esquema dos orçamentos: backend quando
+// disponível, localStorage como reserva (ver localStore).
+
+const { read: readLocalAccounts, write: writeLocalAccounts } = createLocalStore<Account[]>('accounts', parseAccounts, [], 'Contas locais inválidas:');
+
+const accountUrl = (userId: string, accountId?: string) =>
+  `/accounts/${encodeURIComponent(userId)}${accountId === undefined ? '' : `/${encodeURIComponent(accountId)}`}`;
+
+export const fetchAccounts = async (userId: string): Promise<Account[]> => {
+  try {
+    const response = await apiClient.get(accountUrl(userId));
+    const accounts = parseAccounts(response.data);
+    writeLocalAccounts(userId, accounts);
+    return accounts;
+  } catch (error) {
+    if (!shouldUseLocalFallback(error)) throw error;
+    return readLocalAccounts(userId);
+  }
+};
+
+export const createAccount = async (userId: string, input: AccountInput): Promise<Account> => {
+  let created: Account;
+  try {
+    const response = await apiClient.post(accountUrl(userId), input);
+    created = parseAccount(response.data);
+  } catch (error) {
+    if (!isMissingEndpoint(error)) throw error;
+    created = { ...input, _id: `local-${Date.now()}` };
+  }
+
+  writeLocalAccounts(userId, [...readLocalAccounts(userId).filter(a => a._id !== created._id), created]);
+  return created;
+};
+
+export const deleteAccount = async (userId: string, accountId: string): Promise<void> => {
+  try {
+    await apiClient.delete(accountUrl(userId, accountId));
+  } catch (error) {
+    if (!isMissingEndpoint(error)) throw error;
+  }
+
+  writeLocalAccounts(userId, readLocalAccounts(userId).filter(a => a._id !== accountId));
+};
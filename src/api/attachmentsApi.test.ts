@@ -0,0 +1,36 @@
+import { fetchAttachmentUrl } from './attachmentsApi';
+import { apiClient } from './client';
+
+jest.mock('./client', () => ({ USE_MOCKS: false, apiClient: { get: jest.fn() } }));
+
+const originalApiUrl = process.env.REACT_APP_API_URL;
+
+beforeEach(() => {
+  process.env.REACT_APP_API_URL = 'https://api.exemplo.com/api';
+  (apiClient.get as jest.Mock).mockResolvedValue({ data: new Blob(['recibo']) });
+  URL.createObjectURL = jest.fn(() => 'blob:local-1');
+});
+
+afterEach(() => {
+  process.env.REACT_APP_API_URL = originalApiUrl;
+});
+
+describe('fetchAttachmentUrl', () => {
+  it('baixa com a sessão o arquivo que está na API', async () => {
+    await expect(fetchAttachmentUrl('https://api.exemplo.com/api/files/a1')).resolves.toBe('blob:local-1');
+    await expect(fetchAttachmentUrl('/files/a1')).resolves.toBe('blob:local-1');
+    expect(apiClient.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('não manda o token para outra origem: a URL assinada é usada direto', async () => {
+    const signed = 'https://cdn.exemplo.net/a1.jpg?signature=abc';
+
+    await expect(fetchAttachmentUrl(signed)).resolves.toBe(signed);
+    expect(apiClient.get).not.toHaveBeenCalled();
+  });
+
+  it('arquivo que já está no navegador não passa pela API', async () => {
+    await expect(fetchAttachmentUrl('blob:cupom')).resolves.toBe('blob:cupom');
+    expect(apiClient.get).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,65 @@
+import { Attachment } from '../types/finance';
+import { USE_MOCKS, apiClient } from './client';
+import { parseAttachment } from './validation';
+
+// Comprovantes das transações. Contrato com o backend: os arquivos são privados.
+// A url (e a thumbnailUrl) de um Attachment na origem da API só responde com o mesmo
+// cabeçalho Authorization das outras rotas, então o app nunca a usa direto em href/src:
+// baixa com fetchAttachmentUrl e mostra uma URL local (blob:) do arquivo.
+// Arquivo guardado em outra origem (CDN, mídia do WhatsApp) precisa vir com URL assinada
+// e de vida curta: ela é usada direto, e o token da sessão nunca vai para lá.
+
+// Comprovantes: POST multipart (campo "file") em /transactions/:userId/:transactionId/attachments
+// responde com o Attachment criado; 413 para arquivo grande demais e 415 para tipo não aceito.
+// Imagens encaminhadas pelo WhatsApp chegam já anexadas, com source "whatsapp".
+export const uploadAttachment = async (
+  userId: string,
+  transactionId: string,
+  file: File,
+  onProgress?: (percent: number) => void
+): Promise<Attachment> => {
+  const form = new FormData();
+  form.append('file', file, file.name);
+  const response = await apiClient.post(
+    `/transactions/${encodeURIComponent(userId)}/${encodeURIComponent(transactionId)}/attachments`,
+    form,
+    {
+      // Sem isso o axios converteria o FormData para o JSON padrão do cliente
+      headers: { 'Content-Type': 'multipart/form-data' },
+      onUploadProgress: event => {
+        const total = event.total || file.size;
+        if (onProgress && total > 0) onProgress(Math.min(100, Math.round((event.loaded / total) * 100)));
+      }
+    }
+  );
+  return parseAttachment(response.data);
+};
+
+export const deleteAttachment = async (userId: string, transactionId: string, attachmentId: string): Promise<void> => {
+  await apiClient.delete(
+    `/transactions/${encodeURIComponent(userId)}/${encodeURIComponent(transactionId)}/attachments/${encodeURIComponent(attachmentId)}`
+  );
+};
+
+// Arquivo que já está no navegador (servidor falso, blob:, data:) não passa pela API
+const isLocalUrl = (url: string): boolean => USE_MOCKS || /^(blob|data):/.test(url);
+
+// Só a própria API recebe o token; URL relativa vale como da API
+const isApiUrl = (url: string): boolean => {
+  const apiUrl = process.env.REACT_APP_API_URL;
+  if (!apiUrl) return false;
+  const api = new URL(apiUrl, window.location.href);
+  return new URL(url, api).origin === api.origin;
+};
+
+// URL local (blob:) com o conteúdo do comprovante, baixado com a sessão; quem
+// chama libera com revokeAttachmentUrl quando não precisar mais
+export const fetchAttachmentUrl = async (url: string): Promise<string> => {
+  if (isLocalUrl(url) || !isApiUrl(url)) return url;
+  const response = await apiClient.get<Blob>(url, { responseType: 'blob' });
+  return URL.createObjectURL(response.data);
+};
+
+export const revokeAttachmentUrl = (objectUrl: string, url: string) => {
+  if (objectUrl !== url) URL.revokeObjectURL(objectUrl);
+};
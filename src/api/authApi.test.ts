@@ -0,0 +1,42 @@
+import { logout } from './authApi';
+import { apiClient } from './client';
+import { clearCachedData } from './offlineCache';
+import { onSessionEnd, saveSession } from './session';
+
+jest.mock('./client', () => ({ apiClient: { post: jest.fn() } }));
+jest.mock('./offlineCache', () => ({ clearCachedData: jest.fn() }));
+
+beforeEach(() => {
+  window.localStorage.clear();
+  (apiClient.post as jest.Mock).mockResolvedValue({ data: {} });
+  (clearCachedData as jest.Mock).mockResolvedValue(undefined);
+});
+
+describe('logout', () => {
+  it('apaga do aparelho a cópia offline, a fila e as reservas locais', async () => {
+    saveSession({ token: 'segredo', userId: 'u1', expiresAt: '2999-01-01T00:00:00.000Z' });
+    window.localStorage.setItem('financeapp:queue:u1', '[]');
+    window.localStorage.setItem('financeapp:budgets:u1', '[]');
+    window.localStorage.setItem('outro-app', 'fica');
+    const onEnd = jest.fn();
+    const unsubscribe = onSessionEnd(onEnd);
+
+    await logout();
+
+    expect(Object.keys(window.localStorage)).toEqual(['outro-app']);
+    expect(clearCachedData).toHaveBeenCalled();
+    expect(onEnd).toHaveBeenCalledWith('logout');
+    unsubscribe();
+  });
+
+  it('limpa o aparelho mesmo sem resposta do servidor', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    (apiClient.post as jest.Mock).mockRejectedValue(new Error('Network Error'));
+    window.localStorage.setItem('financeapp:queue:u1', '[]');
+
+    await logout();
+
+    expect(window.localStorage.getItem('financeapp:queue:u1')).toBeNull();
+    expect(clearCachedData).toHaveBeenCalled();
+  });
+});
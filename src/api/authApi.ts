@@ -0,0 +1,49 @@
+import { Session } from '../types/auth';
+import { apiClient } from './client';
+import { clearCachedData } from './offlineCache';
+import { endSession, saveSession } from './session';
+import { parseSession } from './validation';
+
+const requestSession = async (magicToken: string): Promise<Session> => {
+  const response = await apiClient.post('/auth/magic-link', { token: magicToken });
+  const session = parseSession(response.data);
+  saveSession(session);
+  return session;
+};
+
+// O link só pode ser usado uma vez; se for processado duas vezes (ex.: StrictMode),
+// reaproveitamos a troca que já está em andamento
+const exchanges = new Map<string, Promise<Session>>();
+
+// Troca o token assinado do link mágico por uma sessão.
+// O servidor responde 401/410 quando o link é inválido, já foi usado ou expirou.
+export const exchangeMagicLink = (magicToken: string): Promise<Session> => {
+  const pending = exchanges.get(magicToken);
+  if (pending) return pending;
+
+  const exchange = requestSession(magicToken);
+  exchanges.set(magicToken, exchange);
+  exchange.catch(() => exchanges.delete(magicToken));
+  return exchange;
+};
+
+// Sair da conta não deixa dados no aparelho: cópia offline, fila de alterações
+// e reservas locais (tudo em financeapp:*)
+const clearLocalData = async () => {
+  Object.keys(window.localStorage)
+    .filter(key => key.startsWith('financeapp:'))
+    .forEach(key => window.localStorage.removeItem(key));
+  await clearCachedData();
+};
+
+export const logout = async (): Promise<void> => {
+  try {
+    await apiClient.post('/auth/logout');
+  } catch (error) {
+    // Mesmo que o servidor não responda, a sessão local precisa ser descartada
+    console.error('Erro ao encerrar sessão no servidor:', error);
+  } finally {
+    await clearLocalData();
+    endSession('logout');
+  }
+};
@@ -0,0 +1,48 @@
+import { Budget } from '../types/finance';
+import { apiClient } from './client';
+import { createLocalStore, isMissingEndpoint, shouldUseLocalFallback } from './localStore';
+import { parseBudget, parseBudgets } from './validation';
+
+// Orçamentos ficam no backend; enquanto os endpoints não existirem (404/501),
+// usamos o localStorage do navegador como reserva (ver localStore).
+
+const { read: readLocalBudgets, write: writeLocalBudgets } = createLocalStore<Budget[]>('budgets', parseBudgets, [], 'Orçamentos locais inválidos:');
+
+const budgetUrl = (userId: string, category?: string) =>
+  `/budgets/${encodeURIComponent(userId)}${category === undefined ? '' : `/${encodeURIComponent(category)}`}`;
+
+export const fetchBudgets = async (userId: string): Promise<Budget[]> => {
+  try {
+    const response = await apiClient.get(budgetUrl(userId));
+    const budgets = parseBudgets(response.data);
+    writeLocalBudgets(userId, budgets);
+    return budgets;
+  } catch (error) {
+    if (!shouldUseLocalFallback(error)) throw error;
+    return readLocalBudgets(userId);
+  }
+};
+
+export const saveBudget = async (userId: string, budget: Budget): Promise<Budget> => {
+  let saved = budget;
+  try {
+    const response = await apiClient.put(budgetUrl(userId, budget.category), { limit: budget.limit });
+    saved = parseBudget(response.data);
+  } catch (error) {
+    if (!isMissingEndpoint(error)) throw error;
+  }
+
+  const others = readLocalBudgets(userId).filter(b => b.category !== saved.category);
+  writeLocalBudgets(userId, [...others, saved]);
+  return saved;
+};
+
+export const deleteBudget = async (userId: string, category: string): Promise<void> => {
+  try {
+    await apiClient.delete(budgetUrl(userId, category));
+  } catch (error) {
+    if (!isMissingEndpoint(error)) throw error;
+  }
+
+  writeLocalBudgets(userId, readLocalBudgets(userId).filter(b => b.category !== category));
+};
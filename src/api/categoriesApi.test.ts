@@ -0,0 +1,70 @@
+import { AxiosError, AxiosResponse } from 'axios';
+import { renameCategory } from './categoriesApi';
+import { apiClient } from './client';
+import { enqueueMutation, getQueuedMutations } from './mutationQueue';
+import { updateTransaction } from './transactionsApi';
+import { makeTransaction } from '../test/fixtures';
+
+jest.mock('./client', () => ({ apiClient: { post: jest.fn() } }));
+jest.mock('./transactionsApi', () => ({ updateTransaction: jest.fn() }));
+jest.mock('./budgetsApi', () => ({ saveBudget: jest.fn(), deleteBudget: jest.fn() }));
+jest.mock('./recurringApi', () => ({ updateRecurringRule: jest.fn() }));
+
+const tx = (id: string, category: string) => makeTransaction({ _id: id, amount: 10, description: `Compra ${id}`, category });
+
+// Deixa terminar as promessas pendentes (o 404 do rename já resolvido pelo mock)
+const flushPromises = async () => {
+  for (let i = 0; i < 5; i++) await Promise.resolve();
+};
+
+beforeEach(() => {
+  window.localStorage.clear();
+  // Backend sem o endpoint de renomear: a troca é feita transação por transação
+  (apiClient.post as jest.Mock).mockRejectedValue(
+    new AxiosError('HTTP 404', undefined, undefined, undefined, { status: 404 } as AxiosResponse)
+  );
+});
+
+describe('renameCategory sem o endpoint', () => {
+  it('envia uma transação por vez', async () => {
+    const finishes: (() => void)[] = [];
+    (updateTransaction as jest.Mock).mockImplementation(() => new Promise<void>(resolve => finishes.push(resolve)));
+
+    const renaming = renameCategory('u1', 'Mercado', 'Alimentação', {
+      transactions: [tx('t1', 'Mercado'), tx('t2', 'Mercado'), tx('t3', 'Lazer')],
+      budgets: [],
+      recurringRules: []
+    });
+    await flushPromises();
+    expect(updateTransaction).toHaveBeenCalledTimes(1);
+
+    finishes[0]();
+    await flushPromises();
+    expect(updateTransaction).toHaveBeenCalledTimes(2);
+    finishes[1]();
+    await renaming;
+
+    expect((updateTransaction as jest.Mock).mock.calls.map(([, id, input]) => [id, input.category])).toEqual([
+      ['t1', 'Alimentação'],
+      ['t2', 'Alimentação']
+    ]);
+  });
+
+  it('criação ainda na fila offline é ajustada na fila, sem PUT no id provisório', async () => {
+    (updateTransaction as jest.Mock).mockResolvedValue(undefined);
+    const { _id, userId, ...input } = tx('temp-1', 'Mercado');
+    enqueueMutation('u1', { kind: 'create', tempId: 'temp-1', input });
+
+    await renameCategory('u1', 'Mercado', 'Alimentação', {
+      transactions: [tx('temp-1', 'Mercado'), tx('t1', 'Mercado')],
+      budgets: [],
+      recurringRules: []
+    });
+
+    expect(updateTransaction).toHaveBeenCalledTimes(1);
+    expect(updateTransaction).toHaveBeenCalledWith('u1', 't1', expect.objectContaining({ category: 'Alimentação' }));
+    expect(getQueuedMutations('u1')).toEqual([
+      expect.objectContaining({ kind: 'create', tempId: 'temp-1', input: expect.objectContaining({ category: 'Alimentação' }) })
+    ]);
+  });
+});
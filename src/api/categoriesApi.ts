@@ -0,0 +1,89 @@
+import { Budget, CategorySettings, RecurringRule, Transaction } from '../types/finance';
+import { renameCategorySettings } from '../utils/categories';
+import { getMainCategory, getTransactionCategories, renameSplitCategory } from '../utils/splits';
+import { deleteBudget, saveBudget } from './budgetsApi';
+import { apiClient } from './client';
+import { createLocalStore, isMissingEndpoint, shouldUseLocalFallback } from './localStore';
+import { enqueueMutation, isQueuedCreate } from './mutationQueue';
+import { updateRecurringRule } from './recurringApi';
+import { updateTransaction } from './transactionsApi';
+import { parseCategorySettings, parseCategorySettingsList } from './validation';
+
+// Preferências das categorias (cor, ícone, grupo, palavras-chave) no backend
+// quando disponível, localStorage como reserva (ver localStore).
+
+export interface CategoryUsage {
+  transactions: Transaction[];
+  budgets: Budget[];
+  recurringRules: RecurringRule[];
+}
+
+const { read: readLocalCategories, write: writeLocalCategories } = createLocalStore<CategorySettings[]>('categories', parseCategorySettingsList, [], 'Categorias locais inválidas:');
+
+const categoryUrl = (userId: string, name?: string) =>
+  `/categories/${encodeURIComponent(userId)}${name === undefined ? '' : `/${encodeURIComponent(name)}`}`;
+
+export const fetchCategorySettings = async (userId: string): Promise<CategorySettings[]> => {
+  try {
+    const response = await apiClient.get(categoryUrl(userId));
+    const settings = parseCategorySettingsList(response.data);
+    writeLocalCategories(userId, settings);
+    return settings;
+  } catch (error) {
+    if (!shouldUseLocalFallback(error)) throw error;
+    return readLocalCategories(userId);
+  }
+};
+
+export const saveCategorySettings = async (userId: string, settings: CategorySettings): Promise<CategorySettings> => {
+  let saved = settings;
+  try {
+    const response = await apiClient.put(categoryUrl(userId, settings.name), settings);
+    saved = parseCategorySettings(response.data);
+  } catch (error) {
+    if (!isMissingEndpoint(error)) throw error;
+  }
+
+  writeLocalCategories(userId, [...readLocalCategories(userId).filter(s => s.name !== saved.name), saved]);
+  return saved;
+};
+
+// Sem o endpoint de renomear, reescrevemos uma a uma as transações, o orçamento e as recorrências.
+// Em sequência, para não disparar centenas de requisições de uma vez
+const renameLocally = async (userId: string, from: string, to: string, usage: CategoryUsage) => {
+  for (const transaction of usage.transactions.filter(t => getTransactionCategories(t).includes(from))) {
+    // Todos os campos da transação seguem como estão, menos os que o servidor controla
+    const { _id, userId: owner, attachments, ...rest } = transaction;
+    const splits = renameSplitCategory(transaction.splits, from, to);
+    const input = { ...rest, category: splits ? getMainCategory(splits) : transaction.category === from ? to : transaction.category, splits };
+    if (isQueuedCreate(userId, _id)) {
+      // Criada offline e ainda não enviada: o id é provisório, então basta ajustar a fila
+      enqueueMutation(userId, { kind: 'update', transactionId: _id, input, base: transaction });
+    } else {
+      await updateTransaction(userId, _id, input);
+    }
+  }
+
+  const budget = usage.budgets.find(b => b.category === from);
+  if (budget) {
+    // Juntando com uma categoria que já tem orçamento, fica o dela
+    if (!usage.budgets.some(b => b.category === to)) await saveBudget(userId, { ...budget, category: to });
+    await deleteBudget(userId, from);
+  }
+
+  for (const rule of usage.recurringRules.filter(r => r.category === from)) {
+    await updateRecurringRule(userId, { ...rule, category: to });
+  }
+};
+
+// Renomeia (ou, se o destino já existe, junta) a categoria em tudo que a usa
+export const renameCategory = async (userId: string, from: string, to: string, usage: CategoryUsage): Promise<void> => {
+  try {
+    await apiClient.post(`${categoryUrl(userId)}/rename`, { from, to });
+  } catch (error) {
+    if (!isMissingEndpoint(error)) throw error;
+    await renameLocally(userId, from, to, usage);
+  }
+
+  writeLocalCategories(userId, renameCategorySettings(readLocalCategories(userId), from, to));
+};
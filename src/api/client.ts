@@ -0,0 +1,52 @@
+import axios, { AxiosAdapter } from 'axios';
+import { endSession, getSession } from './session';
+
+// Usamos process.env para que a variável de ambiente funcione corretamente
+// com o Create React App e na Vercel.
+const API_URL = process.env.REACT_APP_API_URL;
+
+const IS_PRODUCTION = process.env.NODE_ENV === 'production';
+
+// O servidor falso (com dados de exemplo e o login "demo") só entra com a flag explícita,
+// e nunca num build de produção: um deploy mal configurado não pode servir dados falsos
+export const USE_MOCKS = process.env.REACT_APP_USE_MOCKS === 'true' && !IS_PRODUCTION;
+
+if (!USE_MOCKS && !API_URL) {
+  const message = 'REACT_APP_API_URL não configurada: defina a URL do backend (ou REACT_APP_USE_MOCKS=true em desenvolvimento).';
+  if (IS_PRODUCTION) throw new Error(message);
+  console.warn(message);
+}
+
+const REQUEST_TIMEOUT_MS = 15000;
+
+// Import dinâmico: o servidor falso (com fixtures e o login "demo") vira um chunk à parte,
+// que só é baixado com USE_MOCKS, e fica fora do bundle de produção
+const mockAdapter: AxiosAdapter = config => import('./mockServer').then(mock => mock.mockAdapter(config));
+
+export const apiClient = axios.create({
+  baseURL: API_URL,
+  timeout: REQUEST_TIMEOUT_MS,
+  headers: { 'Content-Type': 'application/json' },
+  ...(USE_MOCKS ? { adapter: mockAdapter } : {})
+});
+
+// Toda requisição leva o token da sessão
+apiClient.interceptors.request.use(config => {
+  const session = getSession();
+  if (session) {
+    config.headers.set('Authorization', `Bearer ${session.token}`);
+  }
+  return config;
+});
+
+// 401 fora das rotas de autenticação significa sessão expirada ou revogada
+apiClient.interceptors.response.use(
+  response => response,
+  error => {
+    const isAuthRoute = axios.isAxiosError(error) && (error.config?.url || '').startsWith('/auth/');
+    if (axios.isAxiosError(error) && error.response?.status === 401 && !isAuthRoute) {
+      endSession('expired');
+    }
+    return Promise.reject(error);
+  }
+);
@@ -0,0 +1,177 @@
+import { Account, Attachment, Budget, CategorySettings, Goal, Household, RecurringRule, Transaction, TransactionSplit } from '../types/finance';
+import { TRANSFER_CATEGORY } from '../utils/accounts';
+import { splitInstallments } from '../utils/creditCard';
+import { toDateInput } from '../utils/period';
+
+// Dados de exemplo usados pelo modo offline (REACT_APP_USE_MOCKS).
+// As datas são relativas ao dia atual para que os relatórios de
+// hoje / semana / mês sempre tenham algo para mostrar.
+
+interface FixtureEntry {
+  type: Transaction['type'];
+  amount: number;
+  description: string;
+  category: string;
+  daysAgo: number;
+  accountId: string;
+  toAccountId?: string;
+  goalId?: string;
+  // Despesa da casa; paidByPartner = paga pelo outro membro da casa de exemplo
+  shared?: boolean;
+  paidByPartner?: boolean;
+  tags?: string[];
+  splits?: TransactionSplit[];
+}
+
+const CORRENTE = 'mock-account-1';
+const CARTEIRA = 'mock-account-2';
+const POUPANCA = 'mock-account-3';
+const CARTAO = 'mock-account-4';
+
+const FIXTURE_ENTRIES: FixtureEntry[] = [
+  { type: 'expense', amount: 50, description: 'Mercado', category: 'Alimentação', daysAgo: 0, accountId: CARTEIRA, shared: true },
+  { type: 'expense', amount: 25.5, description: 'Lanche', category: 'Alimentação', daysAgo: 1, accountId: CARTEIRA },
+  { type: 'expense', amount: 100, description: 'Conta de luz', category: 'Moradia', daysAgo: 3, accountId: CORRENTE, shared: true, paidByPartner: true },
+  { type: 'income', amount: 500, description: 'Freelance', category: 'Trabalho', daysAgo: 5, accountId: CORRENTE },
+  { type: 'expense', amount: 32.9, description: 'Uber', category: 'Transporte', daysAgo: 6, accountId: CARTEIRA, tags: ['viagem-floripa'] },
+  { type: 'expense', amount: 1200, description: 'Aluguel', category: 'Moradia', daysAgo: 10, accountId: CORRENTE, shared: true },
+  { type: 'income', amount: 3500, description: 'Salário', category: 'Trabalho', daysAgo: 12, accountId: CORRENTE },
+  {
+    type: 'expense', amount: 189.75, description: 'Supermercado do mês', category: 'Alimentação', daysAgo: 14, accountId: CORRENTE,
+    shared: true, paidByPartner: true, splits: [{ category: 'Alimentação', amount: 150 }, { category: 'Limpeza', amount: 39.75 }]
+  },
+  { type: 'expense', amount: 59.9, description: 'Academia', category: 'Saúde', daysAgo: 20, accountId: CORRENTE },
+  { type: 'income', amount: 200, description: 'Venda', category: 'Vendas', daysAgo: 25, accountId: CORRENTE },
+  { type: 'expense', amount: 1200, description: 'Aluguel', category: 'Moradia', daysAgo: 40, accountId: CORRENTE },
+  { type: 'income', amount: 3500, description: 'Salário', category: 'Trabalho', daysAgo: 42, accountId: CORRENTE },
+  { type: 'expense', amount: 94.3, description: 'Conta de luz', category: 'Moradia', daysAgo: 33, accountId: CORRENTE },
+  { type: 'expense', amount: 45, description: 'Cinema', category: 'Lazer', daysAgo: 36, accountId: CARTEIRA },
+  { type: 'expense', amount: 230.4, description: 'Mercado', category: 'Alimentação', daysAgo: 45, accountId: CORRENTE },
+  { type: 'expense', amount: 1200, description: 'Aluguel', category: 'Moradia', daysAgo: 70, accountId: CORRENTE },
+  { type: 'income', amount: 3500, description: 'Salário', category: 'Trabalho', daysAgo: 72, accountId: CORRENTE },
+  { type: 'expense', amount: 87.6, description: 'Farmácia', category: 'Saúde', daysAgo: 65, accountId: CORRENTE },
+  { type: 'expense', amount: 89.9, description: 'Restaurante', category: 'Alimentação', daysAgo: 4, accountId: CARTAO, shared: true, paidByPartner: true, tags: ['viagem-floripa'] },
+  { type: 'expense', amount: 39.9, description: 'Streaming', category: 'Lazer', daysAgo: 8, accountId: CARTAO, tags: ['assinaturas'] },
+  { type: 'transfer', amount: 150, description: 'Saque', category: TRANSFER_CATEGORY, daysAgo: 2, accountId: CORRENTE, toAccountId: CARTEIRA },
+  { type: 'transfer', amount: 500, description: 'Reserva do mês', category: TRANSFER_CATEGORY, daysAgo: 11, accountId: CORRENTE, toAccountId: POUPANCA, goalId: 'mock-goal-1' }
+];
+
+const daysAgoToIso = (daysAgo: number, now: Date): string => {
+  const date = new Date(now);
+  date.setDate(date.getDate() - daysAgo);
+  date.setHours(12, 0, 0, 0);
+  return date.toISOString();
+};
+
+// Compra parcelada no cartão: as primeiras parcelas já passaram, as demais estão comprometidas
+const createFixtureInstallments = (userId: string, now: Date): Transaction[] =>
+  splitInstallments(
+    {
+      type: 'expense',
+      amount: 2999,
+      description: 'Geladeira',
+      category: 'Casa',
+      createdAt: daysAgoToIso(50, now),
+      accountId: CARTAO
+    },
+    10,
+    'mock-installment-1'
+  ).map((input, index) => ({ ...input, _id: `mock-installment-1-${index + 1}`, userId }));
+
+// Cupom desenhado em SVG, para a demo ter um comprovante sem depender de arquivos
+const RECEIPT_SVG = [
+  '<svg xmlns="http://www.w3.org/2000/svg" width="240" height="320" viewBox="0 0 240 320">',
+  '<rect width="240" height="320" fill="#f9fafb"/>',
+  '<text x="120" y="40" font-family="monospace" font-size="16" text-anchor="middle">MERCADO CENTRAL</text>',
+  '<text x="20" y="100" font-family="monospace" font-size="13">ARROZ 5KG      22,90</text>',
+  '<text x="20" y="125" font-family="monospace" font-size="13">FEIJAO 1KG      8,40</text>',
+  '<text x="20" y="150" font-family="monospace" font-size="13">BANANA          6,70</text>',
+  '<text x="20" y="175" font-family="monospace" font-size="13">CAFE 500G      12,00</text>',
+  '<text x="20" y="230" font-family="monospace" font-size="15" font-weight="bold">TOTAL       50,00</text>',
+  '</svg>'
+].join('');
+
+export const createFixtureReceipt = (now: Date = new Date()): Attachment => ({
+  _id: 'mock-attachment-1',
+  fileName: 'cupom-mercado.svg',
+  contentType: 'image/svg+xml',
+  size: RECEIPT_SVG.length,
+  url: `data:image/svg+xml;charset=utf-8,${encodeURIComponent(RECEIPT_SVG)}`,
+  thumbnailUrl: null,
+  uploadedAt: daysAgoToIso(0, now),
+  source: 'whatsapp'
+});
+
+// Com partnerId (o outro membro da casa de exemplo), parte das despesas é da casa
+export const createFixtureTransactions = (userId: string, now: Date = new Date(), partnerId?: string): Transaction[] => [
+  ...FIXTURE_ENTRIES.map((entry, index) => ({
+    _id: `mock-${index + 1}`,
+    type: entry.type,
+    amount: entry.amount,
+    description: entry.description,
+    category: entry.category,
+    createdAt: daysAgoToIso(entry.daysAgo, now),
+    userId,
+    accountId: entry.accountId,
+    toAccountId: entry.toAccountId || null,
+    goalId: entry.goalId || null,
+    tags: entry.tags || [],
+    splits: entry.splits || null,
+    ...(partnerId ? { paidBy: entry.paidByPartner ? partnerId : userId, shared: !!entry.shared } : {}),
+    // O mercado de hoje veio do WhatsApp com a foto do cupom
+    ...(index === 0 ? { attachments: [createFixtureReceipt(now)] } : {})
+  })),
+  ...createFixtureInstallments(userId, now)
+];
+
+// Casa de exemplo: o usuário e mais uma pessoa, que também lança pelo WhatsApp
+export const createFixtureHousehold = (userId: string): Household => ({
+  _id: `mock-household-${userId}`,
+  name: 'Casa',
+  members: [
+    { userId, name: 'Alex', phone: null },
+    { userId: `ana_${userId}`, name: 'Ana', phone: '5511988887777' }
+  ]
+});
+
+export const createFixtureAccounts = (): Account[] => [
+  { _id: CORRENTE, name: 'Conta corrente', kind: 'checking', initialBalance: 1500 },
+  { _id: CARTEIRA, name: 'Carteira', kind: 'cash', initialBalance: 80 },
+  { _id: POUPANCA, name: 'Poupança', kind: 'savings', initialBalance: 2000 },
+  { _id: CARTAO, name: 'Cartão de crédito', kind: 'credit_card', initialBalance: 0, closingDay: 25, dueDay: 5 }
+];
+
+export const createFixtureBudgets = (): Budget[] => [
+  { category: 'Alimentação', limit: 400 },
+  { category: 'Moradia', limit: 1300 },
+  { category: 'Transporte', limit: 150 }
+];
+
+// Último dia do mês daqui a `months` meses
+const endOfMonthInput = (months: number, now: Date): string =>
+  toDateInput(new Date(now.getFullYear(), now.getMonth() + months + 1, 0));
+
+// A reserva recebe a transferência "Reserva do mês" acima
+export const createFixtureGoals = (now: Date = new Date()): Goal[] => [
+  { _id: 'mock-goal-1', name: 'Reserva de emergência', targetAmount: 15000, targetDate: endOfMonthInput(18, now), initialAmount: 3000 },
+  { _id: 'mock-goal-2', name: 'Viagem de férias', targetAmount: 6000, targetDate: endOfMonthInput(8, now), initialAmount: 500 }
+];
+
+// "Casa" fica dentro de "Moradia"; as palavras-chave categorizam lançamentos novos
+export const createFixtureCategorySettings = (): CategorySettings[] => [
+  { name: 'Alimentação', color: '#34D399', icon: 'shopping-cart', parent: null, keywords: ['hortifruti', 'acougue'] },
+  { name: 'Casa', color: '#F97316', icon: 'home', parent: 'Moradia', keywords: ['geladeira', 'moveis'] }
+];
+
+// Contas fixas do usuário demo; já lançadas até hoje para não duplicar as transações acima
+export const createFixtureRecurringRules = (now: Date = new Date()): RecurringRule[] => {
+  const startDate = toDateInput(new Date(now.getFullYear(), now.getMonth() - 3, 1));
+  const today = toDateInput(now);
+  const base = { frequency: 'monthly' as const, startDate, endDate: null, lastMaterialized: today };
+
+  return [
+    { ...base, _id: 'mock-recurring-1', type: 'income', amount: 3500, description: 'Salário', category: 'Trabalho', dayOfMonth: 5 },
+    { ...base, _id: 'mock-recurring-2', type: 'expense', amount: 1200, description: 'Aluguel', category: 'Moradia', dayOfMonth: 10 },
+    { ...base, _id: 'mock-recurring-3', type: 'expense', amount: 100, description: 'Conta de luz', category: 'Moradia', dayOfMonth: 20 }
+  ];
+};
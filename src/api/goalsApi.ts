@@ -0,0 +1,68 @@
+import { Goal, GoalInput } from '../types/finance';
+import { apiClient } from './client';
+import { createLocalStore, isMissingEndpoint, shouldUseLocalFallback } from './localStore';
+import { parseGoal, parseGoals } from './validation';
+
+// Metas de economia no backend quando disponível, localStorage como reserva
+// (ver localStore). As contribuições são transações com goalId.
+
+const { read: readLocalGoals, write: writeLocalGoals } = createLocalStore<Goal[]>('goals', parseGoals, [], 'Metas locais inválidas:');
+
+const goalUrl = (userId: string, goalId?: string) =>
+  `/goals/${encodeURIComponent(userId)}${goalId === undefined ? '' : `/${encodeURIComponent(goalId)}`}`;
+
+const upsertLocalGoal = (userId: string, goal: Goal) => {
+  const others = readLocalGoals(userId).filter(g => g._id !== goal._id);
+  writeLocalGoals(userId, [...others, goal]);
+};
+
+export const fetchGoals = async (userId: string): Promise<Goal[]> => {
+  try {
+    const response = await apiClient.get(goalUrl(userId));
+    const goals = parseGoals(response.data);
+    writeLocalGoals(userId, goals);
+    return goals;
+  } catch (error) {
+    if (!shouldUseLocalFallback(error)) throw error;
+    return readLocalGoals(userId);
+  }
+};
+
+export const createGoal = async (userId: string, input: GoalInput): Promise<Goal> => {
+  let created: Goal;
+  try {
+    const response = await apiClient.post(goalUrl(userId), input);
+    created = parseGoal(response.data);
+  } catch (error) {
+    if (!isMissingEndpoint(error)) throw error;
+    created = { ...input, _id: `local-${Date.now()}` };
+  }
+
+  upsertLocalGoal(userId, created);
+  return created;
+};
+
+export const updateGoal = async (userId: string, goal: Goal): Promise<Goal> => {
+  let saved = goal;
+  try {
+    const { _id, ...body } = goal;
+    const response = await apiClient.put(goalUrl(userId, _id), body);
+    saved = parseGoal(response.data);
+  } catch (error) {
+    if (!isMissingEndpoint(error)) throw error;
+  }
+
+  upsertLocalGoal(userId, saved);
+  return saved;
+};
+
+// O backend desvincula as contribuições; no modo local elas apenas deixam de apontar para uma meta existente
+export const deleteGoal = async (userId: string, goalId: string): Promise<void> => {
+  try {
+    await apiClient.delete(goalUrl(userId, goalId));
+  } catch (error) {
+    if (!isMissingEndpoint(error)) throw error;
+  }
+
+  writeLocalGoals(userId, readLocalGoals(userId).filter(g => g._id !== goalId));
+};
@@ -0,0 +1,47 @@
+import { Household, HouseholdMemberInput } from '../types/finance';
+import { apiClient } from './client';
+import { createLocalStore, shouldUseLocalFallback } from './localStore';
+import { parseHousehold } from './validation';
+
+// Casa compartilhada: o servidor junta os lançamentos de todos os membros
+// num só livro. Criar a casa e mexer nos membros exige conexão; a última
+// cópia fica no localStorage para o app abrir offline.
+// 204 = o usuário não faz parte de nenhuma casa.
+
+const { read: readLocalHousehold, write: writeLocalHousehold } = createLocalStore<Household | null>('household', parseHousehold, null, 'Casa local inválida:');
+
+const householdUrl = (userId: string, path = '') => `/households/${encodeURIComponent(userId)}${path}`;
+
+const readHousehold = (userId: string, status: number, data: unknown): Household | null => {
+  const household = status === 204 ? null : parseHousehold(data);
+  writeLocalHousehold(userId, household);
+  return household;
+};
+
+export const fetchHousehold = async (userId: string): Promise<Household | null> => {
+  try {
+    const response = await apiClient.get(householdUrl(userId));
+    return readHousehold(userId, response.status, response.data);
+  } catch (error) {
+    if (!shouldUseLocalFallback(error)) throw error;
+    return readLocalHousehold(userId);
+  }
+};
+
+// Quem cria entra como primeiro membro, e os lançamentos dele passam a ser da casa
+export const createHousehold = async (userId: string, name: string, memberName: string): Promise<Household> => {
+  const response = await apiClient.post(householdUrl(userId), { name, memberName });
+  return readHousehold(userId, response.status, response.data) as Household;
+};
+
+// O membro novo é identificado pelo número de WhatsApp
+export const addHouseholdMember = async (userId: string, input: HouseholdMemberInput): Promise<Household> => {
+  const response = await apiClient.post(householdUrl(userId, '/members'), input);
+  return readHousehold(userId, response.status, response.data) as Household;
+};
+
+// Remover a si mesmo é sair da casa (204); os lançamentos continuam na casa
+export const removeHouseholdMember = async (userId: string, memberId: string): Promise<Household | null> => {
+  const response = await apiClient.delete(householdUrl(userId, `/members/${encodeURIComponent(memberId)}`));
+  return readHousehold(userId, response.status, response.data);
+};
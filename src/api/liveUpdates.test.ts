@@ -0,0 +1,219 @@
+import { POLL_INTERVAL_MS, applyTransactionEvent, diffTransactions, subscribeToLiveUpdates } from './liveUpdates';
+import { resetMockStore, simulateWhatsAppMessage } from './mockServer';
+import { fetchTransactions } from './transactionsApi';
+import { makeTransaction } from '../test/fixtures';
+
+let mockUseMocks = true;
+const mockPost = jest.fn();
+jest.mock('./client', () => ({
+  get USE_MOCKS() {
+    return mockUseMocks;
+  },
+  apiClient: { post: (...args: unknown[]) => mockPost(...args) }
+}));
+jest.mock('./transactionsApi', () => ({ fetchTransactions: jest.fn() }));
+jest.mock('./session', () => ({ getSession: () => ({ token: 'segredo-da-sessao', userId: 'u1', expiresAt: '2999-01-01T00:00:00.000Z' }) }));
+
+const tx = (id: string) =>
+  makeTransaction({ _id: id, amount: 10, description: `Compra ${id}`, createdAt: '2024-09-10T12:00:00.000Z' });
+
+// Deixa terminar as promessas pendentes (consulta já resolvida pelo mock, import do servidor falso)
+const flushPromises = async () => {
+  for (let i = 0; i < 5; i++) await Promise.resolve();
+};
+
+afterEach(() => {
+  resetMockStore();
+  mockUseMocks = true;
+});
+
+describe('diffTransactions', () => {
+  it('gera eventos de criação e exclusão entre duas consultas', () => {
+    expect(diffTransactions([tx('a'), tx('b')], [tx('b'), tx('c')])).toEqual([
+      { type: 'created', transaction: tx('c') },
+      { type: 'deleted', transactionId: 'a' }
+    ]);
+  });
+});
+
+describe('applyTransactionEvent', () => {
+  it('coloca a transação nova no topo', () => {
+    expect(applyTransactionEvent([tx('a')], { type: 'created', transaction: tx('b') }).map(t => t._id)).toEqual(['b', 'a']);
+  });
+
+  it('ignora eventos repetidos, devolvendo a mesma lista', () => {
+    const list = [tx('a')];
+    expect(applyTransactionEvent(list, { type: 'created', transaction: tx('a') })).toBe(list);
+    expect(applyTransactionEvent(list, { type: 'deleted', transactionId: 'x' })).toBe(list);
+  });
+});
+
+describe('subscribeToLiveUpdates (servidor falso)', () => {
+  it('entrega a mensagem do WhatsApp como transação criada', async () => {
+    const onEvent = jest.fn();
+    const onStatus = jest.fn();
+    const unsubscribe = subscribeToLiveUpdates('u1', onEvent, onStatus);
+    await flushPromises();
+
+    simulateWhatsAppMessage('u1', '50 no mercado');
+
+    expect(onStatus).toHaveBeenCalledWith('live');
+    expect(onEvent).toHaveBeenCalledWith({
+      type: 'created',
+      transaction: expect.objectContaining({ type: 'expense', amount: 50, description: 'Mercado', category: 'Alimentação', userId: 'u1' })
+    });
+
+    unsubscribe();
+    simulateWhatsAppMessage('u1', '10 lanche');
+    expect(onEvent).toHaveBeenCalledTimes(1);
+  });
+
+  it('anexa a foto enviada junto com a mensagem como comprovante', async () => {
+    const onEvent = jest.fn();
+    const unsubscribe = subscribeToLiveUpdates('u1', onEvent);
+    await flushPromises();
+
+    simulateWhatsAppMessage('u1', '50 no mercado', { fileName: 'cupom.jpg', contentType: 'image/jpeg', size: 2048, url: 'blob:cupom' });
+
+    expect(onEvent).toHaveBeenCalledWith({
+      type: 'created',
+      transaction: expect.objectContaining({
+        attachments: [expect.objectContaining({ fileName: 'cupom.jpg', url: 'blob:cupom', source: 'whatsapp' })]
+      })
+    });
+    unsubscribe();
+  });
+
+  it('entrega a mensagem de outro membro da casa, com quem pagou', async () => {
+    // O livro do u1 (e a casa de exemplo, com ana_u1) nasce na primeira mensagem dele
+    simulateWhatsAppMessage('u1', '10 lanche');
+    const onEvent = jest.fn();
+    const unsubscribe = subscribeToLiveUpdates('u1', onEvent);
+    await flushPromises();
+
+    simulateWhatsAppMessage('ana_u1', '30 na padaria');
+
+    expect(onEvent).toHaveBeenCalledWith({
+      type: 'created',
+      transaction: expect.objectContaining({ amount: 30, userId: 'ana_u1' })
+    });
+    unsubscribe();
+  });
+
+  it('não entrega eventos de outro usuário', async () => {
+    const onEvent = jest.fn();
+    const unsubscribe = subscribeToLiveUpdates('u1', onEvent);
+    await flushPromises();
+
+    simulateWhatsAppMessage('u2', '50 no mercado');
+
+    expect(onEvent).not.toHaveBeenCalled();
+    unsubscribe();
+  });
+});
+
+describe('subscribeToLiveUpdates (sem SSE)', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('consulta a lista periodicamente e avisa o que mudou', async () => {
+    mockUseMocks = false;
+    (fetchTransactions as jest.Mock)
+      .mockResolvedValueOnce([tx('a')])
+      .mockResolvedValueOnce([tx('a'), tx('b')]);
+    const onEvent = jest.fn();
+    const onStatus = jest.fn();
+
+    const unsubscribe = subscribeToLiveUpdates('u1', onEvent, onStatus);
+    await flushPromises();
+    expect(onStatus).toHaveBeenCalledWith('polling');
+    expect(onEvent).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(POLL_INTERVAL_MS);
+    await flushPromises();
+    expect(onEvent).toHaveBeenCalledWith({ type: 'created', transaction: tx('b') });
+
+    unsubscribe();
+    jest.advanceTimersByTime(POLL_INTERVAL_MS);
+    expect(fetchTransactions).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('subscribeToLiveUpdates (SSE)', () => {
+  // EventSource mínimo: o jsdom não tem um
+  class FakeEventSource {
+    static CLOSED = 2;
+    static instances: FakeEventSource[] = [];
+    onopen: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+    listeners: Record<string, (message: MessageEvent) => void> = {};
+    close = jest.fn();
+    constructor(public url: string) {
+      FakeEventSource.instances.push(this);
+    }
+    addEventListener(type: string, listener: (message: MessageEvent) => void) {
+      this.listeners[type] = listener;
+    }
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockUseMocks = false;
+    FakeEventSource.instances = [];
+    (window as unknown as { EventSource: unknown }).EventSource = FakeEventSource;
+    mockPost.mockResolvedValue({ data: { ticket: 'ticket-1' } });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    delete (window as unknown as { EventSource?: unknown }).EventSource;
+  });
+
+  it('abre o canal com um ticket de uso único, sem o token da sessão na URL', async () => {
+    const onEvent = jest.fn();
+    const onStatus = jest.fn();
+    const unsubscribe = subscribeToLiveUpdates('u1', onEvent, onStatus);
+    await flushPromises();
+
+    expect(mockPost).toHaveBeenCalledWith('/events/u1/ticket');
+    const [source] = FakeEventSource.instances;
+    expect(source.url).toMatch(/\/events\/u1\?ticket=ticket-1$/);
+    expect(source.url).not.toContain('segredo-da-sessao');
+
+    source.onopen?.();
+    source.listeners['transaction.created']({ data: JSON.stringify(tx('a')) } as MessageEvent);
+    expect(onStatus).toHaveBeenCalledWith('live');
+    expect(onEvent).toHaveBeenCalledWith({ type: 'created', transaction: expect.objectContaining({ _id: 'a' }) });
+
+    unsubscribe();
+    expect(source.close).toHaveBeenCalled();
+  });
+
+  it('numa queda, reconecta com um ticket novo', async () => {
+    const unsubscribe = subscribeToLiveUpdates('u1', jest.fn());
+    await flushPromises();
+    mockPost.mockResolvedValue({ data: { ticket: 'ticket-2' } });
+
+    FakeEventSource.instances[0].onerror?.();
+    jest.runOnlyPendingTimers();
+    await flushPromises();
+
+    expect(FakeEventSource.instances[0].close).toHaveBeenCalled();
+    expect(FakeEventSource.instances[1].url).toMatch(/ticket=ticket-2$/);
+    unsubscribe();
+  });
+
+  it('sem o endpoint de ticket, vai de polling', async () => {
+    mockPost.mockRejectedValue(new Error('404'));
+    (fetchTransactions as jest.Mock).mockResolvedValue([]);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const onStatus = jest.fn();
+
+    const unsubscribe = subscribeToLiveUpdates('u1', jest.fn(), onStatus);
+    await flushPromises();
+
+    expect(FakeEventSource.instances).toHaveLength(0);
+    expect(onStatus).toHaveBeenCalledWith('polling');
+    unsubscribe();
+  });
+});
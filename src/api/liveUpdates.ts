@@ -0,0 +1,181 @@
+import { Transaction, TransactionEvent } from '../types/finance';
+import { USE_MOCKS, apiClient } from './client';
+import type { MockMedia } from './mockServer';
+import { getSession } from './session';
+import { fetchTransactions } from './transactionsApi';
+import { parseStreamTicket, parseTransaction } from './validation';
+
+// Canal em tempo real: transações criadas ou apagadas em outro lugar (WhatsApp,
+// outro aparelho) chegam por Server-Sent Events em /events/:userId. Se o backend
+// não tiver SSE, consultamos a lista de tempos em tempos e comparamos.
+// O EventSource não envia cabeçalhos; para o token da sessão não ir na URL (que acaba
+// em logs de servidor e proxy e no histórico), cada conexão usa um ticket de uso único
+// e vida curta, pedido por POST /events/:userId/ticket com o cabeçalho de sempre.
+
+export type LiveStatus = 'live' | 'polling';
+
+export const POLL_INTERVAL_MS = 30000;
+const RECONNECT_DELAY_MS = 3000;
+// Quedas seguidas antes de desistir do SSE e ir de polling
+const MAX_RECONNECTS = 3;
+
+type EventHandler = (event: TransactionEvent) => void;
+type StatusHandler = (status: LiveStatus) => void;
+
+declare global {
+  interface Window {
+    // Só com o servidor falso, em desenvolvimento: financeMock.whatsapp('50 no mercado'),
+    // ou com uma foto: financeMock.whatsapp('50 no mercado', { fileName, contentType, size, url }).
+    // Outro membro da casa: financeMock.whatsappFrom('ana_demo_user', '30 na padaria')
+    financeMock?: {
+      whatsapp: (text: string, media?: MockMedia) => TransactionEvent | null;
+      whatsappFrom: (memberId: string, text: string, media?: MockMedia) => TransactionEvent | null;
+    };
+  }
+}
+
+// Eventos que levam de uma lista à outra (usado pelo polling)
+export const diffTransactions = (previous: Transaction[], next: Transaction[]): TransactionEvent[] => {
+  const previousIds = new Set(previous.map(t => t._id));
+  const nextIds = new Set(next.map(t => t._id));
+  return [
+    ...next.filter(t => !previousIds.has(t._id)).map(transaction => ({ type: 'created' as const, transaction })),
+    ...previous.filter(t => !nextIds.has(t._id)).map(t => ({ type: 'deleted' as const, transactionId: t._id }))
+  ];
+};
+
+// Aplica um evento à lista; devolve a mesma lista quando não há o que mudar
+// (ex.: o eco da transação que este próprio aparelho acabou de criar)
+export const applyTransactionEvent = (transactions: Transaction[], event: TransactionEvent): Transaction[] => {
+  if (event.type === 'created') {
+    return transactions.some(t => t._id === event.transaction._id) ? transactions : [event.transaction, ...transactions];
+  }
+  return transactions.some(t => t._id === event.transactionId)
+    ? transactions.filter(t => t._id !== event.transactionId)
+    : transactions;
+};
+
+const startPolling = (userId: string, onEvent: EventHandler): (() => void) => {
+  let known: Transaction[] | null = null;
+
+  const poll = async () => {
+    // Aba em segundo plano não precisa gastar dados
+    if (document.visibilityState === 'hidden') return;
+    try {
+      const latest = await fetchTransactions(userId);
+      if (known) diffTransactions(known, latest).forEach(event => onEvent(event));
+      known = latest;
+    } catch (error) {
+      console.error('Erro ao buscar atualizações:', error);
+    }
+  };
+
+  poll();
+  const timer = window.setInterval(poll, POLL_INTERVAL_MS);
+  return () => window.clearInterval(timer);
+};
+
+const createStreamTicket = async (userId: string): Promise<string> => {
+  const response = await apiClient.post(`/events/${encodeURIComponent(userId)}/ticket`);
+  return parseStreamTicket(response.data);
+};
+
+const eventsUrl = (userId: string, ticket: string): string =>
+  `${process.env.REACT_APP_API_URL}/events/${encodeURIComponent(userId)}?ticket=${encodeURIComponent(ticket)}`;
+
+// Devolve a função que encerra a assinatura
+export const subscribeToLiveUpdates = (userId: string, onEvent: EventHandler, onStatus?: StatusHandler): (() => void) => {
+  if (USE_MOCKS) {
+    // Import dinâmico, como no client: o servidor falso fica fora do bundle de produção
+    let unsubscribed = false;
+    let unsubscribeMock: (() => void) | null = null;
+    import('./mockServer').then(({ simulateWhatsAppMessage, subscribeMockEvents }) => {
+      if (unsubscribed) return;
+      if (process.env.NODE_ENV === 'development') {
+        window.financeMock = {
+          whatsapp: (text: string, media?: MockMedia) => simulateWhatsAppMessage(userId, text, media),
+          whatsappFrom: (memberId: string, text: string, media?: MockMedia) => simulateWhatsAppMessage(memberId, text, media)
+        };
+      }
+      onStatus?.('live');
+      unsubscribeMock = subscribeMockEvents(userId, onEvent);
+    });
+    return () => {
+      unsubscribed = true;
+      unsubscribeMock?.();
+    };
+  }
+
+  if (typeof EventSource === 'undefined' || !getSession()) {
+    onStatus?.('polling');
+    return startPolling(userId, onEvent);
+  }
+
+  let closed = false;
+  let source: EventSource | null = null;
+  let reconnectTimer: number | null = null;
+  let reconnects = 0;
+  let stopPolling: (() => void) | null = null;
+
+  const fallBackToPolling = () => {
+    if (closed || stopPolling) return;
+    onStatus?.('polling');
+    stopPolling = startPolling(userId, onEvent);
+  };
+
+  const connect = async () => {
+    let ticket: string;
+    try {
+      ticket = await createStreamTicket(userId);
+    } catch (error) {
+      // Backend sem SSE (404) ou sem conexão: polling
+      console.error('Erro ao abrir o canal em tempo real:', error);
+      fallBackToPolling();
+      return;
+    }
+    if (closed) return;
+
+    const current = new EventSource(eventsUrl(userId, ticket));
+    source = current;
+    current.onopen = () => {
+      reconnects = 0;
+      onStatus?.('live');
+    };
+    current.addEventListener('transaction.created', (message: MessageEvent) => {
+      try {
+        onEvent({ type: 'created', transaction: parseTransaction(JSON.parse(message.data)) });
+      } catch (error) {
+        console.error('Evento de transação inválido:', error);
+      }
+    });
+    current.addEventListener('transaction.deleted', (message: MessageEvent) => {
+      try {
+        const { _id } = JSON.parse(message.data) as { _id: string };
+        onEvent({ type: 'deleted', transactionId: _id });
+      } catch (error) {
+        console.error('Evento de exclusão inválido:', error);
+      }
+    });
+    // A reconexão automática do EventSource repetiria o ticket já usado: fechamos e
+    // pedimos outro; depois de algumas quedas seguidas, vamos de polling
+    current.onerror = () => {
+      current.close();
+      if (closed) return;
+      if (reconnects >= MAX_RECONNECTS) {
+        fallBackToPolling();
+        return;
+      }
+      reconnects++;
+      reconnectTimer = window.setTimeout(connect, RECONNECT_DELAY_MS);
+    };
+  };
+
+  connect();
+
+  return () => {
+    closed = true;
+    source?.close();
+    if (reconnectTimer !== null) window.clearTimeout(reconnectTimer);
+    stopPolling?.();
+  };
+};
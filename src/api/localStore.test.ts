@@ -0,0 +1,53 @@
+import { AxiosError, AxiosResponse } from 'axios';
+import { createLocalStore, isMissingEndpoint, shouldUseLocalFallback } from './localStore';
+
+const httpError = (status: number) =>
+  new AxiosError(`HTTP ${status}`, undefined, undefined, undefined, { status } as AxiosResponse);
+const networkError = () => new AxiosError('Network Error', AxiosError.ERR_NETWORK);
+
+beforeEach(() => {
+  window.localStorage.clear();
+});
+
+describe('shouldUseLocalFallback', () => {
+  it('vale sem conexão ou quando o backend não tem o endpoint', () => {
+    expect(shouldUseLocalFallback(networkError())).toBe(true);
+    expect(shouldUseLocalFallback(httpError(404))).toBe(true);
+    expect(shouldUseLocalFallback(httpError(501))).toBe(true);
+    expect(shouldUseLocalFallback(httpError(500))).toBe(false);
+    expect(shouldUseLocalFallback(new Error('outro'))).toBe(false);
+  });
+});
+
+describe('isMissingEndpoint', () => {
+  it('sem conexão a escrita não cai no localStorage', () => {
+    expect(isMissingEndpoint(httpError(404))).toBe(true);
+    expect(isMissingEndpoint(httpError(501))).toBe(true);
+    expect(isMissingEndpoint(httpError(500))).toBe(false);
+    expect(isMissingEndpoint(networkError())).toBe(false);
+  });
+});
+
+describe('createLocalStore', () => {
+  const parse = (raw: unknown): string[] => {
+    if (!Array.isArray(raw)) throw new Error('não é lista');
+    return raw;
+  };
+  const store = createLocalStore<string[] | null>('itens', parse, null, 'Itens locais inválidos:');
+
+  it('guarda por usuário e apaga com null', () => {
+    store.write('u1', ['a', 'b']);
+    expect(window.localStorage.getItem('financeapp:itens:u1')).toBe('["a","b"]');
+    expect(store.read('u1')).toEqual(['a', 'b']);
+    expect(store.read('u2')).toBeNull();
+
+    store.write('u1', null);
+    expect(store.read('u1')).toBeNull();
+  });
+
+  it('cópia inválida vale como vazia', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    window.localStorage.setItem('financeapp:itens:u1', '{"x":1}');
+    expect(store.read('u1')).toBeNull();
+  });
+});
@@ -0,0 +1,48 @@
+import axios from 'axios';
+
+// Reserva no localStorage para o que ainda não tem endpoint no backend (404/501).
+// Sem conexão, a leitura usa a última cópia, mas a escrita é recusada: essas entidades
+// não passam pela fila offline, e o que fosse gravado só no navegador sumiria na
+// próxima leitura do servidor.
+
+export const isMissingEndpoint = (error: unknown): boolean =>
+  axios.isAxiosError(error) && (error.response?.status === 404 || error.response?.status === 501);
+
+// Leituras também caem na cópia local sem conexão, para o app abrir offline
+export const shouldUseLocalFallback = (error: unknown): boolean =>
+  axios.isAxiosError(error) && (!error.response || isMissingEndpoint(error));
+
+export interface LocalStore<T> {
+  read: (userId: string) => T;
+  // null apaga a cópia
+  write: (userId: string, value: T | null) => void;
+}
+
+// entity vira a chave "financeapp:<entity>:<userId>"; cópia inválida vale como vazia
+export const createLocalStore = <T>(
+  entity: string,
+  parse: (raw: unknown) => T,
+  empty: T,
+  invalidMessage: string
+): LocalStore<T> => {
+  const storageKey = (userId: string) => `financeapp:${entity}:${userId}`;
+
+  return {
+    read: userId => {
+      try {
+        const stored = window.localStorage.getItem(storageKey(userId));
+        return stored ? parse(JSON.parse(stored)) : empty;
+      } catch (error) {
+        console.error(invalidMessage, error);
+        return empty;
+      }
+    },
+    write: (userId, value) => {
+      if (value === null) {
+        window.localStorage.removeItem(storageKey(userId));
+      } else {
+        window.localStorage.setItem(storageKey(userId), JSON.stringify(value));
+      }
+    }
+  };
+};
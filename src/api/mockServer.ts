@@ -0,0 +1,770 @@
+import { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { Session } from '../types/auth';
+import {
+  Account,
+  AccountInput,
+  Attachment,
+  AttachmentSource,
+  Budget,
+  CategorySettings,
+  Goal,
+  GoalInput,
+  Household,
+  HouseholdMemberInput,
+  RecurringRule,
+  RecurringRuleInput,
+  Transaction,
+  TransactionEvent,
+  TransactionInput
+} from '../types/finance';
+import { ACCEPTED_ATTACHMENT_TYPES, MAX_ATTACHMENT_BYTES, getAttachmentType, validateAttachmentFile } from '../utils/attachments';
+import { getKeywordRules, renameCategorySettings } from '../utils/categories';
+import { parseCommand } from '../utils/commandParser';
+import { getMainCategory, renameSplitCategory, validateSplits } from '../utils/splits';
+import { computeSummary } from '../utils/summary';
+import { normalizeTag } from '../utils/tags';
+import {
+  createFixtureAccounts,
+  createFixtureBudgets,
+  createFixtureCategorySettings,
+  createFixtureGoals,
+  createFixtureHousehold,
+  createFixtureRecurringRules,
+  createFixtureTransactions
+} from './fixtures';
+
+// Servidor falso em memória, plugado no axios como adapter.
+// Permite rodar e testar o app sem o backend: basta definir
+// REACT_APP_USE_MOCKS=true (ignorado em builds de produção).
+
+interface MockResult {
+  status: number;
+  data?: unknown;
+}
+
+type MockHandler = (params: string[], config: InternalAxiosRequestConfig) => MockResult;
+
+interface MockRoute {
+  method: string;
+  pattern: RegExp;
+  handler: MockHandler;
+  // Rotas privadas exigem sessão e recebem o userId da sessão como primeiro parâmetro
+  public?: boolean;
+}
+
+const MOCK_LATENCY_MS = 200;
+// Envios de arquivo demoram mais, para a barra de progresso aparecer
+const MOCK_UPLOAD_STEPS = 5;
+const MOCK_UPLOAD_STEP_MS = 250;
+
+// Casas compartilhadas. Quem está numa casa usa o livro dela (transações,
+// orçamentos, metas...), guardado sob o _id da casa; os demais, o próprio.
+const householdStore = new Map<string, Household>();
+// Usuários que já receberam a casa de exemplo (quem sai dela não ganha outra)
+const seededHouseholds = new Set<string>();
+
+const findHousehold = (userId: string): Household | undefined =>
+  Array.from(householdStore.values()).find(h => h.members.some(m => m.userId === userId));
+
+const getUserHousehold = (userId: string): Household | undefined => {
+  if (!seededHouseholds.has(userId) && !findHousehold(userId)) {
+    seededHouseholds.add(userId);
+    const household = createFixtureHousehold(userId);
+    householdStore.set(household._id, household);
+  }
+  return findHousehold(userId);
+};
+
+const ledgerKey = (userId: string): string => getUserHousehold(userId)?._id || userId;
+
+// Transações por livro; cada livro novo recebe uma cópia das fixtures
+const store = new Map<string, Transaction[]>();
+
+const getUserTransactions = (userId: string): Transaction[] => {
+  const key = ledgerKey(userId);
+  if (!store.has(key)) {
+    const partner = getUserHousehold(userId)?.members.find(m => m.userId !== userId);
+    store.set(key, createFixtureTransactions(userId, new Date(), partner?.userId));
+  }
+  return store.get(key) as Transaction[];
+};
+
+const budgetStore = new Map<string, Budget[]>();
+
+const getUserBudgets = (userId: string): Budget[] => {
+  const key = ledgerKey(userId);
+  if (!budgetStore.has(key)) {
+    budgetStore.set(key, createFixtureBudgets());
+  }
+  return budgetStore.get(key) as Budget[];
+};
+
+const recurringStore = new Map<string, RecurringRule[]>();
+
+const getUserRecurringRules = (userId: string): RecurringRule[] => {
+  const key = ledgerKey(userId);
+  if (!recurringStore.has(key)) {
+    recurringStore.set(key, createFixtureRecurringRules());
+  }
+  return recurringStore.get(key) as RecurringRule[];
+};
+
+const goalStore = new Map<string, Goal[]>();
+
+const getUserGoals = (userId: string): Goal[] => {
+  const key = ledgerKey(userId);
+  if (!goalStore.has(key)) {
+    goalStore.set(key, createFixtureGoals());
+  }
+  return goalStore.get(key) as Goal[];
+};
+
+const accountStore = new Map<string, Account[]>();
+
+const getUserAccounts = (userId: string): Account[] => {
+  const key = ledgerKey(userId);
+  if (!accountStore.has(key)) {
+    accountStore.set(key, createFixtureAccounts());
+  }
+  return accountStore.get(key) as Account[];
+};
+
+const categoryStore = new Map<string, CategorySettings[]>();
+
+const getUserCategories = (userId: string): CategorySettings[] => {
+  const key = ledgerKey(userId);
+  if (!categoryStore.has(key)) {
+    categoryStore.set(key, createFixtureCategorySettings());
+  }
+  return categoryStore.get(key) as CategorySettings[];
+};
+
+const ledgerStores: Map<string, unknown>[] = [store, budgetStore, recurringStore, goalStore, accountStore, categoryStore];
+
+// Ao criar uma casa, o livro de quem criou passa a ser o da casa
+const moveLedger = (from: string, to: string) => {
+  ledgerStores.forEach(ledgers => {
+    if (!ledgers.has(from)) return;
+    ledgers.set(to, ledgers.get(from));
+    ledgers.delete(from);
+  });
+};
+
+// Sessões emitidas pelo login via link mágico.
+// Tokens aceitos: "demo" (usuário demo_user), "demo:<userId>" e "expired" (simula link vencido).
+const sessions = new Map<string, Session>();
+const SESSION_DURATION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const authenticate = (config: InternalAxiosRequestConfig): Session | null => {
+  const header = String(config.headers.Authorization || '');
+  const session = sessions.get(header.replace(/^Bearer /, ''));
+  return session && new Date(session.expiresAt).getTime() > Date.now() ? session : null;
+};
+
+// Canal em tempo real do servidor falso: faz o papel do SSE do backend
+type MockEventListener = (event: TransactionEvent) => void;
+
+const eventListeners = new Map<string, Set<MockEventListener>>();
+
+export const subscribeMockEvents = (userId: string, listener: MockEventListener): (() => void) => {
+  if (!eventListeners.has(userId)) eventListeners.set(userId, new Set());
+  const listeners = eventListeners.get(userId) as Set<MockEventListener>;
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Numa casa, todos os membros recebem os eventos do livro
+const emit = (userId: string, event: TransactionEvent) => {
+  const members = findHousehold(userId)?.members.map(m => m.userId) || [userId];
+  members.forEach(member => eventListeners.get(member)?.forEach(listener => listener(event)));
+};
+
+export const resetMockStore = () => {
+  householdStore.clear();
+  seededHouseholds.clear();
+  store.clear();
+  budgetStore.clear();
+  recurringStore.clear();
+  goalStore.clear();
+  accountStore.clear();
+  categoryStore.clear();
+  eventListeners.clear();
+  sessions.clear();
+};
+
+let nextId = 1;
+
+const readBody = <T>(config: InternalAxiosRequestConfig): T =>
+  (typeof config.data === 'string' ? JSON.parse(config.data) : config.data) as T;
+
+const pickInput = (body: TransactionInput): TransactionInput => ({
+  type: body.type,
+  amount: body.amount,
+  description: body.description,
+  category: body.category,
+  createdAt: body.createdAt,
+  accountId: body.accountId || null,
+  toAccountId: body.type === 'transfer' ? body.toAccountId || null : null,
+  installment: body.installment || null,
+  goalId: body.goalId || null,
+  paidBy: body.paidBy || null,
+  shared: body.type === 'expense' && !!body.shared,
+  settlementTo: body.type === 'transfer' ? body.settlementTo || null : null,
+  tags: Array.from(new Set((body.tags || []).map(normalizeTag).filter(Boolean))),
+  splits: body.type !== 'transfer' && body.splits && body.splits.length > 0 ? body.splits : null,
+  recurrenceKey: body.recurrenceKey || null,
+  clientId: body.clientId || null
+});
+
+// Criação repetida: ocorrência recorrente já lançada (outra aba, outro aparelho, outro membro
+// da casa) ou reenvio de uma criação que já tinha chegado
+const findExisting = (userId: string, input: TransactionInput): Transaction | undefined =>
+  getUserTransactions(userId).find(t =>
+    (!!input.recurrenceKey && t.recurrenceKey === input.recurrenceKey) || (!!input.clientId && t.clientId === input.clientId));
+
+// Divisão que não fecha com o total é recusada, como o backend faria
+const invalidSplitsResponse = (input: TransactionInput): MockResult | null => {
+  const error = input.splits ? validateSplits(input.splits, input.amount) : null;
+  return error ? { status: 400, data: { message: error } } : null;
+};
+
+const pickGoalInput = (body: GoalInput): GoalInput => ({
+  name: body.name,
+  targetAmount: body.targetAmount,
+  targetDate: body.targetDate,
+  initialAmount: body.initialAmount || 0
+});
+
+// Arquivo que chegou ao servidor, por upload ou junto de uma mensagem do WhatsApp
+export type MockMedia = Pick<Attachment, 'fileName' | 'contentType' | 'size' | 'url'>;
+
+const createAttachment = (media: MockMedia, source: AttachmentSource): Attachment => ({
+  ...media,
+  _id: `mock-attachment-${nextId++}`,
+  thumbnailUrl: null,
+  uploadedAt: new Date().toISOString(),
+  source
+});
+
+// No navegador o arquivo enviado fica acessível por uma URL local; o jsdom dos testes não tem createObjectURL
+const toLocalUrl = (file: Blob, name: string): string =>
+  typeof URL.createObjectURL === 'function' ? URL.createObjectURL(file) : `mock-file://${encodeURIComponent(name)}`;
+
+const getUploadedFile = (config: InternalAxiosRequestConfig): File | null => {
+  const file = config.data instanceof FormData ? config.data.get('file') : null;
+  return file instanceof File ? file : null;
+};
+
+// Número de WhatsApp com DDI e DDD, só dígitos; vira o userId do membro
+const WHATSAPP_NUMBER = /^\d{12,13}$/;
+
+const householdResult = (userId: string): MockResult => {
+  const household = findHousehold(userId);
+  return household ? { status: 200, data: household } : { status: 204 };
+};
+
+const pickRecurringInput = (body: RecurringRule): Omit<RecurringRule, '_id'> => ({
+  type: body.type,
+  amount: body.amount,
+  description: body.description,
+  category: body.category,
+  frequency: body.frequency,
+  dayOfMonth: body.dayOfMonth,
+  startDate: body.startDate,
+  endDate: body.endDate || null,
+  lastMaterialized: body.lastMaterialized || null
+});
+
+const routes: MockRoute[] = [
+  {
+    method: 'post',
+    pattern: /^\/auth\/magic-link$/,
+    public: true,
+    handler: (_params, config) => {
+      const magicToken = String(readBody<{ token?: string }>(config).token || '');
+      const match = magicToken.match(/^demo(?::(.+))?$/);
+      if (!match) {
+        return { status: magicToken === 'expired' ? 410 : 401, data: { message: 'Link inválido ou expirado' } };
+      }
+      const session: Session = {
+        token: `mock-session-${nextId++}`,
+        userId: match[1] || 'demo_user',
+        expiresAt: new Date(Date.now() + SESSION_DURATION_MS).toISOString()
+      };
+      sessions.set(session.token, session);
+      return { status: 200, data: session };
+    }
+  },
+  {
+    method: 'post',
+    pattern: /^\/auth\/logout$/,
+    public: true,
+    handler: (_params, config) => {
+      const session = authenticate(config);
+      if (session) sessions.delete(session.token);
+      return { status: 204 };
+    }
+  },
+  {
+    method: 'get',
+    pattern: /^\/transactions\/([^/]+)$/,
+    handler: ([userId]) => ({ status: 200, data: getUserTransactions(userId) })
+  },
+  {
+    method: 'get',
+    pattern: /^\/summary\/([^/]+)$/,
+    handler: ([userId]) => ({ status: 200, data: computeSummary(getUserTransactions(userId)) })
+  },
+  {
+    method: 'post',
+    pattern: /^\/transactions\/([^/]+)$/,
+    handler: ([userId], config) => {
+      const input = pickInput(readBody<TransactionInput>(config));
+      const invalid = invalidSplitsResponse(input);
+      if (invalid) return invalid;
+      const existing = findExisting(userId, input);
+      if (existing) return { status: 200, data: existing };
+      const created: Transaction = { ...input, _id: `mock-new-${nextId++}`, userId };
+      getUserTransactions(userId).push(created);
+      emit(userId, { type: 'created', transaction: created });
+      return { status: 201, data: created };
+    }
+  },
+  {
+    method: 'post',
+    pattern: /^\/transactions\/([^/]+)\/bulk$/,
+    handler: ([userId], config) => {
+      // Uma a uma, para recurrenceKey e clientId valerem também dentro do mesmo lote
+      const saved = readBody<{ transactions: TransactionInput[] }>(config).transactions.map(body => {
+        const input = pickInput(body);
+        const existing = findExisting(userId, input);
+        if (existing) return existing;
+        const created: Transaction = { ...input, _id: `mock-new-${nextId++}`, userId };
+        getUserTransactions(userId).push(created);
+        emit(userId, { type: 'created', transaction: created });
+        return created;
+      });
+      return { status: 201, data: saved };
+    }
+  },
+  {
+    method: 'put',
+    pattern: /^\/transactions\/([^/]+)\/([^/]+)$/,
+    handler: ([userId, transactionId], config) => {
+      const transactions = getUserTransactions(userId);
+      const index = transactions.findIndex(t => t._id === transactionId);
+      if (index === -1) {
+        return { status: 404, data: { message: 'Transação não encontrada' } };
+      }
+      const input = pickInput(readBody<TransactionInput>(config));
+      const invalid = invalidSplitsResponse(input);
+      if (invalid) return invalid;
+      // Parcela, chave da recorrência e clientId são definidos na criação; a edição não os troca
+      const { installment, recurrenceKey, clientId } = transactions[index];
+      transactions[index] = {
+        ...transactions[index],
+        ...input,
+        installment: installment || null,
+        recurrenceKey: recurrenceKey || null,
+        clientId: clientId || null
+      };
+      return { status: 200, data: transactions[index] };
+    }
+  },
+  {
+    method: 'delete',
+    pattern: /^\/transactions\/([^/]+)\/([^/]+)$/,
+    handler: ([userId, transactionId]) => {
+      const transactions = getUserTransactions(userId);
+      const index = transactions.findIndex(t => t._id === transactionId);
+      if (index === -1) {
+        return { status: 404, data: { message: 'Transação não encontrada' } };
+      }
+      const [removed] = transactions.splice(index, 1);
+      emit(userId, { type: 'deleted', transactionId: removed._id });
+      return { status: 200, data: removed };
+    }
+  },
+  {
+    method: 'post',
+    pattern: /^\/transactions\/([^/]+)\/([^/]+)\/attachments$/,
+    handler: ([userId, transactionId], config) => {
+      const transaction = getUserTransactions(userId).find(t => t._id === transactionId);
+      if (!transaction) {
+        return { status: 404, data: { message: 'Transação não encontrada' } };
+      }
+      const file = getUploadedFile(config);
+      if (!file) {
+        return { status: 400, data: { message: 'Envie o arquivo no campo "file"' } };
+      }
+      const error = validateAttachmentFile(file);
+      if (error) {
+        const contentType = getAttachmentType(file);
+        const status = !ACCEPTED_ATTACHMENT_TYPES.includes(contentType) ? 415 : file.size > MAX_ATTACHMENT_BYTES ? 413 : 400;
+        return { status, data: { message: error } };
+      }
+      const attachment = createAttachment(
+        { fileName: file.name, contentType: getAttachmentType(file), size: file.size, url: toLocalUrl(file, file.name) },
+        'upload'
+      );
+      transaction.attachments = [...(transaction.attachments || []), attachment];
+      return { status: 201, data: attachment };
+    }
+  },
+  {
+    method: 'delete',
+    pattern: /^\/transactions\/([^/]+)\/([^/]+)\/attachments\/([^/]+)$/,
+    handler: ([userId, transactionId, attachmentId]) => {
+      const transaction = getUserTransactions(userId).find(t => t._id === transactionId);
+      const attachments = transaction?.attachments || [];
+      if (!transaction || !attachments.some(a => a._id === attachmentId)) {
+        return { status: 404, data: { message: 'Anexo não encontrado' } };
+      }
+      transaction.attachments = attachments.filter(a => a._id !== attachmentId);
+      return { status: 204 };
+    }
+  },
+  {
+    method: 'get',
+    pattern: /^\/households\/([^/]+)$/,
+    handler: ([userId]) => {
+      getUserHousehold(userId);
+      return householdResult(userId);
+    }
+  },
+  {
+    method: 'post',
+    pattern: /^\/households\/([^/]+)$/,
+    handler: ([userId], config) => {
+      const { name, memberName } = readBody<{ name?: string; memberName?: string }>(config);
+      if (getUserHousehold(userId)) {
+        return { status: 409, data: { message: 'Você já faz parte de uma casa' } };
+      }
+      if (!name || !memberName) {
+        return { status: 400, data: { message: 'Informe o nome da casa e o seu' } };
+      }
+      const household: Household = {
+        _id: `mock-household-new-${nextId++}`,
+        name,
+        members: [{ userId, name: memberName, phone: null }]
+      };
+      moveLedger(userId, household._id);
+      householdStore.set(household._id, household);
+      return { status: 201, data: household };
+    }
+  },
+  {
+    // O histórico pessoal de quem entra fica de fora: daqui em diante ele lança na casa
+    method: 'post',
+    pattern: /^\/households\/([^/]+)\/members$/,
+    handler: ([userId], config) => {
+      const household = getUserHousehold(userId);
+      if (!household) {
+        return { status: 404, data: { message: 'Você não faz parte de uma casa' } };
+      }
+      const input = readBody<HouseholdMemberInput>(config);
+      const phone = String(input.phone || '').replace(/\D/g, '');
+      if (!input.name || !WHATSAPP_NUMBER.test(phone)) {
+        return { status: 400, data: { message: 'Informe o nome e o WhatsApp com DDI e DDD, ex.: 5511999998888' } };
+      }
+      if (findHousehold(phone)) {
+        return { status: 409, data: { message: 'Este número já faz parte de uma casa' } };
+      }
+      seededHouseholds.add(phone);
+      household.members = [...household.members, { userId: phone, name: input.name, phone }];
+      return { status: 201, data: household };
+    }
+  },
+  {
+    method: 'delete',
+    pattern: /^\/households\/([^/]+)\/members\/([^/]+)$/,
+    handler: ([userId, memberId]) => {
+      const household = getUserHousehold(userId);
+      if (!household || !household.members.some(m => m.userId === memberId)) {
+        return { status: 404, data: { message: 'Membro não encontrado' } };
+      }
+      household.members = household.members.filter(m => m.userId !== memberId);
+      if (household.members.length === 0) householdStore.delete(household._id);
+      return householdResult(userId);
+    }
+  },
+  {
+    method: 'get',
+    pattern: /^\/budgets\/([^/]+)$/,
+    handler: ([userId]) => ({ status: 200, data: getUserBudgets(userId) })
+  },
+  {
+    method: 'put',
+    pattern: /^\/budgets\/([^/]+)\/([^/]+)$/,
+    handler: ([userId, category], config) => {
+      const budget: Budget = { category, limit: readBody<{ limit: number }>(config).limit };
+      budgetStore.set(ledgerKey(userId), [...getUserBudgets(userId).filter(b => b.category !== category), budget]);
+      return { status: 200, data: budget };
+    }
+  },
+  {
+    method: 'delete',
+    pattern: /^\/budgets\/([^/]+)\/([^/]+)$/,
+    handler: ([userId, category]) => {
+      budgetStore.set(ledgerKey(userId), getUserBudgets(userId).filter(b => b.category !== category));
+      return { status: 204 };
+    }
+  },
+  {
+    method: 'get',
+    pattern: /^\/recurring\/([^/]+)$/,
+    handler: ([userId]) => ({ status: 200, data: getUserRecurringRules(userId) })
+  },
+  {
+    method: 'post',
+    pattern: /^\/recurring\/([^/]+)$/,
+    handler: ([userId], config) => {
+      const input = readBody<RecurringRuleInput>(config);
+      const created: RecurringRule = {
+        ...pickRecurringInput({ ...input, _id: '', lastMaterialized: null }),
+        _id: `mock-recurring-new-${nextId++}`
+      };
+      getUserRecurringRules(userId).push(created);
+      return { status: 201, data: created };
+    }
+  },
+  {
+    method: 'put',
+    pattern: /^\/recurring\/([^/]+)\/([^/]+)$/,
+    handler: ([userId, ruleId], config) => {
+      const rules = getUserRecurringRules(userId);
+      const index = rules.findIndex(r => r._id === ruleId);
+      if (index === -1) {
+        return { status: 404, data: { message: 'Regra recorrente não encontrada' } };
+      }
+      rules[index] = { ...pickRecurringInput(readBody<RecurringRule>(config)), _id: ruleId };
+      return { status: 200, data: rules[index] };
+    }
+  },
+  {
+    method: 'delete',
+    pattern: /^\/recurring\/([^/]+)\/([^/]+)$/,
+    handler: ([userId, ruleId]) => {
+      recurringStore.set(ledgerKey(userId), getUserRecurringRules(userId).filter(r => r._id !== ruleId));
+      return { status: 204 };
+    }
+  },
+  {
+    method: 'get',
+    pattern: /^\/goals\/([^/]+)$/,
+    handler: ([userId]) => ({ status: 200, data: getUserGoals(userId) })
+  },
+  {
+    method: 'post',
+    pattern: /^\/goals\/([^/]+)$/,
+    handler: ([userId], config) => {
+      const created: Goal = { ...pickGoalInput(readBody<GoalInput>(config)), _id: `mock-goal-new-${nextId++}` };
+      getUserGoals(userId).push(created);
+      return { status: 201, data: created };
+    }
+  },
+  {
+    method: 'put',
+    pattern: /^\/goals\/([^/]+)\/([^/]+)$/,
+    handler: ([userId, goalId], config) => {
+      const goals = getUserGoals(userId);
+      const index = goals.findIndex(g => g._id === goalId);
+      if (index === -1) {
+        return { status: 404, data: { message: 'Meta não encontrada' } };
+      }
+      goals[index] = { ...pickGoalInput(readBody<GoalInput>(config)), _id: goalId };
+      return { status: 200, data: goals[index] };
+    }
+  },
+  {
+    method: 'delete',
+    pattern: /^\/goals\/([^/]+)\/([^/]+)$/,
+    handler: ([userId, goalId]) => {
+      goalStore.set(ledgerKey(userId), getUserGoals(userId).filter(g => g._id !== goalId));
+      // As contribuições continuam como transações comuns
+      getUserTransactions(userId).forEach(t => {
+        if (t.goalId === goalId) t.goalId = null;
+      });
+      return { status: 204 };
+    }
+  },
+  {
+    method: 'get',
+    pattern: /^\/accounts\/([^/]+)$/,
+    handler: ([userId]) => ({ status: 200, data: getUserAccounts(userId) })
+  },
+  {
+    method: 'post',
+    pattern: /^\/accounts\/([^/]+)$/,
+    handler: ([userId], config) => {
+      const input = readBody<AccountInput>(config);
+      const created: Account = {
+        _id: `mock-account-new-${nextId++}`,
+        name: input.name,
+        kind: input.kind,
+        initialBalance: input.initialBalance,
+        closingDay: input.closingDay || null,
+        dueDay: input.dueDay || null
+      };
+      getUserAccounts(userId).push(created);
+      return { status: 201, data: created };
+    }
+  },
+  {
+    method: 'delete',
+    pattern: /^\/accounts\/([^/]+)\/([^/]+)$/,
+    handler: ([userId, accountId]) => {
+      accountStore.set(ledgerKey(userId), getUserAccounts(userId).filter(a => a._id !== accountId));
+      return { status: 204 };
+    }
+  },
+  {
+    method: 'get',
+    pattern: /^\/categories\/([^/]+)$/,
+    handler: ([userId]) => ({ status: 200, data: getUserCategories(userId) })
+  },
+  {
+    method: 'put',
+    pattern: /^\/categories\/([^/]+)\/([^/]+)$/,
+    handler: ([userId, name], config) => {
+      const body = readBody<CategorySettings>(config);
+      const settings: CategorySettings = {
+        name,
+        color: body.color,
+        icon: body.icon,
+        parent: body.parent || null,
+        keywords: body.keywords || []
+      };
+      categoryStore.set(ledgerKey(userId), [...getUserCategories(userId).filter(s => s.name !== name), settings]);
+      return { status: 200, data: settings };
+    }
+  },
+  {
+    // Renomear (ou juntar) vale para tudo que guarda o nome da categoria
+    method: 'post',
+    pattern: /^\/categories\/([^/]+)\/rename$/,
+    handler: ([userId], config) => {
+      const { from, to } = readBody<{ from: string; to: string }>(config);
+      if (!from || !to) {
+        return { status: 400, data: { message: 'Informe a categoria de origem e a de destino' } };
+      }
+      getUserTransactions(userId).forEach(t => {
+        if (t.category === from) t.category = to;
+        if (t.splits) {
+          // Juntar partes pode mudar qual é a maior
+          t.splits = renameSplitCategory(t.splits, from, to);
+          if (t.splits) t.category = getMainCategory(t.splits);
+        }
+      });
+      const budgets = getUserBudgets(userId);
+      const moved = budgets.find(b => b.category === from);
+      const keepsTarget = budgets.some(b => b.category === to);
+      budgetStore.set(ledgerKey(userId), [
+        ...budgets.filter(b => b.category !== from),
+        ...(moved && !keepsTarget ? [{ ...moved, category: to }] : [])
+      ]);
+      getUserRecurringRules(userId).forEach(r => {
+        if (r.category === from) r.category = to;
+      });
+      categoryStore.set(ledgerKey(userId), renameCategorySettings(getUserCategories(userId), from, to));
+      return { status: 204 };
+    }
+  }
+];
+
+// Simula uma mensagem chegando pelo WhatsApp ("50 no mercado", "apagar mock-3"),
+// como o bot faria no backend de verdade. Uma foto ou PDF enviado com a
+// mensagem (a legenda vira o texto) entra como comprovante da transação.
+export const simulateWhatsAppMessage = (userId: string, text: string, media?: MockMedia): TransactionEvent | null => {
+  const command = parseCommand(text, getKeywordRules(getUserCategories(userId)));
+  if (command?.kind === 'transaction') {
+    const created: Transaction = {
+      ...pickInput({ ...command.draft, createdAt: new Date().toISOString() }),
+      _id: `mock-whatsapp-${nextId++}`,
+      userId,
+      ...(media ? { attachments: [createAttachment(media, 'whatsapp')] } : {})
+    };
+    getUserTransactions(userId).push(created);
+    const event: TransactionEvent = { type: 'created', transaction: created };
+    emit(userId, event);
+    return event;
+  }
+  if (command?.kind === 'delete') {
+    const transactions = getUserTransactions(userId);
+    const index = transactions.findIndex(t => t._id === command.transactionId);
+    if (index === -1) return null;
+    transactions.splice(index, 1);
+    const event: TransactionEvent = { type: 'deleted', transactionId: command.transactionId };
+    emit(userId, event);
+    return event;
+  }
+  return null;
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const resolveRoute = (config: InternalAxiosRequestConfig): MockResult => {
+  const method = (config.method || 'get').toLowerCase();
+  const path = (config.url || '').split('?')[0];
+
+  for (const route of routes) {
+    const match = route.method === method ? path.match(route.pattern) : null;
+    if (match) {
+      const params = match.slice(1).map(decodeURIComponent);
+      if (!route.public) {
+        const session = authenticate(config);
+        if (!session) return { status: 401, data: { message: 'Sessão inválida ou expirada' } };
+        if (params[0] !== session.userId) return { status: 403, data: { message: 'Acesso negado' } };
+      }
+      return route.handler(params, config);
+    }
+  }
+  return { status: 404, data: { message: `Rota não encontrada: ${method.toUpperCase()} ${path}` } };
+};
+
+// Envio de arquivo: reporta o progresso em alguns passos, como o XHR faria
+const simulateUpload = async (config: InternalAxiosRequestConfig): Promise<boolean> => {
+  const file = getUploadedFile(config);
+  if (!file || !config.onUploadProgress) return false;
+  for (let step = 1; step <= MOCK_UPLOAD_STEPS; step++) {
+    await delay(MOCK_UPLOAD_STEP_MS);
+    const loaded = Math.round((file.size * step) / MOCK_UPLOAD_STEPS);
+    config.onUploadProgress({
+      loaded,
+      total: file.size,
+      progress: file.size > 0 ? loaded / file.size : 1,
+      bytes: Math.round(file.size / MOCK_UPLOAD_STEPS),
+      lengthComputable: true,
+      upload: true
+    });
+  }
+  return true;
+};
+
+export const mockAdapter: AxiosAdapter = async (config) => {
+  if (!(await simulateUpload(config))) {
+    await delay(MOCK_LATENCY_MS);
+  }
+
+  const result = resolveRoute(config);
+  const response: AxiosResponse = {
+    data: result.data,
+    status: result.status,
+    statusText: String(result.status),
+    headers: {},
+    config
+  };
+
+  if (result.status >= 400) {
+    throw new AxiosError(
+      `Request failed with status code ${result.status}`,
+      result.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      null,
+      response
+    );
+  }
+  return response;
+};
@@ -0,0 +1,213 @@
+import { AxiosError } from 'axios';
+import { Transaction, TransactionInput } from '../types/finance';
+import { applyQueuedMutations, enqueueMutation, getQueuedMutations, replayQueuedMutations } from './mutationQueue';
+import { createTransaction, deleteTransaction, fetchTransactions, updateTransaction } from './transactionsApi';
+
+jest.mock('./transactionsApi', () => ({
+  createTransaction: jest.fn(),
+  deleteTransaction: jest.fn(),
+  fetchTransactions: jest.fn(),
+  updateTransaction: jest.fn()
+}));
+
+const base: Transaction = {
+  _id: 't1',
+  type: 'expense',
+  amount: 50,
+  description: 'Mercado',
+  category: 'Alimentação',
+  createdAt: '2024-09-10T12:00:00.000Z',
+  userId: 'u1'
+};
+
+const input: TransactionInput = {
+  type: 'expense',
+  amount: 20,
+  description: 'Lanche',
+  category: 'Alimentação',
+  createdAt: '2024-09-11T12:00:00.000Z'
+};
+
+const networkError = () => new AxiosError('Network Error', AxiosError.ERR_NETWORK);
+
+beforeEach(() => {
+  window.localStorage.clear();
+  (fetchTransactions as jest.Mock).mockResolvedValue([base]);
+  (createTransaction as jest.Mock).mockResolvedValue({ ...input, _id: 'server-1', userId: 'u1' });
+  (updateTransaction as jest.Mock).mockResolvedValue(base);
+  (deleteTransaction as jest.Mock).mockResolvedValue(undefined);
+});
+
+describe('enqueueMutation', () => {
+  it('editar ou apagar uma criação pendente só ajusta a fila', () => {
+    enqueueMutation('u1', { kind: 'create', tempId: 'temp-1', input });
+    enqueueMutation('u1', { kind: 'update', transactionId: 'temp-1', input: { ...input, amount: 25 }, base: { ...input, _id: 'temp-1', userId: 'u1' } });
+
+    expect(getQueuedMutations('u1')).toEqual([expect.objectContaining({ kind: 'create', input: { ...input, amount: 25 } })]);
+
+    enqueueMutation('u1', { kind: 'delete', transactionId: 'temp-1', base: { ...input, _id: 'temp-1', userId: 'u1' } });
+    expect(getQueuedMutations('u1')).toEqual([]);
+  });
+});
+
+describe('applyQueuedMutations', () => {
+  it('mostra criações, edições e exclusões pendentes sobre a lista do servidor', () => {
+    enqueueMutation('u1', { kind: 'create', tempId: 'temp-1', input });
+    enqueueMutation('u1', { kind: 'update', transactionId: 't1', input: { ...input, description: 'Feira' }, base });
+
+    const result = applyQueuedMutations([base], getQueuedMutations('u1'), 'u1');
+    expect(result.map(t => [t._id, t.description])).toEqual([['temp-1', 'Lanche'], ['t1', 'Feira']]);
+
+    enqueueMutation('u1', { kind: 'delete', transactionId: 't1', base });
+    expect(applyQueuedMutations([base], getQueuedMutations('u1'), 'u1').map(t => t._id)).toEqual(['temp-1']);
+  });
+});
+
+describe('replayQueuedMutations', () => {
+  it('envia a fila na ordem e a esvazia', async () => {
+    enqueueMutation('u1', { kind: 'create', tempId: 'temp-1', input });
+    enqueueMutation('u1', { kind: 'delete', transactionId: 't1', base });
+
+    const result = await replayQueuedMutations('u1');
+
+    expect(result).toEqual({ applied: 2, conflicts: [] });
+    expect(createTransaction).toHaveBeenCalledWith('u1', { ...input, clientId: 'temp-1' });
+    expect(deleteTransaction).toHaveBeenCalledWith('u1', 't1');
+    expect(getQueuedMutations('u1')).toEqual([]);
+  });
+
+  it('não sobrescreve uma transação que mudou no servidor', async () => {
+    (fetchTransactions as jest.Mock).mockResolvedValue([{ ...base, amount: 80 }]);
+    enqueueMutation('u1', { kind: 'update', transactionId: 't1', input: { ...input, description: 'Feira' }, base });
+
+    const result = await replayQueuedMutations('u1');
+
+    expect(updateTransaction).not.toHaveBeenCalled();
+    expect(result.applied).toBe(0);
+    expect(result.conflicts).toHaveLength(1);
+  });
+
+  it.each<[string, Partial<Transaction>]>([
+    ['tags', { tags: ['viagem'] }],
+    ['divisão por categoria', { splits: [{ category: 'Alimentação', amount: 30 }, { category: 'Lazer', amount: 20 }] }],
+    ['meta', { goalId: 'g1' }],
+    ['quem pagou', { paidBy: 'u2' }],
+    ['despesa da casa', { shared: true }],
+    ['acerto de contas', { settlementTo: 'u2' }],
+    ['parcelamento', { installment: { groupId: 'p1', number: 1, total: 3 } }]
+  ])('também é conflito quando mudou %s', async (_, change) => {
+    (fetchTransactions as jest.Mock).mockResolvedValue([{ ...base, ...change }]);
+    enqueueMutation('u1', { kind: 'update', transactionId: 't1', input: { ...input, description: 'Feira' }, base });
+
+    const result = await replayQueuedMutations('u1');
+
+    expect(updateTransaction).not.toHaveBeenCalled();
+    expect(result.conflicts).toHaveLength(1);
+  });
+
+  it('campo vazio ou em outra ordem de chaves não conta como mudança', async () => {
+    const withSplits = { ...base, splits: [{ category: 'Alimentação', amount: 50 }] };
+    (fetchTransactions as jest.Mock).mockResolvedValue([
+      { ...withSplits, tags: [], goalId: null, shared: false, splits: [{ amount: 50, category: 'Alimentação' }] }
+    ]);
+    enqueueMutation('u1', { kind: 'update', transactionId: 't1', input, base: withSplits });
+
+    const result = await replayQueuedMutations('u1');
+
+    expect(updateTransaction).toHaveBeenCalledTimes(1);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('descarta a edição de algo apagado em outro lugar, e a exclusão repetida sem aviso', async () => {
+    (fetchTransactions as jest.Mock).mockResolvedValue([]);
+    enqueueMutation('u1', { kind: 'update', transactionId: 't1', input, base });
+    enqueueMutation('u1', { kind: 'delete', transactionId: 't1', base });
+
+    const result = await replayQueuedMutations('u1');
+
+    expect(result.conflicts).toEqual(['"Lanche" foi apagada em outro lugar; a edição feita offline foi descartada.']);
+    expect(deleteTransaction).not.toHaveBeenCalled();
+  });
+
+  it('mantém na fila o que não foi enviado quando a conexão cai de novo', async () => {
+    (createTransaction as jest.Mock)
+      .mockResolvedValueOnce({ ...input, _id: 'server-1', userId: 'u1' })
+      .mockRejectedValueOnce(networkError());
+    enqueueMutation('u1', { kind: 'create', tempId: 'temp-1', input });
+    enqueueMutation('u1', { kind: 'create', tempId: 'temp-2', input: { ...input, description: 'Café' } });
+
+    const result = await replayQueuedMutations('u1');
+
+    expect(result.applied).toBe(1);
+    expect(getQueuedMutations('u1')).toEqual([expect.objectContaining({ tempId: 'temp-2' })]);
+  });
+
+  it('reenvia a criação com o mesmo clientId, para o servidor não duplicar', async () => {
+    (createTransaction as jest.Mock).mockRejectedValueOnce(networkError());
+    enqueueMutation('u1', { kind: 'create', tempId: 'temp-1', input });
+
+    await replayQueuedMutations('u1');
+    await replayQueuedMutations('u1');
+
+    expect(createTransaction).toHaveBeenCalledTimes(2);
+    expect((createTransaction as jest.Mock).mock.calls.map(([, sent]) => sent.clientId)).toEqual(['temp-1', 'temp-1']);
+  });
+});
+
+describe('replayQueuedMutations em paralelo', () => {
+  it('dois reenvios ao mesmo tempo enviam cada alteração uma vez só', async () => {
+    enqueueMutation('u1', { kind: 'create', tempId: 'temp-1', input });
+
+    const [first, second] = await Promise.all([replayQueuedMutations('u1'), replayQueuedMutations('u1')]);
+
+    expect(createTransaction).toHaveBeenCalledTimes(1);
+    expect(second).toBe(first);
+    expect(getQueuedMutations('u1')).toEqual([]);
+  });
+
+  it('o que entra na fila durante o reenvio não se perde', async () => {
+    let finishCreate: (value: Transaction) => void = () => undefined;
+    (createTransaction as jest.Mock).mockImplementationOnce(() => new Promise(resolve => { finishCreate = resolve; }));
+    enqueueMutation('u1', { kind: 'create', tempId: 'temp-1', input });
+
+    const replay = replayQueuedMutations('u1');
+    enqueueMutation('u1', { kind: 'create', tempId: 'temp-2', input: { ...input, description: 'Café' } });
+    finishCreate({ ...input, _id: 'server-1', userId: 'u1' });
+    await replay;
+
+    expect(getQueuedMutations('u1')).toEqual([expect.objectContaining({ tempId: 'temp-2' })]);
+  });
+
+  describe('alteração feita enquanto a criação é enviada', () => {
+    const created: Transaction = { ...input, _id: 'server-1', userId: 'u1', clientId: 'temp-1' };
+    const shown: Transaction = { ...input, _id: 'temp-1', userId: 'u1' };
+
+    const replayWith = async (change: () => void) => {
+      let finishCreate: (value: Transaction) => void = () => undefined;
+      (createTransaction as jest.Mock).mockImplementationOnce(() => new Promise(resolve => { finishCreate = resolve; }));
+      (fetchTransactions as jest.Mock).mockResolvedValue([created]);
+      enqueueMutation('u1', { kind: 'create', tempId: 'temp-1', input });
+
+      const replay = replayQueuedMutations('u1');
+      change();
+      finishCreate(created);
+      return replay;
+    };
+
+    it('a edição vai para a transação criada', async () => {
+      const result = await replayWith(() =>
+        enqueueMutation('u1', { kind: 'update', transactionId: 'temp-1', input: { ...input, amount: 25 }, base: shown }));
+
+      expect(updateTransaction).toHaveBeenCalledWith('u1', 'server-1', { ...input, amount: 25 });
+      expect(result).toEqual({ applied: 2, conflicts: [] });
+      expect(getQueuedMutations('u1')).toEqual([]);
+    });
+
+    it('a exclusão apaga a transação criada', async () => {
+      await replayWith(() => enqueueMutation('u1', { kind: 'delete', transactionId: 'temp-1', base: shown }));
+
+      expect(deleteTransaction).toHaveBeenCalledWith('u1', 'server-1');
+      expect(getQueuedMutations('u1')).toEqual([]);
+    });
+  });
+});
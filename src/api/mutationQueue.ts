@@ -0,0 +1,186 @@
+import axios from 'axios';
+import { Transaction, TransactionInput } from '../types/finance';
+import { createTransaction, deleteTransaction, fetchTransactions, updateTransaction } from './transactionsApi';
+
+// Fila de alterações feitas sem conexão. Fica no localStorage e é
+// reenviada, na ordem, quando a conexão volta.
+
+export type QueuedMutation =
+  | { kind: 'create'; id: string; tempId: string; input: TransactionInput }
+  | { kind: 'update'; id: string; transactionId: string; input: TransactionInput; base: Transaction }
+  | { kind: 'delete'; id: string; transactionId: string; base: Transaction };
+
+export interface ReplayResult {
+  applied: number;
+  // Alterações descartadas porque o servidor mudou enquanto estávamos offline
+  conflicts: string[];
+}
+
+const storageKey = (userId: string) => `financeapp:queue:${userId}`;
+
+// Sem resposta do servidor = sem conexão (ou servidor fora do ar); vale enfileirar
+export const isNetworkError = (error: unknown): boolean => axios.isAxiosError(error) && !error.response;
+
+export const getQueuedMutations = (userId: string): QueuedMutation[] => {
+  try {
+    const stored = window.localStorage.getItem(storageKey(userId));
+    return stored ? (JSON.parse(stored) as QueuedMutation[]) : [];
+  } catch (error) {
+    console.error('Fila offline inválida:', error);
+    return [];
+  }
+};
+
+const writeQueue = (userId: string, queue: QueuedMutation[]) => {
+  if (queue.length === 0) {
+    window.localStorage.removeItem(storageKey(userId));
+  } else {
+    window.localStorage.setItem(storageKey(userId), JSON.stringify(queue));
+  }
+};
+
+let nextMutationId = 1;
+
+// Omit aplicado a cada variante da união
+export type NewQueuedMutation = QueuedMutation extends infer M ? (M extends unknown ? Omit<M, 'id'> : never) : never;
+
+// tempIds das criações que o reenvio está mandando agora
+const sendingCreates = new Set<string>();
+
+export const isQueuedCreate = (userId: string, transactionId: string): boolean =>
+  getQueuedMutations(userId).some(m => m.kind === 'create' && m.tempId === transactionId);
+
+// Editar ou apagar algo que ainda está na fila só ajusta a criação pendente. Se ela já está
+// sendo enviada, a alteração entra na fila à parte e passa a apontar para o id do servidor
+// quando a criação termina (ver retargetFollowUps)
+export const enqueueMutation = (userId: string, mutation: NewQueuedMutation) => {
+  const queue = getQueuedMutations(userId);
+  const pendingCreate = mutation.kind !== 'create'
+    ? queue.find(m => m.kind === 'create' && m.tempId === mutation.transactionId && !sendingCreates.has(m.tempId))
+    : undefined;
+
+  if (pendingCreate && mutation.kind === 'update') {
+    writeQueue(userId, queue.map(m => (m === pendingCreate ? { ...pendingCreate, input: mutation.input } : m)));
+    return;
+  }
+  if (pendingCreate && mutation.kind === 'delete') {
+    writeQueue(userId, queue.filter(m => m !== pendingCreate));
+    return;
+  }
+  writeQueue(userId, [...queue, { ...mutation, id: `${Date.now()}-${nextMutationId++}` } as QueuedMutation]);
+};
+
+// Aplica a fila sobre a lista vinda do servidor (ou do cache), para a tela refletir o que está pendente
+export const applyQueuedMutations = (transactions: Transaction[], queue: QueuedMutation[], userId: string): Transaction[] =>
+  queue.reduce((result, mutation) => {
+    if (mutation.kind === 'create') return [{ ...mutation.input, _id: mutation.tempId, userId }, ...result];
+    if (mutation.kind === 'update') {
+      return result.map(t => (t._id === mutation.transactionId ? { ...t, ...mutation.input } : t));
+    }
+    return result.filter(t => t._id !== mutation.transactionId);
+  }, transactions);
+
+// Tudo o que a tela de edição envia. O clientId fica de fora: identifica a criação, não muda depois
+const COMPARED_FIELDS: (keyof TransactionInput)[] = [
+  'type', 'amount', 'description', 'category', 'createdAt', 'accountId', 'toAccountId', 'installment',
+  'goalId', 'paidBy', 'shared', 'settlementTo', 'tags', 'splits', 'recurrenceKey'
+];
+
+// Campo ausente, null, false ou lista vazia contam como iguais; objetos comparados sem depender da ordem das chaves
+const comparable = (value: unknown): unknown => {
+  if (value === undefined || value === null || value === false) return null;
+  if (Array.isArray(value)) return value.length > 0 ? value.map(comparable) : null;
+  if (typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return Object.keys(record)
+      .sort()
+      .reduce<Record<string, unknown>>((result, key) => ({ ...result, [key]: comparable(record[key]) }), {});
+  }
+  return value;
+};
+
+const sameTransaction = (a: Transaction, b: Transaction): boolean =>
+  COMPARED_FIELDS.every(field => JSON.stringify(comparable(a[field])) === JSON.stringify(comparable(b[field])));
+
+// Tira da fila só a alteração já tratada, relendo o localStorage: o que foi
+// enfileirado durante o reenvio continua lá para a próxima vez
+const removeFromQueue = (userId: string, mutationId: string) =>
+  writeQueue(userId, getQueuedMutations(userId).filter(m => m.id !== mutationId));
+
+// Alterações feitas enquanto a criação era enviada: agora apontam para a transação criada,
+// e a base é a versão do servidor. Devolve se havia alguma
+const retargetFollowUps = (userId: string, tempId: string, created: Transaction): boolean => {
+  const queue = getQueuedMutations(userId);
+  const isFollowUp = (m: QueuedMutation) => m.kind !== 'create' && m.transactionId === tempId;
+  if (!queue.some(isFollowUp)) return false;
+  writeQueue(userId, queue.map(m => (isFollowUp(m) ? { ...m, transactionId: created._id, base: created } : m)));
+  return true;
+};
+
+const runReplay = async (userId: string): Promise<ReplayResult> => {
+  const queue = getQueuedMutations(userId);
+  const result: ReplayResult = { applied: 0, conflicts: [] };
+  if (queue.length === 0) return result;
+
+  const needsServerState = queue.some(m => m.kind !== 'create');
+  const serverTransactions = needsServerState ? await fetchTransactions(userId) : [];
+
+  let followUps = false;
+  for (const mutation of queue) {
+    try {
+      if (mutation.kind === 'create') {
+        sendingCreates.add(mutation.tempId);
+        try {
+          // tempId como clientId: se a criação chegou e só a resposta se perdeu, o reenvio não duplica
+          const created = await createTransaction(userId, { ...mutation.input, clientId: mutation.tempId });
+          result.applied++;
+          if (retargetFollowUps(userId, mutation.tempId, created)) followUps = true;
+        } finally {
+          sendingCreates.delete(mutation.tempId);
+        }
+      } else {
+        const current = serverTransactions.find(t => t._id === mutation.transactionId);
+        if (!current) {
+          if (mutation.kind === 'update') {
+            result.conflicts.push(`"${mutation.input.description}" foi apagada em outro lugar; a edição feita offline foi descartada.`);
+          }
+        } else if (!sameTransaction(current, mutation.base)) {
+          result.conflicts.push(`"${current.description}" mudou em outro lugar enquanto você estava offline; mantivemos a versão mais recente.`);
+        } else if (mutation.kind === 'update') {
+          await updateTransaction(userId, mutation.transactionId, mutation.input);
+          result.applied++;
+        } else {
+          await deleteTransaction(userId, mutation.transactionId);
+          result.applied++;
+        }
+      }
+    } catch (error) {
+      if (isNetworkError(error)) return result;
+      console.error('Erro ao reenviar alteração offline:', error);
+      result.conflicts.push('Uma alteração feita offline foi recusada pelo servidor e descartada.');
+    }
+    removeFromQueue(userId, mutation.id);
+  }
+
+  // As alterações redirecionadas não estavam nesta leva e precisam do estado novo do servidor
+  if (!followUps) return result;
+  const next = await runReplay(userId);
+  return { applied: result.applied + next.applied, conflicts: [...result.conflicts, ...next.conflicts] };
+};
+
+// Reenvio em andamento por usuário; quem chamar enquanto isso recebe o mesmo resultado
+const replaysInFlight = new Map<string, Promise<ReplayResult>>();
+
+// Reenvia a fila, um reenvio por vez (o app chama ao abrir e ao voltar a conexão). Conflitos:
+// - edição de algo apagado ou alterado no servidor nesse meio tempo: vale a versão do servidor;
+// - exclusão de algo já apagado: nada a fazer;
+// - exclusão de algo alterado no servidor: mantemos a versão do servidor.
+// Se a conexão cair de novo, o restante continua na fila.
+export const replayQueuedMutations = (userId: string): Promise<ReplayResult> => {
+  const running = replaysInFlight.get(userId);
+  if (running) return running;
+
+  const replay = runReplay(userId).finally(() => replaysInFlight.delete(userId));
+  replaysInFlight.set(userId, replay);
+  return replay;
+};
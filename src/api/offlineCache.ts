@@ -0,0 +1,61 @@
+import { Summary, Transaction } from '../types/finance';
+
+// Cópia local (IndexedDB) das transações e do resumo, mostrada quando não há conexão.
+// Sem IndexedDB (navegação privada antiga, testes) o cache simplesmente não existe.
+
+const DB_NAME = 'financeapp';
+const DB_VERSION = 1;
+const STORE = 'snapshots';
+
+export interface CachedData {
+  transactions: Transaction[];
+  summary: Summary;
+  syncedAt: string; // ISO da última vez em que os dados vieram do servidor
+}
+
+const openDatabase = (): Promise<IDBDatabase | null> =>
+  new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.error('IndexedDB indisponível:', request.error);
+      resolve(null);
+    };
+  });
+
+const runRequest = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T | null> => {
+  const db = await openDatabase();
+  if (!db) return null;
+
+  try {
+    return await new Promise<T | null>(resolve => {
+      const request = operation(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve((request.result as T) ?? null);
+      request.onerror = () => {
+        console.error('Erro no cache offline:', request.error);
+        resolve(null);
+      };
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const readCachedData = (userId: string): Promise<CachedData | null> =>
+  runRequest<CachedData>('readonly', store => store.get(userId));
+
+export const writeCachedData = async (userId: string, data: CachedData): Promise<void> => {
+  await runRequest('readwrite', store => store.put(data, userId));
+};
+
+// Apaga as cópias de todos os usuários (ao sair da conta)
+export const clearCachedData = async (): Promise<void> => {
+  await runRequest('readwrite', store => store.clear());
+};
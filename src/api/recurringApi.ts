@@ -0,0 +1,68 @@
+import { RecurringRule, RecurringRuleInput } from '../types/finance';
+import { apiClient } from './client';
+import { createLocalStore, isMissingEndpoint, shouldUseLocalFallback } from './localStore';
+import { parseRecurringRule, parseRecurringRules } from './validation';
+
+// Regras recorrentes seguem o mesmo esquema dos orçamentos: backend quando
+// disponível, localStorage como reserva (ver localStore).
+
+const { read: readLocalRules, write: writeLocalRules } = createLocalStore<RecurringRule[]>('recurring', parseRecurringRules, [], 'Regras recorrentes locais inválidas:');
+
+const recurringUrl = (userId: string, ruleId?: string) =>
+  `/recurring/${encodeURIComponent(userId)}${ruleId === undefined ? '' : `/${encodeURIComponent(ruleId)}`}`;
+
+const upsertLocalRule = (userId: string, rule: RecurringRule) => {
+  const others = readLocalRules(userId).filter(r => r._id !== rule._id);
+  writeLocalRules(userId, [...others, rule]);
+};
+
+export const fetchRecurringRules = async (userId: string): Promise<RecurringRule[]> => {
+  try {
+    const response = await apiClient.get(recurringUrl(userId));
+    const rules = parseRecurringRules(response.data);
+    writeLocalRules(userId, rules);
+    return rules;
+  } catch (error) {
+    if (!shouldUseLocalFallback(error)) throw error;
+    return readLocalRules(userId);
+  }
+};
+
+export const createRecurringRule = async (userId: string, input: RecurringRuleInput): Promise<RecurringRule> => {
+  let created: RecurringRule;
+  try {
+    const response = await apiClient.post(recurringUrl(userId), input);
+    created = parseRecurringRule(response.data);
+  } catch (error) {
+    if (!isMissingEndpoint(error)) throw error;
+    created = { ...input, _id: `local-${Date.now()}`, lastMaterialized: null };
+  }
+
+  upsertLocalRule(userId, created);
+  return created;
+};
+
+// Atualiza a regra inteira, inclusive lastMaterialized depois de lançar as ocorrências vencidas
+export const updateRecurringRule = async (userId: string, rule: RecurringRule): Promise<RecurringRule> => {
+  let saved = rule;
+  try {
+    const { _id, ...body } = rule;
+    const response = await apiClient.put(recurringUrl(userId, _id), body);
+    saved = parseRecurringRule(response.data);
+  } catch (error) {
+    if (!isMissingEndpoint(error)) throw error;
+  }
+
+  upsertLocalRule(userId, saved);
+  return saved;
+};
+
+export const deleteRecurringRule = async (userId: string, ruleId: string): Promise<void> => {
+  try {
+    await apiClient.delete(recurringUrl(userId, ruleId));
+  } catch (error) {
+    if (!isMissingEndpoint(error)) throw error;
+  }
+
+  writeLocalRules(userId, readLocalRules(userId).filter(r => r._id !== ruleId));
+};
@@ -0,0 +1,31 @@
+// Buscas salvas pelo usuário. São preferências deste aparelho, então ficam só no localStorage.
+
+const MAX_SAVED_SEARCHES = 10;
+
+const storageKey = (userId: string) => `financeapp:saved-searches:${userId}`;
+
+export const getSavedSearches = (userId: string): string[] => {
+  try {
+    const stored = window.localStorage.getItem(storageKey(userId));
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === 'string') : [];
+  } catch (error) {
+    console.error('Buscas salvas inválidas:', error);
+    return [];
+  }
+};
+
+const writeSavedSearches = (userId: string, searches: string[]): string[] => {
+  window.localStorage.setItem(storageKey(userId), JSON.stringify(searches));
+  return searches;
+};
+
+// A mais recente vem primeiro; salvar de novo só traz a busca para o topo
+export const saveSearch = (userId: string, query: string): string[] => {
+  const trimmed = query.trim();
+  const others = getSavedSearches(userId).filter(saved => saved !== trimmed);
+  return writeSavedSearches(userId, [trimmed, ...others].slice(0, MAX_SAVED_SEARCHES));
+};
+
+export const removeSavedSearch = (userId: string, query: string): string[] =>
+  writeSavedSearches(userId, getSavedSearches(userId).filter(saved => saved !== query));
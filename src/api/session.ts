@@ -0,0 +1,40 @@
+import { Session, SessionEndReason } from '../types/auth';
+
+// Guarda a sessão no localStorage e avisa quem estiver ouvindo quando ela termina
+// (ex.: um 401 do servidor no meio do uso).
+
+const STORAGE_KEY = 'financeapp:session';
+
+type SessionEndListener = (reason: SessionEndReason) => void;
+
+const listeners = new Set<SessionEndListener>();
+
+export const isSessionExpired = (session: Session, now: Date = new Date()): boolean =>
+  new Date(session.expiresAt).getTime() <= now.getTime();
+
+export const getSession = (): Session | null => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+    const session = JSON.parse(stored) as Session;
+    return session.token && session.userId && !isSessionExpired(session) ? session : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+export const saveSession = (session: Session) => {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+};
+
+export const endSession = (reason: SessionEndReason) => {
+  window.localStorage.removeItem(STORAGE_KEY);
+  listeners.forEach(listener => listener(reason));
+};
+
+export const onSessionEnd = (listener: SessionEndListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -1,15 +1,44 @@
-import axios from 'axios';
+import { ServerSummary, Transaction, TransactionInput } from '../types/finance';
+import { apiClient } from './client';
+import { parseSummary, parseTransaction, parseTransactions } from './validation';
 
-// Usamos process.env para que a variável de ambiente funcione corretamente
-// com o Create React App e na Vercel.
-const API_URL = process.env.REACT_APP_API_URL;
+export const fetchTransactions = async (userId: string): Promise<Transaction[]> => {
+  const response = await apiClient.get(`/transactions/${encodeURIComponent(userId)}`);
+  return parseTransactions(response.data);
+};
+
+export const fetchSummary = async (userId: string): Promise<ServerSummary> => {
+  const response = await apiClient.get(`/summary/${encodeURIComponent(userId)}`);
+  return parseSummary(response.data);
+};
+
+// Contrato: uma transação com clientId já existente no livro não é criada de novo; o servidor
+// devolve a que já existe. Assim a fila offline pode reenviar uma criação que deu timeout.
+export const createTransaction = async (userId: string, input: TransactionInput): Promise<Transaction> => {
+  const response = await apiClient.post(`/transactions/${encodeURIComponent(userId)}`, input);
+  return parseTransaction(response.data);
+};
+
+// Criação em lote, usada pela importação de extratos e pelas regras recorrentes.
+// Contrato: uma entrada com recurrenceKey ou clientId já existente no livro não é criada
+// de novo; o servidor devolve a transação que já existe no lugar dela.
+export const createTransactions = async (userId: string, inputs: TransactionInput[]): Promise<Transaction[]> => {
+  const response = await apiClient.post(`/transactions/${encodeURIComponent(userId)}/bulk`, { transactions: inputs });
+  return parseTransactions(response.data);
+};
 
-export const fetchTransactions = async (userId: string) => {
-  const response = await axios.get(`${API_URL}/transactions/${userId}`);
-  return response.data;
+export const updateTransaction = async (
+  userId: string,
+  transactionId: string,
+  input: TransactionInput
+): Promise<Transaction> => {
+  const response = await apiClient.put(
+    `/transactions/${encodeURIComponent(userId)}/${encodeURIComponent(transactionId)}`,
+    input
+  );
+  return parseTransaction(response.data);
 };
 
-export const deleteTransaction = async (userId: string, transactionId: string) => {
-  const response = await axios.delete(`${API_URL}/transactions/${userId}/${transactionId}`);
-  return response.data;
-};
\ No newline at end of file
+export const deleteTransaction = async (userId: string, transactionId: string): Promise<void> => {
+  await apiClient.delete(`/transactions/${encodeURIComponent(userId)}/${encodeURIComponent(transactionId)}`);
+};
@@ -0,0 +1,439 @@
+import { Session } from '../types/auth';
+import {
+  Account,
+  Attachment,
+  Budget,
+  CategoryIcon,
+  CategorySettings,
+  Goal,
+  Household,
+  HouseholdMember,
+  Installment,
+  RecurringRule,
+  ServerSummary,
+  Transaction,
+  TransactionSplit
+} from '../types/finance';
+import { CATEGORY_ICON_NAMES } from '../utils/categories';
+
+// Validação em tempo de execução das respostas da API.
+// O TypeScript não garante nada sobre o JSON que chega do servidor,
+// então conferimos o formato antes de entregar os dados aos componentes.
+
+export class InvalidPayloadError extends Error {
+  constructor(message: string) {
+    super(`Resposta inválida da API: ${message}`);
+    this.name = 'InvalidPayloadError';
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const requireString = (raw: Record<string, unknown>, field: string, context: string): string => {
+  const value = raw[field];
+  if (typeof value !== 'string') {
+    throw new InvalidPayloadError(`${context}.${field} deveria ser texto`);
+  }
+  return value;
+};
+
+const requireNumber = (raw: Record<string, unknown>, field: string, context: string): number => {
+  const value = raw[field];
+  if (!isFiniteNumber(value)) {
+    throw new InvalidPayloadError(`${context}.${field} deveria ser numérico`);
+  }
+  return value;
+};
+
+// Texto opcional: ausente ou null viram null
+const optionalString = (raw: Record<string, unknown>, field: string, context: string): string | null => {
+  const value = raw[field];
+  if (value === null || value === undefined) return null;
+  if (typeof value !== 'string') {
+    throw new InvalidPayloadError(`${context}.${field} deveria ser texto`);
+  }
+  return value;
+};
+
+// Dia do mês opcional (1 a 31)
+const optionalDay = (raw: Record<string, unknown>, field: string, context: string): number | null => {
+  const value = raw[field];
+  if (value === null || value === undefined) return null;
+  if (!isFiniteNumber(value) || !Number.isInteger(value) || value < 1 || value > 31) {
+    throw new InvalidPayloadError(`${context}.${field} deveria ser um dia de 1 a 31`);
+  }
+  return value;
+};
+
+const optionalInstallment = (raw: Record<string, unknown>): Installment | null => {
+  const value = raw.installment;
+  if (value === null || value === undefined) return null;
+  if (!isRecord(value)) {
+    throw new InvalidPayloadError('transaction.installment deveria ser um objeto');
+  }
+
+  const number = requireNumber(value, 'number', 'transaction.installment');
+  const total = requireNumber(value, 'total', 'transaction.installment');
+  if (!Number.isInteger(number) || !Number.isInteger(total) || number < 1 || number > total) {
+    throw new InvalidPayloadError(`transaction.installment inválida: ${number}/${total}`);
+  }
+  return { groupId: requireString(value, 'groupId', 'transaction.installment'), number, total };
+};
+
+export const parseAttachment = (raw: unknown): Attachment => {
+  if (!isRecord(raw)) {
+    throw new InvalidPayloadError('anexo não é um objeto');
+  }
+
+  const source = raw.source;
+  if (source !== 'upload' && source !== 'whatsapp') {
+    throw new InvalidPayloadError(`attachment.source desconhecido: ${String(source)}`);
+  }
+
+  return {
+    _id: requireString(raw, '_id', 'attachment'),
+    fileName: requireString(raw, 'fileName', 'attachment'),
+    contentType: requireString(raw, 'contentType', 'attachment'),
+    size: requireNumber(raw, 'size', 'attachment'),
+    url: requireString(raw, 'url', 'attachment'),
+    thumbnailUrl: optionalString(raw, 'thumbnailUrl', 'attachment'),
+    uploadedAt: requireString(raw, 'uploadedAt', 'attachment'),
+    source
+  };
+};
+
+// Lista opcional: transações sem comprovante podem vir sem o campo
+const optionalAttachments = (raw: Record<string, unknown>): Attachment[] | undefined => {
+  const value = raw.attachments;
+  if (value === null || value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    throw new InvalidPayloadError('transaction.attachments deveria ser uma lista');
+  }
+  return value.map(parseAttachment);
+};
+
+// Tags opcionais: transações antigas vêm sem o campo
+const optionalTags = (raw: Record<string, unknown>): string[] | undefined => {
+  const value = raw.tags;
+  if (value === null || value === undefined) return undefined;
+  if (!Array.isArray(value) || value.some(tag => typeof tag !== 'string')) {
+    throw new InvalidPayloadError('transaction.tags deveria ser uma lista de textos');
+  }
+  return value;
+};
+
+// Divisão entre categorias; ausente vira null (transação numa categoria só)
+const optionalSplits = (raw: Record<string, unknown>): TransactionSplit[] | null => {
+  const value = raw.splits;
+  if (value === null || value === undefined) return null;
+  if (!Array.isArray(value)) {
+    throw new InvalidPayloadError('transaction.splits deveria ser uma lista');
+  }
+  return value.map(split => {
+    if (!isRecord(split)) {
+      throw new InvalidPayloadError('transaction.splits deveria conter objetos');
+    }
+    return {
+      category: requireString(split, 'category', 'transaction.splits'),
+      amount: requireNumber(split, 'amount', 'transaction.splits')
+    };
+  });
+};
+
+// Objeto { categoria: valor }
+const requireAmountMap = (raw: Record<string, unknown>, field: string, context: string): Record<string, number> => {
+  const value = raw[field];
+  if (!isRecord(value)) {
+    throw new InvalidPayloadError(`${context}.${field} deveria ser um objeto`);
+  }
+
+  const result: Record<string, number> = {};
+  Object.entries(value).forEach(([key, amount]) => {
+    if (!isFiniteNumber(amount)) {
+      throw new InvalidPayloadError(`${context}.${field}.${key} deveria ser numérico`);
+    }
+    result[key] = amount;
+  });
+  return result;
+};
+
+// Mesmo formato, mas ausente ou null vira undefined
+const optionalAmountMap = (raw: Record<string, unknown>, field: string, context: string): Record<string, number> | undefined =>
+  raw[field] === null || raw[field] === undefined ? undefined : requireAmountMap(raw, field, context);
+
+export const parseTransaction = (raw: unknown): Transaction => {
+  if (!isRecord(raw)) {
+    throw new InvalidPayloadError('transação não é um objeto');
+  }
+
+  const type = raw.type;
+  if (type !== 'income' && type !== 'expense' && type !== 'transfer') {
+    throw new InvalidPayloadError(`transaction.type desconhecido: ${String(type)}`);
+  }
+
+  const createdAt = requireString(raw, 'createdAt', 'transaction');
+  if (Number.isNaN(new Date(createdAt).getTime())) {
+    throw new InvalidPayloadError(`transaction.createdAt não é uma data: ${createdAt}`);
+  }
+
+  return {
+    _id: requireString(raw, '_id', 'transaction'),
+    type,
+    amount: requireNumber(raw, 'amount', 'transaction'),
+    description: requireString(raw, 'description', 'transaction'),
+    category: requireString(raw, 'category', 'transaction'),
+    createdAt,
+    userId: requireString(raw, 'userId', 'transaction'),
+    accountId: optionalString(raw, 'accountId', 'transaction'),
+    toAccountId: optionalString(raw, 'toAccountId', 'transaction'),
+    installment: optionalInstallment(raw),
+    goalId: optionalString(raw, 'goalId', 'transaction'),
+    attachments: optionalAttachments(raw),
+    paidBy: optionalString(raw, 'paidBy', 'transaction'),
+    shared: raw.shared === true,
+    settlementTo: optionalString(raw, 'settlementTo', 'transaction'),
+    tags: optionalTags(raw),
+    splits: optionalSplits(raw),
+    recurrenceKey: optionalString(raw, 'recurrenceKey', 'transaction'),
+    clientId: optionalString(raw, 'clientId', 'transaction')
+  };
+};
+
+export const parseTransactions = (raw: unknown): Transaction[] => {
+  if (!Array.isArray(raw)) {
+    throw new InvalidPayloadError('a lista de transações não é um array');
+  }
+  return raw.map(parseTransaction);
+};
+
+// Os totais por tipo são opcionais (ver completeSummary)
+export const parseSummary = (raw: unknown): ServerSummary => {
+  if (!isRecord(raw)) {
+    throw new InvalidPayloadError('resumo não é um objeto');
+  }
+
+  return {
+    totalIncome: requireNumber(raw, 'totalIncome', 'summary'),
+    totalExpenses: requireNumber(raw, 'totalExpenses', 'summary'),
+    balance: requireNumber(raw, 'balance', 'summary'),
+    categorySummary: requireAmountMap(raw, 'categorySummary', 'summary'),
+    expenseCategorySummary: optionalAmountMap(raw, 'expenseCategorySummary', 'summary'),
+    incomeCategorySummary: optionalAmountMap(raw, 'incomeCategorySummary', 'summary'),
+    transactionCount: requireNumber(raw, 'transactionCount', 'summary')
+  };
+};
+
+export const parseBudget = (raw: unknown): Budget => {
+  if (!isRecord(raw)) {
+    throw new InvalidPayloadError('orçamento não é um objeto');
+  }
+  return {
+    category: requireString(raw, 'category', 'budget'),
+    limit: requireNumber(raw, 'limit', 'budget')
+  };
+};
+
+export const parseBudgets = (raw: unknown): Budget[] => {
+  if (!Array.isArray(raw)) {
+    throw new InvalidPayloadError('a lista de orçamentos não é um array');
+  }
+  return raw.map(parseBudget);
+};
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export const parseCategorySettings = (raw: unknown): CategorySettings => {
+  if (!isRecord(raw)) {
+    throw new InvalidPayloadError('categoria não é um objeto');
+  }
+
+  const color = requireString(raw, 'color', 'category');
+  if (!HEX_COLOR.test(color)) {
+    throw new InvalidPayloadError(`category.color inválida: ${color}`);
+  }
+  const keywords = raw.keywords;
+  if (!Array.isArray(keywords) || keywords.some(k => typeof k !== 'string')) {
+    throw new InvalidPayloadError('category.keywords deveria ser uma lista de textos');
+  }
+  // Ícone que esta versão do app não conhece vira o genérico, sem derrubar a tela
+  const icon = requireString(raw, 'icon', 'category');
+
+  return {
+    name: requireString(raw, 'name', 'category'),
+    color,
+    icon: CATEGORY_ICON_NAMES.includes(icon as CategoryIcon) ? (icon as CategoryIcon) : 'tag',
+    parent: optionalString(raw, 'parent', 'category'),
+    keywords
+  };
+};
+
+export const parseCategorySettingsList = (raw: unknown): CategorySettings[] => {
+  if (!Array.isArray(raw)) {
+    throw new InvalidPayloadError('a lista de categorias não é um array');
+  }
+  return raw.map(parseCategorySettings);
+};
+
+const ACCOUNT_KINDS = ['checking', 'savings', 'cash', 'credit_card'];
+
+export const parseAccount = (raw: unknown): Account => {
+  if (!isRecord(raw)) {
+    throw new InvalidPayloadError('conta não é um objeto');
+  }
+
+  const kind = raw.kind;
+  if (typeof kind !== 'string' || !ACCOUNT_KINDS.includes(kind)) {
+    throw new InvalidPayloadError(`account.kind desconhecido: ${String(kind)}`);
+  }
+
+  return {
+    _id: requireString(raw, '_id', 'account'),
+    name: requireString(raw, 'name', 'account'),
+    kind: kind as Account['kind'],
+    initialBalance: requireNumber(raw, 'initialBalance', 'account'),
+    closingDay: optionalDay(raw, 'closingDay', 'account'),
+    dueDay: optionalDay(raw, 'dueDay', 'account')
+  };
+};
+
+export const parseAccounts = (raw: unknown): Account[] => {
+  if (!Array.isArray(raw)) {
+    throw new InvalidPayloadError('a lista de contas não é um array');
+  }
+  return raw.map(parseAccount);
+};
+
+const DATE_INPUT = /^\d{4}-\d{2}-\d{2}$/;
+
+// Data no formato yyyy-mm-dd; null é aceito quando o campo é opcional
+const requireDateInput = (raw: Record<string, unknown>, field: string, context: string, optional = false): string | null => {
+  const value = raw[field];
+  if (optional && (value === null || value === undefined)) return null;
+  if (typeof value !== 'string' || !DATE_INPUT.test(value)) {
+    throw new InvalidPayloadError(`${context}.${field} deveria ser uma data yyyy-mm-dd`);
+  }
+  return value;
+};
+
+export const parseRecurringRule = (raw: unknown): RecurringRule => {
+  if (!isRecord(raw)) {
+    throw new InvalidPayloadError('regra recorrente não é um objeto');
+  }
+
+  const type = raw.type;
+  if (type !== 'income' && type !== 'expense') {
+    throw new InvalidPayloadError(`recurring.type desconhecido: ${String(type)}`);
+  }
+
+  const frequency = raw.frequency;
+  if (frequency !== 'monthly' && frequency !== 'quarterly' && frequency !== 'yearly') {
+    throw new InvalidPayloadError(`recurring.frequency desconhecida: ${String(frequency)}`);
+  }
+
+  const dayOfMonth = requireNumber(raw, 'dayOfMonth', 'recurring');
+  if (!Number.isInteger(dayOfMonth) || dayOfMonth < 1 || dayOfMonth > 31) {
+    throw new InvalidPayloadError(`recurring.dayOfMonth fora do intervalo: ${dayOfMonth}`);
+  }
+
+  return {
+    _id: requireString(raw, '_id', 'recurring'),
+    type,
+    amount: requireNumber(raw, 'amount', 'recurring'),
+    description: requireString(raw, 'description', 'recurring'),
+    category: requireString(raw, 'category', 'recurring'),
+    frequency,
+    dayOfMonth,
+    startDate: requireDateInput(raw, 'startDate', 'recurring') as string,
+    endDate: requireDateInput(raw, 'endDate', 'recurring', true),
+    lastMaterialized: requireDateInput(raw, 'lastMaterialized', 'recurring', true)
+  };
+};
+
+export const parseRecurringRules = (raw: unknown): RecurringRule[] => {
+  if (!Array.isArray(raw)) {
+    throw new InvalidPayloadError('a lista de regras recorrentes não é um array');
+  }
+  return raw.map(parseRecurringRule);
+};
+
+export const parseGoal = (raw: unknown): Goal => {
+  if (!isRecord(raw)) {
+    throw new InvalidPayloadError('meta não é um objeto');
+  }
+
+  const targetAmount = requireNumber(raw, 'targetAmount', 'goal');
+  if (targetAmount <= 0) {
+    throw new InvalidPayloadError(`goal.targetAmount deveria ser positivo: ${targetAmount}`);
+  }
+
+  return {
+    _id: requireString(raw, '_id', 'goal'),
+    name: requireString(raw, 'name', 'goal'),
+    targetAmount,
+    targetDate: requireDateInput(raw, 'targetDate', 'goal') as string,
+    initialAmount: requireNumber(raw, 'initialAmount', 'goal')
+  };
+};
+
+export const parseGoals = (raw: unknown): Goal[] => {
+  if (!Array.isArray(raw)) {
+    throw new InvalidPayloadError('a lista de metas não é um array');
+  }
+  return raw.map(parseGoal);
+};
+
+const parseHouseholdMember = (raw: unknown): HouseholdMember => {
+  if (!isRecord(raw)) {
+    throw new InvalidPayloadError('membro da casa não é um objeto');
+  }
+
+  return {
+    userId: requireString(raw, 'userId', 'household.member'),
+    name: requireString(raw, 'name', 'household.member'),
+    phone: optionalString(raw, 'phone', 'household.member')
+  };
+};
+
+export const parseHousehold = (raw: unknown): Household => {
+  if (!isRecord(raw)) {
+    throw new InvalidPayloadError('casa não é um objeto');
+  }
+  if (!Array.isArray(raw.members) || raw.members.length === 0) {
+    throw new InvalidPayloadError('household.members deveria ser uma lista com ao menos um membro');
+  }
+
+  return {
+    _id: requireString(raw, '_id', 'household'),
+    name: requireString(raw, 'name', 'household'),
+    members: raw.members.map(parseHouseholdMember)
+  };
+};
+
+export const parseSession = (raw: unknown): Session => {
+  if (!isRecord(raw)) {
+    throw new InvalidPayloadError('sessão não é um objeto');
+  }
+
+  const expiresAt = requireString(raw, 'expiresAt', 'session');
+  if (Number.isNaN(new Date(expiresAt).getTime())) {
+    throw new InvalidPayloadError(`session.expiresAt não é uma data: ${expiresAt}`);
+  }
+
+  return {
+    token: requireString(raw, 'token', 'session'),
+    userId: requireString(raw, 'userId', 'session'),
+    expiresAt
+  };
+};
+
+// Ticket de uso único para abrir o canal de eventos
+export const parseStreamTicket = (raw: unknown): string => {
+  if (!isRecord(raw)) {
+    throw new InvalidPayloadError('ticket não é um objeto');
+  }
+  return requireString(raw, 'ticket', 'events');
+};
@@ -0,0 +1,82 @@
+import { DollarSign, MessageCircle, RefreshCw } from 'lucide-react';
+
+export type AccessReason = 'missing' | 'invalid-link' | 'expired' | 'logout' | 'unavailable';
+
+interface AccessScreenProps {
+  reason: AccessReason;
+  onRetry?: () => void;
+}
+
+const MESSAGES: Record<AccessReason, { title: string; description: string }> = {
+  missing: {
+    title: 'Acesso Negado',
+    description: 'Para acessar seu dashboard, você precisa solicitar o link pelo WhatsApp.'
+  },
+  'invalid-link': {
+    title: 'Link inválido ou expirado',
+    description: 'Os links de acesso valem por pouco tempo e só podem ser usados uma vez. Peça um novo pelo WhatsApp.'
+  },
+  expired: {
+    title: 'Sessão expirada',
+    description: 'Por segurança, sua sessão foi encerrada. Peça um novo link pelo WhatsApp para continuar.'
+  },
+  logout: {
+    title: 'Você saiu',
+    description: 'Sua sessão foi encerrada neste aparelho. Para voltar, peça um novo link pelo WhatsApp.'
+  },
+  unavailable: {
+    title: 'Não foi possível entrar',
+    description: 'O servidor não respondeu. Verifique sua conexão e tente novamente.'
+  }
+};
+
+// Número do WhatsApp do bot (opcional) para abrir a conversa já com "dashboard" digitado
+const WHATSAPP_NUMBER = process.env.REACT_APP_WHATSAPP_NUMBER;
+
+const AccessScreen: React.FC<AccessScreenProps> = ({ reason, onRetry }) => {
+  const { title, description } = MESSAGES[reason];
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-gray-900 text-white p-4 text-center">
+      <div className="bg-gray-800 rounded-2xl shadow-2xl p-8 max-w-md mx-auto">
+        <div className="bg-red-600 p-4 rounded-full w-20 h-20 mx-auto mb-6 flex items-center justify-center">
+          <DollarSign className="h-10 w-10 text-white" />
+        </div>
+        <h1 className="text-2xl font-bold text-white mb-3">{title}</h1>
+        <p className="text-gray-400 mb-6">{description}</p>
+
+        {reason === 'unavailable' && onRetry ? (
+          <button
+            onClick={onRetry}
+            className="inline-flex items-center space-x-2 px-4 py-2 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-500 transition-colors"
+          >
+            <RefreshCw className="h-4 w-4" />
+            <span>Tentar novamente</span>
+          </button>
+        ) : (
+          <div className="bg-gradient-to-r from-blue-900 to-blue-800 rounded-xl p-6 border border-blue-700">
+            <h3 className="text-lg font-semibold text-blue-100 mb-3 flex items-center justify-center">
+              <MessageCircle className="h-5 w-5 mr-2" />
+              Como obter o link?
+            </h3>
+            <p className="text-sm text-blue-200">
+              Envie a mensagem <strong>"dashboard"</strong> para o seu número do Twilio no WhatsApp.
+              Você receberá um link exclusivo e seguro para acessar seus dados.
+            </p>
+            {WHATSAPP_NUMBER && (
+              <a
+                href={`https://wa.me/${WHATSAPP_NUMBER}?text=dashboard`}
+                className="mt-4 inline-flex items-center space-x-2 bg-green-600 hover:bg-green-500 text-white px-4 py-2 rounded-full font-medium transition-colors"
+              >
+                <MessageCircle className="h-4 w-4" />
+                <span>Pedir novo link no WhatsApp</span>
+              </a>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AccessScreen;
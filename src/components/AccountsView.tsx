@@ -0,0 +1,228 @@
+import { useMemo, useState } from 'react';
+import { Banknote, CreditCard, Landmark, PiggyBank, Plus, Trash2, Wallet } from 'lucide-react';
+import { useConfirm } from '../context/ConfirmContext';
+import { useFinance } from '../context/FinanceContext';
+import { AccountKind } from '../types/finance';
+import { ACCOUNT_KIND_LABELS, getAccountBalances } from '../utils/accounts';
+import { formatCurrency, parseBRLAmount } from '../utils/currency';
+
+const KIND_ICONS: Record<AccountKind, React.ElementType> = {
+  checking: Landmark,
+  savings: PiggyBank,
+  cash: Banknote,
+  credit_card: CreditCard
+};
+
+const inputClassName = 'px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const AccountsView: React.FC = () => {
+  const { accounts, transactions, goTo, createAccount, deleteAccount } = useFinance();
+  const confirm = useConfirm();
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<AccountKind>('checking');
+  const [initialBalance, setInitialBalance] = useState('');
+  const [closingDay, setClosingDay] = useState('');
+  const [dueDay, setDueDay] = useState('');
+  const [error, setError] = useState('');
+
+  const balances = useMemo(() => getAccountBalances(accounts, transactions), [accounts, transactions]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // Saldo inicial em branco vale zero; aceita negativo para cartão ou cheque especial
+    const trimmed = initialBalance.trim();
+    const negative = trimmed.startsWith('-');
+    const parsed = trimmed ? parseBRLAmount(negative ? trimmed.slice(1) : trimmed) : 0;
+
+    if (!name.trim()) {
+      setError('Informe o nome da conta');
+      return;
+    }
+    if (parsed === null) {
+      setError('Informe um saldo válido, ex.: 1.500,00');
+      return;
+    }
+
+    const isCard = kind === 'credit_card';
+    const closing = Number(closingDay);
+    const due = Number(dueDay);
+    if (isCard && (!Number.isInteger(closing) || closing < 1 || closing > 31 || !Number.isInteger(due) || due < 1 || due > 31)) {
+      setError('Informe os dias de fechamento e vencimento do cartão (1 a 31)');
+      return;
+    }
+
+    createAccount({
+      name: name.trim(),
+      kind,
+      initialBalance: negative ? -parsed : parsed,
+      closingDay: isCard ? closing : null,
+      dueDay: isCard ? due : null
+    });
+    setName('');
+    setKind('checking');
+    setInitialBalance('');
+    setClosingDay('');
+    setDueDay('');
+    setError('');
+  };
+
+  const handleDelete = async (accountId: string, accountName: string) => {
+    const confirmed = await confirm({
+      title: `Remover a conta "${accountName}"?`,
+      message: 'As transações dela continuam, mas ficam sem conta.',
+      confirmLabel: 'Remover',
+      destructive: true
+    });
+    if (confirmed) deleteAccount(accountId);
+  };
+
+  return (
+    <div className="mb-6">
+      <div className={`rounded-xl p-4 border mb-6 ${
+        balances.total >= 0 ? 'bg-green-900/30 border-green-700' : 'bg-red-900/40 border-red-700'
+      }`}>
+        <p className="text-sm text-gray-300">Saldo somado das contas</p>
+        <p className={`text-2xl font-bold ${balances.total >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+          {formatCurrency(balances.total)}
+        </p>
+        <p className="text-xs text-gray-400 mt-1">
+          Transferências entre contas não mudam o total nem entram como receita ou despesa
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="bg-gray-800 rounded-xl shadow-lg p-4 mb-6">
+        <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+          <div className="w-2 h-6 bg-cyan-500 rounded-full mr-3"></div>
+          Nova Conta
+        </h3>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <input
+            type="text"
+            placeholder="Nome (ex.: Nubank)"
+            value={name}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+            className={inputClassName}
+            aria-label="Nome da conta"
+          />
+          <select
+            value={kind}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setKind(e.target.value as AccountKind)}
+            className={inputClassName}
+            aria-label="Tipo de conta"
+          >
+            {(Object.keys(ACCOUNT_KIND_LABELS) as AccountKind[]).map(option => (
+              <option key={option} value={option}>{ACCOUNT_KIND_LABELS[option]}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            inputMode="decimal"
+            placeholder="Saldo inicial (R$)"
+            value={initialBalance}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setInitialBalance(e.target.value)}
+            className={inputClassName}
+            aria-label="Saldo inicial"
+          />
+          {kind === 'credit_card' && (
+            <>
+              <input
+                type="number"
+                min={1}
+                max={31}
+                placeholder="Dia do fechamento"
+                value={closingDay}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setClosingDay(e.target.value)}
+                className={inputClassName}
+                aria-label="Dia do fechamento"
+              />
+              <input
+                type="number"
+                min={1}
+                max={31}
+                placeholder="Dia do vencimento"
+                value={dueDay}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDueDay(e.target.value)}
+                className={inputClassName}
+                aria-label="Dia do vencimento"
+              />
+            </>
+          )}
+        </div>
+        <div className="flex items-center justify-end space-x-3 mt-4">
+          {error && <p className="text-xs text-red-400 mr-auto">{error}</p>}
+          <button
+            type="submit"
+            className="flex items-center justify-center space-x-2 px-4 py-2 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-500 transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Adicionar</span>
+          </button>
+        </div>
+      </form>
+
+      {accounts.length === 0 ? (
+        <div className="bg-gray-800 rounded-xl shadow-lg p-8 text-center text-gray-400">
+          <div className="bg-gray-700 rounded-full w-16 h-16 flex items-center justify-center mx-auto mb-4">
+            <Wallet className="h-8 w-8 opacity-50" />
+          </div>
+          <p className="text-lg font-medium mb-2">Nenhuma conta cadastrada</p>
+          <p className="text-sm">Cadastre conta corrente, carteira e poupança para ver o saldo de cada uma</p>
+        </div>
+      ) : (
+        <div className="bg-gray-800 rounded-xl shadow-lg divide-y divide-gray-700">
+          {balances.accounts.map(({ account, balance }) => {
+            const Icon = KIND_ICONS[account.kind];
+            return (
+              <div key={account._id} className="p-4 flex items-center justify-between">
+                <button
+                  onClick={() => goTo('transactions', { account: account._id })}
+                  className="flex items-center space-x-3 min-w-0 flex-1 text-left"
+                  title="Ver transações da conta"
+                >
+                  <div className="flex-shrink-0 w-10 h-10 rounded-xl flex items-center justify-center bg-cyan-900 text-cyan-400">
+                    <Icon className="h-5 w-5" />
+                  </div>
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-white truncate">{account.name}</p>
+                    <p className="text-xs text-gray-400">
+                      {ACCOUNT_KIND_LABELS[account.kind]}
+                      {account.kind === 'credit_card' && account.closingDay && ` · fecha dia ${account.closingDay}`}
+                    </p>
+                  </div>
+                </button>
+                <div className="flex items-center space-x-2 flex-shrink-0 ml-4">
+                  <span className={`font-bold ${balance >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                    {formatCurrency(balance)}
+                  </span>
+                  <button
+                    onClick={() => handleDelete(account._id, account.name)}
+                    className="p-1 text-red-500 hover:text-red-400"
+                    title="Remover conta"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+          {balances.unassigned !== 0 && (
+            <div className="p-4 flex items-center justify-between text-gray-400">
+              <div className="flex items-center space-x-3">
+                <div className="flex-shrink-0 w-10 h-10 rounded-xl flex items-center justify-center bg-gray-700">
+                  <Wallet className="h-5 w-5" />
+                </div>
+                <div>
+                  <p className="text-sm font-medium">Sem conta</p>
+                  <p className="text-xs">Lançamentos feitos sem escolher uma conta</p>
+                </div>
+              </div>
+              <span className="font-bold ml-4">{formatCurrency(balances.unassigned)}</span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AccountsView;
@@ -0,0 +1,58 @@
+import { render, screen } from '@testing-library/react';
+import { AxiosError, AxiosResponse } from 'axios';
+import { MemoryRouter } from 'react-router-dom';
+import { exchangeMagicLink } from '../api/authApi';
+import { saveSession } from '../api/session';
+import { ROUTER_FUTURE } from '../routes';
+import AuthGate from './AuthGate';
+
+jest.mock('../api/authApi', () => ({ exchangeMagicLink: jest.fn() }));
+
+const renderGate = (url = '/') =>
+  render(
+    <MemoryRouter initialEntries={[url]} future={ROUTER_FUTURE}>
+      <AuthGate>{session => <p>Olá, {session.userId}</p>}</AuthGate>
+    </MemoryRouter>
+  );
+
+const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000).toISOString();
+
+beforeEach(() => {
+  window.localStorage.clear();
+});
+
+describe('AuthGate', () => {
+  test('sem link e sem sessão mostra o acesso negado', async () => {
+    renderGate();
+
+    expect(await screen.findByRole('heading', { name: 'Acesso Negado' })).toBeInTheDocument();
+    expect(screen.queryByText(/Olá/)).not.toBeInTheDocument();
+    expect(exchangeMagicLink).not.toHaveBeenCalled();
+  });
+
+  test('sessão vencida no aparelho também é negada', async () => {
+    saveSession({ token: 'antigo', userId: 'u1', expiresAt: hoursFromNow(-1) });
+    renderGate();
+
+    expect(await screen.findByRole('heading', { name: 'Acesso Negado' })).toBeInTheDocument();
+  });
+
+  test('link recusado pelo servidor mostra link inválido', async () => {
+    const response = { status: 401 } as AxiosResponse;
+    (exchangeMagicLink as jest.Mock).mockRejectedValue(
+      new AxiosError('Unauthorized', AxiosError.ERR_BAD_REQUEST, undefined, undefined, response)
+    );
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    renderGate('/?token=usado');
+
+    expect(await screen.findByRole('heading', { name: 'Link inválido ou expirado' })).toBeInTheDocument();
+    expect(exchangeMagicLink).toHaveBeenCalledWith('usado');
+  });
+
+  test('sessão válida libera o conteúdo', async () => {
+    saveSession({ token: 'abc', userId: 'u1', expiresAt: hoursFromNow(1) });
+    renderGate();
+
+    expect(await screen.findByText('Olá, u1')).toBeInTheDocument();
+  });
+});
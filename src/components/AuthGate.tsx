@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useState } from 'react';
+import axios from 'axios';
+import { useSearchParams } from 'react-router-dom';
+import { exchangeMagicLink } from '../api/authApi';
+import { endSession, getSession, onSessionEnd } from '../api/session';
+import { Session } from '../types/auth';
+import AccessScreen, { AccessReason } from './AccessScreen';
+
+interface AuthGateProps {
+  children: (session: Session) => React.ReactNode;
+}
+
+type AuthState =
+  | { status: 'checking' }
+  | { status: 'authenticated'; session: Session }
+  | { status: 'denied'; reason: AccessReason };
+
+// setTimeout não aceita atrasos maiores que ~24,8 dias
+const MAX_TIMEOUT_MS = 2147483647;
+
+// Parâmetros do link mágico (e o antigo ?userId=) que não devem ficar no histórico
+const MAGIC_LINK_PARAMS = ['token', 'userId'];
+
+const AuthGate: React.FC<AuthGateProps> = ({ children }) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [state, setState] = useState<AuthState>({ status: 'checking' });
+  const [magicToken] = useState(() => searchParams.get('token'));
+
+  const authenticate = useCallback(async () => {
+    setState({ status: 'checking' });
+
+    if (!magicToken) {
+      const session = getSession();
+      setState(session ? { status: 'authenticated', session } : { status: 'denied', reason: 'missing' });
+      return;
+    }
+
+    try {
+      const session = await exchangeMagicLink(magicToken);
+      setState({ status: 'authenticated', session });
+    } catch (error) {
+      console.error('Erro ao validar link de acesso:', error);
+      const status = axios.isAxiosError(error) && error.response ? error.response.status : null;
+      const isRejected = status !== null && status >= 400 && status < 500;
+      setState({ status: 'denied', reason: isRejected ? 'invalid-link' : 'unavailable' });
+    }
+  }, [magicToken]);
+
+  useEffect(() => {
+    authenticate();
+  }, [authenticate]);
+
+  useEffect(() => {
+    if (!MAGIC_LINK_PARAMS.some(param => searchParams.has(param))) return;
+    const next = new URLSearchParams(searchParams);
+    MAGIC_LINK_PARAMS.forEach(param => next.delete(param));
+    setSearchParams(next, { replace: true });
+  }, [searchParams, setSearchParams]);
+
+  useEffect(() => onSessionEnd(reason => setState({ status: 'denied', reason })), []);
+
+  // Encerra a sessão assim que ela vence, mesmo sem nenhuma requisição no meio
+  const expiresAt = state.status === 'authenticated' ? state.session.expiresAt : null;
+  useEffect(() => {
+    if (!expiresAt) return;
+    const delay = Math.min(Math.max(new Date(expiresAt).getTime() - Date.now(), 0), MAX_TIMEOUT_MS);
+    const timer = setTimeout(() => endSession('expired'), delay);
+    return () => clearTimeout(timer);
+  }, [expiresAt]);
+
+  if (state.status === 'checking') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-900 text-white">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p>Verificando acesso...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (state.status === 'denied') {
+    return <AccessScreen reason={state.reason} onRetry={authenticate} />;
+  }
+
+  return <>{children(state.session)}</>;
+};
+
+export default AuthGate;
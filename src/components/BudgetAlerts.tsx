@@ -0,0 +1,43 @@
+import { AlertTriangle } from 'lucide-react';
+import { BudgetStatus } from '../utils/budgets';
+import { formatCurrency } from '../utils/currency';
+
+interface BudgetAlertsProps {
+  statuses: BudgetStatus[];
+  onOpenBudgets: () => void;
+}
+
+// Destaque no dashboard para categorias que passaram de 80% ou 100% do limite
+const BudgetAlerts: React.FC<BudgetAlertsProps> = ({ statuses, onOpenBudgets }) => {
+  const alerts = statuses.filter(s => s.level !== 'ok');
+  if (alerts.length === 0) return null;
+
+  return (
+    <div className="space-y-2 mb-6">
+      {alerts.map(status => {
+        const exceeded = status.level === 'exceeded';
+        return (
+          <button
+            key={status.category}
+            onClick={onOpenBudgets}
+            className={`w-full flex items-center space-x-3 p-3 rounded-xl border text-left transition-colors ${
+              exceeded
+                ? 'bg-red-900/40 border-red-700 hover:bg-red-900/60'
+                : 'bg-yellow-900/30 border-yellow-700 hover:bg-yellow-900/50'
+            }`}
+          >
+            <AlertTriangle className={`h-5 w-5 flex-shrink-0 ${exceeded ? 'text-red-400' : 'text-yellow-400'}`} />
+            <p className="text-sm text-gray-200">
+              <span className="font-semibold text-white">{status.category}</span>
+              {exceeded
+                ? ` estourou o orçamento: ${formatCurrency(status.spent)} de ${formatCurrency(status.limit)}`
+                : ` já usou ${status.percent.toFixed(0)}% do orçamento (${formatCurrency(status.spent)} de ${formatCurrency(status.limit)})`}
+            </p>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default BudgetAlerts;
@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { AlertTriangle, Check, Pencil, Plus, Target, Trash2, X } from 'lucide-react';
+import { Budget } from '../types/finance';
+import { BudgetLevel, BudgetStatus } from '../utils/budgets';
+import { formatAmountInput, formatCurrency, parseBRLAmount } from '../utils/currency';
+
+interface BudgetsViewProps {
+  statuses: BudgetStatus[];
+  expenseCategories: string[];
+  onSave: (budget: Budget) => void;
+  onDelete: (category: string) => void;
+}
+
+const LEVEL_BAR_COLORS: Record<BudgetLevel, string> = {
+  ok: 'bg-green-500',
+  warning: 'bg-yellow-500',
+  exceeded: 'bg-red-500'
+};
+
+const inputClassName = 'px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const BudgetsView: React.FC<BudgetsViewProps> = ({ statuses, expenseCategories, onSave, onDelete }) => {
+  const [editingCategory, setEditingCategory] = useState<string | null>(null);
+  const [editingLimit, setEditingLimit] = useState('');
+  const [newCategory, setNewCategory] = useState('');
+  const [newLimit, setNewLimit] = useState('');
+  const [error, setError] = useState('');
+
+  const budgetedCategories = statuses.map(s => s.category);
+  const availableCategories = expenseCategories.filter(c => !budgetedCategories.includes(c));
+
+  const startEditing = (status: BudgetStatus) => {
+    setEditingCategory(status.category);
+    setEditingLimit(formatAmountInput(status.limit));
+  };
+
+  const submitEdit = () => {
+    const limit = parseBRLAmount(editingLimit);
+    if (editingCategory === null || limit === null) return;
+    onSave({ category: editingCategory, limit });
+    setEditingCategory(null);
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const category = newCategory.trim();
+    const limit = parseBRLAmount(newLimit);
+
+    if (!category) {
+      setError('Escolha uma categoria');
+      return;
+    }
+    if (limit === null) {
+      setError('Informe um limite válido, ex.: 500,00');
+      return;
+    }
+
+    onSave({ category, limit });
+    setNewCategory('');
+    setNewLimit('');
+    setError('');
+  };
+
+  return (
+    <div className="space-y-6 mb-6">
+      <form onSubmit={handleAdd} className="bg-gray-800 rounded-xl shadow-lg p-4">
+        <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+          <div className="w-2 h-6 bg-blue-500 rounded-full mr-3"></div>
+          Novo Orçamento
+        </h3>
+        <div className="flex flex-col sm:flex-row gap-3">
+          <input
+            type="text"
+            list="budget-category-options"
+            placeholder="Categoria de despesa"
+            value={newCategory}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewCategory(e.target.value)}
+            className={`${inputClassName} flex-1`}
+            aria-label="Categoria"
+          />
+          <datalist id="budget-category-options">
+            {availableCategories.map(category => (
+              <option key={category} value={category} />
+            ))}
+          </datalist>
+          <input
+            type="text"
+            inputMode="decimal"
+            placeholder="Limite mensal (R$)"
+            value={newLimit}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewLimit(e.target.value)}
+            className={`${inputClassName} sm:w-48`}
+            aria-label="Limite mensal"
+          />
+          <button
+            type="submit"
+            className="flex items-center justify-center space-x-2 px-4 py-2 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-500 transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Adicionar</span>
+          </button>
+        </div>
+        {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+      </form>
+
+      {statuses.length === 0 ? (
+        <div className="bg-gray-800 rounded-xl shadow-lg p-8 text-center text-gray-400">
+          <div className="bg-gray-700 rounded-full w-16 h-16 flex items-center justify-center mx-auto mb-4">
+            <Target className="h-8 w-8 opacity-50" />
+          </div>
+          <p className="text-lg font-medium mb-2">Nenhum orçamento definido</p>
+          <p className="text-sm">Defina limites mensais para acompanhar seus gastos por categoria</p>
+        </div>
+      ) : (
+        <div className="bg-gray-800 rounded-xl shadow-lg divide-y divide-gray-700">
+          {statuses.map(status => (
+            <div key={status.category} className="p-4">
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center space-x-2 min-w-0">
+                  {status.level !== 'ok' && (
+                    <AlertTriangle className={`h-4 w-4 flex-shrink-0 ${status.level === 'exceeded' ? 'text-red-400' : 'text-yellow-400'}`} />
+                  )}
+                  <span className="font-medium text-white truncate">{status.category}</span>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {editingCategory === status.category ? (
+                    <>
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        value={editingLimit}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEditingLimit(e.target.value)}
+                        className={`${inputClassName} w-28 py-1`}
+                        aria-label={`Limite de ${status.category}`}
+                        autoFocus
+                      />
+                      <button onClick={submitEdit} className="p-1 text-green-400 hover:text-green-300" title="Salvar">
+                        <Check className="h-4 w-4" />
+                      </button>
+                      <button onClick={() => setEditingCategory(null)} className="p-1 text-gray-400 hover:text-white" title="Cancelar">
+                        <X className="h-4 w-4" />
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <span className="text-sm text-gray-300">
+                        {formatCurrency(status.spent)} <span className="text-gray-500">de</span> {formatCurrency(status.limit)}
+                      </span>
+                      <button onClick={() => startEditing(status)} className="p-1 text-blue-400 hover:text-blue-300" title="Editar limite">
+                        <Pencil className="h-4 w-4" />
+                      </button>
+                      <button onClick={() => onDelete(status.category)} className="p-1 text-red-500 hover:text-red-400" title="Remover orçamento">
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+              <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className={`h-full rounded-full transition-all duration-300 ${LEVEL_BAR_COLORS[status.level]}`}
+                  style={{ width: `${Math.min(status.percent, 100)}%` }}
+                />
+              </div>
+              <div className="flex justify-between mt-2 text-xs">
+                <span className="text-gray-400">{status.percent.toFixed(0)}% usado</span>
+                <span className={status.projected > status.limit ? 'text-red-400' : 'text-gray-400'}>
+                  Previsão para o fim do mês: {formatCurrency(status.projected)}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BudgetsView;
@@ -0,0 +1,109 @@
+import { useMemo } from 'react';
+import { CreditCard } from 'lucide-react';
+import { useFinance } from '../context/FinanceContext';
+import { Account } from '../types/finance';
+import { Statement, getCardStatements } from '../utils/creditCard';
+import { formatCurrency } from '../utils/currency';
+
+const formatDay = (date: Date): string => date.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' });
+
+interface StatementPanelProps {
+  title: string;
+  statement: Statement;
+}
+
+const StatementPanel: React.FC<StatementPanelProps> = ({ title, statement }) => {
+  const { openTransaction } = useFinance();
+
+  return (
+    <div className="bg-gray-900/40 rounded-lg border border-gray-700 flex flex-col">
+      <div className="p-4 border-b border-gray-700">
+        <div className="flex items-baseline justify-between">
+          <p className="text-sm font-medium text-gray-300">{title}</p>
+          <p className="text-xl font-bold text-red-400">{formatCurrency(statement.total)}</p>
+        </div>
+        <p className="text-xs text-gray-400 mt-1">
+          {formatDay(statement.startDate)} a {formatDay(statement.closingDate)} · vence em {formatDay(statement.dueDate)}
+        </p>
+      </div>
+      {statement.transactions.length === 0 ? (
+        <p className="p-4 text-sm text-gray-500">Nenhum lançamento nesta fatura</p>
+      ) : (
+        <ul className="divide-y divide-gray-700">
+          {statement.transactions.map(t => (
+            <li key={t._id}>
+              <button
+                onClick={() => openTransaction(t)}
+                className="w-full px-4 py-2 flex items-center justify-between text-left hover:bg-gray-700 transition-colors"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm text-white truncate">
+                    {t.description}
+                    {t.installment && (
+                      <span className="ml-2 text-xs text-pink-300">{t.installment.number}/{t.installment.total}</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-400">{new Date(t.createdAt).toLocaleDateString('pt-BR')} · {t.category}</p>
+                </div>
+                <span className={`text-sm font-medium ml-4 flex-shrink-0 ${t.type === 'income' ? 'text-green-400' : 'text-gray-200'}`}>
+                  {t.type === 'income' ? '-' : ''}{formatCurrency(t.amount)}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const CardStatements: React.FC<{ card: Account }> = ({ card }) => {
+  const { transactions } = useFinance();
+  const [current, next] = useMemo(() => getCardStatements(card, transactions), [card, transactions]);
+
+  return (
+    <div className="bg-gray-800 rounded-xl shadow-lg p-4 mb-6">
+      <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+        <div className="w-2 h-6 bg-pink-500 rounded-full mr-3"></div>
+        {card.name}
+        <span className="ml-3 text-xs font-normal text-gray-400">
+          fecha dia {current.closingDate.getDate()}, vence dia {current.dueDate.getDate()}
+        </span>
+      </h3>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <StatementPanel title="Fatura atual" statement={current} />
+        <StatementPanel title="Próxima fatura" statement={next} />
+      </div>
+    </div>
+  );
+};
+
+const CardsView: React.FC = () => {
+  const { accounts, goTo } = useFinance();
+  const cards = accounts.filter(a => a.kind === 'credit_card');
+
+  if (cards.length === 0) {
+    return (
+      <div className="bg-gray-800 rounded-xl shadow-lg p-8 mb-6 text-center text-gray-400">
+        <div className="bg-gray-700 rounded-full w-16 h-16 flex items-center justify-center mx-auto mb-4">
+          <CreditCard className="h-8 w-8 opacity-50" />
+        </div>
+        <p className="text-lg font-medium mb-2">Nenhum cartão cadastrado</p>
+        <p className="text-sm mb-4">Cadastre um cartão de crédito com os dias de fechamento e vencimento</p>
+        <button onClick={() => goTo('accounts')} className="text-blue-400 hover:text-blue-300 text-sm font-medium">
+          Ir para Contas
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {cards.map(card => (
+        <CardStatements key={card._id} card={card} />
+      ))}
+    </>
+  );
+};
+
+export default CardsView;
@@ -0,0 +1,329 @@
+import { useMemo, useState } from 'react';
+import { AlertTriangle, Check, Merge, Pencil, Tags, X } from 'lucide-react';
+import { useConfirm } from '../context/ConfirmContext';
+import { useFinance } from '../context/FinanceContext';
+import { CategoryIcon } from '../types/finance';
+import { TRANSFER_CATEGORY } from '../utils/accounts';
+import {
+  CATEGORY_COLORS,
+  CATEGORY_ICON_NAMES,
+  createCategorySettings,
+  findCategorySettings,
+  findDuplicateCategories,
+  getCategoryAppearance,
+  getCategoryGroups,
+  getGroupOptions,
+  parseKeywords
+} from '../utils/categories';
+import { formatCurrency } from '../utils/currency';
+import CategoryIconBadge, { CATEGORY_ICON_COMPONENTS } from './CategoryIconBadge';
+
+const inputClassName = 'px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+interface CategoryStats {
+  count: number;
+  total: number;
+}
+
+const CategoriesView: React.FC = () => {
+  const { transactions, categories, categorySettings, saveCategorySettings, renameCategory } = useFinance();
+  const confirm = useConfirm();
+  const [editing, setEditing] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(CATEGORY_COLORS[0]);
+  const [icon, setIcon] = useState<CategoryIcon>('tag');
+  const [parent, setParent] = useState('');
+  const [keywords, setKeywords] = useState('');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Categorias das transações mais as que só existem nas preferências (ex.: um grupo sem lançamentos)
+  const names = useMemo(() => [...new Set([
+    ...categories,
+    ...categorySettings.map(s => s.name),
+    ...categorySettings.map(s => s.parent).filter((p): p is string => Boolean(p))
+  ])].filter(n => n !== TRANSFER_CATEGORY), [categories, categorySettings]);
+
+  const stats = useMemo(() => transactions.reduce<Record<string, CategoryStats>>((acc, t) => {
+    if (t.type === 'transfer') return acc;
+    const current = acc[t.category] || { count: 0, total: 0 };
+    return { ...acc, [t.category]: { count: current.count + 1, total: current.total + t.amount } };
+  }, {}), [transactions]);
+
+  const groups = useMemo(() => getCategoryGroups(names, categorySettings), [names, categorySettings]);
+  const duplicates = useMemo(() => findDuplicateCategories(names), [names]);
+
+  const countOf = (category: string) => (stats[category] ? stats[category].count : 0);
+  const hasChildren = (category: string) => categorySettings.some(s => s.parent === category);
+
+  const startEditing = (category: string) => {
+    const settings = createCategorySettings(categorySettings, category);
+    setEditing(category);
+    setName(category);
+    setColor(settings.color);
+    setIcon(settings.icon);
+    setParent(settings.parent || '');
+    setKeywords(settings.keywords.join(', '));
+    setError('');
+  };
+
+  const closeEditor = () => {
+    setEditing(null);
+    setError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+    const newName = name.trim();
+    if (!newName) {
+      setError('Informe um nome');
+      return;
+    }
+    if (newName === TRANSFER_CATEGORY) {
+      setError(`"${TRANSFER_CATEGORY}" é reservado para transferências`);
+      return;
+    }
+
+    const renaming = newName !== editing;
+    const merging = renaming && names.includes(newName);
+    if (renaming) {
+      const count = countOf(editing);
+      const confirmed = await confirm(merging
+        ? {
+          title: `Juntar "${editing}" em "${newName}"?`,
+          message: `${count} transaç${count === 1 ? 'ão passa' : 'ões passam'} para "${newName}", junto com orçamento e recorrências. Valem a cor e o ícone de "${newName}".`,
+          confirmLabel: 'Juntar',
+          destructive: true
+        }
+        : {
+          title: `Renomear "${editing}"?`,
+          message: `${count} transaç${count === 1 ? 'ão passa' : 'ões passam'} a usar "${newName}", junto com orçamento e recorrências.`,
+          confirmLabel: 'Renomear'
+        });
+      if (!confirmed) return;
+    }
+
+    setSaving(true);
+    const renamed = !renaming || await renameCategory(editing, newName);
+    if (renamed && !merging) {
+      await saveCategorySettings({
+        name: newName,
+        color,
+        icon,
+        parent: parent && parent !== newName ? parent : null,
+        keywords: parseKeywords(keywords)
+      });
+    }
+    setSaving(false);
+    if (renamed) closeEditor();
+  };
+
+  // Junta as grafias diferentes na mais usada
+  const mergeDuplicates = async (group: string[]) => {
+    const [target, ...others] = [...group].sort((a, b) => countOf(b) - countOf(a));
+    const confirmed = await confirm({
+      title: `Juntar em "${target}"?`,
+      message: `${others.map(o => `"${o}"`).join(', ')} passa${others.length === 1 ? '' : 'm'} a ser "${target}" em todas as transações.`,
+      confirmLabel: 'Juntar'
+    });
+    if (!confirmed) return;
+    for (const other of others) {
+      if (!(await renameCategory(other, target))) return;
+    }
+  };
+
+  const renderRow = (category: string, child: boolean) => {
+    const appearance = getCategoryAppearance(categorySettings, category);
+    const settings = findCategorySettings(categorySettings, category);
+    const categoryStats = stats[category];
+    return (
+      <div key={category} className={`p-4 flex items-center justify-between ${child ? 'pl-12 bg-gray-800/60' : ''}`}>
+        <div className="flex items-center space-x-3 min-w-0">
+          <CategoryIconBadge icon={appearance.icon} color={appearance.color} size={child ? 'sm' : 'md'} />
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-white truncate">{category}</p>
+            <p className="text-xs text-gray-400">
+              {categoryStats
+                ? `${categoryStats.count} transaç${categoryStats.count === 1 ? 'ão' : 'ões'} · ${formatCurrency(categoryStats.total)}`
+                : 'Sem transações'}
+            </p>
+            {settings && settings.keywords.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1">
+                {settings.keywords.map(keyword => (
+                  <span key={keyword} className="text-xs px-2 py-0.5 rounded-full bg-gray-700 text-gray-300">{keyword}</span>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+        <button
+          onClick={() => startEditing(category)}
+          className="p-1 text-blue-400 hover:text-blue-300 flex-shrink-0 ml-4"
+          title={`Editar categoria ${category}`}
+        >
+          <Pencil className="h-4 w-4" />
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="mb-6">
+      {/* Spelling variants */}
+      {duplicates.length > 0 && (
+        <div className="rounded-xl p-4 border bg-yellow-900/30 border-yellow-700 mb-6">
+          <p className="text-sm text-yellow-200 flex items-center mb-3">
+            <AlertTriangle className="h-4 w-4 mr-2" />
+            Categorias que parecem ser a mesma
+          </p>
+          <div className="space-y-2">
+            {duplicates.map(group => (
+              <div key={group.join('|')} className="flex items-center justify-between text-sm">
+                <span className="text-gray-200">{group.map(g => `"${g}"`).join(', ')}</span>
+                <button
+                  onClick={() => mergeDuplicates(group)}
+                  className="flex items-center space-x-1 px-3 py-1.5 rounded-lg bg-yellow-700 text-white hover:bg-yellow-600 transition-colors"
+                >
+                  <Merge className="h-4 w-4" />
+                  <span>Juntar</span>
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {editing && (
+        <form onSubmit={handleSubmit} className="bg-gray-800 rounded-xl shadow-lg p-4 mb-6">
+          <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+            <div className="w-2 h-6 rounded-full mr-3" style={{ backgroundColor: color }}></div>
+            Editar "{editing}"
+          </h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <label className="text-sm text-gray-400 space-y-1">
+              <span className="block">Nome (use o nome de outra categoria para juntar as duas)</span>
+              <input
+                type="text"
+                list="category-manager-options"
+                value={name}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+                className={`${inputClassName} w-full`}
+                aria-label="Nome da categoria"
+              />
+              <datalist id="category-manager-options">
+                {names.filter(n => n !== editing).map(option => (
+                  <option key={option} value={option} />
+                ))}
+              </datalist>
+            </label>
+            <label className="text-sm text-gray-400 space-y-1">
+              <span className="block">Grupo</span>
+              <select
+                value={parent}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setParent(e.target.value)}
+                disabled={hasChildren(editing)}
+                title={hasChildren(editing) ? 'Esta categoria já é um grupo' : undefined}
+                className={`${inputClassName} w-full disabled:opacity-50`}
+                aria-label="Grupo"
+              >
+                <option value="">Sem grupo</option>
+                {getGroupOptions(categorySettings, names, editing).map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-400 space-y-1 sm:col-span-2">
+              <span className="block">Palavras-chave, separadas por vírgula (lançamentos novos com elas caem nesta categoria)</span>
+              <input
+                type="text"
+                placeholder="ex.: hortifruti, açougue"
+                value={keywords}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setKeywords(e.target.value)}
+                className={`${inputClassName} w-full`}
+                aria-label="Palavras-chave"
+              />
+            </label>
+          </div>
+
+          <p className="text-sm text-gray-400 mt-4 mb-2">Cor</p>
+          <div className="flex flex-wrap gap-2">
+            {CATEGORY_COLORS.map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setColor(option)}
+                className={`w-7 h-7 rounded-full flex items-center justify-center ${color === option ? 'ring-2 ring-white' : ''}`}
+                style={{ backgroundColor: option }}
+                aria-label={`Cor ${option}`}
+              >
+                {color === option && <Check className="h-4 w-4 text-gray-900" />}
+              </button>
+            ))}
+          </div>
+
+          <p className="text-sm text-gray-400 mt-4 mb-2">Ícone</p>
+          <div className="flex flex-wrap gap-2">
+            {CATEGORY_ICON_NAMES.map(option => {
+              const Icon = CATEGORY_ICON_COMPONENTS[option];
+              return (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setIcon(option)}
+                  className={`w-9 h-9 rounded-lg flex items-center justify-center transition-colors ${
+                    icon === option ? 'bg-gray-600 ring-2 ring-blue-500' : 'bg-gray-700 hover:bg-gray-600'
+                  }`}
+                  style={{ color }}
+                  title={option}
+                  aria-label={`Ícone ${option}`}
+                >
+                  <Icon className="h-4 w-4" />
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="flex items-center justify-end space-x-3 mt-4">
+            {error && <p className="text-xs text-red-400 mr-auto">{error}</p>}
+            <button
+              type="button"
+              onClick={closeEditor}
+              className="flex items-center space-x-2 px-4 py-2 rounded-lg text-gray-300 hover:bg-gray-700 hover:text-white transition-colors"
+            >
+              <X className="h-4 w-4" />
+              <span>Cancelar</span>
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center justify-center space-x-2 px-4 py-2 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-500 transition-colors disabled:opacity-50"
+            >
+              <Check className="h-4 w-4" />
+              <span>Salvar</span>
+            </button>
+          </div>
+        </form>
+      )}
+
+      {groups.length === 0 ? (
+        <div className="bg-gray-800 rounded-xl shadow-lg p-8 text-center text-gray-400">
+          <div className="bg-gray-700 rounded-full w-16 h-16 flex items-center justify-center mx-auto mb-4">
+            <Tags className="h-8 w-8 opacity-50" />
+          </div>
+          <p className="text-lg font-medium mb-2">Nenhuma categoria ainda</p>
+          <p className="text-sm">As categorias aparecem aqui conforme você lança transações</p>
+        </div>
+      ) : (
+        <div className="bg-gray-800 rounded-xl shadow-lg divide-y divide-gray-700">
+          {groups.map(group => [
+            renderRow(group.name, false),
+            ...group.children.map(child => renderRow(child, true))
+          ])}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CategoriesView;
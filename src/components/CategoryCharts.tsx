@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { PieChart, Pie, Cell, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { FolderTree, TrendingDown, TrendingUp } from 'lucide-react';
+import { useFinance } from '../context/FinanceContext';
+import { CashFlowType, CategorySettings } from '../types/finance';
+import { getCategoryAppearance, rollUpCategories } from '../utils/categories';
+import { formatCurrency } from '../utils/currency';
+
+// Cada categoria mantém a sua cor (ver utils/categories), independente da ordem no gráfico
+const prepareCategoryData = (categorySummary: Record<string, number>, settings: CategorySettings[]) =>
+  Object.entries(categorySummary).map(([category, amount]) => ({
+    name: category,
+    value: amount,
+    color: getCategoryAppearance(settings, category).color
+  }));
+
+// Gráficos de pizza e barras por categoria, separados entre despesas e receitas
+const CategoryCharts: React.FC = () => {
+  const { periodSummary, categorySettings, goTo } = useFinance();
+  const [chartType, setChartType] = useState<CashFlowType>('expense');
+  const [grouped, setGrouped] = useState(false);
+  const hasGroups = categorySettings.some(s => s.parent);
+
+  if (!periodSummary) return null;
+  if (Object.keys(periodSummary.categorySummary).length === 0) return null;
+
+  const isExpense = chartType === 'expense';
+
+  // Clique em uma fatia ou barra abre a lista já filtrada pela categoria
+  const drillDownCategory = (category: string) => {
+    goTo(isExpense ? 'expenses' : 'income', { category });
+  };
+
+  const totals = isExpense ? periodSummary.expenseCategorySummary : periodSummary.incomeCategorySummary;
+  const categoryData = prepareCategoryData(
+    grouped && hasGroups ? rollUpCategories(totals, categorySettings) : totals,
+    categorySettings
+  );
+
+  return (
+    <div className="mb-6">
+      <div className="flex justify-end items-center gap-3 mb-3">
+        {hasGroups && (
+          <button
+            onClick={() => setGrouped(!grouped)}
+            className={`flex items-center space-x-2 px-3 py-1.5 rounded-lg text-sm transition-colors ${
+              grouped ? 'bg-orange-600 text-white' : 'bg-gray-800 text-gray-300 hover:text-white'
+            }`}
+            aria-pressed={grouped}
+          >
+            <FolderTree className="h-4 w-4" />
+            <span>Por grupo</span>
+          </button>
+        )}
+        <div className="inline-flex bg-gray-800 rounded-lg p-1">
+          <button
+            onClick={() => setChartType('expense')}
+            className={`flex items-center space-x-2 px-3 py-1.5 rounded-md text-sm transition-colors ${
+              isExpense ? 'bg-red-600 text-white' : 'text-gray-300 hover:text-white'
+            }`}
+          >
+            <TrendingDown className="h-4 w-4" />
+            <span>Despesas</span>
+          </button>
+          <button
+            onClick={() => setChartType('income')}
+            className={`flex items-center space-x-2 px-3 py-1.5 rounded-md text-sm transition-colors ${
+              !isExpense ? 'bg-green-600 text-white' : 'text-gray-300 hover:text-white'
+            }`}
+          >
+            <TrendingUp className="h-4 w-4" />
+            <span>Receitas</span>
+          </button>
+        </div>
+      </div>
+
+      {categoryData.length === 0 ? (
+        <div className="bg-gray-800 rounded-xl shadow-lg p-8 text-center text-gray-400">
+          {isExpense ? 'Nenhuma despesa no período' : 'Nenhuma receita no período'}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="bg-gray-800 rounded-xl shadow-lg p-6 hover:shadow-2xl transition-shadow duration-200">
+            <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+              <div className="w-2 h-6 bg-blue-500 rounded-full mr-3"></div>
+              {isExpense ? 'Gastos por Categoria' : 'Receitas por Categoria'}
+            </h3>
+            <ResponsiveContainer width="100%" height={250}>
+              <PieChart>
+                <Pie
+                  data={categoryData}
+                  cx="50%"
+                  cy="50%"
+                  labelLine={false}
+                  label={({ name, percent }: { name: string, percent: number }) => `${name} ${(percent * 100).toFixed(0)}%`}
+                  outerRadius={80}
+                  fill="#8884d8"
+                  dataKey="value"
+                  onClick={(entry: { name: string }) => drillDownCategory(entry.name)}
+                  className="cursor-pointer"
+                >
+                  {categoryData.map(entry => (
+                    <Cell key={entry.name} fill={entry.color} />
+                  ))}
+                </Pie>
+                <Tooltip 
+                  formatter={(value: number) => formatCurrency(value)} 
+                  contentStyle={{ 
+                    backgroundColor: '#374151', 
+                    border: '1px solid #4B5563',
+                    borderRadius: '8px',
+                    color: 'white'
+                  }}
+                />
+              </PieChart>
+            </ResponsiveContainer>
+          </div>
+    
+          <div className="bg-gray-800 rounded-xl shadow-lg p-6 hover:shadow-2xl transition-shadow duration-200">
+            <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+              <div className="w-2 h-6 bg-green-500 rounded-full mr-3"></div>
+              {isExpense ? 'Distribuição de Gastos' : 'Distribuição de Receitas'}
+            </h3>
+            <ResponsiveContainer width="100%" height={250}>
+              <BarChart data={categoryData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#4B5563" />
+                <XAxis 
+                  dataKey="name" 
+                  tick={{ fill: '#9CA3AF', fontSize: 12 }}
+                  axisLine={{ stroke: '#4B5563' }}
+                />
+                <YAxis 
+                  tickFormatter={(value: number) => `R$ ${value}`} 
+                  tick={{ fill: '#9CA3AF', fontSize: 12 }}
+                  axisLine={{ stroke: '#4B5563' }}
+                />
+                <Tooltip 
+                  formatter={(value: number) => formatCurrency(value)}
+                  contentStyle={{ 
+                    backgroundColor: '#374151', 
+                    border: '1px solid #4B5563',
+                    borderRadius: '8px',
+                    color: 'white'
+                  }}
+                />
+                <Bar
+                  dataKey="value"
+                  radius={[4, 4, 0, 0]}
+                  onClick={(entry: { name: string }) => drillDownCategory(entry.name)}
+                  className="cursor-pointer"
+                >
+                  {categoryData.map(entry => (
+                    <Cell key={entry.name} fill={entry.color} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CategoryCharts;
@@ -0,0 +1,71 @@
+import {
+  Baby,
+  Briefcase,
+  Bus,
+  Car,
+  Coffee,
+  Dumbbell,
+  Gamepad2,
+  Gift,
+  GraduationCap,
+  HeartPulse,
+  Home,
+  PawPrint,
+  PiggyBank,
+  Plane,
+  Receipt,
+  Shirt,
+  ShoppingCart,
+  Smartphone,
+  Store,
+  Tag,
+  Utensils,
+  Zap
+} from 'lucide-react';
+import { CategoryIcon } from '../types/finance';
+
+export const CATEGORY_ICON_COMPONENTS: Record<CategoryIcon, React.ElementType> = {
+  tag: Tag,
+  'shopping-cart': ShoppingCart,
+  utensils: Utensils,
+  coffee: Coffee,
+  home: Home,
+  zap: Zap,
+  car: Car,
+  bus: Bus,
+  plane: Plane,
+  'heart-pulse': HeartPulse,
+  dumbbell: Dumbbell,
+  gamepad: Gamepad2,
+  gift: Gift,
+  shirt: Shirt,
+  'graduation-cap': GraduationCap,
+  baby: Baby,
+  'paw-print': PawPrint,
+  smartphone: Smartphone,
+  receipt: Receipt,
+  briefcase: Briefcase,
+  store: Store,
+  'piggy-bank': PiggyBank
+};
+
+interface CategoryIconBadgeProps {
+  icon: CategoryIcon;
+  color: string;
+  size?: 'sm' | 'md';
+}
+
+// Ícone da categoria sobre um fundo translúcido da cor dela
+const CategoryIconBadge: React.FC<CategoryIconBadgeProps> = ({ icon, color, size = 'md' }) => {
+  const Icon = CATEGORY_ICON_COMPONENTS[icon];
+  return (
+    <div
+      className={`flex-shrink-0 rounded-lg flex items-center justify-center ${size === 'sm' ? 'w-7 h-7' : 'w-10 h-10'}`}
+      style={{ backgroundColor: `${color}33`, color }}
+    >
+      <Icon className={size === 'sm' ? 'h-4 w-4' : 'h-5 w-5'} />
+    </div>
+  );
+};
+
+export default CategoryIconBadge;
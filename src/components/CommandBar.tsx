@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { Command, FileText, Send, Trash2, TrendingDown, TrendingUp } from 'lucide-react';
+import { ReportPeriod, Transaction, TransactionInput } from '../types/finance';
+import { KeywordRules, parseCommand } from '../utils/commandParser';
+import { formatCurrency } from '../utils/currency';
+import { PERIOD_LABELS } from '../utils/period';
+
+interface CommandBarProps {
+  transactions: Transaction[];
+  keywordRules: KeywordRules;
+  onCreate: (input: TransactionInput) => void;
+  onDelete: (transactionId: string) => void;
+  onReport: (period: ReportPeriod) => void;
+}
+
+const CommandBar: React.FC<CommandBarProps> = ({ transactions, keywordRules, onCreate, onDelete, onReport }) => {
+  const [text, setText] = useState('');
+  const command = parseCommand(text, keywordRules);
+  const transactionToDelete = command && command.kind === 'delete'
+    ? transactions.find(t => t._id === command.transactionId)
+    : undefined;
+  const canSubmit = command !== null && (command.kind !== 'delete' || transactionToDelete !== undefined);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!command || !canSubmit) return;
+
+    if (command.kind === 'transaction') {
+      onCreate({ ...command.draft, createdAt: new Date().toISOString() });
+    } else if (command.kind === 'delete') {
+      onDelete(command.transactionId);
+    } else {
+      onReport(command.period);
+    }
+    setText('');
+  };
+
+  const renderPreview = () => {
+    if (!text.trim()) return null;
+
+    if (!command) {
+      return (
+        <p className="text-sm text-gray-400">
+          Comando não reconhecido. Exemplos: "25.50 lanche", "recebi 1000 salário", "relatório da semana".
+        </p>
+      );
+    }
+
+    if (command.kind === 'transaction') {
+      const { draft } = command;
+      const isIncome = draft.type === 'income';
+      return (
+        <div className="flex items-center space-x-3">
+          <div className={`p-2 rounded-lg ${isIncome ? 'bg-green-900 text-green-400' : 'bg-red-900 text-red-400'}`}>
+            {isIncome ? <TrendingUp className="h-5 w-5" /> : <TrendingDown className="h-5 w-5" />}
+          </div>
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium text-white truncate">{draft.description}</p>
+            <p className="text-xs text-gray-400">{isIncome ? 'Receita' : 'Despesa'} · {draft.category} · hoje</p>
+          </div>
+          <p className={`font-bold ${isIncome ? 'text-green-400' : 'text-red-400'}`}>
+            {isIncome ? '+' : '-'}{formatCurrency(draft.amount)}
+          </p>
+        </div>
+      );
+    }
+
+    if (command.kind === 'delete') {
+      return (
+        <div className="flex items-center space-x-3">
+          <div className="p-2 rounded-lg bg-red-900 text-red-400">
+            <Trash2 className="h-5 w-5" />
+          </div>
+          {transactionToDelete ? (
+            <p className="text-sm text-gray-300">
+              Apagar <span className="font-medium text-white">{transactionToDelete.description}</span>{' '}
+              ({formatCurrency(transactionToDelete.amount)})
+            </p>
+          ) : (
+            <p className="text-sm text-red-400">Nenhuma transação com o ID {command.transactionId}</p>
+          )}
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex items-center space-x-3">
+        <div className="p-2 rounded-lg bg-purple-900 text-purple-400">
+          <FileText className="h-5 w-5" />
+        </div>
+        <p className="text-sm text-gray-300">
+          Abrir relatório: <span className="font-medium text-white">{PERIOD_LABELS[command.period]}</span>
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-gray-800 rounded-xl shadow-lg p-4 mb-6">
+      <div className="flex items-center gap-3">
+        <div className="relative flex-1">
+          <Command className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+          <input
+            type="text"
+            placeholder='Digite como no WhatsApp: "50 no mercado"'
+            value={text}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setText(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="Comando rápido"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={!canSubmit}
+          className="p-2 rounded-lg bg-blue-600 text-white hover:bg-blue-500 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          title="Confirmar"
+        >
+          <Send className="h-5 w-5" />
+        </button>
+      </div>
+      {text.trim() && (
+        <div className="mt-3 bg-gray-900/50 rounded-lg p-3 border border-gray-700">
+          {renderPreview()}
+        </div>
+      )}
+    </form>
+  );
+};
+
+export default CommandBar;
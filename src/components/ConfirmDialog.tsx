@@ -0,0 +1,76 @@
+import { useEffect, useRef } from 'react';
+import { AlertTriangle } from 'lucide-react';
+
+export interface ConfirmDialogProps {
+  title: string;
+  message: string;
+  confirmLabel?: string;
+  destructive?: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
+  title,
+  message,
+  confirmLabel = 'Confirmar',
+  destructive = false,
+  onConfirm,
+  onCancel
+}) => {
+  const cancelRef = useRef<HTMLButtonElement>(null);
+
+  // Foco começa em "Cancelar" para um Enter distraído não apagar nada
+  useEffect(() => {
+    cancelRef.current?.focus();
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-60 p-4" onClick={onCancel}>
+      <div
+        className="bg-gray-800 rounded-2xl shadow-2xl w-full max-w-sm p-6"
+        onClick={(e: React.MouseEvent) => e.stopPropagation()}
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="confirm-dialog-title"
+        aria-describedby="confirm-dialog-message"
+      >
+        <div className="flex items-start space-x-3 mb-6">
+          {destructive && (
+            <div className="flex-shrink-0 w-10 h-10 rounded-full bg-red-900 text-red-400 flex items-center justify-center">
+              <AlertTriangle className="h-5 w-5" />
+            </div>
+          )}
+          <div>
+            <h2 id="confirm-dialog-title" className="text-lg font-bold text-white">{title}</h2>
+            <p id="confirm-dialog-message" className="text-sm text-gray-300 mt-1">{message}</p>
+          </div>
+        </div>
+        <div className="flex justify-end space-x-3">
+          <button
+            ref={cancelRef}
+            onClick={onCancel}
+            className="px-4 py-2 rounded-lg text-gray-300 hover:bg-gray-700 hover:text-white transition-colors"
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={onConfirm}
+            className={`px-4 py-2 rounded-lg text-white font-medium transition-colors ${
+              destructive ? 'bg-red-700 hover:bg-red-600' : 'bg-blue-600 hover:bg-blue-500'
+            }`}
+          >
+            {confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConfirmDialog;
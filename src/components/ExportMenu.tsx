@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { Download, FileText, Printer } from 'lucide-react';
+import { PrintMode } from './PrintableReport';
+
+interface ExportMenuProps {
+  onExportCsv: (mode: PrintMode) => void;
+  onPrint: (mode: PrintMode) => void;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ onExportCsv, onPrint }) => {
+  const [open, setOpen] = useState(false);
+
+  const choose = (action: () => void) => {
+    action();
+    setOpen(false);
+  };
+
+  const itemClassName = 'w-full flex items-center space-x-2 px-4 py-2 text-sm text-left text-gray-200 hover:bg-gray-700';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center space-x-2 px-4 py-2 rounded-lg bg-gray-700 text-white font-medium hover:bg-gray-600 transition-colors"
+        aria-haspopup="menu"
+        aria-expanded={open}
+      >
+        <FileText className="h-5 w-5" />
+        <span>Exportar</span>
+      </button>
+      {open && (
+        <>
+          <div className="fixed inset-0 z-30" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 mt-2 w-64 z-40 bg-gray-800 border border-gray-700 rounded-lg shadow-2xl py-1" role="menu">
+            <p className="px-4 pt-2 pb-1 text-xs font-semibold text-gray-500 uppercase">Lista filtrada</p>
+            <button onClick={() => choose(() => onExportCsv('list'))} className={itemClassName} role="menuitem">
+              <Download className="h-4 w-4" />
+              <span>Planilha (CSV / Excel)</span>
+            </button>
+            <button onClick={() => choose(() => onPrint('list'))} className={itemClassName} role="menuitem">
+              <Printer className="h-4 w-4" />
+              <span>Imprimir / PDF</span>
+            </button>
+            <p className="px-4 pt-3 pb-1 text-xs font-semibold text-gray-500 uppercase">Relatório do período</p>
+            <button onClick={() => choose(() => onExportCsv('report'))} className={itemClassName} role="menuitem">
+              <Download className="h-4 w-4" />
+              <span>Planilha (CSV / Excel)</span>
+            </button>
+            <button onClick={() => choose(() => onPrint('report'))} className={itemClassName} role="menuitem">
+              <Printer className="h-4 w-4" />
+              <span>Imprimir / PDF</span>
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
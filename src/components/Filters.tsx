@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { Bookmark, BookmarkPlus, Filter, Hash, Search, Wallet, X } from 'lucide-react';
+import { getSavedSearches, removeSavedSearch, saveSearch } from '../api/savedSearches';
+import { useFinance } from '../context/FinanceContext';
+import { SEARCH_OPERATORS_HINT } from '../utils/search';
+
+// Nuvem de tags: quanto mais usada no período, maior a letra
+const TAG_SIZES = ['text-xs', 'text-sm', 'text-base', 'text-lg'];
+
+const getTagSize = (count: number, maxCount: number): string =>
+  TAG_SIZES[maxCount > 1 ? Math.max(0, Math.round(((count - 1) / (maxCount - 1)) * (TAG_SIZES.length - 1))) : 0];
+
+const Filters: React.FC = () => {
+  const {
+    userId,
+    currentView,
+    searchTerm,
+    selectedCategory,
+    selectedAccount,
+    selectedTag,
+    categories,
+    accounts,
+    tagCounts,
+    setSearchTerm,
+    setSelectedCategory,
+    setSelectedAccount,
+    setSelectedTag
+  } = useFinance();
+  const [savedSearches, setSavedSearches] = useState(() => getSavedSearches(userId));
+
+  if (currentView === 'dashboard') return null;
+
+  const canSave = searchTerm.trim() !== '' && !savedSearches.includes(searchTerm.trim());
+  const maxTagCount = tagCounts.length > 0 ? tagCounts[0].count : 0;
+  // A tag escolhida continua na nuvem (para desmarcar) mesmo sem uso no período
+  const cloud = selectedTag && !tagCounts.some(t => t.tag === selectedTag)
+    ? [...tagCounts, { tag: selectedTag, count: 0 }]
+    : tagCounts;
+
+  return (
+    <div className="bg-gray-800 rounded-xl shadow-lg p-4 mb-6">
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="flex-1">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+            <input
+              type="text"
+              placeholder="Buscar transações..."
+              value={searchTerm}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearchTerm(e.target.value)}
+              className="w-full pl-10 pr-10 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              title={`Operadores: ${SEARCH_OPERATORS_HINT}`}
+            />
+            {canSave && (
+              <button
+                onClick={() => setSavedSearches(saveSearch(userId, searchTerm))}
+                className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-white"
+                title="Salvar busca"
+              >
+                <BookmarkPlus className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+        </div>
+        <div className="sm:w-48">
+          <div className="relative">
+            <Filter className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+            <select
+              value={selectedCategory}
+              onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setSelectedCategory(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Todas categorias</option>
+              {categories.map(category => (
+                <option key={category} value={category}>{category}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        {accounts.length > 0 && (
+          <div className="sm:w-48">
+            <div className="relative">
+              <Wallet className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+              <select
+                value={selectedAccount}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setSelectedAccount(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label="Conta"
+              >
+                <option value="">Todas as contas</option>
+                {accounts.map(account => (
+                  <option key={account._id} value={account._id}>{account.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Search help and saved searches */}
+      <div className="flex flex-wrap items-center gap-2 mt-3 text-xs">
+        <span className="text-gray-500 mr-2">Ex.: {SEARCH_OPERATORS_HINT}</span>
+        {savedSearches.map(saved => (
+          <span
+            key={saved}
+            className={`inline-flex items-center rounded-full border ${
+              saved === searchTerm.trim() ? 'border-blue-500 bg-blue-900/40 text-blue-200' : 'border-gray-600 bg-gray-700 text-gray-300'
+            }`}
+          >
+            <button onClick={() => setSearchTerm(saved)} className="flex items-center space-x-1 pl-3 py-1 hover:text-white">
+              <Bookmark className="h-3 w-3" />
+              <span>{saved}</span>
+            </button>
+            <button
+              onClick={() => setSavedSearches(removeSavedSearch(userId, saved))}
+              className="px-2 py-1 text-gray-400 hover:text-white"
+              title={`Remover busca salva "${saved}"`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+
+      {/* Tag cloud */}
+      {cloud.length > 0 && (
+        <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1 mt-3 pt-3 border-t border-gray-700">
+          <Hash className="h-3 w-3 text-gray-500 self-center" />
+          {cloud.map(({ tag, count }) => (
+            <button
+              key={tag}
+              onClick={() => setSelectedTag(tag === selectedTag ? '' : tag)}
+              aria-pressed={tag === selectedTag}
+              className={`${getTagSize(count, maxTagCount)} transition-colors ${
+                tag === selectedTag ? 'text-cyan-300 font-semibold underline' : 'text-gray-400 hover:text-cyan-300'
+              }`}
+              title={`${count} ${count === 1 ? 'transação' : 'transações'} no período`}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Filters;
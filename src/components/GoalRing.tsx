@@ -0,0 +1,45 @@
+import { GoalStatus } from '../utils/goals';
+
+export const GOAL_STATUS_COLORS: Record<GoalStatus, string> = {
+  done: '#60A5FA',
+  'on-track': '#34D399',
+  behind: '#FBBF24',
+  overdue: '#F87171'
+};
+
+interface GoalRingProps {
+  percent: number;
+  status: GoalStatus;
+  size?: number;
+}
+
+// Anel de progresso da meta, na cor do status
+const GoalRing: React.FC<GoalRingProps> = ({ percent, status, size = 72 }) => {
+  const strokeWidth = size / 9;
+  const radius = (size - strokeWidth) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const rounded = Math.floor(percent);
+
+  return (
+    <div className="relative flex-shrink-0" style={{ width: size, height: size }} role="img" aria-label={`${rounded}% da meta`}>
+      <svg width={size} height={size} className="-rotate-90">
+        <circle cx={size / 2} cy={size / 2} r={radius} fill="none" stroke="#374151" strokeWidth={strokeWidth} />
+        <circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          fill="none"
+          stroke={GOAL_STATUS_COLORS[status]}
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+          strokeDasharray={circumference}
+          strokeDashoffset={circumference * (1 - percent / 100)}
+          className="transition-all duration-500"
+        />
+      </svg>
+      <span className="absolute inset-0 flex items-center justify-center text-sm font-semibold text-white">{rounded}%</span>
+    </div>
+  );
+};
+
+export default GoalRing;
@@ -0,0 +1,53 @@
+import { ChevronRight } from 'lucide-react';
+import { useFinance } from '../context/FinanceContext';
+import { formatCurrency } from '../utils/currency';
+import { GOAL_STATUS_LABELS, formatGoalDeadline } from '../utils/goals';
+import GoalRing, { GOAL_STATUS_COLORS } from './GoalRing';
+
+// Anéis de progresso das metas no dashboard
+const GoalsOverview: React.FC = () => {
+  const { goalsPlan, goTo } = useFinance();
+  if (goalsPlan.goals.length === 0) return null;
+
+  return (
+    <div className="bg-gray-800 rounded-xl shadow-lg p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white flex items-center">
+          <div className="w-2 h-6 bg-emerald-500 rounded-full mr-3"></div>
+          Metas
+        </h3>
+        <button
+          onClick={() => goTo('goals')}
+          className="flex items-center text-sm text-blue-400 hover:text-blue-300"
+        >
+          Ver metas
+          <ChevronRight className="h-4 w-4" />
+        </button>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4">
+        {goalsPlan.goals.map(({ goal, saved, percent, requiredMonthly, status }) => (
+          <button
+            key={goal._id}
+            onClick={() => goTo('goals')}
+            className="flex items-center space-x-4 p-3 rounded-lg bg-gray-900/40 hover:bg-gray-700 text-left transition-colors"
+          >
+            <GoalRing percent={percent} status={status} />
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-white truncate">{goal.name}</p>
+              <p className="text-xs text-gray-400">
+                {formatCurrency(saved)} de {formatCurrency(goal.targetAmount)}
+              </p>
+              <p className="text-xs mt-1" style={{ color: GOAL_STATUS_COLORS[status] }}>
+                {status === 'on-track' || status === 'behind'
+                  ? `${formatCurrency(requiredMonthly)}/mês até ${formatGoalDeadline(goal.targetDate)}`
+                  : GOAL_STATUS_LABELS[status]}
+              </p>
+            </div>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default GoalsOverview;
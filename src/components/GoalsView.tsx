@@ -0,0 +1,288 @@
+import { useMemo, useState } from 'react';
+import { Link2, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { useConfirm } from '../context/ConfirmContext';
+import { useFinance } from '../context/FinanceContext';
+import { Goal } from '../types/finance';
+import { formatAmountInput, formatCurrency, parseBRLAmount } from '../utils/currency';
+import { formatDate } from '../utils/date';
+import { GOAL_STATUS_LABELS, GoalProgress, SURPLUS_MONTHS, formatGoalDeadline } from '../utils/goals';
+import { toDateInput } from '../utils/period';
+import GoalRing, { GOAL_STATUS_COLORS } from './GoalRing';
+
+const inputClassName = 'px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Quantos lançamentos aparecem na lista para vincular e no histórico de cada meta
+const LINK_OPTIONS_LIMIT = 20;
+const CONTRIBUTIONS_SHOWN = 5;
+
+const GoalsView: React.FC = () => {
+  const { goals, goalsPlan, transactions, saveGoal, deleteGoal, setTransactionGoal } = useFinance();
+  const confirm = useConfirm();
+  const [editing, setEditing] = useState<Goal | null>(null);
+  const [name, setName] = useState('');
+  const [targetAmount, setTargetAmount] = useState('');
+  const [targetDate, setTargetDate] = useState('');
+  const [initialAmount, setInitialAmount] = useState('');
+  const [error, setError] = useState('');
+
+  // Despesas e transferências ainda sem meta, das mais recentes para as mais antigas
+  const linkOptions = useMemo(
+    () => transactions
+      .filter(t => t.type !== 'income' && !goals.some(g => g._id === t.goalId))
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .slice(0, LINK_OPTIONS_LIMIT),
+    [transactions, goals]
+  );
+
+  const resetForm = () => {
+    setEditing(null);
+    setName('');
+    setTargetAmount('');
+    setTargetDate('');
+    setInitialAmount('');
+    setError('');
+  };
+
+  const startEditing = (goal: Goal) => {
+    setEditing(goal);
+    setName(goal.name);
+    setTargetAmount(formatAmountInput(goal.targetAmount));
+    setTargetDate(goal.targetDate);
+    setInitialAmount(goal.initialAmount > 0 ? formatAmountInput(goal.initialAmount) : '');
+    setError('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsedTarget = parseBRLAmount(targetAmount);
+    const parsedInitial = initialAmount.trim() ? parseBRLAmount(initialAmount) : 0;
+
+    if (!name.trim()) {
+      setError('Dê um nome à meta, ex.: Reserva de emergência');
+      return;
+    }
+    if (parsedTarget === null || parsedTarget <= 0) {
+      setError('Informe o valor da meta, ex.: 10.000,00');
+      return;
+    }
+    if (!targetDate) {
+      setError('Informe até quando quer chegar lá');
+      return;
+    }
+    if (!editing && targetDate < toDateInput(new Date())) {
+      setError('A data da meta precisa ser hoje ou depois');
+      return;
+    }
+    if (parsedInitial === null) {
+      setError('Informe um valor já guardado válido, ou deixe em branco');
+      return;
+    }
+
+    saveGoal({ name: name.trim(), targetAmount: parsedTarget, targetDate, initialAmount: parsedInitial }, editing);
+    resetForm();
+  };
+
+  const handleDelete = async (goal: Goal) => {
+    const confirmed = await confirm({
+      title: `Remover a meta "${goal.name}"?`,
+      message: 'As contribuições continuam como lançamentos comuns.',
+      confirmLabel: 'Remover',
+      destructive: true
+    });
+    if (!confirmed) return;
+    if (editing?._id === goal._id) resetForm();
+    deleteGoal(goal._id);
+  };
+
+  const linkTransaction = (goalId: string, transactionId: string) => {
+    const transaction = transactions.find(t => t._id === transactionId);
+    if (transaction) setTransactionGoal(transaction, goalId);
+  };
+
+  const renderPace = ({ goal, remaining, monthsLeft, requiredMonthly, status }: GoalProgress) => {
+    if (status === 'done') return 'Meta alcançada!';
+    if (status === 'overdue') return `O prazo venceu; faltaram ${formatCurrency(remaining)}`;
+    return `Guarde ${formatCurrency(requiredMonthly)} por mês nos próximos ${monthsLeft} ${monthsLeft === 1 ? 'mês' : 'meses'} (até ${formatGoalDeadline(goal.targetDate)})`;
+  };
+
+  const fitsPace = goalsPlan.totalRequiredMonthly <= Math.max(0, goalsPlan.monthlySurplus) + 0.005;
+
+  return (
+    <div className="mb-6">
+      {goalsPlan.goals.length > 0 && (
+        <div className={`rounded-xl p-4 border mb-6 ${
+          fitsPace ? 'bg-green-900/30 border-green-700' : 'bg-yellow-900/30 border-yellow-700'
+        }`}>
+          <p className="text-sm text-gray-300">Ritmo atual</p>
+          <p className="text-white">
+            Sobram em média <span className="font-bold">{formatCurrency(goalsPlan.monthlySurplus)}</span> por mês;
+            suas metas pedem <span className="font-bold">{formatCurrency(goalsPlan.totalRequiredMonthly)}</span>.
+          </p>
+          <p className="text-xs text-gray-400 mt-1">
+            Receitas menos despesas dos últimos {SURPLUS_MONTHS} meses fechados, sem contar as contribuições.
+            {!fitsPace && ' As metas com prazo mais próximo vêm primeiro.'}
+          </p>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="bg-gray-800 rounded-xl shadow-lg p-4 mb-6">
+        <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+          <div className="w-2 h-6 bg-emerald-500 rounded-full mr-3"></div>
+          {editing ? 'Editar Meta' : 'Nova Meta'}
+        </h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+          <input
+            type="text"
+            placeholder="Nome (ex.: Viagem)"
+            value={name}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+            className={inputClassName}
+            aria-label="Nome da meta"
+          />
+          <input
+            type="text"
+            inputMode="decimal"
+            placeholder="Valor da meta (R$)"
+            value={targetAmount}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTargetAmount(e.target.value)}
+            className={inputClassName}
+            aria-label="Valor da meta"
+          />
+          <input
+            type="date"
+            value={targetDate}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTargetDate(e.target.value)}
+            className={inputClassName}
+            aria-label="Data da meta"
+          />
+          <input
+            type="text"
+            inputMode="decimal"
+            placeholder="Já guardado (R$, opcional)"
+            value={initialAmount}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setInitialAmount(e.target.value)}
+            className={inputClassName}
+            aria-label="Valor já guardado"
+          />
+        </div>
+        {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+        <div className="flex justify-end space-x-3 mt-4">
+          {editing && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="flex items-center space-x-2 px-4 py-2 rounded-lg text-gray-300 hover:bg-gray-700 hover:text-white transition-colors"
+            >
+              <X className="h-4 w-4" />
+              <span>Cancelar</span>
+            </button>
+          )}
+          <button
+            type="submit"
+            className="flex items-center space-x-2 px-4 py-2 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-500 transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            <span>{editing ? 'Salvar' : 'Criar meta'}</span>
+          </button>
+        </div>
+      </form>
+
+      {goalsPlan.goals.length === 0 ? (
+        <div className="bg-gray-800 rounded-xl shadow-lg p-8 text-center text-gray-400">
+          <p className="text-lg font-medium mb-2">Nenhuma meta ainda</p>
+          <p className="text-sm">Crie uma meta, como uma reserva de emergência, e marque as transferências para ela como contribuições.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {goalsPlan.goals.map(progress => {
+            const { goal, contributions, saved, status } = progress;
+            return (
+              <div key={goal._id} className="bg-gray-800 rounded-xl shadow-lg p-4">
+                <div className="flex items-start space-x-4">
+                  <GoalRing percent={progress.percent} status={status} size={88} />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <h4 className="text-white font-semibold truncate">{goal.name}</h4>
+                        <p className="text-sm text-gray-400">
+                          {formatCurrency(saved)} de {formatCurrency(goal.targetAmount)}
+                        </p>
+                      </div>
+                      <span
+                        className="flex-shrink-0 text-xs font-medium px-2 py-0.5 rounded-full"
+                        style={{ color: GOAL_STATUS_COLORS[status], backgroundColor: `${GOAL_STATUS_COLORS[status]}22` }}
+                      >
+                        {GOAL_STATUS_LABELS[status]}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-300 mt-2">{renderPace(progress)}</p>
+                  </div>
+                  <div className="flex flex-col sm:flex-row">
+                    <button
+                      onClick={() => startEditing(goal)}
+                      className="p-2 text-gray-400 hover:text-blue-400"
+                      title={`Editar meta ${goal.name}`}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(goal)}
+                      className="p-2 text-gray-400 hover:text-red-400"
+                      title={`Remover meta ${goal.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+
+                <div className="mt-4 border-t border-gray-700 pt-3">
+                  <p className="text-xs font-medium text-gray-400 mb-2">
+                    Contribuições ({contributions.length})
+                    {goal.initialAmount > 0 && ` + ${formatCurrency(goal.initialAmount)} já guardados`}
+                  </p>
+                  {contributions.slice(0, CONTRIBUTIONS_SHOWN).map(t => (
+                    <div key={t._id} className="flex items-center justify-between text-sm py-1">
+                      <span className="text-gray-300 truncate">
+                        {t.description} <span className="text-xs text-gray-500">· {formatDate(t.createdAt)}</span>
+                      </span>
+                      <span className="flex items-center space-x-2">
+                        <span className="text-white">{formatCurrency(t.amount)}</span>
+                        <button
+                          onClick={() => setTransactionGoal(t, null)}
+                          className="p-1 text-gray-500 hover:text-red-400"
+                          title={`Desvincular ${t.description}`}
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </span>
+                    </div>
+                  ))}
+                  {linkOptions.length > 0 && status !== 'done' && (
+                    <label className="flex items-center space-x-2 mt-2 text-sm text-gray-400">
+                      <Link2 className="h-4 w-4 flex-shrink-0" />
+                      <select
+                        value=""
+                        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => linkTransaction(goal._id, e.target.value)}
+                        className={`${inputClassName} py-1 text-sm flex-1 min-w-0`}
+                        aria-label={`Vincular lançamento à meta ${goal.name}`}
+                      >
+                        <option value="">Vincular um lançamento como contribuição...</option>
+                        {linkOptions.map(t => (
+                          <option key={t._id} value={t._id}>
+                            {t.description} · {formatCurrency(t.amount)} · {formatDate(t.createdAt)}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GoalsView;
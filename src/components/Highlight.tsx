@@ -0,0 +1,26 @@
+import { Fragment } from 'react';
+import { getHighlightSegments } from '../utils/search';
+
+interface HighlightProps {
+  text: string;
+  terms: string[];
+}
+
+// Marca no texto os trechos que bateram com a busca
+const Highlight: React.FC<HighlightProps> = ({ text, terms }) => {
+  if (terms.length === 0) return <>{text}</>;
+
+  return (
+    <>
+      {getHighlightSegments(text, terms).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-yellow-500/30 text-yellow-100 rounded-sm">{segment.text}</mark>
+        ) : (
+          <Fragment key={index}>{segment.text}</Fragment>
+        )
+      )}
+    </>
+  );
+};
+
+export default Highlight;
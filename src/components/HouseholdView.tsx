@@ -0,0 +1,234 @@
+import { useMemo, useState } from 'react';
+import { ArrowRight, CheckCircle, LogOut, Plus, Trash2, UserPlus } from 'lucide-react';
+import { useConfirm } from '../context/ConfirmContext';
+import { useFinance } from '../context/FinanceContext';
+import { HouseholdMember } from '../types/finance';
+import { formatCurrency } from '../utils/currency';
+import { Settlement, getMemberBalances, getMemberName, getSettlements } from '../utils/household';
+
+const inputClassName = 'px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const HouseholdView: React.FC = () => {
+  const { household, userId, transactions, createHousehold, addHouseholdMember, removeHouseholdMember, settleUp } = useFinance();
+  const confirm = useConfirm();
+  const [householdName, setHouseholdName] = useState('');
+  const [ownName, setOwnName] = useState('');
+  const [memberName, setMemberName] = useState('');
+  const [memberPhone, setMemberPhone] = useState('');
+  const [error, setError] = useState('');
+
+  const members = useMemo(() => household?.members || [], [household]);
+  const balances = useMemo(() => getMemberBalances(transactions, members), [transactions, members]);
+  const settlements = useMemo(() => getSettlements(balances), [balances]);
+  const nameOf = (memberId: string) => {
+    const name = getMemberName(household, memberId);
+    return memberId === userId ? `${name} (você)` : name;
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!householdName.trim() || !ownName.trim()) {
+      setError('Dê um nome para a casa e diga como você quer aparecer');
+      return;
+    }
+    setError('');
+    await createHousehold(householdName.trim(), ownName.trim());
+  };
+
+  const handleAddMember = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const phone = memberPhone.replace(/\D/g, '');
+    if (!memberName.trim()) {
+      setError('Informe o nome de quem vai entrar');
+      return;
+    }
+    if (phone.length < 12 || phone.length > 13) {
+      setError('Informe o WhatsApp com DDI e DDD, ex.: 55 11 99999-8888');
+      return;
+    }
+    setError('');
+    if (await addHouseholdMember({ name: memberName.trim(), phone })) {
+      setMemberName('');
+      setMemberPhone('');
+    }
+  };
+
+  const handleRemove = async (member: HouseholdMember) => {
+    const leaving = member.userId === userId;
+    const confirmed = await confirm({
+      title: leaving ? 'Sair da casa?' : `Remover ${member.name} da casa?`,
+      message: leaving
+        ? 'Os lançamentos continuam na casa e você volta a ver só os seus.'
+        : 'Os lançamentos que essa pessoa fez continuam na casa, mas saem do acerto de contas.',
+      confirmLabel: leaving ? 'Sair' : 'Remover',
+      destructive: true
+    });
+    if (confirmed) removeHouseholdMember(member.userId);
+  };
+
+  const handleSettle = async (settlement: Settlement) => {
+    const confirmed = await confirm({
+      title: 'Registrar pagamento?',
+      message: `${nameOf(settlement.from)} pagou ${formatCurrency(settlement.amount)} para ${nameOf(settlement.to)}. ` +
+        'O acerto entra como uma transferência e zera essa dívida.',
+      confirmLabel: 'Registrar'
+    });
+    if (confirmed) settleUp(settlement);
+  };
+
+  if (!household) {
+    return (
+      <form onSubmit={handleCreate} className="bg-gray-800 rounded-xl shadow-lg p-6 mb-6">
+        <h3 className="text-lg font-semibold text-white mb-2 flex items-center">
+          <div className="w-2 h-6 bg-rose-500 rounded-full mr-3"></div>
+          Criar uma casa
+        </h3>
+        <p className="text-sm text-gray-400 mb-4">
+          Numa casa, várias pessoas lançam pelo próprio WhatsApp no mesmo livro. Seus lançamentos passam a ser da casa.
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <input
+            type="text"
+            placeholder="Nome da casa (ex.: Apartamento)"
+            value={householdName}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setHouseholdName(e.target.value)}
+            className={inputClassName}
+            aria-label="Nome da casa"
+          />
+          <input
+            type="text"
+            placeholder="Seu nome"
+            value={ownName}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setOwnName(e.target.value)}
+            className={inputClassName}
+            aria-label="Seu nome"
+          />
+        </div>
+        {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+        <div className="flex justify-end mt-4">
+          <button
+            type="submit"
+            className="flex items-center space-x-2 px-4 py-2 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-500 transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Criar casa</span>
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="mb-6 grid grid-cols-1 xl:grid-cols-2 gap-6">
+      <div className="bg-gray-800 rounded-xl shadow-lg p-6">
+        <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+          <div className="w-2 h-6 bg-rose-500 rounded-full mr-3"></div>
+          {household.name}
+        </h3>
+        <div className="space-y-2 mb-6">
+          {members.map(member => (
+            <div key={member.userId} className="flex items-center justify-between p-3 rounded-lg bg-gray-900/40">
+              <div className="min-w-0">
+                <p className="text-white font-medium truncate">{nameOf(member.userId)}</p>
+                {member.phone && <p className="text-xs text-gray-400">WhatsApp +{member.phone}</p>}
+              </div>
+              <button
+                onClick={() => handleRemove(member)}
+                className="p-2 text-gray-400 hover:text-red-400"
+                title={member.userId === userId ? 'Sair da casa' : `Remover ${member.name}`}
+              >
+                {member.userId === userId ? <LogOut className="h-4 w-4" /> : <Trash2 className="h-4 w-4" />}
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleAddMember}>
+          <p className="text-sm font-medium text-gray-300 mb-2">Adicionar alguém</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <input
+              type="text"
+              placeholder="Nome"
+              value={memberName}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMemberName(e.target.value)}
+              className={inputClassName}
+              aria-label="Nome do membro"
+            />
+            <input
+              type="tel"
+              placeholder="WhatsApp (ex.: 55 11 99999-8888)"
+              value={memberPhone}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMemberPhone(e.target.value)}
+              className={inputClassName}
+              aria-label="WhatsApp do membro"
+            />
+          </div>
+          {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+          <div className="flex justify-end mt-3">
+            <button
+              type="submit"
+              className="flex items-center space-x-2 px-4 py-2 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-500 transition-colors"
+            >
+              <UserPlus className="h-4 w-4" />
+              <span>Adicionar</span>
+            </button>
+          </div>
+        </form>
+      </div>
+
+      <div className="bg-gray-800 rounded-xl shadow-lg p-6">
+        <h3 className="text-lg font-semibold text-white mb-1 flex items-center">
+          <div className="w-2 h-6 bg-rose-500 rounded-full mr-3"></div>
+          Acerto de contas
+        </h3>
+        <p className="text-xs text-gray-400 mb-4">
+          Despesas marcadas como da casa são divididas igualmente entre todos. Pagamentos já registrados abatem o saldo.
+        </p>
+
+        <div className="space-y-2 mb-6">
+          {balances.map(balance => (
+            <div key={balance.userId} className="flex items-center justify-between text-sm">
+              <span className="text-gray-300 truncate">{nameOf(balance.userId)}</span>
+              <span className="text-right">
+                <span className="text-xs text-gray-500 mr-3">
+                  pagou {formatCurrency(balance.paid)} · parte {formatCurrency(balance.share)}
+                </span>
+                <span className={`font-semibold ${balance.balance >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {balance.balance >= 0 ? '+' : ''}{formatCurrency(balance.balance)}
+                </span>
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {settlements.length === 0 ? (
+          <div className="flex items-center space-x-2 text-green-400 text-sm">
+            <CheckCircle className="h-5 w-5" />
+            <span>Contas em dia: ninguém deve nada.</span>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {settlements.map(settlement => (
+              <div key={`${settlement.from}-${settlement.to}`} className="flex items-center justify-between p-3 rounded-lg bg-gray-900/40">
+                <p className="flex items-center flex-wrap gap-x-2 text-sm text-gray-200">
+                  <span className="font-medium text-white">{nameOf(settlement.from)}</span>
+                  <ArrowRight className="h-4 w-4 text-gray-500" />
+                  <span className="font-medium text-white">{nameOf(settlement.to)}</span>
+                  <span className="font-semibold text-rose-300">{formatCurrency(settlement.amount)}</span>
+                </p>
+                <button
+                  onClick={() => handleSettle(settlement)}
+                  className="flex-shrink-0 px-3 py-1.5 rounded-lg text-sm bg-gray-700 text-gray-200 hover:bg-gray-600 hover:text-white transition-colors"
+                >
+                  Registrar pagamento
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HouseholdView;
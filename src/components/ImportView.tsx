@@ -0,0 +1,285 @@
+import { useMemo, useState } from 'react';
+import { AlertTriangle, FileText, Upload } from 'lucide-react';
+import { Transaction, TransactionInput } from '../types/finance';
+import { KeywordRules } from '../utils/commandParser';
+import { formatCurrency } from '../utils/currency';
+import {
+  buildImportRows,
+  CsvColumnMapping,
+  CsvDateFormat,
+  mapCsvRows,
+  parseCSV,
+  parseOFX,
+  StatementParseResult
+} from '../utils/statementImport';
+
+interface ImportViewProps {
+  transactions: Transaction[];
+  keywordRules: KeywordRules;
+  onImport: (inputs: TransactionInput[]) => Promise<boolean>; // true quando a importação deu certo
+}
+
+type FileFormat = 'csv' | 'ofx';
+
+// Ajustes feitos pelo usuário na revisão, por linha
+interface RowOverride {
+  selected?: boolean;
+  category?: string;
+}
+
+const selectClassName = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Sugere o mapeamento a partir dos nomes das colunas do cabeçalho
+const guessMapping = (header: string[]): CsvColumnMapping => {
+  const find = (pattern: RegExp) => {
+    const index = header.findIndex(column => pattern.test(column.toLowerCase()));
+    return index === -1 ? null : index;
+  };
+  return {
+    date: find(/data|date/) ?? 0,
+    description: find(/descri|hist[oó]rico|memo|lan[cç]amento/) ?? 1,
+    amount: find(/valor|amount|quantia/) ?? 2,
+    type: find(/tipo|type|d\/c/),
+    category: find(/categoria|category/)
+  };
+};
+
+const ImportView: React.FC<ImportViewProps> = ({ transactions, keywordRules, onImport }) => {
+  const [fileName, setFileName] = useState('');
+  const [format, setFormat] = useState<FileFormat | null>(null);
+  const [content, setContent] = useState('');
+  const [mapping, setMapping] = useState<CsvColumnMapping>({ date: 0, description: 1, amount: 2, type: null, category: null });
+  const [hasHeader, setHasHeader] = useState(true);
+  const [dateFormat, setDateFormat] = useState<CsvDateFormat>('dd/mm/yyyy');
+  const [decimalSeparator, setDecimalSeparator] = useState<',' | '.'>(',');
+  const [rowOverrides, setRowOverrides] = useState<Record<string, RowOverride>>({});
+  const [importing, setImporting] = useState(false);
+
+  const csvRows = useMemo(() => (format === 'csv' ? parseCSV(content) : []), [format, content]);
+  const columnCount = csvRows.reduce((max, row) => Math.max(max, row.length), 0);
+  const columnLabels = Array.from({ length: columnCount }, (_, index) =>
+    hasHeader && csvRows[0] && csvRows[0][index] ? csvRows[0][index] : `Coluna ${index + 1}`
+  );
+
+  const parsed: StatementParseResult = useMemo(() => {
+    if (format === 'ofx') return parseOFX(content);
+    if (format === 'csv') return mapCsvRows(csvRows, { mapping, hasHeader, dateFormat, decimalSeparator });
+    return { entries: [], errors: [] };
+  }, [format, content, csvRows, mapping, hasHeader, dateFormat, decimalSeparator]);
+
+  const rows = useMemo(
+    () => buildImportRows(parsed.entries, transactions, keywordRules).map(row => {
+      const override = rowOverrides[row.key] || {};
+      return {
+        ...row,
+        selected: override.selected !== undefined ? override.selected : row.selected,
+        input: { ...row.input, category: override.category !== undefined ? override.category : row.input.category }
+      };
+    }),
+    [parsed, transactions, keywordRules, rowOverrides]
+  );
+
+  const selectedRows = rows.filter(row => row.selected && row.input.category.trim());
+  const duplicateCount = rows.filter(row => row.duplicateOf).length;
+
+  const updateRow = (key: string, change: RowOverride) => {
+    setRowOverrides(current => ({ ...current, [key]: { ...current[key], ...change } }));
+  };
+
+  const reset = () => {
+    setFileName('');
+    setFormat(null);
+    setContent('');
+    setRowOverrides({});
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files && e.target.files[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const text = String(reader.result || '');
+      const isOfx = /\.ofx$/i.test(file.name) || /<OFX>/i.test(text);
+      setFileName(file.name);
+      setContent(text);
+      setRowOverrides({});
+      setFormat(isOfx ? 'ofx' : 'csv');
+      if (!isOfx) {
+        const firstRow = parseCSV(text)[0] || [];
+        setMapping(guessMapping(firstRow));
+        setHasHeader(firstRow.every(cell => !/\d/.test(cell)));
+      }
+    };
+    reader.readAsText(file, /\.ofx$/i.test(file.name) ? 'ISO-8859-1' : 'UTF-8');
+  };
+
+  const handleImport = async () => {
+    if (selectedRows.length === 0) return;
+    setImporting(true);
+    try {
+      const imported = await onImport(selectedRows.map(row => row.input));
+      if (imported) reset();
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const renderColumnSelect = (label: string, field: keyof CsvColumnMapping, optional: boolean) => (
+    <div>
+      <label className="block text-xs font-medium text-gray-400 mb-1">{label}</label>
+      <select
+        value={mapping[field] === null ? '' : String(mapping[field])}
+        onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+          setMapping({ ...mapping, [field]: e.target.value === '' ? null : Number(e.target.value) })
+        }
+        className={selectClassName}
+      >
+        {optional && <option value="">Não usar</option>}
+        {columnLabels.map((columnLabel, index) => (
+          <option key={index} value={index}>{columnLabel}</option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6 mb-6">
+      <div className="bg-gray-800 rounded-xl shadow-lg p-6">
+        <label className="flex flex-col items-center justify-center border-2 border-dashed border-gray-600 rounded-xl p-8 cursor-pointer hover:border-blue-500 transition-colors">
+          <Upload className="h-8 w-8 text-gray-400 mb-3" />
+          <span className="text-white font-medium">{fileName || 'Selecione um extrato CSV ou OFX'}</span>
+          <span className="text-xs text-gray-400 mt-1">Os dados só são enviados depois da sua revisão</span>
+          <input type="file" accept=".csv,.ofx,.txt,text/csv" onChange={handleFile} className="hidden" />
+        </label>
+      </div>
+
+      {format === 'csv' && columnCount > 0 && (
+        <div className="bg-gray-800 rounded-xl shadow-lg p-6">
+          <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+            <div className="w-2 h-6 bg-blue-500 rounded-full mr-3"></div>
+            Mapeamento de Colunas
+          </h3>
+          <div className="grid grid-cols-2 lg:grid-cols-5 gap-3 mb-4">
+            {renderColumnSelect('Data', 'date', false)}
+            {renderColumnSelect('Descrição', 'description', false)}
+            {renderColumnSelect('Valor', 'amount', false)}
+            {renderColumnSelect('Tipo (D/C)', 'type', true)}
+            {renderColumnSelect('Categoria', 'category', true)}
+          </div>
+          <div className="grid grid-cols-2 lg:grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">Formato da data</label>
+              <select
+                value={dateFormat}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setDateFormat(e.target.value as CsvDateFormat)}
+                className={selectClassName}
+              >
+                <option value="dd/mm/yyyy">dd/mm/aaaa</option>
+                <option value="yyyy-mm-dd">aaaa-mm-dd</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-400 mb-1">Separador decimal</label>
+              <select
+                value={decimalSeparator}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setDecimalSeparator(e.target.value as ',' | '.')}
+                className={selectClassName}
+              >
+                <option value=",">Vírgula (1.234,56)</option>
+                <option value=".">Ponto (1,234.56)</option>
+              </select>
+            </div>
+            <label className="flex items-center space-x-2 text-sm text-gray-300 mt-5">
+              <input
+                type="checkbox"
+                checked={hasHeader}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setHasHeader(e.target.checked)}
+              />
+              <span>Primeira linha é cabeçalho</span>
+            </label>
+          </div>
+        </div>
+      )}
+
+      {parsed.errors.length > 0 && (
+        <div className="bg-red-900/30 border border-red-700 rounded-xl p-4">
+          <p className="text-sm font-medium text-red-300 mb-2 flex items-center">
+            <AlertTriangle className="h-4 w-4 mr-2" />
+            {parsed.errors.length} linha{parsed.errors.length === 1 ? '' : 's'} ignorada{parsed.errors.length === 1 ? '' : 's'}
+          </p>
+          <ul className="text-xs text-red-200 space-y-1 max-h-32 overflow-y-auto">
+            {parsed.errors.map(error => (
+              <li key={error.line}>Linha {error.line}: {error.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <div className="bg-gray-800 rounded-xl shadow-lg overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-700 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div>
+              <h3 className="text-lg font-semibold text-white flex items-center">
+                <div className="w-2 h-6 bg-purple-500 rounded-full mr-3"></div>
+                Revisão
+              </h3>
+              <p className="text-sm text-gray-400 mt-1">
+                {rows.length} lançamento{rows.length === 1 ? '' : 's'}
+                {duplicateCount > 0 && ` · ${duplicateCount} possíve${duplicateCount === 1 ? 'l' : 'is'} duplicado${duplicateCount === 1 ? '' : 's'}`}
+              </p>
+            </div>
+            <div className="flex space-x-3">
+              <button onClick={reset} className="px-4 py-2 rounded-lg text-gray-300 hover:bg-gray-700 transition-colors">
+                Cancelar
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={importing || selectedRows.length === 0}
+                className="flex items-center space-x-2 px-4 py-2 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-500 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <FileText className="h-4 w-4" />
+                <span>{importing ? 'Importando...' : `Importar ${selectedRows.length}`}</span>
+              </button>
+            </div>
+          </div>
+          <div className="divide-y divide-gray-700">
+            {rows.map(row => (
+              <div key={row.key} className={`p-4 flex items-center gap-3 ${row.selected ? '' : 'opacity-60'}`}>
+                <input
+                  type="checkbox"
+                  checked={row.selected}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateRow(row.key, { selected: e.target.checked })}
+                  aria-label={`Importar ${row.input.description}`}
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-white truncate">{row.input.description}</p>
+                  <p className="text-xs text-gray-400">{new Date(row.input.createdAt).toLocaleDateString('pt-BR')}</p>
+                  {row.duplicateOf && (
+                    <p className="text-xs text-yellow-400 mt-1 flex items-center">
+                      <AlertTriangle className="h-3 w-3 mr-1" />
+                      Possível duplicado de "{row.duplicateOf.description}" (ID: {row.duplicateOf._id})
+                    </p>
+                  )}
+                </div>
+                <input
+                  type="text"
+                  value={row.input.category}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateRow(row.key, { category: e.target.value })}
+                  className="w-36 px-2 py-1 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  aria-label={`Categoria de ${row.input.description}`}
+                />
+                <p className={`w-28 text-right font-bold ${row.input.type === 'income' ? 'text-green-400' : 'text-red-400'}`}>
+                  {row.input.type === 'income' ? '+' : '-'}{formatCurrency(row.input.amount)}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportView;
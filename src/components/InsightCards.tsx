@@ -0,0 +1,75 @@
+import { useMemo } from 'react';
+import { AlertTriangle, CalendarClock, Repeat, TrendingUp } from 'lucide-react';
+import { useFinance } from '../context/FinanceContext';
+import { Insight, InsightKind, InsightSeverity, getInsights } from '../utils/insights';
+
+// Só os mais relevantes, para não empurrar o resumo para baixo
+const MAX_INSIGHTS = 4;
+
+const SEVERITY_STYLES: Record<InsightSeverity, { card: string; icon: string }> = {
+  alert: { card: 'bg-red-900/40 border-red-700', icon: 'text-red-400' },
+  warning: { card: 'bg-yellow-900/30 border-yellow-700', icon: 'text-yellow-400' },
+  info: { card: 'bg-blue-900/30 border-blue-700', icon: 'text-blue-400' },
+  positive: { card: 'bg-green-900/30 border-green-700', icon: 'text-green-400' }
+};
+
+const KIND_ICONS: Record<InsightKind, React.ElementType> = {
+  'unusual-expense': AlertTriangle,
+  'new-recurring': Repeat,
+  'month-end-forecast': CalendarClock
+};
+
+// Cartões de insights no topo do dashboard: gastos fora do padrão, assinaturas novas e previsão do mês
+const InsightCards: React.FC = () => {
+  const { transactions, recurringRules, openTransaction, goTo } = useFinance();
+  const insights = useMemo(
+    () => getInsights(transactions, recurringRules).slice(0, MAX_INSIGHTS),
+    [transactions, recurringRules]
+  );
+
+  if (insights.length === 0) return null;
+
+  const handleOpen = (insight: Insight) => {
+    if (insight.kind === 'new-recurring') {
+      goTo('recurring');
+      return;
+    }
+    const transaction = transactions.find(t => t._id === insight.transactionId);
+    if (transaction) openTransaction(transaction);
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-6">
+      {insights.map(insight => {
+        const styles = SEVERITY_STYLES[insight.severity];
+        const Icon = insight.kind === 'month-end-forecast' && insight.severity === 'positive' ? TrendingUp : KIND_ICONS[insight.kind];
+        const clickable = insight.kind !== 'month-end-forecast';
+        const content = (
+          <>
+            <Icon className={`h-5 w-5 flex-shrink-0 mt-0.5 ${styles.icon}`} />
+            <div className="min-w-0">
+              <p className="text-sm font-semibold text-white">{insight.title}</p>
+              <p className="text-sm text-gray-300">{insight.message}</p>
+            </div>
+          </>
+        );
+
+        return clickable ? (
+          <button
+            key={insight.id}
+            onClick={() => handleOpen(insight)}
+            className={`flex items-start space-x-3 p-3 rounded-xl border text-left transition-colors hover:brightness-125 ${styles.card}`}
+          >
+            {content}
+          </button>
+        ) : (
+          <div key={insight.id} className={`flex items-start space-x-3 p-3 rounded-xl border ${styles.card}`}>
+            {content}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default InsightCards;
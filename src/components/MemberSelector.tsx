@@ -0,0 +1,40 @@
+import { Users } from 'lucide-react';
+import { useFinance } from '../context/FinanceContext';
+
+// Filtro por membro da casa: mostra só o que cada um pagou. Sem casa, não aparece.
+const MemberSelector: React.FC = () => {
+  const { household, userId, selectedMember, setSelectedMember } = useFinance();
+  if (!household || household.members.length < 2) return null;
+
+  const options = [{ value: '', label: 'Todos' }, ...household.members.map(m => ({
+    value: m.userId,
+    label: m.userId === userId ? `${m.name} (você)` : m.name
+  }))];
+
+  return (
+    <div className="bg-gray-800 rounded-xl shadow-lg p-4 mb-6 flex flex-col lg:flex-row lg:items-center gap-3">
+      <div className="flex items-center text-gray-400 text-sm font-medium">
+        <Users className="h-4 w-4 mr-2" />
+        Quem pagou
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {options.map(option => (
+          <button
+            key={option.value || 'all'}
+            onClick={() => setSelectedMember(option.value)}
+            aria-pressed={selectedMember === option.value}
+            className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
+              selectedMember === option.value
+                ? 'bg-rose-600 text-white'
+                : 'bg-gray-700 text-gray-300 hover:bg-gray-600 hover:text-white'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MemberSelector;
@@ -0,0 +1,44 @@
+import { ArrowLeft, Menu, Plus, X } from 'lucide-react';
+import { useFinance } from '../context/FinanceContext';
+
+interface MobileHeaderProps {
+  sidebarOpen: boolean;
+  onToggleSidebar: () => void;
+  onCreate: () => void;
+}
+
+const MobileHeader: React.FC<MobileHeaderProps> = ({ sidebarOpen, onToggleSidebar, onCreate }) => {
+  const { currentView, goBack } = useFinance();
+
+  return (
+    <div className="flex items-center justify-between p-4 bg-gray-900 md:hidden">
+      {currentView !== 'dashboard' && (
+        <button onClick={goBack} className="p-1 text-gray-400 hover:text-white" title="Voltar">
+          <ArrowLeft className="h-5 w-5" />
+        </button>
+      )}
+      <h1 className="text-xl font-bold text-white flex-1 text-center">
+        {currentView === 'dashboard' && 'Dashboard'}
+        {currentView === 'expenses' && 'Despesas'}
+        {currentView === 'income' && 'Receitas'}
+        {currentView === 'transactions' && 'Transações'}
+        {currentView === 'budgets' && 'Orçamentos'}
+        {currentView === 'recurring' && 'Recorrentes'}
+        {currentView === 'accounts' && 'Contas'}
+        {currentView === 'cards' && 'Cartões'}
+        {currentView === 'categories' && 'Categorias'}
+        {currentView === 'goals' && 'Metas'}
+        {currentView === 'household' && 'Casa'}
+        {currentView === 'import' && 'Importar'}
+      </h1>
+      <button onClick={onCreate} className="p-1 mr-2 text-gray-400 hover:text-white" title="Nova Transação">
+        <Plus className="h-6 w-6" />
+      </button>
+      <button onClick={onToggleSidebar} className="p-1 text-gray-400 hover:text-white md:hidden" >
+        {sidebarOpen ? <X className="h-6 w-6" /> : <Menu className="h-6 w-6" />}
+      </button>
+    </div>
+  );
+};
+
+export default MobileHeader;
@@ -0,0 +1,61 @@
+import { Calendar } from 'lucide-react';
+import { PeriodFilter, PeriodPreset } from '../types/finance';
+import { PERIOD_LABELS } from '../utils/period';
+
+interface PeriodSelectorProps {
+  value: PeriodFilter;
+  onChange: (value: PeriodFilter) => void;
+}
+
+const PRESET_ORDER: PeriodPreset[] = ['today', 'week', 'month', 'all', 'custom'];
+
+const PeriodSelector: React.FC<PeriodSelectorProps> = ({ value, onChange }) => {
+  const dateInputClassName = 'px-3 py-1.5 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="bg-gray-800 rounded-xl shadow-lg p-4 mb-6 flex flex-col lg:flex-row lg:items-center gap-3">
+      <div className="flex items-center text-gray-400 text-sm font-medium">
+        <Calendar className="h-4 w-4 mr-2" />
+        Período
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {PRESET_ORDER.map(preset => (
+          <button
+            key={preset}
+            onClick={() => onChange(preset === 'custom' ? { preset, from: value.from, to: value.to } : { preset })}
+            className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
+              value.preset === preset
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-700 text-gray-300 hover:bg-gray-600 hover:text-white'
+            }`}
+          >
+            {PERIOD_LABELS[preset]}
+          </button>
+        ))}
+      </div>
+      {value.preset === 'custom' && (
+        <div className="flex items-center gap-2 lg:ml-auto">
+          <input
+            type="date"
+            aria-label="Data inicial"
+            value={value.from || ''}
+            max={value.to}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...value, from: e.target.value || undefined })}
+            className={dateInputClassName}
+          />
+          <span className="text-gray-400 text-sm">até</span>
+          <input
+            type="date"
+            aria-label="Data final"
+            value={value.to || ''}
+            min={value.from}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...value, to: e.target.value || undefined })}
+            className={dateInputClassName}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PeriodSelector;
@@ -0,0 +1,104 @@
+import { Transaction } from '../types/finance';
+import { formatCurrency, formatSignedAmount } from '../utils/currency';
+import { CategoryShare, formatExportDate, PeriodReport } from '../utils/export';
+
+export type PrintMode = 'list' | 'report';
+
+interface PrintableReportProps {
+  mode: PrintMode;
+  transactions: Transaction[];
+  report: PeriodReport;
+}
+
+// Versão para impressão / "Salvar como PDF": fica oculta na tela e só aparece no print
+const PrintableReport: React.FC<PrintableReportProps> = ({ mode, transactions, report }) => {
+  const renderShares = (title: string, shares: CategoryShare[]) => (
+    <section className="mb-6 break-inside-avoid">
+      <h2 className="text-lg font-semibold mb-2">{title}</h2>
+      {shares.length === 0 ? (
+        <p className="text-sm text-gray-600">Nenhum lançamento no período.</p>
+      ) : (
+        <table className="w-full text-sm border-collapse">
+          <tbody>
+            {shares.map(share => (
+              <tr key={share.category} className="border-b border-gray-300">
+                <td className="py-1">{share.category}</td>
+                <td className="py-1 text-right">{formatCurrency(share.amount)}</td>
+                <td className="py-1 text-right w-20">{share.percent.toFixed(1).replace('.', ',')}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+
+  const renderTransactionTable = (rows: Transaction[]) => (
+    <table className="w-full text-sm border-collapse">
+      <thead>
+        <tr className="border-b-2 border-gray-800 text-left">
+          <th className="py-1">Data</th>
+          <th className="py-1">Descrição</th>
+          <th className="py-1">Categoria</th>
+          <th className="py-1 text-right">Valor</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(t => (
+          <tr key={t._id} className="border-b border-gray-300 break-inside-avoid">
+            <td className="py-1 whitespace-nowrap">{formatExportDate(t.createdAt)}</td>
+            <td className="py-1">{t.description}</td>
+            <td className="py-1">{t.category}</td>
+            <td className="py-1 text-right whitespace-nowrap">
+              {formatSignedAmount(t.type, t.amount)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  return (
+    <div className="hidden print:block bg-white text-black p-2">
+      <header className="mb-6 border-b-2 border-gray-800 pb-2">
+        <h1 className="text-2xl font-bold">
+          {mode === 'report' ? 'Relatório Financeiro' : 'Transações'} · {report.periodLabel}
+        </h1>
+        <p className="text-sm text-gray-600">Gerado em {formatExportDate(report.generatedAt)}</p>
+      </header>
+
+      {mode === 'report' ? (
+        <>
+          <section className="grid grid-cols-4 gap-4 mb-6 break-inside-avoid">
+            <div>
+              <p className="text-xs text-gray-600">Receitas</p>
+              <p className="text-lg font-bold">{formatCurrency(report.summary.totalIncome)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-600">Despesas</p>
+              <p className="text-lg font-bold">{formatCurrency(report.summary.totalExpenses)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-600">Saldo</p>
+              <p className="text-lg font-bold">{formatCurrency(report.summary.balance)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-600">Transações</p>
+              <p className="text-lg font-bold">{report.summary.transactionCount}</p>
+            </div>
+          </section>
+          {renderShares('Despesas por categoria', report.expenseCategories)}
+          {renderShares('Receitas por categoria', report.incomeCategories)}
+          <section>
+            <h2 className="text-lg font-semibold mb-2">Maiores despesas</h2>
+            {renderTransactionTable(report.topExpenses)}
+          </section>
+        </>
+      ) : (
+        renderTransactionTable(transactions)
+      )}
+    </div>
+  );
+};
+
+export default PrintableReport;
@@ -0,0 +1,47 @@
+import { CartesianGrid, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { formatCurrency } from '../utils/currency';
+import { parseDateInput } from '../utils/period';
+import { ProjectedBalancePoint } from '../utils/recurring';
+
+interface ProjectedBalanceChartProps {
+  points: ProjectedBalancePoint[];
+}
+
+const tooltipStyle = {
+  backgroundColor: '#374151',
+  border: '1px solid #4B5563',
+  borderRadius: '8px',
+  color: 'white'
+};
+
+const axisTick = { fill: '#9CA3AF', fontSize: 12 };
+const axisLine = { stroke: '#4B5563' };
+
+// "2024-09-15" -> "15/09"
+const formatDay = (date: string): string =>
+  parseDateInput(date).toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' });
+
+const ProjectedBalanceChart: React.FC<ProjectedBalanceChartProps> = ({ points }) => (
+  <div className="bg-gray-800 rounded-xl shadow-lg p-6 mb-6 hover:shadow-2xl transition-shadow duration-200">
+    <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+      <div className="w-2 h-6 bg-blue-500 rounded-full mr-3"></div>
+      Saldo Projetado
+    </h3>
+    <ResponsiveContainer width="100%" height={250}>
+      <LineChart data={points}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#4B5563" />
+        <XAxis dataKey="date" tickFormatter={formatDay} tick={axisTick} axisLine={axisLine} minTickGap={16} />
+        <YAxis tickFormatter={(value: number) => `R$ ${value}`} tick={axisTick} axisLine={axisLine} />
+        <Tooltip
+          labelFormatter={(label: string) => formatDay(label)}
+          formatter={(value: number) => formatCurrency(value)}
+          contentStyle={tooltipStyle}
+        />
+        <ReferenceLine y={0} stroke="#F87171" strokeDasharray="4 4" />
+        <Line type="stepAfter" dataKey="balance" name="Saldo" stroke="#60A5FA" strokeWidth={2} dot={false} />
+      </LineChart>
+    </ResponsiveContainer>
+  </div>
+);
+
+export default ProjectedBalanceChart;
@@ -0,0 +1,310 @@
+import { useMemo, useState } from 'react';
+import { CalendarClock, Pencil, Plus, Repeat, Trash2, TrendingDown, TrendingUp, X } from 'lucide-react';
+import { useFinance } from '../context/FinanceContext';
+import { CashFlowType, RecurrenceFrequency, RecurringRule } from '../types/finance';
+import { formatAmountInput, formatCurrency, parseBRLAmount } from '../utils/currency';
+import { parseDateInput, toDateInput } from '../utils/period';
+import { FREQUENCY_LABELS, getMonthClosingForecast, getProjectedBalance, getUpcomingEntries } from '../utils/recurring';
+import ProjectedBalanceChart from './ProjectedBalanceChart';
+import UpcomingCalendar from './UpcomingCalendar';
+
+const HORIZONS = [30, 60];
+
+const inputClassName = 'px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const formatDateLabel = (date: string): string => parseDateInput(date).toLocaleDateString('pt-BR');
+
+const RecurringView: React.FC = () => {
+  const { recurringRules, transactions, summary, categories, saveRecurringRule, deleteRecurringRule } = useFinance();
+  const [horizon, setHorizon] = useState(HORIZONS[0]);
+  const [editing, setEditing] = useState<RecurringRule | null>(null);
+  const [type, setType] = useState<CashFlowType>('expense');
+  const [description, setDescription] = useState('');
+  const [amount, setAmount] = useState('');
+  const [category, setCategory] = useState('');
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>('monthly');
+  const [dayOfMonth, setDayOfMonth] = useState(String(new Date().getDate()));
+  const [startDate, setStartDate] = useState(toDateInput(new Date()));
+  const [endDate, setEndDate] = useState('');
+  const [error, setError] = useState('');
+
+  const upcoming = useMemo(() => getUpcomingEntries(recurringRules, horizon), [recurringRules, horizon]);
+  const projection = useMemo(
+    () => getProjectedBalance(summary ? summary.balance : 0, upcoming, horizon),
+    [summary, upcoming, horizon]
+  );
+  const monthClosing = useMemo(() => getMonthClosingForecast(transactions, upcoming), [transactions, upcoming]);
+
+  const resetForm = () => {
+    setEditing(null);
+    setType('expense');
+    setDescription('');
+    setAmount('');
+    setCategory('');
+    setFrequency('monthly');
+    setDayOfMonth(String(new Date().getDate()));
+    setStartDate(toDateInput(new Date()));
+    setEndDate('');
+    setError('');
+  };
+
+  const startEditing = (rule: RecurringRule) => {
+    setEditing(rule);
+    setType(rule.type);
+    setDescription(rule.description);
+    setAmount(formatAmountInput(rule.amount));
+    setCategory(rule.category);
+    setFrequency(rule.frequency);
+    setDayOfMonth(String(rule.dayOfMonth));
+    setStartDate(rule.startDate);
+    setEndDate(rule.endDate || '');
+    setError('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsedAmount = parseBRLAmount(amount);
+    const day = Number(dayOfMonth);
+
+    if (!description.trim()) {
+      setError('Informe uma descrição');
+      return;
+    }
+    if (parsedAmount === null) {
+      setError('Informe um valor válido, ex.: 100,00');
+      return;
+    }
+    if (!category.trim()) {
+      setError('Informe uma categoria');
+      return;
+    }
+    if (!Number.isInteger(day) || day < 1 || day > 31) {
+      setError('O dia do vencimento vai de 1 a 31');
+      return;
+    }
+    if (!startDate) {
+      setError('Informe a data de início');
+      return;
+    }
+    if (endDate && endDate < startDate) {
+      setError('A data final não pode ser antes do início');
+      return;
+    }
+
+    saveRecurringRule(
+      {
+        type,
+        amount: parsedAmount,
+        description: description.trim(),
+        category: category.trim(),
+        frequency,
+        dayOfMonth: day,
+        startDate,
+        endDate: endDate || null
+      },
+      editing
+    );
+    resetForm();
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-4 mb-6">
+        <div className={`flex-1 rounded-xl p-4 border ${
+          monthClosing >= 0 ? 'bg-green-900/30 border-green-700' : 'bg-red-900/40 border-red-700'
+        }`}>
+          <p className="text-sm text-gray-300">Fechamento previsto do mês</p>
+          <p className={`text-2xl font-bold ${monthClosing >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+            {formatCurrency(monthClosing)}
+          </p>
+          <p className="text-xs text-gray-400 mt-1">
+            Receitas menos despesas deste mês, contando o que ainda vai vencer
+          </p>
+        </div>
+        <div className="inline-flex self-start sm:self-center bg-gray-800 rounded-lg p-1">
+          {HORIZONS.map(days => (
+            <button
+              key={days}
+              onClick={() => setHorizon(days)}
+              className={`px-3 py-1.5 rounded-md text-sm transition-colors ${
+                horizon === days ? 'bg-blue-600 text-white' : 'text-gray-300 hover:text-white'
+              }`}
+            >
+              Próximos {days} dias
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <ProjectedBalanceChart points={projection} />
+
+      <UpcomingCalendar entries={upcoming} days={horizon} />
+
+      <form onSubmit={handleSubmit} className="bg-gray-800 rounded-xl shadow-lg p-4 mb-6">
+        <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+          <div className="w-2 h-6 bg-blue-500 rounded-full mr-3"></div>
+          {editing ? 'Editar Recorrência' : 'Nova Recorrência'}
+        </h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+          <div className="flex rounded-lg bg-gray-700 p-1">
+            <button
+              type="button"
+              onClick={() => setType('expense')}
+              className={`flex-1 flex items-center justify-center space-x-1 rounded-md py-1 text-sm transition-colors ${
+                type === 'expense' ? 'bg-red-600 text-white' : 'text-gray-300 hover:text-white'
+              }`}
+            >
+              <TrendingDown className="h-4 w-4" />
+              <span>Despesa</span>
+            </button>
+            <button
+              type="button"
+              onClick={() => setType('income')}
+              className={`flex-1 flex items-center justify-center space-x-1 rounded-md py-1 text-sm transition-colors ${
+                type === 'income' ? 'bg-green-600 text-white' : 'text-gray-300 hover:text-white'
+              }`}
+            >
+              <TrendingUp className="h-4 w-4" />
+              <span>Receita</span>
+            </button>
+          </div>
+          <input
+            type="text"
+            placeholder="Descrição (ex.: Conta de luz)"
+            value={description}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDescription(e.target.value)}
+            className={inputClassName}
+            aria-label="Descrição"
+          />
+          <input
+            type="text"
+            inputMode="decimal"
+            placeholder="Valor (R$)"
+            value={amount}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAmount(e.target.value)}
+            className={inputClassName}
+            aria-label="Valor"
+          />
+          <input
+            type="text"
+            list="recurring-category-options"
+            placeholder="Categoria"
+            value={category}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCategory(e.target.value)}
+            className={inputClassName}
+            aria-label="Categoria"
+          />
+          <datalist id="recurring-category-options">
+            {categories.map(option => (
+              <option key={option} value={option} />
+            ))}
+          </datalist>
+          <select
+            value={frequency}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setFrequency(e.target.value as RecurrenceFrequency)}
+            className={inputClassName}
+            aria-label="Frequência"
+          >
+            {(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map(option => (
+              <option key={option} value={option}>{FREQUENCY_LABELS[option]}</option>
+            ))}
+          </select>
+          <label className="flex items-center space-x-2 text-sm text-gray-400">
+            <span className="whitespace-nowrap">Todo dia</span>
+            <input
+              type="number"
+              min={1}
+              max={31}
+              value={dayOfMonth}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDayOfMonth(e.target.value)}
+              className={`${inputClassName} w-full`}
+            />
+          </label>
+          <label className="flex items-center space-x-2 text-sm text-gray-400">
+            <span>Início</span>
+            <input
+              type="date"
+              value={startDate}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setStartDate(e.target.value)}
+              className={`${inputClassName} w-full`}
+            />
+          </label>
+          <label className="flex items-center space-x-2 text-sm text-gray-400">
+            <span>Fim</span>
+            <input
+              type="date"
+              value={endDate}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEndDate(e.target.value)}
+              className={`${inputClassName} w-full`}
+              title="Deixe em branco para repetir sem data final"
+            />
+          </label>
+        </div>
+        <div className="flex items-center justify-end space-x-3 mt-4">
+          {error && <p className="text-xs text-red-400 mr-auto">{error}</p>}
+          {editing && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="flex items-center space-x-2 px-4 py-2 rounded-lg text-gray-300 hover:bg-gray-700 hover:text-white transition-colors"
+            >
+              <X className="h-4 w-4" />
+              <span>Cancelar</span>
+            </button>
+          )}
+          <button
+            type="submit"
+            className="flex items-center justify-center space-x-2 px-4 py-2 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-500 transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            <span>{editing ? 'Salvar' : 'Adicionar'}</span>
+          </button>
+        </div>
+      </form>
+
+      {recurringRules.length === 0 ? (
+        <div className="bg-gray-800 rounded-xl shadow-lg p-8 text-center text-gray-400">
+          <div className="bg-gray-700 rounded-full w-16 h-16 flex items-center justify-center mx-auto mb-4">
+            <Repeat className="h-8 w-8 opacity-50" />
+          </div>
+          <p className="text-lg font-medium mb-2">Nenhuma recorrência cadastrada</p>
+          <p className="text-sm">Cadastre salário, aluguel e contas fixas para lançá-los automaticamente</p>
+        </div>
+      ) : (
+        <div className="bg-gray-800 rounded-xl shadow-lg divide-y divide-gray-700">
+          {recurringRules.map(rule => (
+            <div key={rule._id} className="p-4 flex items-center justify-between">
+              <div className="flex items-center space-x-3 min-w-0">
+                <div className={`flex-shrink-0 w-10 h-10 rounded-xl flex items-center justify-center ${
+                  rule.type === 'income' ? 'bg-green-900 text-green-400' : 'bg-red-900 text-red-400'
+                }`}>
+                  <CalendarClock className="h-5 w-5" />
+                </div>
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-white truncate">{rule.description}</p>
+                  <p className="text-xs text-gray-400">
+                    {FREQUENCY_LABELS[rule.frequency]}, todo dia {rule.dayOfMonth} · {rule.category}
+                    {rule.endDate && ` · até ${formatDateLabel(rule.endDate)}`}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center space-x-2 flex-shrink-0 ml-4">
+                <span className={`font-bold ${rule.type === 'income' ? 'text-green-400' : 'text-red-400'}`}>
+                  {rule.type === 'income' ? '+' : '-'}{formatCurrency(rule.amount)}
+                </span>
+                <button onClick={() => startEditing(rule)} className="p-1 text-blue-400 hover:text-blue-300" title="Editar recorrência">
+                  <Pencil className="h-4 w-4" />
+                </button>
+                <button onClick={() => deleteRecurringRule(rule._id)} className="p-1 text-red-500 hover:text-red-400" title="Remover recorrência">
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecurringView;
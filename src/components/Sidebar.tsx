@@ -0,0 +1,88 @@
+import { Calendar, CreditCard, DollarSign, Home, LogOut, MessageCircle, PiggyBank, Repeat, Tags, Target, TrendingDown, TrendingUp, Upload, Wallet } from 'lucide-react';
+import { POLL_INTERVAL_MS } from '../api/liveUpdates';
+import { useFinance } from '../context/FinanceContext';
+import { ViewMode } from '../routes';
+
+interface SidebarProps {
+  open: boolean;
+  onClose: () => void;
+  onLogout: () => void;
+}
+
+const NAV_ITEMS: { view: ViewMode; label: string; icon: React.ElementType; activeClassName: string }[] = [
+  { view: 'dashboard', label: 'Dashboard', icon: DollarSign, activeClassName: 'bg-blue-600' },
+  { view: 'expenses', label: 'Despesas', icon: TrendingDown, activeClassName: 'bg-red-600' },
+  { view: 'income', label: 'Receitas', icon: TrendingUp, activeClassName: 'bg-green-600' },
+  { view: 'transactions', label: 'Todas Transações', icon: Calendar, activeClassName: 'bg-purple-600' },
+  { view: 'budgets', label: 'Orçamentos', icon: Target, activeClassName: 'bg-yellow-600' },
+  { view: 'recurring', label: 'Recorrentes', icon: Repeat, activeClassName: 'bg-indigo-600' },
+  { view: 'accounts', label: 'Contas', icon: Wallet, activeClassName: 'bg-cyan-600' },
+  { view: 'cards', label: 'Cartões', icon: CreditCard, activeClassName: 'bg-pink-600' },
+  { view: 'categories', label: 'Categorias', icon: Tags, activeClassName: 'bg-orange-600' },
+  { view: 'goals', label: 'Metas', icon: PiggyBank, activeClassName: 'bg-emerald-600' },
+  { view: 'household', label: 'Casa', icon: Home, activeClassName: 'bg-rose-600' },
+  { view: 'import', label: 'Importar Extrato', icon: Upload, activeClassName: 'bg-teal-600' }
+];
+
+const Sidebar: React.FC<SidebarProps> = ({ open, onClose, onLogout }) => {
+  const { currentView, liveStatus, goTo } = useFinance();
+
+  return (
+    <div className={`fixed inset-y-0 left-0 z-50 w-64 bg-gray-800 transform transition-transform duration-300 ease-in-out ${
+      open ? 'translate-x-0' : '-translate-x-full'
+    } md:relative md:translate-x-0`}>
+      <div className="flex items-center justify-center p-4">
+        <DollarSign className="h-8 w-8 text-white" />
+        <span className="ml-3 text-2xl font-bold text-white">FinanceApp</span>
+      </div>
+      <div className="text-sm text-gray-400 text-center mb-4">Controle Financeiro</div>
+
+      <nav className="flex-1 p-4 space-y-2">
+        {NAV_ITEMS.map(({ view, label, icon: Icon, activeClassName }) => (
+          <button
+            key={view}
+            onClick={() => {
+              goTo(view);
+              onClose();
+            }}
+            className={`w-full flex items-center space-x-3 px-4 py-3 rounded-lg text-left transition-colors ${
+              currentView === view
+                ? `${activeClassName} text-white`
+                : 'text-gray-300 hover:bg-gray-700 hover:text-white'
+            }`}
+          >
+            <Icon className="h-5 w-5" />
+            <span>{label}</span>
+          </button>
+        ))}
+      </nav>
+
+      <div className="p-4 border-t border-gray-700">
+        <div className="bg-blue-900 rounded-lg p-4">
+          <h3 className="text-sm font-semibold text-blue-100 mb-2 flex items-center">
+            <MessageCircle className="h-4 w-4 mr-2" />
+            WhatsApp
+          </h3>
+          <p className="text-xs text-blue-200">
+            Envie "ajuda" para ver os comandos.
+          </p>
+          {liveStatus && (
+            <p className="text-xs text-blue-300 mt-2 flex items-center">
+              <span className={`w-2 h-2 rounded-full mr-2 ${liveStatus === 'live' ? 'bg-green-400 animate-pulse' : 'bg-yellow-400'}`} />
+              {liveStatus === 'live' ? 'Mensagens aparecem aqui na hora' : `Atualizando a cada ${POLL_INTERVAL_MS / 1000} segundos`}
+            </p>
+          )}
+        </div>
+        <button
+          onClick={onLogout}
+          className="mt-4 w-full flex items-center space-x-3 px-4 py-3 rounded-lg text-left text-gray-300 hover:bg-gray-700 hover:text-white transition-colors"
+        >
+          <LogOut className="h-5 w-5" />
+          <span>Sair</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default Sidebar;
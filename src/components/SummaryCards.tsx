@@ -0,0 +1,102 @@
+import { useMemo, useState } from 'react';
+import { Calendar, DollarSign, Eye, EyeOff, TrendingDown, TrendingUp } from 'lucide-react';
+import { useFinance } from '../context/FinanceContext';
+import { getExpenseCommitment } from '../utils/creditCard';
+import { formatCurrency } from '../utils/currency';
+
+const SummaryCards: React.FC = () => {
+  const { periodSummary, periodTransactions, goTo } = useFinance();
+  const [showBalance, setShowBalance] = useState(true);
+  // Parcelas futuras já entram no total de despesas; separamos o que de fato já foi gasto
+  const { committed } = useMemo(() => getExpenseCommitment(periodTransactions), [periodTransactions]);
+
+  if (!periodSummary) return null;
+
+  return (
+    <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+      <div 
+        className="bg-gray-800 rounded-xl shadow-lg p-4 cursor-pointer hover:bg-gray-750 transition-all duration-200 hover:scale-105"
+        onClick={() => goTo('dashboard')}
+      >
+        <div className="flex items-center justify-between">
+          <div className="flex-1">
+            <p className="text-sm font-medium text-gray-400">Saldo</p>
+            <div className="flex items-center space-x-2">
+              <p className={`text-lg lg:text-2xl font-bold ${periodSummary.balance >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {showBalance ? formatCurrency(periodSummary.balance) : '••••'}
+              </p>
+              <button
+                onClick={(e: React.MouseEvent) => {
+                  e.stopPropagation();
+                  setShowBalance(!showBalance);
+                }}
+                className="text-gray-400 hover:text-white"
+              >
+                {showBalance ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+              </button>
+            </div>
+          </div>
+          <div className={`p-2 rounded-lg ${periodSummary.balance >= 0 ? 'bg-green-900' : 'bg-red-900'}`}>
+            <DollarSign className={`h-6 w-6 lg:h-8 lg:w-8 ${periodSummary.balance >= 0 ? 'text-green-400' : 'text-red-400'}`} />
+          </div>
+        </div>
+      </div>
+    
+      <div 
+        className="bg-gray-800 rounded-xl shadow-lg p-4 cursor-pointer hover:bg-gray-750 transition-all duration-200 hover:scale-105"
+        onClick={() => goTo('income')}
+      >
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-gray-400">Receitas</p>
+            <p className="text-lg lg:text-2xl font-bold text-green-400">
+              {formatCurrency(periodSummary.totalIncome)}
+            </p>
+          </div>
+          <div className="p-2 bg-green-900 rounded-lg">
+            <TrendingUp className="h-6 w-6 lg:h-8 lg:w-8 text-green-400" />
+          </div>
+        </div>
+      </div>
+    
+      <div 
+        className="bg-gray-800 rounded-xl shadow-lg p-4 cursor-pointer hover:bg-gray-750 transition-all duration-200 hover:scale-105"
+        onClick={() => goTo('expenses')}
+      >
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-gray-400">{committed > 0 ? 'Despesas já feitas' : 'Despesas'}</p>
+            <p className="text-lg lg:text-2xl font-bold text-red-400">
+              {formatCurrency(periodSummary.totalExpenses - committed)}
+            </p>
+            {committed > 0 && (
+              <p className="text-xs text-gray-400 mt-1">+ {formatCurrency(committed)} em parcelas futuras</p>
+            )}
+          </div>
+          <div className="p-2 bg-red-900 rounded-lg">
+            <TrendingDown className="h-6 w-6 lg:h-8 lg:w-8 text-red-400" />
+          </div>
+        </div>
+      </div>
+    
+      <div 
+        className="bg-gray-800 rounded-xl shadow-lg p-4 cursor-pointer hover:bg-gray-750 transition-all duration-200 hover:scale-105"
+        onClick={() => goTo('transactions')}
+      >
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-gray-400">Transações</p>
+            <p className="text-lg lg:text-2xl font-bold text-blue-400">
+              {periodSummary.transactionCount}
+            </p>
+          </div>
+          <div className="p-2 bg-blue-900 rounded-lg">
+            <Calendar className="h-6 w-6 lg:h-8 lg:w-8 text-blue-400" />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SummaryCards;
@@ -0,0 +1,34 @@
+import { CloudOff, RefreshCw } from 'lucide-react';
+import { useFinance } from '../context/FinanceContext';
+
+const formatSyncTime = (isoString: string): string => {
+  const date = new Date(isoString);
+  const time = date.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+  return date.toDateString() === new Date().toDateString() ? `hoje às ${time}` : `${date.toLocaleDateString('pt-BR')} às ${time}`;
+};
+
+// Aviso de modo offline e de alterações aguardando envio
+const SyncStatus: React.FC = () => {
+  const { offline, lastSyncedAt, pendingCount } = useFinance();
+
+  if (!offline && pendingCount === 0) return null;
+
+  return (
+    <div
+      role="status"
+      className={`flex items-center space-x-3 rounded-lg px-4 py-2 mb-4 text-sm border print:hidden ${
+        offline ? 'bg-yellow-900/40 border-yellow-700 text-yellow-200' : 'bg-blue-900/40 border-blue-700 text-blue-200'
+      }`}
+    >
+      {offline ? <CloudOff className="h-4 w-4 flex-shrink-0" /> : <RefreshCw className="h-4 w-4 flex-shrink-0 animate-spin" />}
+      <p>
+        {offline
+          ? `Sem conexão. ${lastSyncedAt ? `Mostrando dados sincronizados ${formatSyncTime(lastSyncedAt)}.` : 'Ainda não há dados salvos neste aparelho.'}`
+          : 'Enviando alterações feitas offline...'}
+        {pendingCount > 0 && ` ${pendingCount} alteraç${pendingCount === 1 ? 'ão aguardando' : 'ões aguardando'} envio.`}
+      </p>
+    </div>
+  );
+};
+
+export default SyncStatus;
@@ -0,0 +1,50 @@
+import { AlertCircle, CheckCircle2, Info, X } from 'lucide-react';
+import { Toast, ToastVariant } from '../context/ToastContext';
+
+const VARIANT_STYLES: Record<ToastVariant, { icon: React.ElementType; className: string }> = {
+  success: { icon: CheckCircle2, className: 'border-green-700 text-green-400' },
+  error: { icon: AlertCircle, className: 'border-red-700 text-red-400' },
+  info: { icon: Info, className: 'border-blue-700 text-blue-400' }
+};
+
+interface ToasterProps {
+  toasts: Toast[];
+  onDismiss: (id: number) => void;
+}
+
+const Toaster: React.FC<ToasterProps> = ({ toasts, onDismiss }) => (
+  <div
+    className="fixed z-[60] bottom-4 inset-x-4 sm:left-auto sm:w-96 flex flex-col space-y-2 print:hidden"
+    role="status"
+    aria-live="polite"
+  >
+    {toasts.map(toast => {
+      const { icon: Icon, className } = VARIANT_STYLES[toast.variant];
+      return (
+        <div
+          key={toast.id}
+          className={`flex items-start space-x-3 rounded-lg border bg-gray-800 shadow-2xl px-4 py-3 animate-flash-in ${className}`}
+        >
+          <Icon className="h-5 w-5 flex-shrink-0 mt-0.5" />
+          <p className="flex-1 text-sm text-white whitespace-pre-line">{toast.message}</p>
+          {toast.action && (
+            <button
+              onClick={() => {
+                toast.action?.onClick();
+                onDismiss(toast.id);
+              }}
+              className="text-sm font-semibold text-blue-400 hover:text-blue-300"
+            >
+              {toast.action.label}
+            </button>
+          )}
+          <button onClick={() => onDismiss(toast.id)} className="text-gray-400 hover:text-white" title="Fechar aviso">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default Toaster;
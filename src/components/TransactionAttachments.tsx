@@ -0,0 +1,223 @@
+import { useEffect, useRef, useState } from 'react';
+import { FileText, MessageCircle, Paperclip, X } from 'lucide-react';
+import { fetchAttachmentUrl, revokeAttachmentUrl } from '../api/attachmentsApi';
+import { useConfirm } from '../context/ConfirmContext';
+import { Attachment, Transaction } from '../types/finance';
+import { ATTACHMENT_ACCEPT, formatFileSize, isPreviewableImage, validateAttachmentFile } from '../utils/attachments';
+
+interface Upload {
+  key: number;
+  fileName: string;
+  progress: number;
+}
+
+interface TransactionAttachmentsProps {
+  transaction: Transaction;
+  onUpload: (file: File, onProgress: (percent: number) => void) => Promise<boolean>;
+  onRemove: (attachmentId: string) => void;
+}
+
+// URL local do arquivo, baixado com a sessão (as URLs da API são privadas); null enquanto
+// carrega ou quando não há o que baixar
+const useAttachmentUrl = (url: string | null): string | null => {
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!url) return;
+    let cancelled = false;
+    let loaded: string | null = null;
+    fetchAttachmentUrl(url)
+      .then(result => {
+        loaded = result;
+        if (cancelled) {
+          revokeAttachmentUrl(result, url);
+        } else {
+          setObjectUrl(result);
+        }
+      })
+      .catch(error => console.error('Erro ao carregar comprovante:', error));
+    return () => {
+      cancelled = true;
+      if (loaded) revokeAttachmentUrl(loaded, url);
+      setObjectUrl(null);
+    };
+  }, [url]);
+
+  return objectUrl;
+};
+
+const AttachmentPreview: React.FC<{ attachment: Attachment }> = ({ attachment }) => {
+  const previewable = isPreviewableImage(attachment);
+  const fileUrl = useAttachmentUrl(attachment.url);
+  // Miniatura só se houver uma; sem ela, a imagem já baixada serve. PDF não tem o que mostrar
+  const thumbnailUrl = useAttachmentUrl(previewable ? attachment.thumbnailUrl || null : null);
+  const imageUrl = previewable ? (attachment.thumbnailUrl ? thumbnailUrl : fileUrl) : null;
+
+  return (
+    <a
+      href={fileUrl || undefined}
+      target="_blank"
+      rel="noreferrer"
+      aria-disabled={!fileUrl}
+      className="block h-24 rounded-lg overflow-hidden bg-gray-900 border border-gray-700 hover:border-blue-500"
+      title={`Abrir ${attachment.fileName}`}
+    >
+      {imageUrl ? (
+        <img src={imageUrl} alt={attachment.fileName} className="h-full w-full object-cover" />
+      ) : (
+        <div className="h-full flex items-center justify-center text-gray-400">
+          <FileText className="h-8 w-8" />
+        </div>
+      )}
+    </a>
+  );
+};
+
+// Comprovantes da transação: miniaturas, envio com progresso e remoção
+const TransactionAttachments: React.FC<TransactionAttachmentsProps> = ({ transaction, onUpload, onRemove }) => {
+  const confirm = useConfirm();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const nextKey = useRef(1);
+  const [uploads, setUploads] = useState<Upload[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [dragging, setDragging] = useState(false);
+  const attachments = transaction.attachments || [];
+  // Criada offline e ainda não sincronizada: o servidor ainda não conhece o id
+  const waitingSync = transaction._id.startsWith('temp-');
+
+  const upload = async (file: File) => {
+    const key = nextKey.current++;
+    setUploads(current => [...current, { key, fileName: file.name, progress: 0 }]);
+    await onUpload(file, progress => {
+      setUploads(current => current.map(u => (u.key === key ? { ...u, progress } : u)));
+    });
+    setUploads(current => current.filter(u => u.key !== key));
+  };
+
+  const handleFiles = (files: FileList | null) => {
+    if (!files || waitingSync) return;
+    const problems: string[] = [];
+    Array.from(files).forEach(file => {
+      const error = validateAttachmentFile(file);
+      if (error) {
+        problems.push(error);
+      } else {
+        upload(file);
+      }
+    });
+    setErrors(problems);
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  const handleRemove = async (attachmentId: string, fileName: string) => {
+    const confirmed = await confirm({
+      title: 'Remover comprovante?',
+      message: `"${fileName}" será removido desta transação.`,
+      confirmLabel: 'Remover',
+      destructive: true
+    });
+    if (confirmed) onRemove(attachmentId);
+  };
+
+  return (
+    <section
+      className={`px-6 py-4 border-t border-gray-700 ${dragging ? 'bg-gray-700' : ''}`}
+      onDragOver={(e: React.DragEvent) => {
+        e.preventDefault();
+        setDragging(true);
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={(e: React.DragEvent) => {
+        e.preventDefault();
+        setDragging(false);
+        handleFiles(e.dataTransfer.files);
+      }}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-medium text-gray-300">
+          Comprovantes {attachments.length > 0 && <span className="text-gray-500">({attachments.length})</span>}
+        </h3>
+        <label
+          className={`flex items-center space-x-2 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+            waitingSync ? 'text-gray-500 cursor-not-allowed' : 'text-blue-400 hover:bg-gray-700 cursor-pointer'
+          }`}
+        >
+          <Paperclip className="h-4 w-4" />
+          <span>Anexar</span>
+          <input
+            ref={inputRef}
+            type="file"
+            accept={ATTACHMENT_ACCEPT}
+            multiple
+            disabled={waitingSync}
+            className="sr-only"
+            aria-label="Anexar comprovante"
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => handleFiles(e.target.files)}
+          />
+        </label>
+      </div>
+
+      {waitingSync && (
+        <p className="text-xs text-gray-500 mb-3">Dá para anexar comprovantes depois que a transação for sincronizada.</p>
+      )}
+
+      {errors.map(error => (
+        <p key={error} className="text-xs text-red-400 mb-2" role="alert">{error}</p>
+      ))}
+
+      {uploads.map(u => (
+        <div key={u.key} className="mb-3">
+          <div className="flex justify-between text-xs text-gray-400 mb-1">
+            <span className="truncate">{u.fileName}</span>
+            <span>{u.progress}%</span>
+          </div>
+          <div
+            className="h-1.5 rounded-full bg-gray-700 overflow-hidden"
+            role="progressbar"
+            aria-label={`Enviando ${u.fileName}`}
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={u.progress}
+          >
+            <div className="h-full bg-blue-500 transition-all" style={{ width: `${u.progress}%` }} />
+          </div>
+        </div>
+      ))}
+
+      {attachments.length === 0 && uploads.length === 0 && !waitingSync && (
+        <p className="text-xs text-gray-500">
+          Arraste uma foto ou PDF do comprovante para cá. Imagens enviadas pelo WhatsApp aparecem aqui sozinhas.
+        </p>
+      )}
+
+      {attachments.length > 0 && (
+        <ul className="grid grid-cols-3 gap-3">
+          {attachments.map(attachment => (
+            <li key={attachment._id} className="relative group">
+              <AttachmentPreview attachment={attachment} />
+              {attachment.source === 'whatsapp' && (
+                <span
+                  className="absolute top-1 left-1 rounded-full bg-green-700 text-white p-1"
+                  title="Recebido pelo WhatsApp"
+                >
+                  <MessageCircle className="h-3 w-3" />
+                </span>
+              )}
+              <button
+                onClick={() => handleRemove(attachment._id, attachment.fileName)}
+                className="absolute top-1 right-1 rounded-full bg-gray-900 bg-opacity-80 p-1 text-gray-300 hover:text-red-400 md:opacity-0 md:group-hover:opacity-100 focus:opacity-100"
+                title={`Remover ${attachment.fileName}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+              <p className="mt-1 text-xs text-gray-300 truncate">{attachment.fileName}</p>
+              <p className="text-xs text-gray-500">{formatFileSize(attachment.size)}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default TransactionAttachments;
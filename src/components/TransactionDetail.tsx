@@ -0,0 +1,217 @@
+import { useEffect, useRef } from 'react';
+import { ArrowRightLeft, Calendar, CreditCard, Hash, Pencil, Split, Tag, Trash2, TrendingDown, TrendingUp, Users, Wallet, X } from 'lucide-react';
+import { Account, Household, Transaction, TransactionType } from '../types/finance';
+import { TRANSACTION_TYPE_LABELS, getAccountName, getTransferLabel } from '../utils/accounts';
+import { formatCurrency, formatSignedAmount } from '../utils/currency';
+import { formatFullDate } from '../utils/date';
+import { getMemberName, getPayer } from '../utils/household';
+import TransactionAttachments from './TransactionAttachments';
+
+const TYPE_STYLES: Record<TransactionType, { icon: React.ElementType; badge: string; amount: string }> = {
+  income: { icon: TrendingUp, badge: 'bg-green-900 text-green-400 border-green-700', amount: 'text-green-400' },
+  expense: { icon: TrendingDown, badge: 'bg-red-900 text-red-400 border-red-700', amount: 'text-red-400' },
+  transfer: { icon: ArrowRightLeft, badge: 'bg-blue-900 text-blue-400 border-blue-700', amount: 'text-blue-400' }
+};
+
+interface TransactionDetailProps {
+  transaction: Transaction | null;
+  accounts: Account[];
+  household: Household | null;
+  onClose: () => void;
+  onEdit: (transaction: Transaction) => void;
+  onDelete: (transaction: Transaction) => void;
+  onUploadAttachment: (transactionId: string, file: File, onProgress: (percent: number) => void) => Promise<boolean>;
+  onRemoveAttachment: (transactionId: string, attachmentId: string) => void;
+}
+
+// Gaveta lateral com os detalhes da transação, aberta a partir da linha da lista
+const TransactionDetail: React.FC<TransactionDetailProps> = ({
+  transaction,
+  accounts,
+  household,
+  onClose,
+  onEdit,
+  onDelete,
+  onUploadAttachment,
+  onRemoveAttachment
+}) => {
+  const panelRef = useRef<HTMLElement>(null);
+
+  // O foco vai para a gaveta, assim o Esc funciona sem clicar nela antes
+  useEffect(() => {
+    panelRef.current?.focus();
+  }, []);
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end bg-black bg-opacity-50" onClick={onClose}>
+      <aside
+        ref={panelRef}
+        tabIndex={-1}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Detalhes da transação"
+        className="h-full w-full max-w-md bg-gray-800 shadow-2xl flex flex-col outline-none animate-slide-in-right"
+        onClick={(e: React.MouseEvent) => e.stopPropagation()}
+        onKeyDown={(e: React.KeyboardEvent) => {
+          if (e.key === 'Escape') onClose();
+        }}
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-700">
+          <h2 className="text-lg font-semibold text-white">Detalhes da transação</h2>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-white" title="Fechar">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        {transaction ? (
+          <TransactionContent
+            transaction={transaction}
+            accounts={accounts}
+            household={household}
+            onEdit={onEdit}
+            onDelete={onDelete}
+            onUploadAttachment={onUploadAttachment}
+            onRemoveAttachment={onRemoveAttachment}
+          />
+        ) : (
+          <div className="p-8 text-center text-gray-400">
+            <p className="text-lg font-medium mb-2">Transação não encontrada</p>
+            <p className="text-sm mb-6">Ela pode ter sido apagada ou o link está incorreto.</p>
+            <button onClick={onClose} className="text-blue-400 hover:text-blue-300 text-sm font-medium">
+              Voltar
+            </button>
+          </div>
+        )}
+      </aside>
+    </div>
+  );
+};
+
+type TransactionContentProps = Omit<TransactionDetailProps, 'transaction' | 'onClose'> & { transaction: Transaction };
+
+const TransactionContent: React.FC<TransactionContentProps> = ({
+  transaction,
+  accounts,
+  household,
+  onEdit,
+  onDelete,
+  onUploadAttachment,
+  onRemoveAttachment
+}) => {
+  const { icon: Icon, badge, amount } = TYPE_STYLES[transaction.type];
+
+  return (
+    <>
+      <div className="flex-1 overflow-y-auto">
+        <div className="p-6 border-b border-gray-700 flex items-center space-x-4">
+          <div className={`flex-shrink-0 w-14 h-14 rounded-xl flex items-center justify-center border ${badge}`}>
+            <Icon className="h-7 w-7" />
+          </div>
+          <div className="min-w-0 flex-1">
+            <p className="text-sm text-gray-400">{TRANSACTION_TYPE_LABELS[transaction.type]}</p>
+            <h3 className="text-xl font-semibold text-white break-words">{transaction.description}</h3>
+          </div>
+          <p className={`text-xl font-bold ${amount}`}>
+            {formatSignedAmount(transaction.type, transaction.amount)}
+          </p>
+        </div>
+
+        <dl className="p-6 space-y-4 text-sm">
+          <div className="flex items-center space-x-3">
+            <Tag className="h-4 w-4 text-gray-400" />
+            <dt className="text-gray-400 w-24">Categoria</dt>
+            <dd className="text-white">{transaction.category}</dd>
+          </div>
+          {transaction.splits && transaction.splits.length > 0 && (
+            <div className="flex items-start space-x-3">
+              <Split className="h-4 w-4 text-gray-400 mt-0.5" />
+              <dt className="text-gray-400 w-24">Dividida em</dt>
+              <dd className="flex-1 space-y-1">
+                {transaction.splits.map(split => (
+                  <p key={split.category} className="flex justify-between text-white">
+                    <span>{split.category}</span>
+                    <span className="text-gray-300">{formatCurrency(split.amount)}</span>
+                  </p>
+                ))}
+              </dd>
+            </div>
+          )}
+          {transaction.tags && transaction.tags.length > 0 && (
+            <div className="flex items-center space-x-3">
+              <Hash className="h-4 w-4 text-gray-400" />
+              <dt className="text-gray-400 w-24">Tags</dt>
+              <dd className="flex flex-wrap gap-2">
+                {transaction.tags.map(tag => (
+                  <span key={tag} className="px-2 py-0.5 rounded-full text-xs bg-cyan-900/40 text-cyan-300">#{tag}</span>
+                ))}
+              </dd>
+            </div>
+          )}
+          <div className="flex items-center space-x-3">
+            <Wallet className="h-4 w-4 text-gray-400" />
+            <dt className="text-gray-400 w-24">Conta</dt>
+            <dd className="text-white">
+              {transaction.type === 'transfer'
+                ? getTransferLabel(accounts, transaction)
+                : getAccountName(accounts, transaction.accountId)}
+            </dd>
+          </div>
+          <div className="flex items-center space-x-3">
+            <Calendar className="h-4 w-4 text-gray-400" />
+            <dt className="text-gray-400 w-24">Data</dt>
+            <dd className="text-white">{formatFullDate(transaction.createdAt)}</dd>
+          </div>
+          {transaction.installment && (
+            <div className="flex items-center space-x-3">
+              <CreditCard className="h-4 w-4 text-gray-400" />
+              <dt className="text-gray-400 w-24">Parcela</dt>
+              <dd className="text-white">{transaction.installment.number} de {transaction.installment.total}</dd>
+            </div>
+          )}
+          {household && (
+            <div className="flex items-center space-x-3">
+              <Users className="h-4 w-4 text-gray-400" />
+              <dt className="text-gray-400 w-24">Pago por</dt>
+              <dd className="text-white">
+                {getMemberName(household, getPayer(transaction))}
+                {transaction.shared && <span className="text-gray-400"> · dividida entre a casa</span>}
+                {transaction.settlementTo && <span className="text-gray-400"> para {getMemberName(household, transaction.settlementTo)}</span>}
+              </dd>
+            </div>
+          )}
+          <div className="flex items-center space-x-3">
+            <span className="w-4" />
+            <dt className="text-gray-400 w-24">ID</dt>
+            <dd className="text-gray-500 break-all">{transaction._id}</dd>
+          </div>
+        </dl>
+
+        <TransactionAttachments
+          transaction={transaction}
+          onUpload={(file, onProgress) => onUploadAttachment(transaction._id, file, onProgress)}
+          onRemove={attachmentId => onRemoveAttachment(transaction._id, attachmentId)}
+        />
+      </div>
+
+      <div className="px-6 py-4 border-t border-gray-700 flex flex-wrap gap-3">
+        <div className="ml-auto flex gap-3">
+          <button
+            onClick={() => onEdit(transaction)}
+            className="flex items-center space-x-2 px-4 py-2 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-500 transition-colors"
+          >
+            <Pencil className="h-4 w-4" />
+            <span>Editar</span>
+          </button>
+          <button
+            onClick={() => onDelete(transaction)}
+            className="flex items-center space-x-2 px-4 py-2 rounded-lg bg-red-700 text-white font-medium hover:bg-red-600 transition-colors"
+          >
+            <Trash2 className="h-4 w-4" />
+            <span>Apagar</span>
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default TransactionDetail;
@@ -0,0 +1,65 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { Transaction } from '../types/finance';
+import TransactionFormModal from './TransactionFormModal';
+
+const installment: Transaction = {
+  _id: 'mock-installment-1-2',
+  type: 'expense',
+  amount: 100,
+  description: 'Notebook',
+  category: 'Eletrônicos',
+  createdAt: new Date(2024, 8, 10, 12).toISOString(),
+  userId: 'u1',
+  accountId: 'card',
+  installment: { groupId: 'g1', number: 2, total: 10 }
+};
+
+const renderForm = (transaction: Transaction | null, onSubmit = jest.fn()) => {
+  render(
+    <TransactionFormModal
+      transaction={transaction}
+      categories={[]}
+      accounts={[]}
+      goals={[]}
+      household={null}
+      userId="u1"
+      onSubmit={onSubmit}
+      onClose={jest.fn()}
+    />
+  );
+  return onSubmit;
+};
+
+describe('TransactionFormModal', () => {
+  test('editar uma parcela mantém o vínculo com a compra parcelada', () => {
+    const onSubmit = renderForm(installment);
+
+    fireEvent.change(screen.getByLabelText('Descrição'), { target: { value: 'Notebook novo' } });
+    fireEvent.click(screen.getByText('Salvar alterações'));
+
+    expect(onSubmit).toHaveBeenCalledWith(
+      expect.objectContaining({ description: 'Notebook novo', installment: { groupId: 'g1', number: 2, total: 10 } }),
+      1
+    );
+  });
+
+  test('editar uma ocorrência recorrente mantém a chave da recorrência', () => {
+    const onSubmit = renderForm({ ...installment, installment: null, description: 'Aluguel', recurrenceKey: 'rule-1:2024-09-10' });
+
+    fireEvent.change(screen.getByLabelText('Valor (R$)'), { target: { value: '1.300,00' } });
+    fireEvent.click(screen.getByText('Salvar alterações'));
+
+    expect(onSubmit).toHaveBeenCalledWith(expect.objectContaining({ amount: 1300, recurrenceKey: 'rule-1:2024-09-10' }), 1);
+  });
+
+  test('transação nova vai sem parcela', () => {
+    const onSubmit = renderForm(null);
+
+    fireEvent.change(screen.getByLabelText('Valor (R$)'), { target: { value: '25,50' } });
+    fireEvent.change(screen.getByLabelText('Descrição'), { target: { value: 'Lanche' } });
+    fireEvent.change(screen.getByLabelText('Categoria'), { target: { value: 'Alimentação' } });
+    fireEvent.click(screen.getByText('Adicionar'));
+
+    expect(onSubmit).toHaveBeenCalledWith(expect.objectContaining({ amount: 25.5, installment: null, recurrenceKey: null }), 1);
+  });
+});
@@ -0,0 +1,470 @@
+import { useState } from 'react';
+import { ArrowRightLeft, Plus, Split, TrendingUp, TrendingDown, Trash2, X } from 'lucide-react';
+import { Account, Goal, Household, Transaction, TransactionInput, TransactionSplit, TransactionType } from '../types/finance';
+import { TRANSFER_CATEGORY } from '../utils/accounts';
+import { MAX_INSTALLMENTS } from '../utils/creditCard';
+import { formatAmountInput, formatCurrency, parseBRLAmount } from '../utils/currency';
+import { getPayer } from '../utils/household';
+import { MIN_SPLITS, getMainCategory, validateSplits } from '../utils/splits';
+import { formatTags, parseTags } from '../utils/tags';
+
+interface TransactionFormModalProps {
+  transaction: Transaction | null;
+  categories: string[];
+  accounts: Account[];
+  goals: Goal[];
+  // Com uma casa, o formulário pergunta quem pagou e se a despesa é dividida
+  household: Household | null;
+  userId: string;
+  // installments > 1 cria uma compra parcelada (só para despesas no cartão)
+  onSubmit: (input: TransactionInput, installments?: number) => void;
+  onClose: () => void;
+}
+
+interface FormErrors {
+  amount?: string;
+  description?: string;
+  category?: string;
+  date?: string;
+  account?: string;
+  splits?: string;
+}
+
+// Linha do editor de divisão; o valor fica como texto até o envio
+interface SplitRow {
+  category: string;
+  amount: string;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// "2024-05-10T15:30:00Z" -> "2024-05-10" no fuso local, formato do <input type="date">
+const toDateInputValue = (isoString: string): string => {
+  const date = new Date(isoString);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Mantém o horário original (ou o atual, para transações novas) e troca só o dia
+const mergeDateInput = (dateInput: string, base: Date): string => {
+  const [year, month, day] = dateInput.split('-').map(Number);
+  const date = new Date(base);
+  date.setFullYear(year, month - 1, day);
+  return date.toISOString();
+};
+
+const TransactionFormModal: React.FC<TransactionFormModalProps> = ({ transaction, categories, accounts, goals, household, userId, onSubmit, onClose }) => {
+  const isEditing = transaction !== null;
+  const [type, setType] = useState<TransactionType>(transaction ? transaction.type : 'expense');
+  const [amount, setAmount] = useState(transaction ? formatAmountInput(transaction.amount) : '');
+  const [description, setDescription] = useState(transaction ? transaction.description : '');
+  const [category, setCategory] = useState(transaction ? transaction.category : '');
+  const [date, setDate] = useState(toDateInputValue(transaction ? transaction.createdAt : new Date().toISOString()));
+  const [accountId, setAccountId] = useState(transaction?.accountId || '');
+  const [toAccountId, setToAccountId] = useState(transaction?.toAccountId || '');
+  const [goalId, setGoalId] = useState(transaction?.goalId || '');
+  const [paidBy, setPaidBy] = useState(transaction ? getPayer(transaction) : userId);
+  const [shared, setShared] = useState(!!transaction?.shared);
+  const [installments, setInstallments] = useState(1);
+  const [tags, setTags] = useState(formatTags(transaction?.tags));
+  // Vazio = transação numa categoria só
+  const [splitRows, setSplitRows] = useState<SplitRow[]>(
+    (transaction?.splits || []).map(split => ({ category: split.category, amount: formatAmountInput(split.amount) }))
+  );
+  const [errors, setErrors] = useState<FormErrors>({});
+
+  const selectedAccount = accounts.find(a => a._id === accountId);
+  // Parcelar só ao criar uma despesa no cartão; parcelas existentes são editadas uma a uma
+  const canSplit = !isEditing && type === 'expense' && selectedAccount?.kind === 'credit_card';
+  const parsedAmount = parseBRLAmount(amount);
+  // Dividir entre categorias não vale para transferências nem compras parceladas
+  const canDivide = type !== 'transfer' && !transaction?.installment && !(canSplit && installments > 1);
+  const dividing = canDivide && splitRows.length > 0;
+  const splits: TransactionSplit[] = splitRows.map(row => ({ category: row.category.trim(), amount: parseBRLAmount(row.amount) || 0 }));
+  const remaining = (parsedAmount || 0) - splits.reduce((sum, split) => sum + split.amount, 0);
+
+  const startDividing = () =>
+    setSplitRows([{ category, amount }, ...Array.from({ length: MIN_SPLITS - 1 }, () => ({ category: '', amount: '' }))]);
+
+  const updateSplitRow = (index: number, changes: Partial<SplitRow>) =>
+    setSplitRows(rows => rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
+  // Com menos de duas partes a divisão deixa de fazer sentido; a que sobrar vira a categoria
+  const removeSplitRow = (index: number) => {
+    const rows = splitRows.filter((_, i) => i !== index);
+    if (rows.length < MIN_SPLITS) {
+      setCategory(rows[0]?.category || category);
+      setSplitRows([]);
+    } else {
+      setSplitRows(rows);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const nextErrors: FormErrors = {};
+    if (parsedAmount === null) nextErrors.amount = 'Informe um valor válido, ex.: 25,50';
+    if (!description.trim()) nextErrors.description = 'Informe uma descrição';
+    if (type !== 'transfer' && !dividing && !category.trim()) nextErrors.category = 'Informe uma categoria';
+    const splitError = dividing && parsedAmount !== null ? validateSplits(splits, parsedAmount) : null;
+    if (splitError) nextErrors.splits = splitError;
+    if (!date) nextErrors.date = 'Informe a data';
+    if (type === 'transfer' && (!accountId || !toAccountId)) nextErrors.account = 'Escolha a conta de origem e a de destino';
+    if (type === 'transfer' && accountId && accountId === toAccountId) nextErrors.account = 'Origem e destino precisam ser contas diferentes';
+
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length > 0 || parsedAmount === null) return;
+
+    onSubmit({
+      type,
+      amount: parsedAmount,
+      description: description.trim(),
+      category: type === 'transfer' ? TRANSFER_CATEGORY : dividing ? getMainCategory(splits) : category.trim(),
+      createdAt: mergeDateInput(date, transaction ? new Date(transaction.createdAt) : new Date()),
+      accountId: accountId || null,
+      toAccountId: type === 'transfer' ? toAccountId : null,
+      // Editar uma parcela não a tira da compra parcelada
+      installment: transaction?.installment ?? null,
+      // Nem a ocorrência da regra recorrente que a criou
+      recurrenceKey: transaction?.recurrenceKey ?? null,
+      // Receitas não contam como contribuição
+      goalId: type !== 'income' && goals.some(g => g._id === goalId) ? goalId : null,
+      paidBy: household ? paidBy : transaction?.paidBy || null,
+      shared: type === 'expense' && shared,
+      // O acerto de contas continua sendo acerto ao editar valor ou data
+      settlementTo: type === 'transfer' ? transaction?.settlementTo || null : null,
+      tags: parseTags(tags),
+      splits: dividing ? splits : null
+    }, canSplit ? installments : 1);
+  };
+
+  const inputClassName = 'w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-60 p-4" onClick={onClose}>
+      <div
+        className="bg-gray-800 rounded-2xl shadow-2xl w-full max-w-md p-6 max-h-[90vh] overflow-y-auto"
+        onClick={(e: React.MouseEvent) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="transaction-form-title"
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h2 id="transaction-form-title" className="text-xl font-bold text-white">
+            {isEditing ? 'Editar Transação' : 'Nova Transação'}
+          </h2>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-white" title="Fechar">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4" noValidate>
+          <div className="grid grid-cols-3 gap-3">
+            <button
+              type="button"
+              onClick={() => setType('expense')}
+              className={`flex items-center justify-center space-x-2 py-2 rounded-lg transition-colors ${
+                type === 'expense' ? 'bg-red-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              <TrendingDown className="h-4 w-4" />
+              <span>Despesa</span>
+            </button>
+            <button
+              type="button"
+              onClick={() => setType('income')}
+              className={`flex items-center justify-center space-x-2 py-2 rounded-lg transition-colors ${
+                type === 'income' ? 'bg-green-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              <TrendingUp className="h-4 w-4" />
+              <span>Receita</span>
+            </button>
+            <button
+              type="button"
+              onClick={() => setType('transfer')}
+              disabled={accounts.length < 2}
+              title={accounts.length < 2 ? 'Cadastre ao menos duas contas para transferir' : undefined}
+              className={`flex items-center justify-center space-x-2 py-2 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                type === 'transfer' ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              <ArrowRightLeft className="h-4 w-4" />
+              <span>Transferir</span>
+            </button>
+          </div>
+
+          <div>
+            <label htmlFor="transaction-amount" className="block text-sm font-medium text-gray-400 mb-1">Valor (R$)</label>
+            <input
+              id="transaction-amount"
+              type="text"
+              inputMode="decimal"
+              placeholder="0,00"
+              value={amount}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAmount(e.target.value)}
+              className={inputClassName}
+              autoFocus
+            />
+            {errors.amount && <p className="text-xs text-red-400 mt-1">{errors.amount}</p>}
+          </div>
+
+          <div>
+            <label htmlFor="transaction-description" className="block text-sm font-medium text-gray-400 mb-1">Descrição</label>
+            <input
+              id="transaction-description"
+              type="text"
+              placeholder="Ex.: Mercado"
+              value={description}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDescription(e.target.value)}
+              className={inputClassName}
+            />
+            {errors.description && <p className="text-xs text-red-400 mt-1">{errors.description}</p>}
+          </div>
+
+          {accounts.length > 0 && (
+            <div className={type === 'transfer' ? 'grid grid-cols-2 gap-3' : ''}>
+              <div>
+                <label htmlFor="transaction-account" className="block text-sm font-medium text-gray-400 mb-1">
+                  {type === 'transfer' ? 'De' : 'Conta'}
+                </label>
+                <select
+                  id="transaction-account"
+                  value={accountId}
+                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setAccountId(e.target.value)}
+                  className={inputClassName}
+                >
+                  <option value="">{type === 'transfer' ? 'Escolha...' : 'Sem conta'}</option>
+                  {accounts.map(account => (
+                    <option key={account._id} value={account._id}>{account.name}</option>
+                  ))}
+                </select>
+              </div>
+              {type === 'transfer' && (
+                <div>
+                  <label htmlFor="transaction-to-account" className="block text-sm font-medium text-gray-400 mb-1">Para</label>
+                  <select
+                    id="transaction-to-account"
+                    value={toAccountId}
+                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setToAccountId(e.target.value)}
+                    className={inputClassName}
+                  >
+                    <option value="">Escolha...</option>
+                    {accounts.map(account => (
+                      <option key={account._id} value={account._id}>{account.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {errors.account && <p className="col-span-2 text-xs text-red-400 mt-1">{errors.account}</p>}
+            </div>
+          )}
+
+          {canSplit && (
+            <div>
+              <label htmlFor="transaction-installments" className="block text-sm font-medium text-gray-400 mb-1">Parcelas</label>
+              <select
+                id="transaction-installments"
+                value={installments}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setInstallments(Number(e.target.value))}
+                className={inputClassName}
+              >
+                {Array.from({ length: MAX_INSTALLMENTS }, (_, index) => index + 1).map(count => (
+                  <option key={count} value={count}>
+                    {count === 1
+                      ? 'À vista'
+                      : `${count}x${parsedAmount !== null ? ` de ${formatCurrency(parsedAmount / count)}` : ''}`}
+                  </option>
+                ))}
+              </select>
+              {installments > 1 && (
+                <p className="text-xs text-gray-400 mt-1">Uma parcela por fatura, a partir da data da compra</p>
+              )}
+            </div>
+          )}
+
+          {type !== 'transfer' && !dividing && (
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <label htmlFor="transaction-category" className="block text-sm font-medium text-gray-400">Categoria</label>
+                {canDivide && (
+                  <button
+                    type="button"
+                    onClick={startDividing}
+                    className="flex items-center space-x-1 text-xs text-blue-400 hover:text-blue-300"
+                  >
+                    <Split className="h-3 w-3" />
+                    <span>Dividir em categorias</span>
+                  </button>
+                )}
+              </div>
+              <input
+                id="transaction-category"
+                type="text"
+                list="transaction-category-options"
+                placeholder="Ex.: Alimentação"
+                value={category}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCategory(e.target.value)}
+                className={inputClassName}
+              />
+              {errors.category && <p className="text-xs text-red-400 mt-1">{errors.category}</p>}
+            </div>
+          )}
+
+          {dividing && (
+            <div>
+              <p className="block text-sm font-medium text-gray-400 mb-1">Categorias</p>
+              <div className="space-y-2">
+                {splitRows.map((row, index) => (
+                  <div key={index} className="flex items-center space-x-2">
+                    <input
+                      type="text"
+                      list="transaction-category-options"
+                      placeholder="Categoria"
+                      value={row.category}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateSplitRow(index, { category: e.target.value })}
+                      className={inputClassName}
+                      aria-label={`Categoria da parte ${index + 1}`}
+                    />
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      placeholder="0,00"
+                      value={row.amount}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateSplitRow(index, { amount: e.target.value })}
+                      className={`${inputClassName} max-w-[7rem]`}
+                      aria-label={`Valor da parte ${index + 1}`}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeSplitRow(index)}
+                      className="p-2 text-gray-400 hover:text-red-400"
+                      title="Remover parte"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center justify-between mt-2 text-xs">
+                <button
+                  type="button"
+                  onClick={() => setSplitRows(rows => [...rows, { category: '', amount: remaining > 0 ? formatAmountInput(remaining) : '' }])}
+                  className="flex items-center space-x-1 text-blue-400 hover:text-blue-300"
+                >
+                  <Plus className="h-3 w-3" />
+                  <span>Adicionar categoria</span>
+                </button>
+                <span className={Math.round(remaining * 100) === 0 ? 'text-green-400' : 'text-yellow-400'}>
+                  {Math.round(remaining * 100) === 0
+                    ? 'Total fechado'
+                    : remaining > 0
+                      ? `Faltam ${formatCurrency(remaining)}`
+                      : `Passou ${formatCurrency(-remaining)}`}
+                </span>
+              </div>
+              {errors.splits && <p className="text-xs text-red-400 mt-1">{errors.splits}</p>}
+            </div>
+          )}
+
+          {type !== 'transfer' && (
+            <datalist id="transaction-category-options">
+              {categories.map(option => (
+                <option key={option} value={option} />
+              ))}
+            </datalist>
+          )}
+
+          <div>
+            <label htmlFor="transaction-tags" className="block text-sm font-medium text-gray-400 mb-1">Tags</label>
+            <input
+              id="transaction-tags"
+              type="text"
+              placeholder="Ex.: viagem-floripa, presentes"
+              value={tags}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTags(e.target.value)}
+              className={inputClassName}
+            />
+            <p className="text-xs text-gray-500 mt-1">Separe por vírgulas</p>
+          </div>
+
+          {goals.length > 0 && type !== 'income' && (
+            <div>
+              <label htmlFor="transaction-goal" className="block text-sm font-medium text-gray-400 mb-1">Contribuição para meta</label>
+              <select
+                id="transaction-goal"
+                value={goalId}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setGoalId(e.target.value)}
+                className={inputClassName}
+              >
+                <option value="">Nenhuma</option>
+                {goals.map(goal => (
+                  <option key={goal._id} value={goal._id}>{goal.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {household && household.members.length > 1 && (
+            <div>
+              <label htmlFor="transaction-paid-by" className="block text-sm font-medium text-gray-400 mb-1">Quem pagou</label>
+              <select
+                id="transaction-paid-by"
+                value={paidBy}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setPaidBy(e.target.value)}
+                className={inputClassName}
+              >
+                {household.members.map(member => (
+                  <option key={member.userId} value={member.userId}>
+                    {member.userId === userId ? `${member.name} (você)` : member.name}
+                  </option>
+                ))}
+              </select>
+              {type === 'expense' && (
+                <label className="flex items-center space-x-2 mt-2 text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={shared}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setShared(e.target.checked)}
+                    className="rounded border-gray-600 bg-gray-700"
+                  />
+                  <span>Despesa da casa (dividir entre todos)</span>
+                </label>
+              )}
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="transaction-date" className="block text-sm font-medium text-gray-400 mb-1">Data</label>
+            <input
+              id="transaction-date"
+              type="date"
+              value={date}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDate(e.target.value)}
+              className={inputClassName}
+            />
+            {errors.date && <p className="text-xs text-red-400 mt-1">{errors.date}</p>}
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg text-gray-300 hover:bg-gray-700 transition-colors"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-500 transition-colors"
+            >
+              {isEditing ? 'Salvar alterações' : 'Adicionar'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default TransactionFormModal;
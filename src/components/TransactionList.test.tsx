@@ -0,0 +1,244 @@
+import { act, fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { fetchAccounts } from '../api/accountsApi';
+import { fetchBudgets } from '../api/budgetsApi';
+import { fetchCategorySettings } from '../api/categoriesApi';
+import { fetchGoals } from '../api/goalsApi';
+import { fetchHousehold } from '../api/householdApi';
+import { resetMockStore, simulateWhatsAppMessage } from '../api/mockServer';
+import { fetchRecurringRules } from '../api/recurringApi';
+import { deleteTransaction, fetchSummary, fetchTransactions } from '../api/transactionsApi';
+import { ConfirmProvider } from '../context/ConfirmContext';
+import { FinanceProvider, UNDO_DELETE_MS } from '../context/FinanceContext';
+import { ToastProvider } from '../context/ToastContext';
+import { ROUTER_FUTURE } from '../routes';
+import { Account, Transaction } from '../types/finance';
+import { computeSummary } from '../utils/summary';
+import Filters from './Filters';
+import TransactionList from './TransactionList';
+
+jest.mock('../api/transactionsApi', () => ({ fetchTransactions: jest.fn(), fetchSummary: jest.fn(), deleteTransaction: jest.fn() }));
+jest.mock('../api/budgetsApi', () => ({ fetchBudgets: jest.fn() }));
+jest.mock('../api/recurringApi', () => ({ fetchRecurringRules: jest.fn() }));
+jest.mock('../api/accountsApi', () => ({ fetchAccounts: jest.fn() }));
+jest.mock('../api/categoriesApi', () => ({ fetchCategorySettings: jest.fn() }));
+jest.mock('../api/goalsApi', () => ({ fetchGoals: jest.fn() }));
+jest.mock('../api/householdApi', () => ({ fetchHousehold: jest.fn() }));
+// Canal em tempo real pelo servidor falso, independente do .env local
+jest.mock('../api/client', () => ({ USE_MOCKS: true }));
+
+const transactions: Transaction[] = [
+  { _id: 't1', type: 'expense', amount: 50, description: 'Mercado do bairro', category: 'Alimentação', createdAt: new Date(2024, 8, 10, 9).toISOString(), userId: 'u1' },
+  { _id: 't2', type: 'income', amount: 3000, description: 'Salário', category: 'Salário', createdAt: new Date(2024, 8, 5, 9).toISOString(), userId: 'u1' },
+  { _id: 't3', type: 'expense', amount: 32.9, description: 'Uber centro', category: 'Transporte', createdAt: new Date(2024, 8, 15, 9).toISOString(), userId: 'u1' }
+];
+
+const renderList = (url: string) =>
+  render(
+    <MemoryRouter initialEntries={[url]} future={ROUTER_FUTURE}>
+      <ToastProvider>
+        <ConfirmProvider>
+          <FinanceProvider userId="u1">
+            <Filters />
+            <TransactionList onEdit={jest.fn()} />
+          </FinanceProvider>
+        </ConfirmProvider>
+      </ToastProvider>
+    </MemoryRouter>
+  );
+
+// Descrições na ordem em que aparecem na lista
+const renderedDescriptions = () =>
+  screen.getAllByTitle('Ver detalhes').map(row => (row.querySelector('p') as HTMLElement).textContent);
+
+beforeEach(() => {
+  (fetchTransactions as jest.Mock).mockResolvedValue(transactions);
+  (fetchSummary as jest.Mock).mockResolvedValue(computeSummary(transactions));
+  (fetchBudgets as jest.Mock).mockResolvedValue([]);
+  (fetchRecurringRules as jest.Mock).mockResolvedValue([]);
+  (fetchAccounts as jest.Mock).mockResolvedValue([]);
+  (fetchCategorySettings as jest.Mock).mockResolvedValue([]);
+  (fetchGoals as jest.Mock).mockResolvedValue([]);
+  (fetchHousehold as jest.Mock).mockResolvedValue(null);
+  (deleteTransaction as jest.Mock).mockResolvedValue(undefined);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('TransactionList', () => {
+  test('mostra todas as transações, das mais recentes para as mais antigas', async () => {
+    renderList('/transacoes');
+
+    await screen.findByText('Uber centro');
+    expect(renderedDescriptions()).toEqual(['Uber centro', 'Mercado do bairro', 'Salário']);
+    expect(screen.getByText('3 transações encontradas')).toBeInTheDocument();
+  });
+
+  test('a rota de despesas esconde as receitas', async () => {
+    renderList('/despesas');
+
+    await screen.findByText('Uber centro');
+    expect(renderedDescriptions()).toEqual(['Uber centro', 'Mercado do bairro']);
+  });
+
+  test('aplica a busca vinda da URL', async () => {
+    renderList('/transacoes?q=mercado');
+
+    const highlighted = await screen.findByText('Mercado');
+    expect(highlighted.tagName).toBe('MARK');
+    expect(screen.getByPlaceholderText('Buscar transações...')).toHaveValue('mercado');
+    expect(renderedDescriptions()).toEqual(['Mercado do bairro']);
+  });
+
+  test('aceita operadores de valor e tipo na busca', async () => {
+    renderList('/transacoes?q=tipo%3Adespesa%20%3E40');
+
+    await screen.findByText('Mercado do bairro');
+    expect(renderedDescriptions()).toEqual(['Mercado do bairro']);
+  });
+
+  test('filtra pela categoria escolhida', async () => {
+    renderList('/transacoes');
+    await screen.findByText('Uber centro');
+
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: 'Transporte' } });
+
+    expect(renderedDescriptions()).toEqual(['Uber centro']);
+  });
+
+  test('avisa quando nenhum lançamento passa nos filtros', async () => {
+    renderList('/receitas?categoria=Transporte');
+
+    expect(await screen.findByText('Nenhuma transação encontrada')).toBeInTheDocument();
+  });
+
+  test('mensagem do WhatsApp entra na lista na hora, destacada', async () => {
+    renderList('/transacoes');
+    await screen.findByText('Uber centro');
+
+    act(() => {
+      simulateWhatsAppMessage('u1', '42 na padaria');
+    });
+
+    const row = screen.getByText('Padaria').closest('div.p-4') as HTMLElement;
+    expect(row).toHaveClass('animate-flash-in');
+    expect(screen.getByText('4 transações encontradas')).toBeInTheDocument();
+    resetMockStore();
+  });
+
+  test('exclusão feita pelo WhatsApp some da lista', async () => {
+    renderList('/transacoes');
+    await screen.findByText('Uber centro');
+
+    let event: ReturnType<typeof simulateWhatsAppMessage> = null;
+    act(() => {
+      event = simulateWhatsAppMessage('u1', '42 na padaria');
+    });
+    expect(screen.getByText('Padaria')).toBeInTheDocument();
+
+    act(() => {
+      simulateWhatsAppMessage('u1', `apagar ${(event as { transaction: Transaction }).transaction._id}`);
+    });
+    expect(screen.queryByText('Padaria')).not.toBeInTheDocument();
+    expect(screen.getByText('3 transações encontradas')).toBeInTheDocument();
+    resetMockStore();
+  });
+
+  describe('exclusão', () => {
+    test('some na hora e só vai para a API depois do prazo de desfazer', async () => {
+      renderList('/transacoes');
+      await screen.findByText('Uber centro');
+      jest.useFakeTimers();
+
+      fireEvent.click(within(screen.getByText('Uber centro').closest('div.p-4') as HTMLElement).getByTitle('Apagar Transação'));
+
+      expect(screen.queryByText('Uber centro')).not.toBeInTheDocument();
+      expect(screen.getByText('Transação apagada.')).toBeInTheDocument();
+      expect(deleteTransaction).not.toHaveBeenCalled();
+
+      act(() => {
+        jest.advanceTimersByTime(UNDO_DELETE_MS);
+      });
+      expect(deleteTransaction).toHaveBeenCalledWith('u1', 't3');
+    });
+
+    test('"Desfazer" traz a transação de volta sem chamar a API', async () => {
+      renderList('/transacoes');
+      await screen.findByText('Uber centro');
+      jest.useFakeTimers();
+
+      fireEvent.click(within(screen.getByText('Uber centro').closest('div.p-4') as HTMLElement).getByTitle('Apagar Transação'));
+      fireEvent.click(screen.getByRole('button', { name: 'Desfazer' }));
+
+      expect(renderedDescriptions()).toEqual(['Uber centro', 'Mercado do bairro', 'Salário']);
+      act(() => {
+        jest.advanceTimersByTime(UNDO_DELETE_MS);
+      });
+      expect(deleteTransaction).not.toHaveBeenCalled();
+    });
+
+    test('apaga as selecionadas depois de confirmar', async () => {
+      renderList('/transacoes');
+      await screen.findByText('Uber centro');
+
+      fireEvent.click(screen.getByLabelText('Selecionar Uber centro'));
+      fireEvent.click(screen.getByLabelText('Selecionar Salário'));
+      fireEvent.click(screen.getByRole('button', { name: 'Apagar selecionadas' }));
+
+      const dialog = screen.getByRole('alertdialog');
+      expect(within(dialog).getByText('Apagar 2 transações?')).toBeInTheDocument();
+      fireEvent.click(within(dialog).getByRole('button', { name: 'Apagar' }));
+
+      expect(await screen.findByText('2 transações apagadas.')).toBeInTheDocument();
+      expect(renderedDescriptions()).toEqual(['Mercado do bairro']);
+    });
+
+    test('cancelar a confirmação mantém as selecionadas', async () => {
+      renderList('/transacoes');
+      await screen.findByText('Uber centro');
+
+      fireEvent.click(screen.getByLabelText('Selecionar todas'));
+      fireEvent.click(screen.getByRole('button', { name: 'Apagar selecionadas' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Cancelar' }));
+
+      await waitFor(() => expect(screen.queryByRole('alertdialog')).not.toBeInTheDocument());
+      expect(renderedDescriptions()).toHaveLength(3);
+      expect(screen.getByText('3 selecionadas')).toBeInTheDocument();
+    });
+  });
+
+  describe('com contas', () => {
+    const accounts: Account[] = [
+      { _id: 'a1', name: 'Conta corrente', kind: 'checking', initialBalance: 0 },
+      { _id: 'a2', name: 'Carteira', kind: 'cash', initialBalance: 0 }
+    ];
+    const withAccounts: Transaction[] = [
+      { ...transactions[0], accountId: 'a2' },
+      { ...transactions[1], accountId: 'a1' },
+      { _id: 't4', type: 'transfer', amount: 100, description: 'Saque', category: 'Transferência', createdAt: new Date(2024, 8, 12, 9).toISOString(), userId: 'u1', accountId: 'a1', toAccountId: 'a2' }
+    ];
+
+    beforeEach(() => {
+      (fetchTransactions as jest.Mock).mockResolvedValue(withAccounts);
+      (fetchAccounts as jest.Mock).mockResolvedValue(accounts);
+    });
+
+    test('mostra a transferência sem sinal, com origem e destino', async () => {
+      renderList('/transacoes');
+
+      const row = (await screen.findByText('Saque')).closest('div.p-4') as HTMLElement;
+      expect(within(row).getByText('Conta corrente → Carteira')).toBeInTheDocument();
+      expect(within(row).getByText(/^R\$\s100,00$/)).toBeInTheDocument();
+    });
+
+    test('o filtro de conta inclui as transferências de entrada', async () => {
+      renderList('/transacoes?conta=a2');
+
+      await screen.findByText('Saque');
+      expect(screen.getByRole('combobox', { name: 'Conta' })).toHaveValue('a2');
+      expect(renderedDescriptions()).toEqual(['Saque', 'Mercado do bairro']);
+    });
+  });
+});
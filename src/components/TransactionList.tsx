@@ -0,0 +1,244 @@
+import { useMemo, useState } from 'react';
+import { ArrowRightLeft, Calendar, Paperclip, Pencil, Trash2, TrendingDown, TrendingUp, X } from 'lucide-react';
+import { useConfirm } from '../context/ConfirmContext';
+import { useFinance } from '../context/FinanceContext';
+import { Transaction, TransactionType } from '../types/finance';
+import { getTransferLabel } from '../utils/accounts';
+import { getCategoryAppearance } from '../utils/categories';
+import { formatSignedAmount } from '../utils/currency';
+import { formatDate } from '../utils/date';
+import { getMemberName, getPayer } from '../utils/household';
+import { parseSearchQuery } from '../utils/search';
+import Highlight from './Highlight';
+
+const ICON_CLASSNAMES: Record<TransactionType, string> = {
+  income: 'bg-green-900 text-green-400 border border-green-700',
+  expense: 'bg-red-900 text-red-400 border border-red-700',
+  transfer: 'bg-blue-900 text-blue-400 border border-blue-700'
+};
+
+const AMOUNT_CLASSNAMES: Record<TransactionType, string> = {
+  income: 'text-green-400',
+  expense: 'text-red-400',
+  transfer: 'text-blue-400'
+};
+
+interface TransactionListProps {
+  onEdit: (transaction: Transaction) => void;
+}
+
+const TransactionList: React.FC<TransactionListProps> = ({ onEdit }) => {
+  const {
+    currentView,
+    searchTerm,
+    accounts,
+    filteredTransactions,
+    periodTransactions,
+    highlightedIds,
+    categorySettings,
+    household,
+    goTo,
+    openTransaction,
+    removeTransactions
+  } = useFinance();
+  const confirm = useConfirm();
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const searchTerms = useMemo(() => parseSearchQuery(searchTerm).terms, [searchTerm]);
+
+  const visibleTransactions = filteredTransactions.slice(0, currentView === 'dashboard' ? 5 : undefined);
+  // Só conta o que está na tela: trocar o filtro não apaga algo escondido
+  const selected = visibleTransactions.filter(t => selectedIds.includes(t._id)).map(t => t._id);
+  const allSelected = visibleTransactions.length > 0 && selected.length === visibleTransactions.length;
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(ids => (ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]));
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? [] : visibleTransactions.map(t => t._id));
+  };
+
+  const removeSelected = async () => {
+    const confirmed = await confirm({
+      title: `Apagar ${selected.length} transaç${selected.length === 1 ? 'ão' : 'ões'}?`,
+      message: 'Você ainda pode desfazer logo em seguida.',
+      confirmLabel: 'Apagar',
+      destructive: true
+    });
+    if (!confirmed) return;
+    removeTransactions(selected);
+    setSelectedIds([]);
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-xl shadow-lg overflow-hidden hover:shadow-2xl transition-shadow duration-200">
+      <div className="px-6 py-4 border-b border-gray-700 bg-gradient-to-r from-gray-800 to-gray-750">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-white flex items-center">
+            <div className="w-2 h-6 bg-purple-500 rounded-full mr-3"></div>
+            {currentView === 'expenses' && 'Suas Despesas'}
+            {currentView === 'income' && 'Suas Receitas'}
+            {(currentView === 'transactions' || currentView === 'dashboard') && 'Últimas Transações'}
+          </h3>
+          {visibleTransactions.length > 0 && (
+            <label className="flex items-center space-x-2 text-sm text-gray-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                onChange={toggleAll}
+                className="h-4 w-4 rounded accent-purple-500"
+              />
+              <span>Selecionar todas</span>
+            </label>
+          )}
+        </div>
+        {filteredTransactions.length > 0 && (
+          <p className="text-sm text-gray-400 mt-1">
+            {filteredTransactions.length} transaç{filteredTransactions.length === 1 ? 'ão' : 'ões'} encontrada{filteredTransactions.length === 1 ? '' : 's'}
+          </p>
+        )}
+      </div>
+      {/* Bulk actions */}
+      {selected.length > 0 && (
+        <div className="px-6 py-3 border-b border-gray-700 bg-purple-900/30 flex items-center justify-between text-sm">
+          <span className="text-purple-200">
+            {selected.length} selecionada{selected.length === 1 ? '' : 's'}
+          </span>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setSelectedIds([])}
+              className="flex items-center space-x-1 px-3 py-1.5 rounded-lg text-gray-300 hover:bg-gray-700 hover:text-white transition-colors"
+            >
+              <X className="h-4 w-4" />
+              <span>Limpar</span>
+            </button>
+            <button
+              onClick={removeSelected}
+              className="flex items-center space-x-1 px-3 py-1.5 rounded-lg bg-red-700 text-white font-medium hover:bg-red-600 transition-colors"
+            >
+              <Trash2 className="h-4 w-4" />
+              <span>Apagar selecionadas</span>
+            </button>
+          </div>
+        </div>
+      )}
+      <div className="divide-y divide-gray-700">
+        {filteredTransactions.length === 0 ? (
+          <div className="p-8 text-center text-gray-400">
+            <div className="bg-gray-700 rounded-full w-16 h-16 flex items-center justify-center mx-auto mb-4">
+              <Calendar className="h-8 w-8 opacity-50" />
+            </div>
+            <p className="text-lg font-medium mb-2">Nenhuma transação encontrada</p>
+            <p className="text-sm">
+              {searchTerm && 'Tente ajustar os filtros de busca'}
+              {!searchTerm && 'Suas transações aparecerão aqui'}
+            </p>
+          </div>
+        ) : (
+          visibleTransactions.map((transaction) => (
+            <div
+              key={transaction._id}
+              className={`p-4 hover:bg-gray-750 transition-colors ${highlightedIds.includes(transaction._id) ? 'animate-flash-in' : ''}`}
+            >
+              <div className="flex items-center justify-between">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(transaction._id)}
+                  onChange={() => toggleSelected(transaction._id)}
+                  className="h-4 w-4 mr-3 flex-shrink-0 rounded accent-purple-500"
+                  aria-label={`Selecionar ${transaction.description}`}
+                />
+                <button
+                  onClick={() => openTransaction(transaction)}
+                  className="flex items-center space-x-3 flex-1 min-w-0 text-left"
+                  title="Ver detalhes"
+                >
+                  <div className={`flex-shrink-0 w-12 h-12 rounded-xl flex items-center justify-center ${ICON_CLASSNAMES[transaction.type]}`}>
+                    {transaction.type === 'income' && <TrendingUp className="h-6 w-6" />}
+                    {transaction.type === 'expense' && <TrendingDown className="h-6 w-6" />}
+                    {transaction.type === 'transfer' && <ArrowRightLeft className="h-6 w-6" />}
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium text-white truncate">
+                      <Highlight text={transaction.description} terms={searchTerms} />
+                    </p>
+                    <div className="flex items-center space-x-2 mt-1">
+                      <div className="flex items-center space-x-1">
+                        <div
+                          className="w-2 h-2 rounded-full"
+                          style={{ backgroundColor: transaction.type === 'transfer' ? '#9CA3AF' : getCategoryAppearance(categorySettings, transaction.category).color }}
+                        ></div>
+                        <span className="text-xs text-gray-400 truncate">
+                          {transaction.type === 'transfer'
+                            ? getTransferLabel(accounts, transaction)
+                            : <Highlight text={transaction.category} terms={searchTerms} />}
+                          {transaction.splits && transaction.splits.length > 1 && (
+                            <span className="text-gray-500" title={transaction.splits.map(split => split.category).join(' + ')}>
+                              {' '}+{transaction.splits.length - 1}
+                            </span>
+                          )}
+                        </span>
+                      </div>
+                      {transaction.installment && (
+                        <span className="text-xs text-pink-300" title="Parcela">
+                          {transaction.installment.number}/{transaction.installment.total}
+                        </span>
+                      )}
+                      {transaction.attachments && transaction.attachments.length > 0 && (
+                        <span className="flex items-center text-xs text-gray-400" title="Comprovantes anexados">
+                          <Paperclip className="h-3 w-3 mr-0.5" />
+                          {transaction.attachments.length}
+                        </span>
+                      )}
+                      {household && (
+                        <span className="text-xs text-rose-300 truncate" title={transaction.shared ? 'Despesa da casa' : 'Quem pagou'}>
+                          {getMemberName(household, getPayer(transaction))}{transaction.shared && ' · casa'}
+                        </span>
+                      )}
+                      {(transaction.tags || []).map(tag => (
+                        <span key={tag} className="text-xs text-cyan-300 truncate">#{tag}</span>
+                      ))}
+                      <span className="text-xs text-gray-500">{formatDate(transaction.createdAt)}</span>
+                    </div>
+                    <span className="text-xs text-gray-500 mt-1 block">ID: {transaction._id}</span>
+                  </div>
+                </button>
+                <div className="text-right flex-shrink-0 ml-4 flex items-center space-x-4">
+                  <p className={`text-lg font-bold mr-2 ${AMOUNT_CLASSNAMES[transaction.type]}`}>
+                    {formatSignedAmount(transaction.type, transaction.amount)}
+                  </p>
+                  <button
+                      onClick={() => onEdit(transaction)}
+                      className="text-blue-400 hover:text-blue-300 hover:bg-blue-900 p-2 rounded-lg transition-all duration-200"
+                      title="Editar Transação"
+                  >
+                      <Pencil className="h-4 w-4" />
+                  </button>
+                  <button
+                      onClick={() => removeTransactions([transaction._id])}
+                      className="text-red-500 hover:text-red-400 hover:bg-red-900 p-2 rounded-lg transition-all duration-200"
+                      title="Apagar Transação"
+                  >
+                      <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+      {currentView === 'dashboard' && filteredTransactions.length > 5 && (
+        <div className="px-6 py-4 border-t border-gray-700 bg-gray-750">
+          <button
+            onClick={() => goTo('transactions')}
+            className="w-full text-blue-400 hover:text-blue-300 text-sm font-medium py-2 rounded-lg hover:bg-gray-700 transition-colors"
+          >
+            Ver todas as transações ({periodTransactions.length})
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TransactionList;
@@ -0,0 +1,97 @@
+import { Bar, BarChart, CartesianGrid, Cell, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Transaction } from '../types/finance';
+import { formatCurrency } from '../utils/currency';
+import { getCategoryMonthOverMonth, groupByMonth } from '../utils/trends';
+
+interface TrendChartsProps {
+  transactions: Transaction[];
+}
+
+const tooltipStyle = {
+  backgroundColor: '#374151',
+  border: '1px solid #4B5563',
+  borderRadius: '8px',
+  color: 'white'
+};
+
+const axisTick = { fill: '#9CA3AF', fontSize: 12 };
+const axisLine = { stroke: '#4B5563' };
+
+const TrendCharts: React.FC<TrendChartsProps> = ({ transactions }) => {
+  const monthly = groupByMonth(transactions);
+  const categoryChanges = getCategoryMonthOverMonth(transactions).slice(0, 8);
+
+  if (monthly.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+      <div className="bg-gray-800 rounded-xl shadow-lg p-6 hover:shadow-2xl transition-shadow duration-200 lg:col-span-2">
+        <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+          <div className="w-2 h-6 bg-yellow-500 rounded-full mr-3"></div>
+          Receitas x Despesas por Mês
+        </h3>
+        <ResponsiveContainer width="100%" height={280}>
+          <BarChart data={monthly}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#4B5563" />
+            <XAxis dataKey="label" tick={axisTick} axisLine={axisLine} />
+            <YAxis tickFormatter={(value: number) => `R$ ${value}`} tick={axisTick} axisLine={axisLine} />
+            <Tooltip formatter={(value: number) => formatCurrency(value)} contentStyle={tooltipStyle} />
+            <Legend wrapperStyle={{ color: '#9CA3AF' }} />
+            <Bar dataKey="income" name="Receitas" fill="#34D399" radius={[4, 4, 0, 0]} />
+            <Bar dataKey="expenses" name="Despesas" fill="#F87171" radius={[4, 4, 0, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="bg-gray-800 rounded-xl shadow-lg p-6 hover:shadow-2xl transition-shadow duration-200">
+        <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+          <div className="w-2 h-6 bg-blue-500 rounded-full mr-3"></div>
+          Saldo Acumulado
+        </h3>
+        <ResponsiveContainer width="100%" height={250}>
+          <LineChart data={monthly}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#4B5563" />
+            <XAxis dataKey="label" tick={axisTick} axisLine={axisLine} />
+            <YAxis tickFormatter={(value: number) => `R$ ${value}`} tick={axisTick} axisLine={axisLine} />
+            <Tooltip formatter={(value: number) => formatCurrency(value)} contentStyle={tooltipStyle} />
+            <ReferenceLine y={0} stroke="#6B7280" />
+            <Line type="monotone" dataKey="balance" name="Saldo" stroke="#60A5FA" strokeWidth={2} dot={{ r: 3 }} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="bg-gray-800 rounded-xl shadow-lg p-6 hover:shadow-2xl transition-shadow duration-200">
+        <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+          <div className="w-2 h-6 bg-purple-500 rounded-full mr-3"></div>
+          Variação de Gastos vs. Mês Anterior
+        </h3>
+        {categoryChanges.length === 0 ? (
+          <p className="text-sm text-gray-400 py-16 text-center">Sem despesas neste mês ou no anterior</p>
+        ) : (
+          <ResponsiveContainer width="100%" height={250}>
+            <BarChart data={categoryChanges} layout="vertical" margin={{ left: 24 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#4B5563" />
+              <XAxis type="number" tickFormatter={(value: number) => `R$ ${value}`} tick={axisTick} axisLine={axisLine} />
+              <YAxis type="category" dataKey="category" tick={axisTick} axisLine={axisLine} width={90} />
+              <Tooltip
+                formatter={(value: number, _name: string, item: { payload?: { changePercent: number | null } }) => {
+                  const percent = item.payload ? item.payload.changePercent : null;
+                  return percent === null ? formatCurrency(value) : `${formatCurrency(value)} (${percent > 0 ? '+' : ''}${percent.toFixed(0)}%)`;
+                }}
+                contentStyle={tooltipStyle}
+              />
+              <ReferenceLine x={0} stroke="#6B7280" />
+              <Bar dataKey="change" name="Variação" radius={[0, 4, 4, 0]}>
+                {categoryChanges.map(entry => (
+                  <Cell key={entry.category} fill={entry.change > 0 ? '#F87171' : '#34D399'} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TrendCharts;
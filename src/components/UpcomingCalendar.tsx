@@ -0,0 +1,82 @@
+import { formatCurrency } from '../utils/currency';
+import { parseDateInput, toDateInput } from '../utils/period';
+import { UpcomingEntry } from '../utils/recurring';
+
+interface UpcomingCalendarProps {
+  entries: UpcomingEntry[];
+  days: number;
+  now?: Date;
+}
+
+const WEEKDAYS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+// Semanas completas (domingo a sábado) cobrindo de hoje até o fim do horizonte
+const buildCalendarDays = (days: number, now: Date): Date[] => {
+  const first = new Date(now.getFullYear(), now.getMonth(), now.getDate() - now.getDay());
+  const last = new Date(now.getFullYear(), now.getMonth(), now.getDate() + days);
+  last.setDate(last.getDate() + (6 - last.getDay()));
+
+  const calendar: Date[] = [];
+  for (const date = new Date(first); date <= last; date.setDate(date.getDate() + 1)) {
+    calendar.push(new Date(date));
+  }
+  return calendar;
+};
+
+// Calendário das próximas contas (vermelho) e receitas (verde)
+const UpcomingCalendar: React.FC<UpcomingCalendarProps> = ({ entries, days, now = new Date() }) => {
+  const today = toDateInput(now);
+  const horizonEnd = toDateInput(new Date(now.getFullYear(), now.getMonth(), now.getDate() + days));
+  const entriesByDate = entries.reduce<Record<string, UpcomingEntry[]>>((groups, entry) => {
+    groups[entry.date] = [...(groups[entry.date] || []), entry];
+    return groups;
+  }, {});
+
+  return (
+    <div className="bg-gray-800 rounded-xl shadow-lg p-4 md:p-6 mb-6">
+      <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+        <div className="w-2 h-6 bg-purple-500 rounded-full mr-3"></div>
+        Calendário de Vencimentos
+      </h3>
+      <div className="grid grid-cols-7 gap-1 text-xs">
+        {WEEKDAYS.map(weekday => (
+          <div key={weekday} className="text-center text-gray-400 font-medium py-1">{weekday}</div>
+        ))}
+        {buildCalendarDays(days, now).map(date => {
+          const key = toDateInput(date);
+          const inRange = key >= today && key <= horizonEnd;
+          const dayEntries = entriesByDate[key] || [];
+
+          return (
+            <div
+              key={key}
+              className={`min-h-[4.5rem] rounded-lg p-1 border ${
+                key === today ? 'border-blue-500' : 'border-gray-700'
+              } ${inRange ? 'bg-gray-900/40' : 'opacity-30'}`}
+            >
+              <div className="text-gray-400 mb-1">
+                {date.getDate() === 1 || key === today
+                  ? parseDateInput(key).toLocaleDateString('pt-BR', { day: 'numeric', month: 'short' })
+                  : date.getDate()}
+              </div>
+              {dayEntries.map(entry => (
+                <div
+                  key={entry.key}
+                  title={`${entry.description} · ${formatCurrency(entry.amount)}`}
+                  className={`truncate rounded px-1 mb-0.5 ${
+                    entry.type === 'income' ? 'bg-green-900/60 text-green-300' : 'bg-red-900/60 text-red-300'
+                  }`}
+                >
+                  <span className="hidden md:inline">{entry.description} </span>
+                  {entry.type === 'income' ? '+' : '-'}{formatCurrency(entry.amount)}
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default UpcomingCalendar;
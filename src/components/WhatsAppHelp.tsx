@@ -0,0 +1,152 @@
+import { Command, FileText, HelpCircle, MessageCircle, TrendingDown, TrendingUp } from 'lucide-react';
+
+// Guia dos comandos aceitos pelo bot do WhatsApp
+const WhatsAppHelp: React.FC = () => (
+  <div className="mt-8 bg-gradient-to-br from-green-900 via-gray-800 to-gray-900 rounded-2xl shadow-2xl p-6 border border-green-800">
+    <div className="text-center mb-6">
+      <div className="inline-flex items-center space-x-3 mb-3">
+        <div className="bg-green-600 p-3 rounded-xl">
+          <MessageCircle className="h-8 w-8 text-white" />
+        </div>
+        <h2 className="text-2xl font-bold text-white">Controle via WhatsApp</h2>
+      </div>
+      <p className="text-green-200 max-w-2xl mx-auto">
+        Gerencie suas finanças de forma simples e rápida através do WhatsApp. 
+        Envie mensagens naturais e tenha controle total dos seus gastos.
+      </p>
+    </div>
+
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+      {/* Registrar Despesas */}
+      <div className="bg-gradient-to-br from-red-900/50 to-gray-800 rounded-xl p-6 border border-red-700/30 hover:border-red-600/50 transition-all duration-300">
+        <div className="flex items-center space-x-3 mb-4">
+          <div className="bg-red-600 p-2 rounded-lg">
+            <TrendingDown className="h-5 w-5 text-white" />
+          </div>
+          <h3 className="text-lg font-bold text-red-300">Registrar Despesas</h3>
+        </div>
+        <div className="space-y-3">
+          <div className="bg-gray-900/50 rounded-lg p-3 border border-gray-700">
+            <code className="text-red-200 text-sm">"50 no mercado"</code>
+          </div>
+          <div className="bg-gray-900/50 rounded-lg p-3 border border-gray-700">
+            <code className="text-red-200 text-sm">"25.50 lanche"</code>
+          </div>
+          <div className="bg-gray-900/50 rounded-lg p-3 border border-gray-700">
+            <code className="text-red-200 text-sm">"100 conta de luz"</code>
+          </div>
+        </div>
+        <p className="text-xs text-gray-300 mt-3">
+          💡 Formato: valor + descrição
+        </p>
+      </div>
+
+      {/* Registrar Receitas */}
+      <div className="bg-gradient-to-br from-green-900/50 to-gray-800 rounded-xl p-6 border border-green-700/30 hover:border-green-600/50 transition-all duration-300">
+        <div className="flex items-center space-x-3 mb-4">
+          <div className="bg-green-600 p-2 rounded-lg">
+            <TrendingUp className="h-5 w-5 text-white" />
+          </div>
+          <h3 className="text-lg font-bold text-green-300">Registrar Receitas</h3>
+        </div>
+        <div className="space-y-3">
+          <div className="bg-gray-900/50 rounded-lg p-3 border border-gray-700">
+            <code className="text-green-200 text-sm">"recebi 1000 salário"</code>
+          </div>
+          <div className="bg-gray-900/50 rounded-lg p-3 border border-gray-700">
+            <code className="text-green-200 text-sm">"ganhei 500 freelance"</code>
+          </div>
+          <div className="bg-gray-900/50 rounded-lg p-3 border border-gray-700">
+            <code className="text-green-200 text-sm">"entrou 200 venda"</code>
+          </div>
+        </div>
+        <p className="text-xs text-gray-300 mt-3">
+          💡 Use: recebi, ganhei ou entrou
+        </p>
+      </div>
+
+      {/* Comandos Especiais */}
+      <div className="bg-gradient-to-br from-blue-900/50 to-gray-800 rounded-xl p-6 border border-blue-700/30 hover:border-blue-600/50 transition-all duration-300">
+        <div className="flex items-center space-x-3 mb-4">
+          <div className="bg-blue-600 p-2 rounded-lg">
+            <Command className="h-5 w-5 text-white" />
+          </div>
+          <h3 className="text-lg font-bold text-blue-300">Comandos Especiais</h3>
+        </div>
+        <div className="space-y-3">
+          <div className="bg-gray-900/50 rounded-lg p-3 border border-gray-700">
+            <code className="text-blue-200 text-sm">"relatório de hoje"</code>
+          </div>
+          <div className="bg-gray-900/50 rounded-lg p-3 border border-gray-700">
+            <code className="text-blue-200 text-sm">"dashboard"</code>
+          </div>
+          <div className="bg-gray-900/50 rounded-lg p-3 border border-gray-700">
+            <code className="text-blue-200 text-sm">"apagar [ID]"</code>
+          </div>
+        </div>
+        <p className="text-xs text-gray-300 mt-3">
+          💡 Use "ajuda" para ver todos os comandos
+        </p>
+      </div>
+    </div>
+
+    {/* Seção de Relatórios */}
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+      <div className="bg-gradient-to-r from-purple-900/30 to-gray-800/50 rounded-xl p-5 border border-purple-700/20">
+        <div className="flex items-center space-x-3 mb-3">
+          <FileText className="h-6 w-6 text-purple-400" />
+          <h4 className="text-lg font-semibold text-purple-200">Relatórios Disponíveis</h4>
+        </div>
+        <div className="grid grid-cols-2 gap-3 text-sm">
+          <div className="bg-gray-900/40 rounded-lg p-3">
+            <span className="text-purple-300 font-medium">Hoje:</span>
+            <p className="text-gray-300">"relatório de hoje"</p>
+          </div>
+          <div className="bg-gray-900/40 rounded-lg p-3">
+            <span className="text-purple-300 font-medium">Semana:</span>
+            <p className="text-gray-300">"relatório da semana"</p>
+          </div>
+          <div className="bg-gray-900/40 rounded-lg p-3">
+            <span className="text-purple-300 font-medium">Mês:</span>
+            <p className="text-gray-300">"relatório do mês"</p>
+          </div>
+          <div className="bg-gray-900/40 rounded-lg p-3">
+            <span className="text-purple-300 font-medium">Geral:</span>
+            <p className="text-gray-300">"relatório geral"</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-gradient-to-r from-amber-900/30 to-gray-800/50 rounded-xl p-5 border border-amber-700/20">
+        <div className="flex items-center space-x-3 mb-3">
+          <HelpCircle className="h-6 w-6 text-amber-400" />
+          <h4 className="text-lg font-semibold text-amber-200">Dicas Úteis</h4>
+        </div>
+        <div className="space-y-3 text-sm text-gray-300">
+          <div className="flex items-start space-x-2">
+            <div className="w-1.5 h-1.5 bg-amber-400 rounded-full mt-2 flex-shrink-0"></div>
+            <p>Use valores com vírgula ou ponto: "25,50" ou "25.50"</p>
+          </div>
+          <div className="flex items-start space-x-2">
+            <div className="w-1.5 h-1.5 bg-amber-400 rounded-full mt-2 flex-shrink-0"></div>
+            <p>Seja específico na descrição para melhor categorização</p>
+          </div>
+          <div className="flex items-start space-x-2">
+            <div className="w-1.5 h-1.5 bg-amber-400 rounded-full mt-2 flex-shrink-0"></div>
+            <p>Use "dashboard" para receber o link de acesso</p>
+          </div>
+        </div>
+      </div>
+    </div>
+
+    {/* Botão de Ajuda */}
+    <div className="text-center">
+      <div className="inline-flex items-center space-x-2 bg-gradient-to-r from-green-600 to-green-700 text-white px-6 py-3 rounded-full font-medium shadow-lg">
+        <MessageCircle className="h-5 w-5" />
+        <span>Envie "ajuda" no WhatsApp para ver todos os comandos</span>
+      </div>
+    </div>
+  </div>
+);
+
+export default WhatsAppHelp;
@@ -0,0 +1,46 @@
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { ConfirmProvider, useConfirm } from './ConfirmContext';
+
+let confirm: ReturnType<typeof useConfirm> = () => Promise.resolve(false);
+const Capture: React.FC = () => {
+  confirm = useConfirm();
+  return null;
+};
+
+const renderProvider = () =>
+  render(
+    <ConfirmProvider>
+      <Capture />
+    </ConfirmProvider>
+  );
+
+describe('ConfirmProvider', () => {
+  test('resolve com a escolha de quem respondeu', async () => {
+    renderProvider();
+    let answer: Promise<boolean> = Promise.resolve(false);
+    act(() => {
+      answer = confirm({ title: 'Apagar?', message: 'Não dá para desfazer.', confirmLabel: 'Apagar' });
+    });
+
+    fireEvent.click(screen.getByText('Apagar'));
+    await expect(answer).resolves.toBe(true);
+    expect(screen.queryByText('Apagar?')).not.toBeInTheDocument();
+  });
+
+  test('um pedido novo responde "não" ao que ainda estava aberto', async () => {
+    renderProvider();
+    let first: Promise<boolean> = Promise.resolve(true);
+    let second: Promise<boolean> = Promise.resolve(false);
+    act(() => {
+      first = confirm({ title: 'Primeiro?', message: '' });
+    });
+    act(() => {
+      second = confirm({ title: 'Segundo?', message: '', confirmLabel: 'Sim' });
+    });
+
+    await expect(first).resolves.toBe(false);
+    expect(screen.queryByText('Primeiro?')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByText('Sim'));
+    await expect(second).resolves.toBe(true);
+  });
+});
@@ -0,0 +1,56 @@
+import { createContext, useCallback, useContext, useRef, useState } from 'react';
+import ConfirmDialog, { ConfirmDialogProps } from '../components/ConfirmDialog';
+
+// Confirmação dentro do app, no lugar do window.confirm:
+// const ok = await confirm({ title: 'Apagar?', message: '...' })
+
+export type ConfirmOptions = Omit<ConfirmDialogProps, 'onConfirm' | 'onCancel'>;
+
+type ConfirmFn = (options: ConfirmOptions) => Promise<boolean>;
+
+interface PendingConfirm {
+  options: ConfirmOptions;
+  resolve: (confirmed: boolean) => void;
+}
+
+const ConfirmContext = createContext<ConfirmFn | null>(null);
+
+export const ConfirmProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [pending, setPending] = useState<PendingConfirm | null>(null);
+  // Cópia síncrona do pedido aberto: um confirm() novo responde "não" ao anterior
+  // antes de tomar o lugar dele, para o await de quem chamou não ficar preso
+  const pendingRef = useRef<PendingConfirm | null>(null);
+
+  const confirm = useCallback<ConfirmFn>(
+    options => new Promise(resolve => {
+      pendingRef.current?.resolve(false);
+      const next = { options, resolve };
+      pendingRef.current = next;
+      setPending(next);
+    }),
+    []
+  );
+
+  const close = useCallback((confirmed: boolean) => {
+    pending?.resolve(confirmed);
+    pendingRef.current = null;
+    setPending(null);
+  }, [pending]);
+
+  const handleCancel = useCallback(() => close(false), [close]);
+
+  return (
+    <ConfirmContext.Provider value={confirm}>
+      {children}
+      {pending && <ConfirmDialog {...pending.options} onConfirm={() => close(true)} onCancel={handleCancel} />}
+    </ConfirmContext.Provider>
+  );
+};
+
+export const useConfirm = (): ConfirmFn => {
+  const context = useContext(ConfirmContext);
+  if (!context) {
+    throw new Error('useConfirm deve ser usado dentro de um ConfirmProvider');
+  }
+  return context;
+};
@@ -0,0 +1,984 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import axios from 'axios';
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { deleteBudget as deleteBudgetRequest, fetchBudgets, saveBudget as saveBudgetRequest } from '../api/budgetsApi';
+import { fetchCategorySettings, renameCategory as renameCategoryRequest, saveCategorySettings as saveCategorySettingsRequest } from '../api/categoriesApi';
+import { createGoal, deleteGoal as deleteGoalRequest, fetchGoals, updateGoal } from '../api/goalsApi';
+import { createAccount as createAccountRequest, deleteAccount as deleteAccountRequest, fetchAccounts } from '../api/accountsApi';
+import { deleteAttachment, uploadAttachment } from '../api/attachmentsApi';
+import {
+  addHouseholdMember as addHouseholdMemberRequest,
+  createHousehold as createHouseholdRequest,
+  fetchHousehold,
+  removeHouseholdMember as removeHouseholdMemberRequest
+} from '../api/householdApi';
+import { LiveStatus, applyTransactionEvent, subscribeToLiveUpdates } from '../api/liveUpdates';
+import {
+  NewQueuedMutation,
+  applyQueuedMutations,
+  enqueueMutation,
+  getQueuedMutations,
+  isNetworkError,
+  isQueuedCreate,
+  replayQueuedMutations
+} from '../api/mutationQueue';
+import { readCachedData, writeCachedData } from '../api/offlineCache';
+import { createRecurringRule, deleteRecurringRule as deleteRecurringRuleRequest, fetchRecurringRules, updateRecurringRule } from '../api/recurringApi';
+import {
+  createTransaction,
+  createTransactions,
+  deleteTransaction,
+  fetchSummary,
+  fetchTransactions,
+  updateTransaction
+} from '../api/transactionsApi';
+import { useToast } from './ToastContext';
+import { ACCOUNT_PARAM, CATEGORY_PARAM, MEMBER_PARAM, SEARCH_PARAM, TAG_PARAM, VIEW_PATHS, ViewMode, getTransactionPath, matchRoute } from '../routes';
+import {
+  Account,
+  AccountInput,
+  Attachment,
+  Budget,
+  CategorySettings,
+  Goal,
+  GoalInput,
+  Household,
+  HouseholdMemberInput,
+  PeriodFilter,
+  RecurringRule,
+  RecurringRuleInput,
+  Summary,
+  Transaction,
+  TransactionEvent,
+  TransactionInput
+} from '../types/finance';
+import { TRANSFER_CATEGORY } from '../utils/accounts';
+import { BudgetStatus, getBudgetStatuses } from '../utils/budgets';
+import { getKeywordRules, renameCategorySettings } from '../utils/categories';
+import { KeywordRules } from '../utils/commandParser';
+import { splitInstallments } from '../utils/creditCard';
+import { getCategories, getFilteredTransactions } from '../utils/filters';
+import { GoalsPlan, getGoalsPlan } from '../utils/goals';
+import { SETTLEMENT_DESCRIPTION, Settlement, getMemberName, getPayer } from '../utils/household';
+import { isWithinPeriod, readPeriodFromParams, toDateInput, writePeriodToParams } from '../utils/period';
+import { getDueOccurrences, toTransactionInput } from '../utils/recurring';
+import { completeSummary, computeSummary } from '../utils/summary';
+import { TagCount, getTagCounts } from '../utils/tags';
+
+// Estado central do dashboard: dados do usuário, ações que falam com a API
+// e os filtros, que vivem na URL para o "voltar" e links compartilháveis.
+
+export interface NavigateOptions {
+  category?: string;
+  account?: string;
+  period?: PeriodFilter;
+  replace?: boolean;
+}
+
+export interface FinanceContextValue {
+  userId: string;
+  transactions: Transaction[];
+  summary: Summary | null;
+  budgets: Budget[];
+  recurringRules: RecurringRule[];
+  accounts: Account[];
+  categorySettings: CategorySettings[];
+  goals: Goal[];
+  // Casa compartilhada do usuário; null = livro só dele
+  household: Household | null;
+  loading: boolean;
+  // Sem conexão: os dados vêm do cache local e as alterações vão para a fila
+  offline: boolean;
+  lastSyncedAt: string | null;
+  pendingCount: number;
+  liveStatus: LiveStatus | null;
+  // Transações que acabaram de chegar pelo canal em tempo real (destacadas na lista)
+  highlightedIds: string[];
+
+  currentView: ViewMode;
+  transactionId: string | null;
+  searchTerm: string;
+  selectedCategory: string;
+  selectedAccount: string;
+  selectedTag: string;
+  // Membro da casa cujos pagamentos aparecem no dashboard; vazio = todos
+  selectedMember: string;
+  period: PeriodFilter;
+
+  periodTransactions: Transaction[];
+  periodSummary: Summary | null;
+  filteredTransactions: Transaction[];
+  budgetStatuses: BudgetStatus[];
+  goalsPlan: GoalsPlan;
+  categories: string[];
+  expenseCategories: string[];
+  // Tags usadas no período, das mais frequentes para as menos
+  tagCounts: TagCount[];
+  // Palavras-chave do usuário para categorizar lançamentos novos
+  keywordRules: KeywordRules;
+
+  setSearchTerm: (value: string) => void;
+  setSelectedCategory: (value: string) => void;
+  setSelectedAccount: (value: string) => void;
+  setSelectedTag: (value: string) => void;
+  setSelectedMember: (value: string) => void;
+  setPeriod: (value: PeriodFilter) => void;
+  goTo: (view: ViewMode, options?: NavigateOptions) => void;
+  goBack: () => void;
+  openTransaction: (transaction: Transaction) => void;
+
+  reload: (silent?: boolean) => Promise<void>;
+  // Antes de sair da conta: envia as exclusões no prazo de desfazer e a fila offline;
+  // devolve quantas alterações ficaram na fila
+  flushPendingChanges: () => Promise<number>;
+  saveTransaction: (input: TransactionInput, editing: Transaction | null) => Promise<void>;
+  saveInstallmentPurchase: (input: TransactionInput, installments: number) => Promise<void>;
+  // Apaga na hora e dá alguns segundos para desfazer antes de enviar à API
+  removeTransactions: (transactionIds: string[]) => void;
+  importTransactions: (inputs: TransactionInput[]) => Promise<boolean>;
+  // Comprovantes vão direto para a API (precisam de conexão); onProgress recebe de 0 a 100
+  addAttachment: (transactionId: string, file: File, onProgress?: (percent: number) => void) => Promise<boolean>;
+  removeAttachment: (transactionId: string, attachmentId: string) => Promise<void>;
+  saveBudget: (budget: Budget) => Promise<void>;
+  deleteBudget: (category: string) => Promise<void>;
+  saveRecurringRule: (input: RecurringRuleInput, editing: RecurringRule | null) => Promise<void>;
+  deleteRecurringRule: (ruleId: string) => Promise<void>;
+  createAccount: (input: AccountInput) => Promise<void>;
+  deleteAccount: (accountId: string) => Promise<void>;
+  saveCategorySettings: (settings: CategorySettings) => Promise<void>;
+  // Renomear para uma categoria que já existe junta as duas
+  renameCategory: (from: string, to: string) => Promise<boolean>;
+  saveGoal: (input: GoalInput, editing: Goal | null) => Promise<void>;
+  deleteGoal: (goalId: string) => Promise<void>;
+  // Marca um lançamento existente como contribuição para a meta (null desvincula)
+  setTransactionGoal: (transaction: Transaction, goalId: string | null) => void;
+  // Casa: exigem conexão, já que o livro passa a ser compartilhado no servidor
+  createHousehold: (name: string, memberName: string) => Promise<boolean>;
+  addHouseholdMember: (input: HouseholdMemberInput) => Promise<boolean>;
+  removeHouseholdMember: (memberId: string) => Promise<void>;
+  // Registra o pagamento de um acerto como transferência entre os membros
+  settleUp: (settlement: Settlement) => Promise<void>;
+}
+
+// Tempo que uma transação recém-chegada fica destacada
+const HIGHLIGHT_MS = 4000;
+
+// Prazo para desfazer uma exclusão antes de ela ir para o servidor
+export const UNDO_DELETE_MS = 10000;
+
+// Junta transações recém-criadas à lista sem duplicar as que já chegaram pelo canal em tempo real
+const mergeCreated = (current: Transaction[], created: Transaction[]): Transaction[] =>
+  created.reduceRight((list, transaction) => applyTransactionEvent(list, { type: 'created', transaction }), current);
+
+const FinanceContext = createContext<FinanceContextValue | null>(null);
+
+interface FinanceProviderProps {
+  userId: string;
+  children: React.ReactNode;
+}
+
+export const FinanceProvider: React.FC<FinanceProviderProps> = ({ userId, children }) => {
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [summary, setSummary] = useState<Summary | null>(null);
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [recurringRules, setRecurringRules] = useState<RecurringRule[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [categorySettings, setCategorySettings] = useState<CategorySettings[]>([]);
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [household, setHousehold] = useState<Household | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [offline, setOffline] = useState(() => !navigator.onLine);
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
+  const [pendingCount, setPendingCount] = useState(() => getQueuedMutations(userId).length);
+  const [liveStatus, setLiveStatus] = useState<LiveStatus | null>(null);
+  const [highlightedIds, setHighlightedIds] = useState<string[]>([]);
+  // Espelho da lista para os eventos em tempo real, que chegam fora do ciclo de render
+  const transactionsRef = useRef(transactions);
+  transactionsRef.current = transactions;
+  // Exclusões ainda no prazo de desfazer, por timer; ficam fora da lista mesmo se um reload as trouxer de volta
+  const pendingDeletes = useRef(new Map<number, Transaction[]>());
+  // Usuário cujas recorrências já foram lançadas nesta visita (evita lançar duas vezes no StrictMode)
+  const materializedFor = useRef<string | null>(null);
+
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { showToast } = useToast();
+  const route = matchRoute(location.pathname);
+  const currentView: ViewMode = route ? route.view : 'dashboard';
+  const transactionId = route ? route.transactionId : null;
+  const searchTerm = searchParams.get(SEARCH_PARAM) || '';
+  const selectedCategory = searchParams.get(CATEGORY_PARAM) || '';
+  const selectedAccount = searchParams.get(ACCOUNT_PARAM) || '';
+  const selectedMember = searchParams.get(MEMBER_PARAM) || '';
+  const selectedTag = searchParams.get(TAG_PARAM) || '';
+  const period = useMemo(() => readPeriodFromParams(searchParams), [searchParams]);
+
+  // Dados do servidor (ou do cache) com as alterações ainda na fila por cima
+  const showData = useCallback((serverTransactions: Transaction[], serverSummary: Summary) => {
+    const queue = getQueuedMutations(userId);
+    setPendingCount(queue.length);
+    const hiddenIds = new Set(Array.from(pendingDeletes.current.values()).flat().map(t => t._id));
+    if (queue.length === 0 && hiddenIds.size === 0) {
+      setTransactions(serverTransactions);
+      setSummary(serverSummary);
+      return;
+    }
+    const merged = applyQueuedMutations(serverTransactions, queue, userId).filter(t => !hiddenIds.has(t._id));
+    setTransactions(merged);
+    setSummary(computeSummary(merged));
+  }, [userId]);
+
+  // silent = true atualiza os dados em segundo plano, sem a tela de carregamento
+  const reload = useCallback(async (silent = false) => {
+    try {
+      if (!silent) setLoading(true);
+      const [transactionsData, serverSummary] = await Promise.all([
+        fetchTransactions(userId),
+        fetchSummary(userId)
+      ]);
+      const summaryData = completeSummary(serverSummary, transactionsData);
+
+      const syncedAt = new Date().toISOString();
+      showData(transactionsData, summaryData);
+      setOffline(false);
+      setLastSyncedAt(syncedAt);
+      writeCachedData(userId, { transactions: transactionsData, summary: summaryData, syncedAt });
+    } catch (error) {
+      console.error('Error loading data:', error);
+      // Sem conexão, mostramos a última cópia salva em vez de esvaziar a tela
+      const cached = isNetworkError(error) ? await readCachedData(userId) : null;
+      if (isNetworkError(error)) setOffline(true);
+      if (cached) {
+        showData(cached.transactions, cached.summary);
+        setLastSyncedAt(cached.syncedAt);
+      } else if (!silent) {
+        setTransactions([]);
+        setSummary(null);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, showData]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  // Reenvia a fila offline e avisa sobre o que não pôde ser aplicado
+  const syncQueue = useCallback(async () => {
+    if (getQueuedMutations(userId).length === 0) return;
+    try {
+      const result = await replayQueuedMutations(userId);
+      if (result.conflicts.length > 0) {
+        showToast(`Algumas alterações feitas offline não foram aplicadas:\n${result.conflicts.join('\n')}`, { variant: 'error' });
+      }
+    } catch (error) {
+      console.error('Erro ao sincronizar alterações offline:', error);
+    }
+    reload(true);
+  }, [userId, reload, showToast]);
+
+  useEffect(() => {
+    syncQueue();
+    const handleOnline = () => {
+      setOffline(false);
+      syncQueue();
+    };
+    const handleOffline = () => setOffline(true);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncQueue]);
+
+  // Transações criadas ou apagadas em outro lugar (ex.: WhatsApp) entram na hora
+  useEffect(() => {
+    const timers: number[] = [];
+    const handleEvent = (event: TransactionEvent) => {
+      const current = transactionsRef.current;
+      const next = applyTransactionEvent(current, event);
+      if (next === current) return;
+      transactionsRef.current = next;
+      setTransactions(next);
+      setSummary(computeSummary(next));
+      if (event.type === 'created') {
+        const id = event.transaction._id;
+        setHighlightedIds(ids => [...ids, id]);
+        timers.push(window.setTimeout(() => setHighlightedIds(ids => ids.filter(i => i !== id)), HIGHLIGHT_MS));
+      }
+    };
+
+    const unsubscribe = subscribeToLiveUpdates(userId, handleEvent, setLiveStatus);
+    return () => {
+      unsubscribe();
+      timers.forEach(timer => window.clearTimeout(timer));
+    };
+  }, [userId]);
+
+  const queueOffline = (mutation: NewQueuedMutation) => {
+    enqueueMutation(userId, mutation);
+    setPendingCount(getQueuedMutations(userId).length);
+  };
+
+  // Orçamentos carregam à parte: uma falha aqui não deve derrubar o dashboard
+  useEffect(() => {
+    fetchBudgets(userId)
+      .then(setBudgets)
+      .catch(error => console.error('Erro ao carregar orçamentos:', error));
+  }, [userId]);
+
+  useEffect(() => {
+    fetchAccounts(userId)
+      .then(setAccounts)
+      .catch(error => console.error('Erro ao carregar contas:', error));
+  }, [userId]);
+
+  useEffect(() => {
+    fetchCategorySettings(userId)
+      .then(setCategorySettings)
+      .catch(error => console.error('Erro ao carregar categorias:', error));
+  }, [userId]);
+
+  useEffect(() => {
+    fetchGoals(userId)
+      .then(setGoals)
+      .catch(error => console.error('Erro ao carregar metas:', error));
+  }, [userId]);
+
+  useEffect(() => {
+    fetchHousehold(userId)
+      .then(setHousehold)
+      .catch(error => console.error('Erro ao carregar casa:', error));
+  }, [userId]);
+
+  // Lança como transações as ocorrências que venceram desde a última visita. Cada uma vai
+  // com a recurrenceKey (regra + data), e o backend não cria a mesma ocorrência duas vezes:
+  // duas abas, dois aparelhos ou uma falha antes de atualizar lastMaterialized não duplicam nada
+  const materializeDueRules = useCallback(async (rules: RecurringRule[]): Promise<RecurringRule[]> => {
+    const due = rules
+      .map(rule => ({ rule, dates: getDueOccurrences(rule) }))
+      .filter(({ dates }) => dates.length > 0);
+    if (due.length === 0) return rules;
+
+    const inputs = due.flatMap(({ rule, dates }) => dates.map(date => toTransactionInput(rule, date)));
+    await createTransactions(userId, inputs);
+    const today = toDateInput(new Date());
+    const updated = await Promise.all(due.map(({ rule }) => updateRecurringRule(userId, { ...rule, lastMaterialized: today })));
+    reload(true);
+    return rules.map(rule => updated.find(u => u._id === rule._id) || rule);
+  }, [userId, reload]);
+
+  useEffect(() => {
+    if (materializedFor.current === userId) return;
+    materializedFor.current = userId;
+
+    fetchRecurringRules(userId)
+      .then(materializeDueRules)
+      .then(setRecurringRules)
+      .catch(error => console.error('Erro ao carregar lançamentos recorrentes:', error));
+  }, [userId, materializeDueRules]);
+
+  // Um membro que saiu da casa não filtra mais nada
+  const memberFilter = household?.members.some(m => m.userId === selectedMember) ? selectedMember : '';
+
+  const periodTransactions = useMemo(
+    () => transactions.filter(t => isWithinPeriod(t.createdAt, period) && (!memberFilter || getPayer(t) === memberFilter)),
+    [transactions, period, memberFilter]
+  );
+
+  // O resumo do servidor é sempre geral; para outros períodos (ou um membro) recalculamos localmente
+  const periodSummary = useMemo(
+    () => (summary && (period.preset !== 'all' || memberFilter) ? computeSummary(periodTransactions) : summary),
+    [summary, period, memberFilter, periodTransactions]
+  );
+
+  const filteredTransactions = useMemo(
+    () => getFilteredTransactions(periodTransactions, {
+      type: currentView === 'expenses' ? 'expense' : currentView === 'income' ? 'income' : null,
+      searchTerm,
+      category: selectedCategory,
+      subcategories: categorySettings.filter(s => s.parent === selectedCategory).map(s => s.name),
+      accountId: selectedAccount,
+      tag: selectedTag
+    }),
+    [periodTransactions, currentView, searchTerm, selectedCategory, selectedAccount, selectedTag, categorySettings]
+  );
+
+  const budgetStatuses = useMemo(() => getBudgetStatuses(budgets, transactions), [budgets, transactions]);
+  const categories = useMemo(() => getCategories(transactions), [transactions]);
+  const expenseCategories = useMemo(() => getCategories(transactions, 'expense'), [transactions]);
+  const tagCounts = useMemo(() => getTagCounts(periodTransactions), [periodTransactions]);
+  const keywordRules = useMemo(() => getKeywordRules(categorySettings), [categorySettings]);
+  const goalsPlan = useMemo(() => getGoalsPlan(goals, transactions), [goals, transactions]);
+
+  // Filtros mudam a URL sem criar uma entrada nova no histórico a cada tecla
+  const updateParam = (name: string, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) {
+      next.set(name, value);
+    } else {
+      next.delete(name);
+    }
+    setSearchParams(next, { replace: true });
+  };
+
+  const setPeriod = (value: PeriodFilter) => {
+    const next = new URLSearchParams(searchParams);
+    writePeriodToParams(next, value);
+    setSearchParams(next, { replace: true });
+  };
+
+  // Troca de visão mantém o período e o membro; busca, categoria, conta e tag valem só para a lista de origem
+  const goTo = (view: ViewMode, options: NavigateOptions = {}) => {
+    const next = new URLSearchParams();
+    writePeriodToParams(next, options.period || period);
+    if (memberFilter) next.set(MEMBER_PARAM, memberFilter);
+    if (options.category) next.set(CATEGORY_PARAM, options.category);
+    if (options.account) next.set(ACCOUNT_PARAM, options.account);
+    navigate({ pathname: VIEW_PATHS[view], search: next.toString() }, { replace: options.replace });
+  };
+
+  // Volta pelo histórico; aberto direto por um link, não há para onde voltar
+  const goBack = () => {
+    if (location.key !== 'default') {
+      navigate(-1);
+    } else {
+      goTo(transactionId ? 'transactions' : 'dashboard');
+    }
+  };
+
+  const openTransaction = (transaction: Transaction) => {
+    navigate({ pathname: getTransactionPath(transaction._id), search: location.search });
+  };
+
+  // Atualização otimista: a lista e os cards mudam na hora e são
+  // reconciliados com o servidor depois; em caso de erro, voltamos atrás.
+  // Sem conexão, a alteração fica na fila e é enviada quando a conexão voltar.
+  const saveTransaction = async (input: TransactionInput, editing: Transaction | null) => {
+    const previousTransactions = transactions;
+    const previousSummary = summary;
+    const optimisticId = editing ? editing._id : `temp-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    // O formulário não mexe nos comprovantes; eles continuam na transação editada
+    const optimistic: Transaction = { ...input, _id: optimisticId, userId, attachments: editing?.attachments };
+
+    const nextTransactions = editing
+      ? transactions.map(t => (t._id === optimisticId ? optimistic : t))
+      : [optimistic, ...transactions];
+    setTransactions(nextTransactions);
+    setSummary(computeSummary(nextTransactions));
+
+    // Criada offline e ainda não enviada: basta ajustar a fila
+    if (editing && isQueuedCreate(userId, editing._id)) {
+      queueOffline({ kind: 'update', transactionId: editing._id, input, base: editing });
+      return;
+    }
+
+    try {
+      // O id otimista vai como clientId: se a resposta não chegar e a criação for para a fila,
+      // o reenvio não duplica
+      const saved = editing
+        ? await updateTransaction(userId, editing._id, input)
+        : await createTransaction(userId, { ...input, clientId: optimisticId });
+      // O eco do canal em tempo real pode ter chegado antes da resposta
+      setTransactions(current => (current.some(t => t._id === saved._id)
+        ? current.filter(t => t._id !== optimisticId)
+        : current.map(t => (t._id === optimisticId ? saved : t))));
+      reload(true);
+      showToast(editing ? 'Transação atualizada.' : 'Transação adicionada.');
+    } catch (error) {
+      if (isNetworkError(error)) {
+        setOffline(true);
+        queueOffline(editing
+          ? { kind: 'update', transactionId: editing._id, input, base: editing }
+          : { kind: 'create', tempId: optimisticId, input });
+        return;
+      }
+      console.error('Erro ao salvar transação:', error);
+      setTransactions(previousTransactions);
+      setSummary(previousSummary);
+      showToast('Erro ao salvar transação.', { variant: 'error' });
+    }
+  };
+
+  // Compra parcelada: uma transação por parcela, criadas de uma vez
+  const saveInstallmentPurchase = async (input: TransactionInput, installments: number) => {
+    const groupId = `installment-${Date.now()}`;
+    const parts = splitInstallments(input, installments, groupId);
+    // Os mesmos ids servem de clientId e, sem conexão, de id na fila
+    const tempIds = parts.map((_, index) => `temp-${groupId}-${index + 1}`);
+    try {
+      const created = await createTransactions(userId, parts.map((part, index) => ({ ...part, clientId: tempIds[index] })));
+      setTransactions(current => mergeCreated(current, created));
+      reload(true);
+      showToast(`Compra lançada em ${installments} parcelas.`);
+    } catch (error) {
+      if (isNetworkError(error)) {
+        setOffline(true);
+        parts.forEach((part, index) => queueOffline({ kind: 'create', tempId: tempIds[index], input: part }));
+        const next = [...parts.map((part, index) => ({ ...part, _id: tempIds[index], userId })), ...transactions];
+        setTransactions(next);
+        setSummary(computeSummary(next));
+        return;
+      }
+      console.error('Erro ao salvar compra parcelada:', error);
+      showToast('Erro ao salvar compra parcelada.', { variant: 'error' });
+    }
+  };
+
+  const showTransactions = (next: Transaction[]) => {
+    transactionsRef.current = next;
+    setTransactions(next);
+    setSummary(computeSummary(next));
+  };
+
+  // Envia as exclusões cujo prazo de desfazer acabou; sem conexão, vão para a fila
+  const commitDeletes = async (removed: Transaction[]) => {
+    const failed: Transaction[] = [];
+    await Promise.all(removed.map(async transaction => {
+      const id = transaction._id;
+      if (isQueuedCreate(userId, id)) {
+        queueOffline({ kind: 'delete', transactionId: id, base: transaction });
+        return;
+      }
+      try {
+        await deleteTransaction(userId, id);
+      } catch (error) {
+        if (isNetworkError(error)) {
+          setOffline(true);
+          queueOffline({ kind: 'delete', transactionId: id, base: transaction });
+          return;
+        }
+        console.error('Erro ao excluir transação:', error);
+        failed.push(transaction);
+      }
+    }));
+    if (failed.length > 0) {
+      showTransactions(mergeCreated(transactionsRef.current, failed));
+      showToast(failed.length === 1 ? 'Erro ao excluir transação.' : `Erro ao excluir ${failed.length} transações.`, { variant: 'error' });
+    }
+  };
+  const commitDeletesRef = useRef(commitDeletes);
+  commitDeletesRef.current = commitDeletes;
+
+  const removeTransactions = (ids: string[]) => {
+    const removed = transactionsRef.current.filter(t => ids.includes(t._id));
+    if (removed.length === 0) return;
+    showTransactions(transactionsRef.current.filter(t => !ids.includes(t._id)));
+
+    const timer = window.setTimeout(() => {
+      pendingDeletes.current.delete(timer);
+      commitDeletesRef.current(removed);
+    }, UNDO_DELETE_MS);
+    pendingDeletes.current.set(timer, removed);
+
+    showToast(removed.length === 1 ? 'Transação apagada.' : `${removed.length} transações apagadas.`, {
+      variant: 'info',
+      durationMs: UNDO_DELETE_MS,
+      action: {
+        label: 'Desfazer',
+        onClick: () => {
+          if (!pendingDeletes.current.delete(timer)) return;
+          window.clearTimeout(timer);
+          showTransactions(mergeCreated(transactionsRef.current, removed));
+        }
+      }
+    });
+  };
+
+  // Envia na hora o que estava no prazo de desfazer
+  const sendPendingDeletes = useCallback(() => {
+    const pending = pendingDeletes.current;
+    const sending = Array.from(pending, ([timer, removed]) => {
+      window.clearTimeout(timer);
+      return commitDeletesRef.current(removed);
+    });
+    pending.clear();
+    return Promise.all(sending);
+  }, []);
+
+  // Fechando a página ou trocando de usuário, sem esperar a resposta
+  useEffect(() => {
+    const flush = () => {
+      sendPendingDeletes();
+    };
+    window.addEventListener('pagehide', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, [userId, sendPendingDeletes]);
+
+  // Ao sair da conta é preciso esperar: depois do logout a sessão já não vale, e as
+  // requisições iriam sem o token. Sem recarregar no fim, pelo mesmo motivo
+  const flushPendingChanges = async (): Promise<number> => {
+    // Sem conexão, as exclusões entram na fila e seguem com ela
+    await sendPendingDeletes();
+    try {
+      await replayQueuedMutations(userId);
+    } catch (error) {
+      console.error('Erro ao sincronizar alterações offline:', error);
+    }
+    const remaining = getQueuedMutations(userId).length;
+    setPendingCount(remaining);
+    return remaining;
+  };
+
+  const importTransactions = async (inputs: TransactionInput[]): Promise<boolean> => {
+    try {
+      const created = await createTransactions(userId, inputs);
+      setTransactions(current => mergeCreated(current, created));
+      reload(true);
+      showToast(`${created.length} transaç${created.length === 1 ? 'ão importada' : 'ões importadas'} com sucesso!`);
+      return true;
+    } catch (error) {
+      console.error('Erro ao importar transações:', error);
+      showToast('Erro ao importar transações.', { variant: 'error' });
+      return false;
+    }
+  };
+
+  const updateAttachments = (transactionId: string, update: (attachments: Attachment[]) => Attachment[]) => {
+    setTransactions(current => current.map(t => (t._id === transactionId ? { ...t, attachments: update(t.attachments || []) } : t)));
+  };
+
+  const addAttachment = async (
+    transactionId: string,
+    file: File,
+    onProgress?: (percent: number) => void
+  ): Promise<boolean> => {
+    try {
+      const attachment = await uploadAttachment(userId, transactionId, file, onProgress);
+      updateAttachments(transactionId, attachments => [...attachments, attachment]);
+      showToast('Comprovante anexado.');
+      return true;
+    } catch (error) {
+      if (isNetworkError(error)) {
+        setOffline(true);
+        showToast('Sem conexão: anexe o comprovante quando a conexão voltar.', { variant: 'error' });
+        return false;
+      }
+      console.error('Erro ao anexar comprovante:', error);
+      showToast(`Erro ao anexar "${file.name}".`, { variant: 'error' });
+      return false;
+    }
+  };
+
+  const removeAttachment = async (transactionId: string, attachmentId: string) => {
+    const previous = transactions.find(t => t._id === transactionId)?.attachments || [];
+    updateAttachments(transactionId, attachments => attachments.filter(a => a._id !== attachmentId));
+    try {
+      await deleteAttachment(userId, transactionId, attachmentId);
+    } catch (error) {
+      console.error('Erro ao remover comprovante:', error);
+      updateAttachments(transactionId, () => previous);
+      showToast('Erro ao remover comprovante.', { variant: 'error' });
+    }
+  };
+
+  // Entidades fora da fila offline: sem conexão a alteração é desfeita
+  // e avisamos que ela precisa de internet
+  const showWriteError = (error: unknown, message: string) => {
+    if (isNetworkError(error)) {
+      setOffline(true);
+      showToast('Sem conexão: essa alteração só pode ser feita online.', { variant: 'error' });
+      return;
+    }
+    showToast(message, { variant: 'error' });
+  };
+
+  const saveBudget = async (budget: Budget) => {
+    const previousBudgets = budgets;
+    setBudgets([...budgets.filter(b => b.category !== budget.category), budget]);
+    try {
+      await saveBudgetRequest(userId, budget);
+    } catch (error) {
+      console.error('Erro ao salvar orçamento:', error);
+      setBudgets(previousBudgets);
+      showWriteError(error, 'Erro ao salvar orçamento.');
+    }
+  };
+
+  const deleteBudget = async (category: string) => {
+    const previousBudgets = budgets;
+    setBudgets(budgets.filter(b => b.category !== category));
+    try {
+      await deleteBudgetRequest(userId, category);
+    } catch (error) {
+      console.error('Erro ao remover orçamento:', error);
+      setBudgets(previousBudgets);
+      showWriteError(error, 'Erro ao remover orçamento.');
+    }
+  };
+
+  const saveRecurringRule = async (input: RecurringRuleInput, editing: RecurringRule | null) => {
+    try {
+      if (editing) {
+        const saved = await updateRecurringRule(userId, { ...editing, ...input });
+        setRecurringRules(current => current.map(r => (r._id === saved._id ? saved : r)));
+        return;
+      }
+      // Uma regra nova que começa no passado já lança o que venceu
+      const created = await createRecurringRule(userId, input);
+      const [materialized] = await materializeDueRules([created]);
+      setRecurringRules(current => [...current, materialized]);
+    } catch (error) {
+      console.error('Erro ao salvar lançamento recorrente:', error);
+      showWriteError(error, 'Erro ao salvar lançamento recorrente.');
+    }
+  };
+
+  const deleteRecurringRule = async (ruleId: string) => {
+    const previousRules = recurringRules;
+    setRecurringRules(recurringRules.filter(r => r._id !== ruleId));
+    try {
+      await deleteRecurringRuleRequest(userId, ruleId);
+    } catch (error) {
+      console.error('Erro ao remover lançamento recorrente:', error);
+      setRecurringRules(previousRules);
+      showWriteError(error, 'Erro ao remover lançamento recorrente.');
+    }
+  };
+
+  const createAccount = async (input: AccountInput) => {
+    try {
+      const created = await createAccountRequest(userId, input);
+      setAccounts(current => [...current, created]);
+    } catch (error) {
+      console.error('Erro ao criar conta:', error);
+      showWriteError(error, 'Erro ao criar conta.');
+    }
+  };
+
+  // As transações da conta apagada continuam, e passam a contar em "sem conta"
+  const deleteAccount = async (accountId: string) => {
+    const previousAccounts = accounts;
+    setAccounts(accounts.filter(a => a._id !== accountId));
+    try {
+      await deleteAccountRequest(userId, accountId);
+    } catch (error) {
+      console.error('Erro ao remover conta:', error);
+      setAccounts(previousAccounts);
+      showWriteError(error, 'Erro ao remover conta.');
+    }
+  };
+
+  const saveCategorySettings = async (settings: CategorySettings) => {
+    const previousSettings = categorySettings;
+    setCategorySettings([...categorySettings.filter(s => s.name !== settings.name), settings]);
+    try {
+      await saveCategorySettingsRequest(userId, settings);
+    } catch (error) {
+      console.error('Erro ao salvar categoria:', error);
+      setCategorySettings(previousSettings);
+      showWriteError(error, 'Erro ao salvar categoria.');
+    }
+  };
+
+  // Reescreve as transações, o orçamento e as recorrências da categoria antiga
+  const renameCategory = async (from: string, to: string): Promise<boolean> => {
+    const merging = categories.includes(to) || categorySettings.some(s => s.name === to);
+    try {
+      await renameCategoryRequest(userId, from, to, { transactions, budgets, recurringRules });
+      setCategorySettings(current => renameCategorySettings(current, from, to));
+      const [nextBudgets, nextRules] = await Promise.all([fetchBudgets(userId), fetchRecurringRules(userId)]);
+      setBudgets(nextBudgets);
+      setRecurringRules(nextRules);
+      await reload(true);
+      showToast(merging ? `"${from}" foi juntada a "${to}".` : `Categoria renomeada para "${to}".`);
+      return true;
+    } catch (error) {
+      console.error('Erro ao renomear categoria:', error);
+      showWriteError(error, 'Erro ao renomear categoria.');
+      // Parte das transações pode ter mudado antes do erro
+      reload(true);
+      return false;
+    }
+  };
+
+  const saveGoal = async (input: GoalInput, editing: Goal | null) => {
+    try {
+      if (editing) {
+        const saved = await updateGoal(userId, { ...editing, ...input });
+        setGoals(current => current.map(g => (g._id === saved._id ? saved : g)));
+      } else {
+        const created = await createGoal(userId, input);
+        setGoals(current => [...current, created]);
+      }
+      showToast(editing ? 'Meta atualizada.' : `Meta "${input.name}" criada.`);
+    } catch (error) {
+      console.error('Erro ao salvar meta:', error);
+      showWriteError(error, 'Erro ao salvar meta.');
+    }
+  };
+
+  // As contribuições continuam como lançamentos comuns
+  const deleteGoal = async (goalId: string) => {
+    const previousGoals = goals;
+    setGoals(goals.filter(g => g._id !== goalId));
+    setTransactions(current => current.map(t => (t.goalId === goalId ? { ...t, goalId: null } : t)));
+    try {
+      await deleteGoalRequest(userId, goalId);
+    } catch (error) {
+      console.error('Erro ao remover meta:', error);
+      setGoals(previousGoals);
+      showWriteError(error, 'Erro ao remover meta.');
+      reload(true);
+    }
+  };
+
+  const setTransactionGoal = (transaction: Transaction, goalId: string | null) => {
+    const { _id, userId: owner, attachments, ...input } = transaction;
+    saveTransaction({ ...input, goalId }, transaction);
+  };
+
+  const createHousehold = async (name: string, memberName: string): Promise<boolean> => {
+    try {
+      setHousehold(await createHouseholdRequest(userId, name, memberName));
+      showToast(`Casa "${name}" criada. Adicione quem divide as contas com você.`);
+      return true;
+    } catch (error) {
+      console.error('Erro ao criar casa:', error);
+      showWriteError(error, 'Erro ao criar casa.');
+      return false;
+    }
+  };
+
+  const addHouseholdMember = async (input: HouseholdMemberInput): Promise<boolean> => {
+    try {
+      setHousehold(await addHouseholdMemberRequest(userId, input));
+      showToast(`${input.name} agora faz parte da casa.`);
+      return true;
+    } catch (error) {
+      console.error('Erro ao adicionar membro:', error);
+      const conflict = axios.isAxiosError(error) && error.response?.status === 409;
+      if (conflict) {
+        showToast('Este número já faz parte de uma casa.', { variant: 'error' });
+      } else {
+        showWriteError(error, 'Erro ao adicionar membro.');
+      }
+      return false;
+    }
+  };
+
+  // Sair da casa (remover a si mesmo) troca o livro: tudo é carregado de novo
+  const removeHouseholdMember = async (memberId: string) => {
+    const name = getMemberName(household, memberId);
+    try {
+      setHousehold(await removeHouseholdMemberRequest(userId, memberId));
+      if (memberId !== userId) {
+        showToast(`${name} saiu da casa.`);
+        return;
+      }
+      const [nextBudgets, nextAccounts, nextSettings, nextGoals, nextRules] = await Promise.all([
+        fetchBudgets(userId),
+        fetchAccounts(userId),
+        fetchCategorySettings(userId),
+        fetchGoals(userId),
+        fetchRecurringRules(userId)
+      ]);
+      setBudgets(nextBudgets);
+      setAccounts(nextAccounts);
+      setCategorySettings(nextSettings);
+      setGoals(nextGoals);
+      setRecurringRules(nextRules);
+      await reload(true);
+      showToast('Você saiu da casa.');
+    } catch (error) {
+      console.error('Erro ao remover membro:', error);
+      showWriteError(error, 'Erro ao remover membro.');
+    }
+  };
+
+  const settleUp = ({ from, to, amount }: Settlement) =>
+    saveTransaction({
+      type: 'transfer',
+      amount,
+      description: `${SETTLEMENT_DESCRIPTION}: ${getMemberName(household, from)} → ${getMemberName(household, to)}`,
+      category: TRANSFER_CATEGORY,
+      createdAt: new Date().toISOString(),
+      accountId: null,
+      toAccountId: null,
+      paidBy: from,
+      settlementTo: to
+    }, null);
+
+  const value: FinanceContextValue = {
+    userId,
+    transactions,
+    summary,
+    budgets,
+    recurringRules,
+    accounts,
+    categorySettings,
+    goals,
+    household,
+    loading,
+    offline,
+    lastSyncedAt,
+    pendingCount,
+    liveStatus,
+    highlightedIds,
+    currentView,
+    transactionId,
+    searchTerm,
+    selectedCategory,
+    selectedAccount,
+    selectedTag,
+    selectedMember: memberFilter,
+    period,
+    periodTransactions,
+    periodSummary,
+    filteredTransactions,
+    budgetStatuses,
+    goalsPlan,
+    categories,
+    expenseCategories,
+    tagCounts,
+    keywordRules,
+    setSearchTerm: (term: string) => updateParam(SEARCH_PARAM, term),
+    setSelectedCategory: (category: string) => updateParam(CATEGORY_PARAM, category),
+    setSelectedAccount: (accountId: string) => updateParam(ACCOUNT_PARAM, accountId),
+    setSelectedTag: (tag: string) => updateParam(TAG_PARAM, tag),
+    setSelectedMember: (memberId: string) => updateParam(MEMBER_PARAM, memberId),
+    setPeriod,
+    goTo,
+    goBack,
+    openTransaction,
+    reload,
+    flushPendingChanges,
+    saveTransaction,
+    saveInstallmentPurchase,
+    removeTransactions,
+    importTransactions,
+    addAttachment,
+    removeAttachment,
+    saveBudget,
+    deleteBudget,
+    saveRecurringRule,
+    deleteRecurringRule,
+    createAccount,
+    deleteAccount,
+    saveCategorySettings,
+    renameCategory,
+    saveGoal,
+    deleteGoal,
+    setTransactionGoal,
+    createHousehold,
+    addHouseholdMember,
+    removeHouseholdMember,
+    settleUp
+  };
+
+  return <FinanceContext.Provider value={value}>{children}</FinanceContext.Provider>;
+};
+
+export const useFinance = (): FinanceContextValue => {
+  const context = useContext(FinanceContext);
+  if (!context) {
+    throw new Error('useFinance deve ser usado dentro de um FinanceProvider');
+  }
+  return context;
+};
@@ -0,0 +1,80 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import Toaster from '../components/Toaster';
+
+// Avisos rápidos no canto da tela, no lugar dos alert() do navegador
+
+export type ToastVariant = 'success' | 'error' | 'info';
+
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
+export interface ToastOptions {
+  variant?: ToastVariant;
+  action?: ToastAction;
+  durationMs?: number;
+}
+
+export interface Toast {
+  id: number;
+  message: string;
+  variant: ToastVariant;
+  action?: ToastAction;
+}
+
+export interface ToastContextValue {
+  showToast: (message: string, options?: ToastOptions) => number;
+  dismissToast: (id: number) => void;
+}
+
+// Erros ficam mais tempo na tela para dar tempo de ler
+const DEFAULT_DURATION_MS: Record<ToastVariant, number> = {
+  success: 4000,
+  info: 4000,
+  error: 7000
+};
+
+const ToastContext = createContext<ToastContextValue | null>(null);
+
+export const ToastProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextId = useRef(1);
+  const timers = useRef(new Map<number, number>());
+
+  const dismissToast = useCallback((id: number) => {
+    window.clearTimeout(timers.current.get(id));
+    timers.current.delete(id);
+    setToasts(current => current.filter(t => t.id !== id));
+  }, []);
+
+  const showToast = useCallback((message: string, options: ToastOptions = {}) => {
+    const id = nextId.current++;
+    const variant = options.variant || 'success';
+    setToasts(current => [...current, { id, message, variant, action: options.action }]);
+    timers.current.set(id, window.setTimeout(() => dismissToast(id), options.durationMs || DEFAULT_DURATION_MS[variant]));
+    return id;
+  }, [dismissToast]);
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => pending.forEach(timer => window.clearTimeout(timer));
+  }, []);
+
+  const value = useMemo(() => ({ showToast, dismissToast }), [showToast, dismissToast]);
+
+  return (
+    <ToastContext.Provider value={value}>
+      {children}
+      <Toaster toasts={toasts} onDismiss={dismissToast} />
+    </ToastContext.Provider>
+  );
+};
+
+export const useToast = (): ToastContextValue => {
+  const context = useContext(ToastContext);
+  if (!context) {
+    throw new Error('useToast deve ser usado dentro de um ToastProvider');
+  }
+  return context;
+};
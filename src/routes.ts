@@ -0,0 +1,52 @@
+import { matchPath } from 'react-router-dom';
+
+// Rotas do app; cada visão tem sua URL para o "voltar" do navegador e links compartilháveis
+
+// Já adota o comportamento do React Router v7 (e silencia os avisos de migração)
+export const ROUTER_FUTURE = { v7_startTransition: true, v7_relativeSplatPath: true };
+
+export type ViewMode = 'dashboard' | 'expenses' | 'income' | 'transactions' | 'budgets' | 'recurring' | 'accounts' | 'cards' | 'categories' | 'goals' | 'household' | 'import';
+
+export const VIEW_PATHS: Record<ViewMode, string> = {
+  dashboard: '/',
+  expenses: '/despesas',
+  income: '/receitas',
+  transactions: '/transacoes',
+  budgets: '/orcamentos',
+  recurring: '/recorrentes',
+  accounts: '/contas',
+  cards: '/cartoes',
+  categories: '/categorias',
+  goals: '/metas',
+  household: '/casa',
+  import: '/importar'
+};
+
+// Filtros da lista na query string (o período usa period/from/to, ver utils/period)
+export const SEARCH_PARAM = 'q';
+export const CATEGORY_PARAM = 'categoria';
+export const ACCOUNT_PARAM = 'conta';
+export const TAG_PARAM = 'tag';
+// Membro da casa (userId) cujos pagamentos o dashboard mostra
+export const MEMBER_PARAM = 'membro';
+
+export const TRANSACTION_DETAIL_PATH = '/transacoes/:transactionId';
+
+export const getTransactionPath = (transactionId: string): string =>
+  `${VIEW_PATHS.transactions}/${encodeURIComponent(transactionId)}`;
+
+export interface RouteMatch {
+  view: ViewMode;
+  transactionId: string | null;
+}
+
+// null quando o caminho não corresponde a nenhuma visão
+export const matchRoute = (pathname: string): RouteMatch | null => {
+  const detail = matchPath(TRANSACTION_DETAIL_PATH, pathname);
+  if (detail && detail.params.transactionId) {
+    return { view: 'transactions', transactionId: detail.params.transactionId };
+  }
+
+  const view = (Object.keys(VIEW_PATHS) as ViewMode[]).find(v => matchPath(VIEW_PATHS[v], pathname));
+  return view ? { view, transactionId: null } : null;
+};
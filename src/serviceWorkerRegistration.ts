@@ -0,0 +1,12 @@
+// Registra o service worker (public/service-worker.js) que permite abrir o app sem conexão.
+// Só em produção: no desenvolvimento o cache atrapalharia o hot reload.
+
+export const registerServiceWorker = () => {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`${process.env.PUBLIC_URL}/service-worker.js`)
+      .catch(error => console.error('Erro ao registrar o service worker:', error));
+  });
+};
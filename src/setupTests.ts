@@ -0,0 +1,2 @@
+// Matchers do jest-dom (toBeInTheDocument, toHaveTextContent...) para todos os testes
+import '@testing-library/jest-dom';
@@ -0,0 +1,17 @@
+import { Transaction } from '../types/finance';
+
+// Transação de exemplo para os testes, com o que cada teste precisar por cima.
+// Ids em sequência (t1, t2...): cada arquivo de teste tem o seu contador, então
+// os ids saem sempre iguais de uma execução para outra
+let nextId = 1;
+
+export const makeTransaction = (overrides: Partial<Transaction> = {}): Transaction => ({
+  _id: `t${nextId++}`,
+  type: 'expense',
+  amount: 100,
+  description: 'Lançamento',
+  category: 'Outros',
+  createdAt: new Date(2024, 8, 10, 12).toISOString(),
+  userId: 'u1',
+  ...overrides
+});
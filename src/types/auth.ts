@@ -0,0 +1,9 @@
+// Sessão obtida ao trocar o link mágico enviado pelo WhatsApp ("dashboard")
+export interface Session {
+  token: string;
+  userId: string;
+  expiresAt: string;
+}
+
+// Por que a sessão terminou: expirou/foi recusada pelo servidor, ou o usuário saiu
+export type SessionEndReason = 'expired' | 'logout';
@@ -0,0 +1,210 @@
+// Tipos compartilhados entre a API e os componentes
+
+// Transferências só movem dinheiro entre contas: não contam como receita nem despesa
+export type TransactionType = 'income' | 'expense' | 'transfer';
+
+// Tipos que entram no resumo de receitas e despesas
+export type CashFlowType = Exclude<TransactionType, 'transfer'>;
+
+// Parcela de uma compra parcelada ("em 10x"); cada parcela é uma transação no mês da sua fatura
+export interface Installment {
+  groupId: string; // igual em todas as parcelas da mesma compra
+  number: number; // 1 a total
+  total: number;
+}
+
+// Origem do anexo: enviado pelo app ou imagem encaminhada pelo WhatsApp
+export type AttachmentSource = 'upload' | 'whatsapp';
+
+// Comprovante (foto ou PDF) anexado a uma transação
+export interface Attachment {
+  _id: string;
+  fileName: string;
+  contentType: string;
+  size: number; // em bytes
+  url: string;
+  // Miniatura gerada pelo servidor; sem ela as imagens usam a própria url
+  thumbnailUrl?: string | null;
+  uploadedAt: string;
+  source: AttachmentSource;
+}
+
+// Parte de uma transação dividida entre categorias ("mercado": comida e limpeza)
+export interface TransactionSplit {
+  category: string;
+  amount: number;
+}
+
+export interface Transaction {
+  _id: string;
+  type: TransactionType;
+  amount: number;
+  description: string;
+  category: string;
+  createdAt: string;
+  userId: string;
+  // Conta de origem; null/ausente = sem conta definida (ex.: lançamentos antigos ou do WhatsApp)
+  accountId?: string | null;
+  // Conta de destino, só em transferências
+  toAccountId?: string | null;
+  installment?: Installment | null;
+  // Meta de economia para a qual este lançamento é uma contribuição
+  goalId?: string | null;
+  attachments?: Attachment[];
+  // Casa compartilhada: quem pagou (userId de um membro); ausente = quem lançou
+  paidBy?: string | null;
+  // Despesa da casa, dividida igualmente entre os membros no acerto de contas
+  shared?: boolean;
+  // Transferência de acerto: paidBy pagou a este membro o que devia
+  settlementTo?: string | null;
+  // Etiquetas livres, já normalizadas (ex.: "viagem-floripa")
+  tags?: string[];
+  // Divisão do valor entre categorias; a soma é sempre o total e "category" fica com a maior parte
+  splits?: TransactionSplit[] | null;
+  // Lançamento gerado por uma regra recorrente: "<ruleId>:<yyyy-mm-dd>". O backend não cria
+  // duas transações com a mesma chave, então lançar a mesma ocorrência de novo não duplica
+  recurrenceKey?: string | null;
+  // Id dado pelo app na criação (o mesmo da versão otimista). O backend não cria duas transações
+  // com o mesmo clientId, então reenviar uma criação que já tinha chegado (ex.: timeout) não duplica
+  clientId?: string | null;
+}
+
+export interface Summary {
+  totalIncome: number;
+  totalExpenses: number;
+  balance: number;
+  categorySummary: Record<string, number>;
+  // Mesmos totais separados por tipo, para não misturar "Trabalho" com "Alimentação"
+  expenseCategorySummary: Record<string, number>;
+  incomeCategorySummary: Record<string, number>;
+  transactionCount: number;
+}
+
+// Resumo como vem da API: backends antigos não mandam os totais por tipo
+export type ServerSummary = Omit<Summary, 'expenseCategorySummary' | 'incomeCategorySummary'> &
+  Partial<Pick<Summary, 'expenseCategorySummary' | 'incomeCategorySummary'>>;
+
+// Dados enviados ao criar ou editar uma transação
+export type TransactionInput = Pick<
+  Transaction,
+  'type' | 'amount' | 'description' | 'category' | 'createdAt' | 'accountId' | 'toAccountId' | 'installment' | 'goalId' | 'paidBy' | 'shared' | 'settlementTo' | 'tags' | 'splits' | 'recurrenceKey' | 'clientId'
+>;
+
+// Períodos dos relatórios ("relatório de hoje / da semana / do mês / geral")
+export type ReportPeriod = 'today' | 'week' | 'month' | 'all';
+
+export type PeriodPreset = ReportPeriod | 'custom';
+
+// Filtro de período global; from/to (yyyy-mm-dd) só valem para "custom"
+export interface PeriodFilter {
+  preset: PeriodPreset;
+  from?: string;
+  to?: string;
+}
+
+// Limite mensal de gastos de uma categoria de despesa
+export interface Budget {
+  category: string;
+  limit: number;
+}
+
+// Frequência de uma regra recorrente; todas caem num dia fixo do mês
+export type RecurrenceFrequency = 'monthly' | 'quarterly' | 'yearly';
+
+// Lançamento que se repete (salário, aluguel, conta de luz...)
+export interface RecurringRule {
+  _id: string;
+  type: CashFlowType;
+  amount: number;
+  description: string;
+  category: string;
+  frequency: RecurrenceFrequency;
+  dayOfMonth: number; // 1 a 31; em meses mais curtos vale o último dia
+  startDate: string; // yyyy-mm-dd
+  endDate: string | null; // yyyy-mm-dd, inclusive; null = sem fim
+  lastMaterialized: string | null; // yyyy-mm-dd da última ocorrência já lançada como transação
+}
+
+export type RecurringRuleInput = Omit<RecurringRule, '_id' | 'lastMaterialized'>;
+
+// Meta de economia ("reserva de emergência", "viagem"); as contribuições são
+// as transações marcadas com o goalId dela
+export interface Goal {
+  _id: string;
+  name: string;
+  targetAmount: number;
+  targetDate: string; // yyyy-mm-dd
+  initialAmount: number; // quanto já estava guardado ao criar a meta
+}
+
+export type GoalInput = Omit<Goal, '_id'>;
+
+// Pessoa da casa; cada número de WhatsApp é um usuário
+export interface HouseholdMember {
+  userId: string;
+  name: string;
+  phone: string | null;
+}
+
+// Casa: vários usuários compartilham o mesmo livro de lançamentos
+export interface Household {
+  _id: string;
+  name: string;
+  members: HouseholdMember[];
+}
+
+export type HouseholdMemberInput = Pick<HouseholdMember, 'name' | 'phone'>;
+
+export type AccountKind = 'checking' | 'savings' | 'cash' | 'credit_card';
+
+// Conta ou carteira onde o dinheiro está (conta corrente, dinheiro, cartão...)
+export interface Account {
+  _id: string;
+  name: string;
+  kind: AccountKind;
+  initialBalance: number; // saldo antes da primeira transação registrada
+  // Só para cartões de crédito: dia em que a fatura fecha e dia do vencimento
+  closingDay?: number | null;
+  dueDay?: number | null;
+}
+
+export type AccountInput = Omit<Account, '_id'>;
+
+// Evento do canal em tempo real (ex.: transação criada pelo WhatsApp com o dashboard aberto)
+export type TransactionEvent =
+  | { type: 'created'; transaction: Transaction }
+  | { type: 'deleted'; transactionId: string };
+
+// Ícones que o usuário pode escolher para uma categoria (nomes do lucide-react)
+export type CategoryIcon =
+  | 'tag'
+  | 'shopping-cart'
+  | 'utensils'
+  | 'coffee'
+  | 'home'
+  | 'zap'
+  | 'car'
+  | 'bus'
+  | 'plane'
+  | 'heart-pulse'
+  | 'dumbbell'
+  | 'gamepad'
+  | 'gift'
+  | 'shirt'
+  | 'graduation-cap'
+  | 'baby'
+  | 'paw-print'
+  | 'smartphone'
+  | 'receipt'
+  | 'briefcase'
+  | 'store'
+  | 'piggy-bank';
+
+// Preferências de uma categoria (a categoria em si é o texto gravado nas transações)
+export interface CategorySettings {
+  name: string;
+  color: string; // hex, ex.: #60A5FA
+  icon: CategoryIcon;
+  parent: string | null; // grupo, ex.: "Mercado" dentro de "Alimentação"
+  keywords: string[]; // palavras que levam lançamentos novos para esta categoria
+}
@@ -0,0 +1,50 @@
+import { Account, Transaction } from '../types/finance';
+import { getAccountBalances, getTransferLabel } from './accounts';
+import { makeTransaction } from '../test/fixtures';
+
+const accounts: Account[] = [
+  { _id: 'corrente', name: 'Conta corrente', kind: 'checking', initialBalance: 1000 },
+  { _id: 'carteira', name: 'Carteira', kind: 'cash', initialBalance: 50 }
+];
+
+const tx = (overrides: Partial<Transaction>) =>
+  makeTransaction({ amount: 0, description: 'x', createdAt: '2024-09-10T12:00:00Z', ...overrides });
+
+describe('getAccountBalances', () => {
+  it('soma receitas, despesas e transferências em cada conta', () => {
+    const result = getAccountBalances(accounts, [
+      tx({ type: 'income', amount: 500, accountId: 'corrente' }),
+      tx({ type: 'expense', amount: 30, accountId: 'carteira' }),
+      tx({ type: 'transfer', amount: 100, accountId: 'corrente', toAccountId: 'carteira' })
+    ]);
+
+    expect(result.accounts.map(a => a.balance)).toEqual([1400, 120]);
+    expect(result.unassigned).toBe(0);
+    expect(result.total).toBe(1520);
+  });
+
+  it('coloca transações sem conta (ou com conta apagada) em "sem conta"', () => {
+    const result = getAccountBalances(accounts, [
+      tx({ type: 'expense', amount: 20 }),
+      tx({ type: 'income', amount: 5, accountId: 'apagada' })
+    ]);
+
+    expect(result.unassigned).toBe(-15);
+    expect(result.total).toBe(1035);
+  });
+
+  it('transferência entre contas não muda o total', () => {
+    const result = getAccountBalances(accounts, [
+      tx({ type: 'transfer', amount: 300, accountId: 'corrente', toAccountId: 'carteira' })
+    ]);
+
+    expect(result.total).toBe(1050);
+  });
+});
+
+describe('getTransferLabel', () => {
+  it('mostra origem e destino', () => {
+    expect(getTransferLabel(accounts, tx({ type: 'transfer', accountId: 'corrente', toAccountId: 'carteira' })))
+      .toBe('Conta corrente → Carteira');
+  });
+});
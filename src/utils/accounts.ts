@@ -0,0 +1,69 @@
+import { Account, AccountKind, Transaction, TransactionType } from '../types/finance';
+
+// Contas e carteiras: saldo de cada uma a partir do saldo inicial e das transações.
+// Transferências só movem dinheiro entre contas e não entram como receita ou despesa.
+
+export const TRANSFER_CATEGORY = 'Transferência';
+
+export const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+  income: 'Receita',
+  expense: 'Despesa',
+  transfer: 'Transferência'
+};
+
+export const ACCOUNT_KIND_LABELS: Record<AccountKind, string> = {
+  checking: 'Conta corrente',
+  savings: 'Poupança',
+  cash: 'Dinheiro',
+  credit_card: 'Cartão de crédito'
+};
+
+export interface AccountBalance {
+  account: Account;
+  balance: number;
+}
+
+export interface AccountBalances {
+  accounts: AccountBalance[];
+  // Movimentações sem conta definida (lançamentos antigos ou feitos pelo WhatsApp)
+  unassigned: number;
+  total: number;
+}
+
+export const getAccountBalances = (accounts: Account[], transactions: Transaction[]): AccountBalances => {
+  const balances = new Map<string, number>(accounts.map(a => [a._id, a.initialBalance]));
+  let unassigned = 0;
+
+  const add = (accountId: string | null | undefined, value: number) => {
+    if (accountId && balances.has(accountId)) {
+      balances.set(accountId, (balances.get(accountId) || 0) + value);
+    } else {
+      unassigned += value;
+    }
+  };
+
+  transactions.forEach(t => {
+    if (t.type === 'income') {
+      add(t.accountId, t.amount);
+    } else if (t.type === 'expense') {
+      add(t.accountId, -t.amount);
+    } else {
+      add(t.accountId, -t.amount);
+      add(t.toAccountId, t.amount);
+    }
+  });
+
+  const list = accounts.map(account => ({ account, balance: balances.get(account._id) || 0 }));
+  return {
+    accounts: list,
+    unassigned,
+    total: list.reduce((sum, item) => sum + item.balance, unassigned)
+  };
+};
+
+export const getAccountName = (accounts: Account[], accountId: string | null | undefined): string =>
+  accounts.find(a => a._id === accountId)?.name || 'Sem conta';
+
+// "Conta corrente → Carteira"
+export const getTransferLabel = (accounts: Account[], transaction: Transaction): string =>
+  `${getAccountName(accounts, transaction.accountId)} → ${getAccountName(accounts, transaction.toAccountId)}`;
@@ -0,0 +1,36 @@
+import { MAX_ATTACHMENT_BYTES, formatFileSize, getAttachmentType, isPreviewableImage, validateAttachmentFile } from './attachments';
+
+describe('validateAttachmentFile', () => {
+  test('aceita fotos e PDFs dentro do limite', () => {
+    expect(validateAttachmentFile({ name: 'nota.jpg', type: 'image/jpeg', size: 300_000 })).toBeNull();
+    expect(validateAttachmentFile({ name: 'boleto.pdf', type: 'application/pdf', size: MAX_ATTACHMENT_BYTES })).toBeNull();
+  });
+
+  test('usa a extensão quando o navegador não informa o tipo', () => {
+    expect(getAttachmentType({ name: 'IMG_0001.HEIC', type: '' })).toBe('image/heic');
+    expect(validateAttachmentFile({ name: 'IMG_0001.HEIC', type: '', size: 2_000_000 })).toBeNull();
+  });
+
+  test('recusa outros tipos, arquivos vazios e acima do limite', () => {
+    expect(validateAttachmentFile({ name: 'planilha.xlsx', type: 'application/vnd.ms-excel', size: 100 })).toMatch(/não é uma imagem/);
+    expect(validateAttachmentFile({ name: 'nota.png', type: 'image/png', size: 0 })).toMatch(/vazio/);
+    expect(validateAttachmentFile({ name: 'scan.pdf', type: 'application/pdf', size: MAX_ATTACHMENT_BYTES + 1 }))
+      .toBe('"scan.pdf" tem 10 MB; o limite é 10 MB.');
+  });
+});
+
+describe('formatFileSize', () => {
+  test('escolhe a unidade e usa vírgula decimal', () => {
+    expect(formatFileSize(512)).toBe('512 B');
+    expect(formatFileSize(1536)).toBe('1,5 KB');
+    expect(formatFileSize(2.25 * 1024 * 1024)).toBe('2,3 MB');
+  });
+});
+
+describe('isPreviewableImage', () => {
+  test('gera miniatura só de imagens que o navegador abre', () => {
+    expect(isPreviewableImage({ contentType: 'image/png' })).toBe(true);
+    expect(isPreviewableImage({ contentType: 'image/heic' })).toBe(false);
+    expect(isPreviewableImage({ contentType: 'application/pdf' })).toBe(false);
+  });
+});
@@ -0,0 +1,56 @@
+import { Attachment } from '../types/finance';
+
+// Regras dos comprovantes anexados às transações: fotos e PDFs de até 10 MB
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+export const ACCEPTED_ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf'];
+
+// Valor do atributo accept do <input type="file">
+export const ATTACHMENT_ACCEPT = [...ACCEPTED_ATTACHMENT_TYPES, '.heic'].join(',');
+
+// Alguns navegadores não informam o tipo de fotos HEIC do iPhone; caímos na extensão
+const EXTENSION_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  pdf: 'application/pdf'
+};
+
+interface FileLike {
+  name: string;
+  type: string;
+  size: number;
+}
+
+export const getAttachmentType = (file: Pick<FileLike, 'name' | 'type'>): string => {
+  if (file.type) return file.type.toLowerCase();
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  return EXTENSION_TYPES[extension] || '';
+};
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const [value, unit] = bytes < 1024 * 1024 ? [bytes / 1024, 'KB'] : [bytes / (1024 * 1024), 'MB'];
+  return `${value.toLocaleString('pt-BR', { maximumFractionDigits: 1 })} ${unit}`;
+};
+
+// Mensagem de erro para o usuário, ou null se o arquivo pode ser enviado
+export const validateAttachmentFile = (file: FileLike): string | null => {
+  if (!ACCEPTED_ATTACHMENT_TYPES.includes(getAttachmentType(file))) {
+    return `"${file.name}" não é uma imagem (JPG, PNG, WEBP, HEIC) nem um PDF.`;
+  }
+  if (file.size === 0) {
+    return `"${file.name}" está vazio.`;
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `"${file.name}" tem ${formatFileSize(file.size)}; o limite é ${formatFileSize(MAX_ATTACHMENT_BYTES)}.`;
+  }
+  return null;
+};
+
+// HEIC não abre na maioria dos navegadores, então não vira miniatura
+export const isPreviewableImage = (attachment: Pick<Attachment, 'contentType'>): boolean =>
+  attachment.contentType.startsWith('image/') && attachment.contentType !== 'image/heic';
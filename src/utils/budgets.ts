@@ -0,0 +1,55 @@
+import { Budget, Transaction } from '../types/finance';
+import { getCategoryAmounts } from './splits';
+
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetStatus {
+  category: string;
+  limit: number;
+  spent: number;
+  percent: number;
+  projected: number; // gasto previsto no fim do mês mantendo o ritmo atual
+  level: BudgetLevel;
+}
+
+// A partir de 80% do limite a categoria entra em alerta
+export const BUDGET_WARNING_RATIO = 0.8;
+
+const getLevel = (spent: number, limit: number): BudgetLevel => {
+  if (spent >= limit) return 'exceeded';
+  if (spent >= limit * BUDGET_WARNING_RATIO) return 'warning';
+  return 'ok';
+};
+
+// Gastos do mês corrente por categoria de despesa
+export const getMonthlySpending = (transactions: Transaction[], now: Date = new Date()): Record<string, number> => {
+  const spending: Record<string, number> = {};
+  transactions.forEach(t => {
+    const date = new Date(t.createdAt);
+    if (t.type !== 'expense' || date.getFullYear() !== now.getFullYear() || date.getMonth() !== now.getMonth()) return;
+    getCategoryAmounts(t).forEach(({ category, amount }) => {
+      spending[category] = (spending[category] || 0) + amount;
+    });
+  });
+  return spending;
+};
+
+export const getBudgetStatuses = (budgets: Budget[], transactions: Transaction[], now: Date = new Date()): BudgetStatus[] => {
+  const spending = getMonthlySpending(transactions, now);
+  const daysInMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0).getDate();
+  const daysElapsed = now.getDate();
+
+  return budgets
+    .map(budget => {
+      const spent = spending[budget.category] || 0;
+      return {
+        category: budget.category,
+        limit: budget.limit,
+        spent,
+        percent: budget.limit > 0 ? (spent / budget.limit) * 100 : 0,
+        projected: (spent / daysElapsed) * daysInMonth,
+        level: getLevel(spent, budget.limit)
+      };
+    })
+    .sort((a, b) => b.percent - a.percent);
+};
@@ -0,0 +1,110 @@
+import { CategorySettings } from '../types/finance';
+import {
+  CATEGORY_COLORS,
+  findDuplicateCategories,
+  getCategoryAppearance,
+  getCategoryGroups,
+  getDefaultCategoryColor,
+  getGroupOptions,
+  getKeywordRules,
+  parseKeywords,
+  renameCategorySettings,
+  rollUpCategories
+} from './categories';
+
+const settings: CategorySettings[] = [
+  { name: 'Alimentação', color: '#34D399', icon: 'shopping-cart', parent: null, keywords: ['hortifruti'] },
+  { name: 'Mercado', color: '#60A5FA', icon: 'store', parent: 'Alimentação', keywords: ['sacolao'] },
+  { name: 'Restaurante', color: '#F87171', icon: 'utensils', parent: 'Alimentação', keywords: [] }
+];
+
+describe('getCategoryAppearance', () => {
+  test('usa as preferências salvas', () => {
+    expect(getCategoryAppearance(settings, 'Mercado')).toEqual({ color: '#60A5FA', icon: 'store' });
+  });
+
+  test('sem preferências, a cor vem do nome e não da posição', () => {
+    const color = getDefaultCategoryColor('Lazer');
+    expect(CATEGORY_COLORS).toContain(color);
+    expect(getCategoryAppearance([], 'Lazer').color).toBe(color);
+    expect(getDefaultCategoryColor('LAZER')).toBe(color);
+  });
+
+  test('categorias conhecidas ganham ícone próprio', () => {
+    expect(getCategoryAppearance([], 'Transporte').icon).toBe('car');
+    expect(getCategoryAppearance([], 'Pets').icon).toBe('tag');
+  });
+});
+
+describe('parseKeywords', () => {
+  test('normaliza, remove vazias e repetidas', () => {
+    expect(parseKeywords('Hortifrúti, sacolão ,, hortifruti')).toEqual(['hortifruti', 'sacolao']);
+  });
+});
+
+describe('getKeywordRules', () => {
+  test('só inclui categorias com palavras-chave', () => {
+    expect(getKeywordRules(settings)).toEqual({ Alimentação: ['hortifruti'], Mercado: ['sacolao'] });
+  });
+});
+
+describe('findDuplicateCategories', () => {
+  test('agrupa grafias diferentes do mesmo nome', () => {
+    expect(findDuplicateCategories(['Mercado', 'Lazer', 'mercado', 'MERCADO ', 'Supermercado'])).toEqual([
+      ['Mercado', 'mercado', 'MERCADO ']
+    ]);
+  });
+});
+
+describe('renameCategorySettings', () => {
+  test('renomear leva as preferências e os filhos junto', () => {
+    const renamed = renameCategorySettings(settings, 'Alimentação', 'Comida');
+    expect(renamed.find(s => s.name === 'Comida')).toMatchObject({ color: '#34D399', keywords: ['hortifruti'] });
+    expect(renamed.find(s => s.name === 'Alimentação')).toBeUndefined();
+    expect(renamed.filter(s => s.parent === 'Comida').map(s => s.name)).toEqual(['Mercado', 'Restaurante']);
+  });
+
+  test('juntar mantém o visual do destino e soma as palavras-chave', () => {
+    const merged = renameCategorySettings(settings, 'Mercado', 'Alimentação');
+    expect(merged.find(s => s.name === 'Mercado')).toBeUndefined();
+    expect(merged.find(s => s.name === 'Alimentação')).toEqual({
+      name: 'Alimentação',
+      color: '#34D399',
+      icon: 'shopping-cart',
+      parent: null,
+      keywords: ['hortifruti', 'sacolao']
+    });
+  });
+
+  test('juntar o grupo numa subcategoria não deixa a categoria dentro dela mesma', () => {
+    const merged = renameCategorySettings(settings, 'Alimentação', 'Mercado');
+    expect(merged.find(s => s.name === 'Mercado')?.parent).toBeNull();
+    expect(merged.find(s => s.name === 'Restaurante')?.parent).toBe('Mercado');
+  });
+
+  test('sem preferências, não muda nada', () => {
+    expect(renameCategorySettings(settings, 'Lazer', 'Diversão')).toEqual(settings);
+  });
+});
+
+describe('grupos', () => {
+  const names = ['Mercado', 'Lazer', 'Restaurante', 'Alimentação'];
+
+  test('organiza as categorias por grupo em ordem alfabética', () => {
+    expect(getCategoryGroups(names, settings)).toEqual([
+      { name: 'Alimentação', children: ['Mercado', 'Restaurante'] },
+      { name: 'Lazer', children: [] }
+    ]);
+  });
+
+  test('só categorias sem grupo podem ser grupo', () => {
+    expect(getGroupOptions(settings, names, 'Lazer')).toEqual(['Alimentação']);
+  });
+
+  test('soma as subcategorias no grupo', () => {
+    expect(rollUpCategories({ Mercado: 100, Restaurante: 50, Alimentação: 10, Lazer: 30 }, settings)).toEqual({
+      Alimentação: 160,
+      Lazer: 30
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { CategoryIcon, CategorySettings } from '../types/finance';
+import { KeywordRules, normalizeText } from './commandParser';
+
+// Cores, ícones, grupos e palavras-chave das categorias.
+// Categorias sem preferências salvas ganham cor e ícone derivados do nome,
+// para não mudarem de cor quando a ordem dos gráficos muda.
+
+export const CATEGORY_COLORS = [
+  '#60A5FA', '#34D399', '#FBBF24', '#F87171', '#A78BFA',
+  '#FB7185', '#22D3EE', '#F97316', '#A3E635', '#E879F9'
+];
+
+export const CATEGORY_ICON_NAMES: CategoryIcon[] = [
+  'tag', 'shopping-cart', 'utensils', 'coffee', 'home', 'zap', 'car', 'bus', 'plane', 'heart-pulse', 'dumbbell',
+  'gamepad', 'gift', 'shirt', 'graduation-cap', 'baby', 'paw-print', 'smartphone', 'receipt', 'briefcase', 'store', 'piggy-bank'
+];
+
+const DEFAULT_ICONS: Record<string, CategoryIcon> = {
+  alimentacao: 'shopping-cart',
+  moradia: 'home',
+  transporte: 'car',
+  saude: 'heart-pulse',
+  lazer: 'gamepad',
+  trabalho: 'briefcase',
+  vendas: 'store'
+};
+
+export interface CategoryAppearance {
+  color: string;
+  icon: CategoryIcon;
+}
+
+export interface CategoryGroup {
+  name: string;
+  children: string[];
+}
+
+// Hash simples e estável do nome (sem acento/maiúscula, então "Mercado" e "mercado" têm a mesma cor)
+const hashName = (name: string): number =>
+  Array.from(normalizeText(name)).reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) >>> 0, 7);
+
+export const getDefaultCategoryColor = (name: string): string => CATEGORY_COLORS[hashName(name) % CATEGORY_COLORS.length];
+
+export const findCategorySettings = (settings: CategorySettings[], name: string): CategorySettings | undefined =>
+  settings.find(s => s.name === name);
+
+export const getCategoryAppearance = (settings: CategorySettings[], name: string): CategoryAppearance => {
+  const saved = findCategorySettings(settings, name);
+  return saved
+    ? { color: saved.color, icon: saved.icon }
+    : { color: getDefaultCategoryColor(name), icon: DEFAULT_ICONS[normalizeText(name)] || 'tag' };
+};
+
+// Preferências iniciais de uma categoria que ainda não tem nada salvo
+export const createCategorySettings = (settings: CategorySettings[], name: string): CategorySettings =>
+  findCategorySettings(settings, name) || { name, ...getCategoryAppearance(settings, name), parent: null, keywords: [] };
+
+// "Hortifruti, sacolão ,,hortifruti" -> ["hortifruti", "sacolao"]
+export const parseKeywords = (text: string): string[] =>
+  [...new Set(text.split(',').map(normalizeText).filter(Boolean))];
+
+export const getKeywordRules = (settings: CategorySettings[]): KeywordRules =>
+  settings.reduce<KeywordRules>((rules, s) => (s.keywords.length > 0 ? { ...rules, [s.name]: s.keywords } : rules), {});
+
+// Grafias diferentes da mesma categoria ("Mercado", "mercado ", "MERCADO"), candidatas a juntar
+export const findDuplicateCategories = (names: string[]): string[][] => {
+  const groups = new Map<string, string[]>();
+  names.forEach(name => {
+    const key = normalizeText(name);
+    groups.set(key, [...(groups.get(key) || []), name]);
+  });
+  return Array.from(groups.values()).filter(group => group.length > 1);
+};
+
+// Renomear para um nome que já existe é juntar: valem as preferências do destino,
+// com as palavras-chave das duas; quem tinha a antiga como grupo passa para a nova
+export const renameCategorySettings = (settings: CategorySettings[], from: string, to: string): CategorySettings[] => {
+  const source = findCategorySettings(settings, from);
+  const target = findCategorySettings(settings, to);
+  const others = settings
+    .filter(s => s.name !== from && s.name !== to)
+    .map(s => (s.parent === from ? { ...s, parent: to } : s));
+
+  if (!source && !target) return others;
+  const merged: CategorySettings = target
+    ? { ...target, keywords: [...new Set([...target.keywords, ...(source ? source.keywords : [])])] }
+    : { ...(source as CategorySettings), name: to };
+  // Juntando um grupo numa das suas subcategorias, ela deixa de ter grupo
+  return [...others, { ...merged, parent: merged.parent === from || merged.parent === to ? null : merged.parent }];
+};
+
+// Só categorias sem grupo podem ser grupo (um nível só)
+export const getGroupOptions = (settings: CategorySettings[], names: string[], current: string): string[] =>
+  names.filter(name => name !== current && !findCategorySettings(settings, name)?.parent);
+
+// Categorias organizadas por grupo, em ordem alfabética
+export const getCategoryGroups = (names: string[], settings: CategorySettings[]): CategoryGroup[] => {
+  const parentOf = (name: string) => {
+    const parent = findCategorySettings(settings, name)?.parent;
+    return parent && parent !== name ? parent : null;
+  };
+  const roots = [...new Set(names.map(name => parentOf(name) || name))].sort((a, b) => a.localeCompare(b, 'pt-BR'));
+  return roots.map(root => ({
+    name: root,
+    children: names.filter(name => parentOf(name) === root).sort((a, b) => a.localeCompare(b, 'pt-BR'))
+  }));
+};
+
+// Soma os totais das subcategorias no grupo, para os gráficos "por grupo"
+export const rollUpCategories = (totals: Record<string, number>, settings: CategorySettings[]): Record<string, number> =>
+  Object.entries(totals).reduce<Record<string, number>>((rolled, [name, amount]) => {
+    const group = findCategorySettings(settings, name)?.parent || name;
+    return { ...rolled, [group]: (rolled[group] || 0) + amount };
+  }, {});
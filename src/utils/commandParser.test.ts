@@ -0,0 +1,60 @@
+import { parseCommand, ParsedCommand, suggestCategory } from './commandParser';
+
+// Exemplos exibidos na seção "Controle via WhatsApp" do dashboard
+describe('parseCommand', () => {
+  const cases: Array<[string, ParsedCommand]> = [
+    ['50 no mercado', { kind: 'transaction', draft: { type: 'expense', amount: 50, description: 'Mercado', category: 'Alimentação' } }],
+    ['25.50 lanche', { kind: 'transaction', draft: { type: 'expense', amount: 25.5, description: 'Lanche', category: 'Alimentação' } }],
+    ['25,50 lanche', { kind: 'transaction', draft: { type: 'expense', amount: 25.5, description: 'Lanche', category: 'Alimentação' } }],
+    ['100 conta de luz', { kind: 'transaction', draft: { type: 'expense', amount: 100, description: 'Conta de luz', category: 'Moradia' } }],
+    ['recebi 1000 salário', { kind: 'transaction', draft: { type: 'income', amount: 1000, description: 'Salário', category: 'Trabalho' } }],
+    ['ganhei 500 freelance', { kind: 'transaction', draft: { type: 'income', amount: 500, description: 'Freelance', category: 'Trabalho' } }],
+    ['entrou 200 venda', { kind: 'transaction', draft: { type: 'income', amount: 200, description: 'Venda', category: 'Vendas' } }],
+    ['apagar 64f1c2a9e4b0', { kind: 'delete', transactionId: '64f1c2a9e4b0' }],
+    ['apagar [mock-3]', { kind: 'delete', transactionId: 'mock-3' }],
+    ['relatório de hoje', { kind: 'report', period: 'today' }],
+    ['relatório da semana', { kind: 'report', period: 'week' }],
+    ['relatório do mês', { kind: 'report', period: 'month' }],
+    ['relatório geral', { kind: 'report', period: 'all' }],
+    ['"relatorio do mes"', { kind: 'report', period: 'month' }]
+  ];
+
+  test.each(cases)('%s', (input, expected) => {
+    expect(parseCommand(input)).toEqual(expected);
+  });
+
+  test.each([
+    [''],
+    ['mercado'],
+    ['recebi salário'],
+    ['0 lanche'],
+    ['25,505 lanche'],
+    ['relatório do ano'],
+    ['apagar']
+  ])('rejeita "%s"', input => {
+    expect(parseCommand(input)).toBeNull();
+  });
+});
+
+describe('suggestCategory', () => {
+  test('usa "Outros" quando nenhuma palavra-chave corresponde', () => {
+    expect(suggestCategory('Presente de aniversário')).toBe('Outros');
+  });
+
+  test('ignora acentos e maiúsculas', () => {
+    expect(suggestCategory('FARMÁCIA do bairro')).toBe('Saúde');
+  });
+
+  test('palavras-chave do usuário valem antes das padrão', () => {
+    const rules = { Mercado: ['mercado', 'hortifruti'], Carro: ['posto shell'] };
+    expect(suggestCategory('Mercado do bairro', rules)).toBe('Mercado');
+    expect(suggestCategory('Hortifrúti', rules)).toBe('Mercado');
+    expect(suggestCategory('Posto Shell centro', rules)).toBe('Carro');
+    expect(suggestCategory('Posto Ipiranga', rules)).toBe('Outros');
+  });
+
+  test('parseCommand repassa as palavras-chave do usuário', () => {
+    const command = parseCommand('30 no sacolão', { Feira: ['sacolao'] });
+    expect(command?.kind === 'transaction' && command.draft.category).toBe('Feira');
+  });
+});
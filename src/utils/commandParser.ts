@@ -0,0 +1,116 @@
+import { ReportPeriod, TransactionInput } from '../types/finance';
+import { parseBRLAmount } from './currency';
+
+// Interpreta no navegador os mesmos comandos aceitos pelo WhatsApp:
+//   "25.50 lanche", "50 no mercado"           -> despesa
+//   "recebi 1000 salário", "ganhei 500 freela" -> receita
+//   "apagar [ID]"                              -> apagar transação
+//   "relatório da semana"                      -> abrir relatório do período
+
+export type TransactionDraft = Omit<TransactionInput, 'createdAt'>;
+
+export type ParsedCommand =
+  | { kind: 'transaction'; draft: TransactionDraft }
+  | { kind: 'delete'; transactionId: string }
+  | { kind: 'report'; period: ReportPeriod };
+
+const INCOME_VERBS = ['recebi', 'ganhei', 'entrou'];
+
+const LEADING_PREPOSITION = /^(no|na|nos|nas|em|de|do|da|com|pro|pra)\s+/i;
+
+const REPORT_PERIODS: Record<string, ReportPeriod> = {
+  'de hoje': 'today',
+  'da semana': 'week',
+  'do mes': 'month',
+  geral: 'all'
+};
+
+const CATEGORY_KEYWORDS: Record<string, string[]> = {
+  'Alimentação': ['mercado', 'supermercado', 'lanche', 'restaurante', 'almoco', 'jantar', 'padaria', 'ifood', 'pizza', 'cafe', 'feira'],
+  'Moradia': ['luz', 'agua', 'aluguel', 'internet', 'gas', 'condominio', 'energia'],
+  'Transporte': ['uber', 'gasolina', 'combustivel', 'onibus', 'metro', 'taxi', 'estacionamento', '99'],
+  'Saúde': ['farmacia', 'academia', 'medico', 'remedio', 'dentista', 'consulta', 'exame'],
+  'Lazer': ['cinema', 'netflix', 'spotify', 'show', 'bar', 'viagem', 'jogo'],
+  'Trabalho': ['salario', 'freelance', 'freela', 'bonus', 'pagamento'],
+  'Vendas': ['venda', 'vendas']
+};
+
+export const DEFAULT_CATEGORY = 'Outros';
+
+// Palavras-chave cadastradas pelo usuário por categoria (ver utils/categories); valem antes das padrão
+export type KeywordRules = Record<string, string[]>;
+
+// "Relatório  GERAL" -> "relatorio geral"
+export const normalizeText = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Palavra-chave do usuário pode ter mais de uma palavra ("posto shell")
+export const matchKeywordRules = (description: string, rules: KeywordRules): string | null => {
+  const padded = ` ${normalizeText(description).split(/[^a-z0-9]+/).join(' ')} `;
+  const match = Object.entries(rules).find(([, keywords]) => keywords.some(k => padded.includes(` ${k} `)));
+  return match ? match[0] : null;
+};
+
+export const suggestCategory = (description: string, customRules: KeywordRules = {}): string => {
+  const custom = matchKeywordRules(description, customRules);
+  if (custom) return custom;
+  const words = new Set(normalizeText(description).split(/[^a-z0-9]+/));
+  const match = Object.entries(CATEGORY_KEYWORDS).find(([, keywords]) => keywords.some(k => words.has(k)));
+  return match ? match[0] : DEFAULT_CATEGORY;
+};
+
+const toDescription = (text: string): string => {
+  const cleaned = text.trim().replace(LEADING_PREPOSITION, '');
+  return cleaned.charAt(0).toUpperCase() + cleaned.slice(1);
+};
+
+const buildDraft = (
+  type: TransactionDraft['type'],
+  amountText: string,
+  descriptionText: string,
+  customRules: KeywordRules
+): ParsedCommand | null => {
+  const amount = parseBRLAmount(amountText);
+  const description = toDescription(descriptionText);
+  if (amount === null || !description) return null;
+
+  return {
+    kind: 'transaction',
+    draft: { type, amount, description, category: suggestCategory(description, customRules) }
+  };
+};
+
+// Retorna null quando o texto não corresponde a nenhum comando conhecido
+export const parseCommand = (input: string, customRules: KeywordRules = {}): ParsedCommand | null => {
+  const text = input.trim().replace(/^["“]|["”]$/g, '').replace(/\s+/g, ' ').trim();
+  const normalized = normalizeText(text);
+  if (!normalized) return null;
+
+  const deleteMatch = text.match(/^apagar\s+\[?([^\s\]]+)\]?$/i);
+  if (deleteMatch) {
+    return { kind: 'delete', transactionId: deleteMatch[1] };
+  }
+
+  const reportMatch = normalized.match(/^relatorio (.+)$/);
+  if (reportMatch) {
+    const period = REPORT_PERIODS[reportMatch[1]];
+    return period ? { kind: 'report', period } : null;
+  }
+
+  const incomeMatch = text.match(/^(\S+)\s+(?:r\$\s*)?([\d.,]+)\s+(.+)$/i);
+  if (incomeMatch && INCOME_VERBS.includes(normalizeText(incomeMatch[1]))) {
+    return buildDraft('income', incomeMatch[2], incomeMatch[3], customRules);
+  }
+
+  const expenseMatch = text.match(/^(?:r\$\s*)?([\d.,]+)\s+(.+)$/i);
+  if (expenseMatch) {
+    return buildDraft('expense', expenseMatch[1], expenseMatch[2], customRules);
+  }
+
+  return null;
+};
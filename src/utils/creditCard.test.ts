@@ -0,0 +1,90 @@
+import { Account, Transaction, TransactionInput } from '../types/finance';
+import { getCardStatements, getClosingDate, getDueDate, getExpenseCommitment, splitInstallments } from './creditCard';
+import { makeTransaction } from '../test/fixtures';
+
+const card: Account = { _id: 'card', name: 'Cartão', kind: 'credit_card', initialBalance: 0, closingDay: 25, dueDay: 5 };
+
+const tx = (overrides: Partial<Transaction>) => makeTransaction({ amount: 10, description: 'Compra', accountId: 'card', ...overrides });
+
+describe('getClosingDate', () => {
+  it('compra até o fechamento cai na fatura do mês', () => {
+    expect(getClosingDate(card, new Date(2024, 8, 25, 22))).toEqual(new Date(2024, 8, 25));
+  });
+
+  it('compra depois do fechamento vai para o mês seguinte', () => {
+    expect(getClosingDate(card, new Date(2024, 8, 26, 9))).toEqual(new Date(2024, 9, 25));
+  });
+
+  it('fechamento no dia 31 respeita meses curtos', () => {
+    expect(getClosingDate({ ...card, closingDay: 31 }, new Date(2025, 1, 10))).toEqual(new Date(2025, 1, 28));
+  });
+});
+
+describe('getDueDate', () => {
+  it('vencimento antes do fechamento fica para o mês seguinte', () => {
+    expect(getDueDate(card, new Date(2024, 11, 25))).toEqual(new Date(2025, 0, 5));
+  });
+
+  it('vencimento depois do fechamento fica no mesmo mês', () => {
+    expect(getDueDate({ ...card, closingDay: 3, dueDay: 12 }, new Date(2024, 8, 3))).toEqual(new Date(2024, 8, 12));
+  });
+});
+
+describe('splitInstallments', () => {
+  const input: TransactionInput = {
+    type: 'expense',
+    amount: 100,
+    description: 'Geladeira',
+    category: 'Casa',
+    createdAt: new Date(2024, 0, 31, 15).toISOString(),
+    accountId: 'card'
+  };
+
+  it('divide o valor e joga os centavos que sobram na primeira parcela', () => {
+    const parts = splitInstallments(input, 3, 'g1');
+
+    expect(parts.map(p => p.amount)).toEqual([33.34, 33.33, 33.33]);
+    expect(parts.map(p => p.installment)).toEqual([
+      { groupId: 'g1', number: 1, total: 3 },
+      { groupId: 'g1', number: 2, total: 3 },
+      { groupId: 'g1', number: 3, total: 3 }
+    ]);
+  });
+
+  it('lança uma parcela por mês, no mesmo dia quando o mês permite', () => {
+    const dates = splitInstallments(input, 3, 'g1').map(p => new Date(p.createdAt));
+
+    expect(dates.map(d => [d.getMonth(), d.getDate(), d.getHours()])).toEqual([[0, 31, 15], [1, 29, 15], [2, 31, 15]]);
+  });
+});
+
+describe('getCardStatements', () => {
+  it('separa a fatura aberta da seguinte e ignora pagamentos e outras contas', () => {
+    const [current, next] = getCardStatements(card, [
+      tx({ amount: 50, createdAt: new Date(2024, 8, 26, 12).toISOString() }),
+      tx({ amount: 30, createdAt: new Date(2024, 9, 20, 12).toISOString() }),
+      tx({ type: 'income', amount: 5, createdAt: new Date(2024, 9, 1, 12).toISOString() }),
+      tx({ amount: 40, createdAt: new Date(2024, 9, 30, 12).toISOString() }),
+      tx({ type: 'transfer', amount: 200, accountId: 'conta', toAccountId: 'card', createdAt: new Date(2024, 9, 5, 12).toISOString() }),
+      tx({ amount: 999, accountId: 'outra', createdAt: new Date(2024, 9, 2, 12).toISOString() })
+    ], new Date(2024, 9, 10));
+
+    expect(current.closingDate).toEqual(new Date(2024, 9, 25));
+    expect(current.startDate).toEqual(new Date(2024, 8, 26));
+    expect(current.dueDate).toEqual(new Date(2024, 10, 5));
+    expect(current.total).toBe(75);
+    expect(next.closingDate).toEqual(new Date(2024, 10, 25));
+    expect(next.total).toBe(40);
+  });
+});
+
+describe('getExpenseCommitment', () => {
+  it('separa o que já foi gasto das parcelas futuras', () => {
+    const now = new Date(2024, 8, 15);
+    expect(getExpenseCommitment([
+      tx({ amount: 20, createdAt: new Date(2024, 8, 10).toISOString() }),
+      tx({ amount: 30, createdAt: new Date(2024, 9, 10).toISOString() }),
+      tx({ type: 'income', amount: 100, createdAt: new Date(2024, 9, 10).toISOString() })
+    ], now)).toEqual({ spent: 20, committed: 30 });
+  });
+});
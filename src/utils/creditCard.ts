@@ -0,0 +1,103 @@
+import { Account, Transaction, TransactionInput } from '../types/finance';
+
+// Faturas de cartão de crédito e compras parceladas.
+// Uma compra feita até o dia do fechamento entra na fatura daquele mês; depois dele, na do mês seguinte.
+
+export const MAX_INSTALLMENTS = 24;
+
+// Cartões sem dias configurados fecham no fim do mês e vencem no dia 10
+const DEFAULT_CLOSING_DAY = 31;
+const DEFAULT_DUE_DAY = 10;
+
+export interface Statement {
+  accountId: string;
+  startDate: Date; // dia seguinte ao fechamento anterior
+  closingDate: Date;
+  dueDate: Date;
+  transactions: Transaction[];
+  total: number; // compras menos estornos; pagamentos (transferências) não entram
+}
+
+// Dia do mês limitado ao tamanho do mês: dia 31 em fevereiro vira 28/29
+const dayInMonth = (year: number, month: number, day: number): Date => {
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  return new Date(year, month, Math.min(day, lastDay));
+};
+
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const closingDayOf = (card: Account): number => card.closingDay || DEFAULT_CLOSING_DAY;
+
+// Data de fechamento da fatura em que cai uma compra feita em `date`
+export const getClosingDate = (card: Account, date: Date): Date => {
+  const day = startOfDay(date);
+  const closing = dayInMonth(day.getFullYear(), day.getMonth(), closingDayOf(card));
+  return day <= closing ? closing : dayInMonth(day.getFullYear(), day.getMonth() + 1, closingDayOf(card));
+};
+
+// Vence no mesmo mês quando o vencimento é depois do fechamento; senão, no mês seguinte
+export const getDueDate = (card: Account, closingDate: Date): Date => {
+  const dueDay = card.dueDay || DEFAULT_DUE_DAY;
+  const month = dueDay > closingDate.getDate() ? closingDate.getMonth() : closingDate.getMonth() + 1;
+  return dayInMonth(closingDate.getFullYear(), month, dueDay);
+};
+
+export const getStatement = (card: Account, transactions: Transaction[], closingDate: Date): Statement => {
+  const previousClosing = dayInMonth(closingDate.getFullYear(), closingDate.getMonth() - 1, closingDayOf(card));
+  const startDate = new Date(previousClosing.getFullYear(), previousClosing.getMonth(), previousClosing.getDate() + 1);
+  const items = transactions
+    .filter(t =>
+      t.accountId === card._id &&
+      t.type !== 'transfer' &&
+      getClosingDate(card, new Date(t.createdAt)).getTime() === closingDate.getTime()
+    )
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+  return {
+    accountId: card._id,
+    startDate,
+    closingDate,
+    dueDate: getDueDate(card, closingDate),
+    transactions: items,
+    total: items.reduce((sum, t) => sum + (t.type === 'expense' ? t.amount : -t.amount), 0)
+  };
+};
+
+// Fatura aberta (ainda não fechou) e a seguinte, onde já caem as próximas parcelas
+export const getCardStatements = (card: Account, transactions: Transaction[], now: Date = new Date()): [Statement, Statement] => {
+  const current = getClosingDate(card, now);
+  const next = dayInMonth(current.getFullYear(), current.getMonth() + 1, closingDayOf(card));
+  return [getStatement(card, transactions, current), getStatement(card, transactions, next)];
+};
+
+const addMonths = (isoString: string, months: number): string => {
+  const date = new Date(isoString);
+  const shifted = dayInMonth(date.getFullYear(), date.getMonth() + months, date.getDate());
+  shifted.setHours(date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds());
+  return shifted.toISOString();
+};
+
+// Divide uma compra em parcelas mensais; os centavos que sobram vão na primeira parcela
+export const splitInstallments = (input: TransactionInput, count: number, groupId: string): TransactionInput[] => {
+  const cents = Math.round(input.amount * 100);
+  const base = Math.floor(cents / count);
+  const remainder = cents - base * count;
+
+  return Array.from({ length: count }, (_, index) => ({
+    ...input,
+    amount: (index === 0 ? base + remainder : base) / 100,
+    createdAt: addMonths(input.createdAt, index),
+    installment: { groupId, number: index + 1, total: count }
+  }));
+};
+
+// Despesas já feitas x comprometidas em parcelas (e outros lançamentos) com data futura
+export const getExpenseCommitment = (transactions: Transaction[], now: Date = new Date()): { spent: number; committed: number } =>
+  transactions
+    .filter(t => t.type === 'expense')
+    .reduce(
+      (result, t) => (new Date(t.createdAt).getTime() > now.getTime()
+        ? { ...result, committed: result.committed + t.amount }
+        : { ...result, spent: result.spent + t.amount }),
+      { spent: 0, committed: 0 }
+    );
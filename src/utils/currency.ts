@@ -0,0 +1,47 @@
+import { TransactionType } from '../types/finance';
+
+// Utilitários para valores em reais (BRL)
+
+export const formatCurrency = (value: number): string => {
+  return new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+};
+
+// "+R$ 10,00" para receitas e "-R$ 10,00" para despesas; transferências vão sem sinal
+export const formatSignedAmount = (type: TransactionType, value: number): string => {
+  const sign = type === 'income' ? '+' : type === 'expense' ? '-' : '';
+  return `${sign}${formatCurrency(value)}`;
+};
+
+const THOUSANDS_WITH_DOT = /^\d{1,3}(\.\d{3})+$/;
+const NORMALIZED_AMOUNT = /^\d+(\.\d{1,2})?$/;
+
+// Converte o texto digitado pelo usuário em número.
+// Aceita "25,50", "25.50", "1.234,56", "1,234.56", "1.000" e "R$ 10".
+// Retorna null quando o texto não é um valor positivo com até 2 casas decimais.
+export const parseBRLAmount = (input: string): number | null => {
+  let value = input.replace(/R\$/i, '').replace(/\s/g, '');
+  if (!value) return null;
+
+  const lastComma = value.lastIndexOf(',');
+  const lastDot = value.lastIndexOf('.');
+
+  if (lastComma !== -1 && lastDot !== -1) {
+    // O separador que aparece por último é o decimal
+    const thousandsSeparator = lastComma > lastDot ? '.' : ',';
+    value = value.split(thousandsSeparator).join('');
+    value = value.replace(',', '.');
+  } else if (lastComma !== -1) {
+    if (value.indexOf(',') !== lastComma) return null;
+    value = value.replace(',', '.');
+  } else if (THOUSANDS_WITH_DOT.test(value)) {
+    value = value.split('.').join('');
+  }
+
+  if (!NORMALIZED_AMOUNT.test(value)) return null;
+
+  const amount = Number(value);
+  return amount > 0 ? amount : null;
+};
+
+// Valor para preencher campos de formulário: 1234.5 -> "1234,50"
+export const formatAmountInput = (value: number): string => value.toFixed(2).replace('.', ',');
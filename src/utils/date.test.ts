@@ -0,0 +1,17 @@
+import { formatDate } from './date';
+
+describe('formatDate', () => {
+  const now = new Date(2024, 8, 15, 18, 0);
+
+  test('usa "Hoje" e "Ontem" para datas próximas', () => {
+    expect(formatDate(new Date(2024, 8, 15, 9, 5).toISOString(), now)).toBe('Hoje, 09:05');
+    expect(formatDate(new Date(2024, 8, 14, 21, 30).toISOString(), now)).toBe('Ontem, 21:30');
+  });
+
+  test('mostra dia e mês para datas mais antigas', () => {
+    const formatted = formatDate(new Date(2024, 8, 10, 12, 0).toISOString(), now);
+    expect(formatted).toMatch(/^10/);
+    expect(formatted).toContain('12:00');
+    expect(formatted).not.toMatch(/Hoje|Ontem/);
+  });
+});
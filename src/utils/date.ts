@@ -0,0 +1,30 @@
+// Datas de transações para exibição (fuso local)
+
+const formatTime = (date: Date): string => date.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+
+// "Hoje, 12:30", "Ontem, 08:15" ou "15 de set., 12:30"
+export const formatDate = (dateString: string, now: Date = new Date()): string => {
+  const date = new Date(dateString);
+  const yesterday = new Date(now);
+  yesterday.setDate(yesterday.getDate() - 1);
+
+  if (date.toDateString() === now.toDateString()) {
+    return `Hoje, ${formatTime(date)}`;
+  }
+  if (date.toDateString() === yesterday.toDateString()) {
+    return `Ontem, ${formatTime(date)}`;
+  }
+  return date.toLocaleDateString('pt-BR', {
+    day: '2-digit',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+// "domingo, 15 de setembro de 2024 às 12:30"
+export const formatFullDate = (dateString: string): string => {
+  const date = new Date(dateString);
+  const day = date.toLocaleDateString('pt-BR', { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' });
+  return `${day} às ${formatTime(date)}`;
+};
@@ -0,0 +1,29 @@
+import { Transaction } from '../types/finance';
+import { buildTransactionsCsv, toCsv } from './export';
+import { makeTransaction } from '../test/fixtures';
+
+const tx = (overrides: Partial<Transaction>) =>
+  makeTransaction({ amount: 50, description: 'Mercado', category: 'Alimentação', ...overrides });
+
+describe('toCsv', () => {
+  test('separa por ";" e põe aspas em campos com separador, aspas ou quebra de linha', () => {
+    expect(toCsv([['a', 'b;c'], ['diz "oi"', 'linha\nnova']])).toBe('a;"b;c"\r\n"diz ""oi""";"linha\nnova"');
+  });
+
+  test('neutraliza texto que o Excel leria como fórmula', () => {
+    expect(toCsv([['=HYPERLINK("http://x")', '+1+1', '-2+3', '@SUM(A1)', '\tcmd', '\rcmd']])).toBe(
+      `"'=HYPERLINK(""http://x"")";'+1+1;'-2+3;'@SUM(A1);'\tcmd;"'\rcmd"`
+    );
+  });
+
+  test('mantém valores negativos como número', () => {
+    expect(toCsv([['-50,00', '-1.234,56', '-7']])).toBe('-50,00;-1.234,56;-7');
+  });
+});
+
+describe('buildTransactionsCsv', () => {
+  test('a descrição vinda do WhatsApp não vira fórmula', () => {
+    const [, row] = buildTransactionsCsv([tx({ description: '=1+1' })]).split('\r\n');
+    expect(row.split(';')).toEqual([expect.any(String), 'Despesa', "'=1+1", 'Alimentação', '-50,00', '', 't1']);
+  });
+});
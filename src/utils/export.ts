@@ -0,0 +1,130 @@
+import { PeriodFilter, Summary, Transaction } from '../types/finance';
+import { TRANSACTION_TYPE_LABELS } from './accounts';
+import { normalizeText } from './commandParser';
+import { formatAmountInput } from './currency';
+import { getPeriodLabel } from './period';
+import { getTransactionCategories } from './splits';
+import { computeSummary } from './summary';
+
+// Exportação de transações e relatórios.
+// O CSV usa ";" e vírgula decimal, com BOM UTF-8, para abrir direto no Excel em pt-BR.
+
+export interface CategoryShare {
+  category: string;
+  amount: number;
+  percent: number;
+}
+
+export interface PeriodReport {
+  periodLabel: string;
+  generatedAt: string;
+  summary: Summary;
+  expenseCategories: CategoryShare[];
+  incomeCategories: CategoryShare[];
+  topExpenses: Transaction[];
+}
+
+const TOP_EXPENSES_LIMIT = 10;
+
+// 2024-09-15T15:30:00Z -> "15/09/2024 12:30" (fuso local)
+export const formatExportDate = (dateString: string): string => {
+  const date = new Date(dateString);
+  return `${date.toLocaleDateString('pt-BR')} ${date.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+// Número com vírgula decimal e sem "R$", para o Excel tratar como número
+const formatExportAmount = (value: number): string => (value < 0 ? `-${formatAmountInput(-value)}` : formatAmountInput(value));
+
+// Texto que começa com =, +, -, @, tab ou CR vira fórmula no Excel/LibreOffice; descrições
+// vêm do WhatsApp e de extratos importados, então neutralizamos com um apóstrofo.
+// Valores numéricos ("-50,00") continuam números.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const NUMERIC_FIELD = /^-?\d[\d.]*(,\d+)?$/;
+
+const escapeCsvField = (raw: string): string => {
+  const value = FORMULA_PREFIX.test(raw) && !NUMERIC_FIELD.test(raw) ? `'${raw}` : raw;
+  return /[;"\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const toCsv = (rows: string[][]): string =>
+  rows.map(row => row.map(escapeCsvField).join(';')).join('\r\n');
+
+const toShares = (categories: Record<string, number>, total: number): CategoryShare[] =>
+  Object.entries(categories)
+    .map(([category, amount]) => ({ category, amount, percent: total > 0 ? (amount / total) * 100 : 0 }))
+    .sort((a, b) => b.amount - a.amount);
+
+export const buildPeriodReport = (transactions: Transaction[], period: PeriodFilter, now: Date = new Date()): PeriodReport => {
+  const summary = computeSummary(transactions);
+  return {
+    periodLabel: getPeriodLabel(period),
+    generatedAt: now.toISOString(),
+    summary,
+    expenseCategories: toShares(summary.expenseCategorySummary, summary.totalExpenses),
+    incomeCategories: toShares(summary.incomeCategorySummary, summary.totalIncome),
+    topExpenses: transactions
+      .filter(t => t.type === 'expense')
+      .sort((a, b) => b.amount - a.amount)
+      .slice(0, TOP_EXPENSES_LIMIT)
+  };
+};
+
+export const buildTransactionsCsv = (transactions: Transaction[]): string =>
+  toCsv([
+    ['Data', 'Tipo', 'Descrição', 'Categoria', 'Valor (R$)', 'Tags', 'ID'],
+    ...transactions.map(t => [
+      formatExportDate(t.createdAt),
+      TRANSACTION_TYPE_LABELS[t.type],
+      t.description,
+      // Transação dividida: as categorias juntas, o valor continua sendo o total
+      getTransactionCategories(t).join(' + '),
+      // Transferência não entra nem sai do total, então vai sem sinal
+      formatExportAmount(t.type === 'expense' ? -t.amount : t.amount),
+      (t.tags || []).join(', '),
+      t._id
+    ])
+  ]);
+
+export const buildReportCsv = (report: PeriodReport): string => {
+  const { summary } = report;
+  const shareRows = (shares: CategoryShare[]) =>
+    shares.map(s => [s.category, formatExportAmount(s.amount), `${s.percent.toFixed(1).replace('.', ',')}%`]);
+
+  return toCsv([
+    ['Relatório financeiro', report.periodLabel],
+    ['Gerado em', formatExportDate(report.generatedAt)],
+    [],
+    ['Resumo', 'Valor (R$)'],
+    ['Receitas', formatExportAmount(summary.totalIncome)],
+    ['Despesas', formatExportAmount(summary.totalExpenses)],
+    ['Saldo', formatExportAmount(summary.balance)],
+    ['Transações', String(summary.transactionCount)],
+    [],
+    ['Despesas por categoria', 'Valor (R$)', '% do total'],
+    ...shareRows(report.expenseCategories),
+    [],
+    ['Receitas por categoria', 'Valor (R$)', '% do total'],
+    ...shareRows(report.incomeCategories),
+    [],
+    ['Maiores despesas', 'Data', 'Categoria', 'Valor (R$)'],
+    ...report.topExpenses.map(t => [t.description, formatExportDate(t.createdAt), t.category, formatExportAmount(t.amount)])
+  ]);
+};
+
+// "Últimos 7 dias" -> "ultimos-7-dias"
+export const slugify = (text: string): string =>
+  normalizeText(text)
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+
+export const downloadCsv = (content: string, fileName: string) => {
+  const blob = new Blob(['\ufeff', content], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
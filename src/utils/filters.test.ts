@@ -0,0 +1,82 @@
+import { Transaction } from '../types/finance';
+import { getCategories, getFilteredTransactions, sortByDateDesc } from './filters';
+
+const transactions: Transaction[] = [
+  { _id: 't1', type: 'expense', amount: 50, description: 'Mercado do bairro', category: 'Alimentação', createdAt: new Date(2024, 8, 10, 9).toISOString(), userId: 'u' },
+  { _id: 't2', type: 'income', amount: 3000, description: 'Salário', category: 'Salário', createdAt: new Date(2024, 8, 5, 9).toISOString(), userId: 'u' },
+  { _id: 't3', type: 'expense', amount: 32.9, description: 'Uber centro', category: 'Transporte', createdAt: new Date(2024, 8, 15, 9).toISOString(), userId: 'u' },
+  { _id: 't4', type: 'expense', amount: 18, description: 'Padaria', category: 'Alimentação', createdAt: new Date(2024, 8, 12, 9).toISOString(), userId: 'u' }
+];
+
+const ids = (list: Transaction[]) => list.map(t => t._id);
+
+describe('sortByDateDesc', () => {
+  test('ordena das mais recentes para as mais antigas sem alterar a lista original', () => {
+    const original = [...transactions];
+    expect(ids(sortByDateDesc(transactions))).toEqual(['t3', 't4', 't1', 't2']);
+    expect(transactions).toEqual(original);
+  });
+});
+
+describe('getFilteredTransactions', () => {
+  test('sem filtros devolve tudo ordenado por data', () => {
+    expect(ids(getFilteredTransactions(transactions))).toEqual(['t3', 't4', 't1', 't2']);
+  });
+
+  test('filtra por tipo', () => {
+    expect(ids(getFilteredTransactions(transactions, { type: 'income' }))).toEqual(['t2']);
+    expect(ids(getFilteredTransactions(transactions, { type: 'expense' }))).toEqual(['t3', 't4', 't1']);
+  });
+
+  test('busca na descrição e na categoria ignorando acentos e maiúsculas', () => {
+    expect(ids(getFilteredTransactions(transactions, { searchTerm: 'MERCADO' }))).toEqual(['t1']);
+    expect(ids(getFilteredTransactions(transactions, { searchTerm: 'alimentacao' }))).toEqual(['t4', 't1']);
+    expect(ids(getFilteredTransactions(transactions, { searchTerm: '   ' }))).toHaveLength(4);
+  });
+
+  test('aplica os operadores da busca', () => {
+    expect(ids(getFilteredTransactions(transactions, { searchTerm: '>40 tipo:despesa' }))).toEqual(['t1']);
+  });
+
+  test('filtra pela categoria exata', () => {
+    expect(ids(getFilteredTransactions(transactions, { category: 'Transporte' }))).toEqual(['t3']);
+  });
+
+  test('combina tipo, busca e categoria', () => {
+    expect(ids(getFilteredTransactions(transactions, { type: 'expense', category: 'Alimentação', searchTerm: 'pada' }))).toEqual(['t4']);
+    expect(getFilteredTransactions(transactions, { type: 'income', category: 'Alimentação' })).toEqual([]);
+  });
+
+  test('filtra pela tag', () => {
+    const tagged = [
+      { ...transactions[0], tags: ['viagem-floripa'] },
+      { ...transactions[2], tags: ['viagem-floripa', 'trabalho'] },
+      transactions[3]
+    ];
+    expect(ids(getFilteredTransactions(tagged, { tag: 'viagem-floripa' }))).toEqual(['t3', 't1']);
+    expect(ids(getFilteredTransactions(tagged, { tag: 'trabalho' }))).toEqual(['t3']);
+  });
+
+  test('uma transação dividida aparece no filtro de qualquer uma das suas categorias', () => {
+    const split: Transaction = {
+      ...transactions[0],
+      _id: 't5',
+      amount: 80,
+      splits: [{ category: 'Alimentação', amount: 60 }, { category: 'Limpeza', amount: 20 }]
+    };
+    expect(ids(getFilteredTransactions([split, transactions[2]], { category: 'Limpeza' }))).toEqual(['t5']);
+    expect(ids(getFilteredTransactions([split, transactions[2]], { searchTerm: 'cat:limpeza' }))).toEqual(['t5']);
+  });
+});
+
+describe('getCategories', () => {
+  test('lista categorias sem repetição, em ordem alfabética', () => {
+    expect(getCategories(transactions)).toEqual(['Alimentação', 'Salário', 'Transporte']);
+    expect(getCategories(transactions, 'expense')).toEqual(['Alimentação', 'Transporte']);
+  });
+
+  test('inclui as categorias das divisões', () => {
+    const split: Transaction = { ...transactions[0], splits: [{ category: 'Alimentação', amount: 40 }, { category: 'Limpeza', amount: 10 }] };
+    expect(getCategories([split, transactions[2]])).toEqual(['Alimentação', 'Limpeza', 'Transporte']);
+  });
+});
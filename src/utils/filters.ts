@@ -0,0 +1,40 @@
+import { Transaction, TransactionType } from '../types/finance';
+import { matchesSearch, parseSearchQuery } from './search';
+import { getTransactionCategories } from './splits';
+
+// Filtros da lista de transações (o período é aplicado antes, ver utils/period)
+
+export interface TransactionFilters {
+  type?: TransactionType | null;
+  searchTerm?: string;
+  category?: string;
+  // Categorias dentro do grupo escolhido em "category", que também entram
+  subcategories?: string[];
+  // Conta de origem ou, nas transferências, de destino
+  accountId?: string;
+  tag?: string;
+}
+
+// Mais recentes primeiro, sem alterar a lista original
+export const sortByDateDesc = (transactions: Transaction[]): Transaction[] =>
+  [...transactions].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+// A busca aceita operadores de valor, categoria, tipo e data (ver utils/search).
+// Uma transação dividida aparece no filtro de qualquer uma das suas categorias.
+export const getFilteredTransactions = (transactions: Transaction[], filters: TransactionFilters = {}): Transaction[] => {
+  const { type, searchTerm, category, subcategories = [], accountId, tag } = filters;
+  const search = parseSearchQuery(searchTerm || '');
+
+  return sortByDateDesc(
+    transactions.filter(t =>
+      (!type || t.type === type) &&
+      (!category || getTransactionCategories(t).some(c => c === category || subcategories.includes(c))) &&
+      (!accountId || t.accountId === accountId || t.toAccountId === accountId) &&
+      (!tag || (t.tags || []).includes(tag)) &&
+      matchesSearch(t, search)
+    )
+  );
+};
+
+export const getCategories = (transactions: Transaction[], type?: TransactionType): string[] =>
+  [...new Set(transactions.filter(t => !type || t.type === type).flatMap(getTransactionCategories))].sort();
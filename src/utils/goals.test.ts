@@ -0,0 +1,80 @@
+import { Goal, Transaction } from '../types/finance';
+import { getGoalsPlan, getMonthlySurplus, getMonthsLeft } from './goals';
+import { makeTransaction } from '../test/fixtures';
+
+const now = new Date(2024, 8, 15, 12);
+
+const tx = (overrides: Partial<Transaction>) => makeTransaction({ createdAt: new Date(2024, 7, 10, 12).toISOString(), ...overrides });
+
+const goal = (overrides: Partial<Goal>): Goal => ({
+  _id: 'g1',
+  name: 'Reserva de emergência',
+  targetAmount: 10000,
+  targetDate: '2025-08-31',
+  initialAmount: 0,
+  ...overrides
+});
+
+// Junho, julho e agosto com R$ 3.000 de salário e R$ 2.000 de despesas
+const history: Transaction[] = [5, 6, 7].flatMap(month => [
+  tx({ type: 'income', amount: 3000, createdAt: new Date(2024, month, 5, 12).toISOString() }),
+  tx({ type: 'expense', amount: 2000, createdAt: new Date(2024, month, 20, 12).toISOString() })
+]);
+
+describe('getMonthsLeft', () => {
+  test('conta o mês atual e o da data-alvo', () => {
+    expect(getMonthsLeft('2024-09-30', now)).toBe(1);
+    expect(getMonthsLeft('2025-08-31', now)).toBe(12);
+  });
+
+  test('zera quando o prazo já passou', () => {
+    expect(getMonthsLeft('2024-09-14', now)).toBe(0);
+    expect(getMonthsLeft('2024-09-15', now)).toBe(1);
+  });
+});
+
+describe('getMonthlySurplus', () => {
+  test('faz a média dos meses fechados, ignorando o mês atual, transferências e contribuições', () => {
+    const extras = [
+      tx({ type: 'expense', amount: 500, createdAt: new Date(2024, 8, 2, 12).toISOString() }),
+      tx({ type: 'transfer', amount: 700 }),
+      tx({ type: 'expense', amount: 300, goalId: 'g1' })
+    ];
+    expect(getMonthlySurplus([...history, ...extras], now)).toBe(1000);
+  });
+});
+
+describe('getGoalsPlan', () => {
+  test('soma o valor inicial às contribuições e calcula quanto falta por mês', () => {
+    const contributions = [tx({ amount: 1000, goalId: 'g1' }), tx({ type: 'transfer', amount: 1000, goalId: 'g1' })];
+    const plan = getGoalsPlan([goal({ initialAmount: 2000 })], [...history, ...contributions], now);
+
+    expect(plan.monthlySurplus).toBe(1000);
+    expect(plan.goals[0]).toMatchObject({ saved: 4000, remaining: 6000, percent: 40, monthsLeft: 12, requiredMonthly: 500, status: 'on-track' });
+    expect(plan.goals[0].contributions).toHaveLength(2);
+  });
+
+  test('a sobra atende primeiro o prazo mais próximo', () => {
+    const plan = getGoalsPlan([
+      goal({ _id: 'longe', targetAmount: 12000, targetDate: '2025-08-31' }),
+      goal({ _id: 'perto', name: 'Viagem', targetAmount: 2400, targetDate: '2024-12-31' })
+    ], history, now);
+
+    expect(plan.goals.map(g => [g.goal._id, g.requiredMonthly, g.status])).toEqual([
+      ['perto', 600, 'on-track'],
+      ['longe', 1000, 'behind']
+    ]);
+    expect(plan.totalRequiredMonthly).toBe(1600);
+  });
+
+  test('marca metas concluídas e com prazo vencido', () => {
+    const plan = getGoalsPlan([
+      goal({ _id: 'ok', initialAmount: 10000 }),
+      goal({ _id: 'atrasada', targetDate: '2024-08-31' })
+    ], history, now);
+
+    expect(plan.goals.map(g => g.status)).toEqual(['overdue', 'done']);
+    expect(plan.goals[1].percent).toBe(100);
+    expect(plan.totalRequiredMonthly).toBe(0);
+  });
+});
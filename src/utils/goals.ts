@@ -0,0 +1,107 @@
+import { Goal, Transaction } from '../types/finance';
+import { parseDateInput } from './period';
+
+// Progresso das metas de economia e quanto falta guardar por mês
+
+export type GoalStatus = 'done' | 'on-track' | 'behind' | 'overdue';
+
+export interface GoalProgress {
+  goal: Goal;
+  contributions: Transaction[];
+  saved: number;
+  remaining: number;
+  percent: number; // 0 a 100
+  monthsLeft: number; // meses até a data-alvo, contando o atual; 0 se o prazo passou
+  requiredMonthly: number;
+  status: GoalStatus;
+}
+
+export interface GoalsPlan {
+  goals: GoalProgress[];
+  // Média mensal de receitas menos despesas, sem contar as contribuições
+  monthlySurplus: number;
+  totalRequiredMonthly: number;
+}
+
+export const GOAL_STATUS_LABELS: Record<GoalStatus, string> = {
+  done: 'Concluída',
+  'on-track': 'No ritmo',
+  behind: 'Abaixo do ritmo',
+  overdue: 'Prazo vencido'
+};
+
+// Meses usados para medir o ritmo de sobra do usuário
+export const SURPLUS_MONTHS = 3;
+
+export const getMonthsLeft = (targetDate: string, now: Date = new Date()): number => {
+  const target = parseDateInput(targetDate);
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  if (target < today) return 0;
+  return (target.getFullYear() - now.getFullYear()) * 12 + target.getMonth() - now.getMonth() + 1;
+};
+
+// Sobra média dos últimos meses fechados; o mês atual ainda está pela metade.
+// Contribuições ficam de fora para não descontar do ritmo o que já foi guardado.
+export const getMonthlySurplus = (transactions: Transaction[], now: Date = new Date(), months = SURPLUS_MONTHS): number => {
+  const start = new Date(now.getFullYear(), now.getMonth() - months, 1);
+  const end = new Date(now.getFullYear(), now.getMonth(), 1);
+  const net = transactions
+    .filter(t => !t.goalId && t.type !== 'transfer')
+    .filter(t => {
+      const date = new Date(t.createdAt);
+      return date >= start && date < end;
+    })
+    .reduce((sum, t) => sum + (t.type === 'income' ? t.amount : -t.amount), 0);
+  return net / months;
+};
+
+// Status null = ainda depende das outras metas ("no ritmo" ou "abaixo"), ver getGoalsPlan
+type MeasuredGoal = Omit<GoalProgress, 'status'> & { status: GoalStatus | null };
+
+const measureGoal = (goal: Goal, transactions: Transaction[], now: Date): MeasuredGoal => {
+  const contributions = transactions.filter(t => t.goalId === goal._id);
+  const saved = goal.initialAmount + contributions.reduce((sum, t) => sum + t.amount, 0);
+  const remaining = Math.max(0, goal.targetAmount - saved);
+  const monthsLeft = getMonthsLeft(goal.targetDate, now);
+  const percent = goal.targetAmount > 0 ? Math.min(100, (saved / goal.targetAmount) * 100) : 100;
+
+  return {
+    goal,
+    contributions,
+    saved,
+    remaining,
+    percent,
+    monthsLeft,
+    requiredMonthly: monthsLeft > 0 ? remaining / monthsLeft : remaining,
+    status: remaining === 0 ? 'done' : monthsLeft === 0 ? 'overdue' : null
+  };
+};
+
+// A sobra mensal atende primeiro as metas com prazo mais próximo;
+// a que não couber no que sobra fica "abaixo do ritmo"
+export const getGoalsPlan = (goals: Goal[], transactions: Transaction[], now: Date = new Date()): GoalsPlan => {
+  const monthlySurplus = getMonthlySurplus(transactions, now);
+  let available = Math.max(0, monthlySurplus);
+
+  const goalsProgress = goals
+    .map(goal => measureGoal(goal, transactions, now))
+    .sort((a, b) => a.goal.targetDate.localeCompare(b.goal.targetDate))
+    .map((item): GoalProgress => {
+      if (item.status) return { ...item, status: item.status };
+      const fits = item.requiredMonthly <= available + 0.005;
+      available = Math.max(0, available - item.requiredMonthly);
+      return { ...item, status: fits ? 'on-track' : 'behind' };
+    });
+
+  return {
+    goals: goalsProgress,
+    monthlySurplus,
+    totalRequiredMonthly: goalsProgress
+      .filter(item => item.status === 'on-track' || item.status === 'behind')
+      .reduce((sum, item) => sum + item.requiredMonthly, 0)
+  };
+};
+
+// "2025-08-31" -> "ago. de 2025"
+export const formatGoalDeadline = (targetDate: string): string =>
+  parseDateInput(targetDate).toLocaleDateString('pt-BR', { month: 'short', year: 'numeric' });
@@ -0,0 +1,75 @@
+import { HouseholdMember, Transaction } from '../types/finance';
+import { getMemberBalances, getPayer, getSettlements } from './household';
+import { makeTransaction } from '../test/fixtures';
+
+const tx = (overrides: Partial<Transaction>) => makeTransaction({ category: 'Moradia', userId: 'ana', ...overrides });
+
+const members: HouseholdMember[] = [
+  { userId: 'ana', name: 'Ana', phone: null },
+  { userId: 'bruno', name: 'Bruno', phone: '5511999990000' },
+  { userId: 'caio', name: 'Caio', phone: '5511988880000' }
+];
+
+describe('getPayer', () => {
+  test('usa quem pagou ou, sem essa informação, quem lançou', () => {
+    expect(getPayer(tx({ paidBy: 'bruno' }))).toBe('bruno');
+    expect(getPayer(tx({ paidBy: null }))).toBe('ana');
+  });
+});
+
+describe('getMemberBalances', () => {
+  test('divide só as despesas da casa entre todos os membros', () => {
+    const balances = getMemberBalances([
+      tx({ amount: 300, shared: true }),
+      tx({ amount: 90, shared: true, paidBy: 'bruno' }),
+      // Pessoal: não entra no acerto
+      tx({ amount: 500, paidBy: 'caio' }),
+      tx({ type: 'income', amount: 1000, shared: true })
+    ], members);
+
+    expect(balances).toEqual([
+      { userId: 'ana', paid: 300, share: 130, balance: 170 },
+      { userId: 'bruno', paid: 90, share: 130, balance: -40 },
+      { userId: 'caio', paid: 0, share: 130, balance: -130 }
+    ]);
+  });
+
+  test('os centavos da divisão fecham exatamente o total', () => {
+    const balances = getMemberBalances([tx({ amount: 100, shared: true })], members);
+
+    expect(balances.map(b => b.share)).toEqual([33.34, 33.33, 33.33]);
+    expect(balances.reduce((sum, b) => sum + b.balance, 0)).toBeCloseTo(0, 10);
+  });
+
+  test('acertos já feitos abatem o saldo', () => {
+    const balances = getMemberBalances([
+      tx({ amount: 300, shared: true }),
+      tx({ type: 'transfer', amount: 100, paidBy: 'caio', settlementTo: 'ana' })
+    ], members);
+
+    expect(balances.map(b => b.balance)).toEqual([100, -100, 0]);
+  });
+
+  test('ignora despesas de quem saiu da casa', () => {
+    const balances = getMemberBalances([tx({ amount: 300, shared: true, paidBy: 'dani' })], members);
+    expect(balances.every(b => b.balance === 0)).toBe(true);
+  });
+});
+
+describe('getSettlements', () => {
+  test('quem deve paga quem tem a receber, com o mínimo de pagamentos', () => {
+    const balances = getMemberBalances([
+      tx({ amount: 300, shared: true }),
+      tx({ amount: 90, shared: true, paidBy: 'bruno' })
+    ], members);
+
+    expect(getSettlements(balances)).toEqual([
+      { from: 'caio', to: 'ana', amount: 130 },
+      { from: 'bruno', to: 'ana', amount: 40 }
+    ]);
+  });
+
+  test('contas zeradas não geram pagamentos', () => {
+    expect(getSettlements(getMemberBalances([], members))).toEqual([]);
+  });
+});
@@ -0,0 +1,93 @@
+import { Household, HouseholdMember, Transaction } from '../types/finance';
+
+// Casa compartilhada: quem pagou cada lançamento e o acerto de contas das
+// despesas divididas. As contas são feitas em centavos para fechar exato.
+
+export interface MemberBalance {
+  userId: string;
+  // Despesas da casa que este membro pagou
+  paid: number;
+  // Parte dele nas despesas da casa
+  share: number;
+  // Positivo: tem a receber; negativo: deve para a casa (já descontados os acertos)
+  balance: number;
+}
+
+// "from" paga "to" para zerar as contas
+export interface Settlement {
+  from: string;
+  to: string;
+  amount: number;
+}
+
+export const SETTLEMENT_DESCRIPTION = 'Acerto de contas';
+
+export const getPayer = (transaction: Transaction): string => transaction.paidBy || transaction.userId;
+
+export const getMemberName = (household: Household | null, userId: string): string =>
+  household?.members.find(m => m.userId === userId)?.name || userId;
+
+export const isSettlement = (transaction: Transaction): boolean =>
+  transaction.type === 'transfer' && !!transaction.settlementTo;
+
+const toCents = (amount: number): number => Math.round(amount * 100);
+
+// Só contam despesas pagas por quem ainda é da casa; a divisão é entre os membros atuais.
+// Os centavos que sobram da divisão ficam com os primeiros membros da lista.
+export const getMemberBalances = (transactions: Transaction[], members: HouseholdMember[]): MemberBalance[] => {
+  const ids = members.map(m => m.userId);
+  const paid = new Map(ids.map(id => [id, 0]));
+  const share = new Map(ids.map(id => [id, 0]));
+  const settled = new Map(ids.map(id => [id, 0]));
+
+  transactions.forEach(t => {
+    const payer = getPayer(t);
+    if (!paid.has(payer)) return;
+    const cents = toCents(t.amount);
+
+    if (isSettlement(t) && settled.has(t.settlementTo as string)) {
+      settled.set(payer, (settled.get(payer) as number) + cents);
+      settled.set(t.settlementTo as string, (settled.get(t.settlementTo as string) as number) - cents);
+      return;
+    }
+    if (t.type !== 'expense' || !t.shared || ids.length === 0) return;
+
+    paid.set(payer, (paid.get(payer) as number) + cents);
+    const base = Math.floor(cents / ids.length);
+    const remainder = cents - base * ids.length;
+    ids.forEach((id, index) => share.set(id, (share.get(id) as number) + base + (index < remainder ? 1 : 0)));
+  });
+
+  return ids.map(id => {
+    const paidCents = paid.get(id) as number;
+    const shareCents = share.get(id) as number;
+    return {
+      userId: id,
+      paid: paidCents / 100,
+      share: shareCents / 100,
+      balance: (paidCents - shareCents + (settled.get(id) as number)) / 100
+    };
+  });
+};
+
+// Quem deve paga quem tem a receber, sempre o maior devedor para o maior credor:
+// no máximo (membros - 1) pagamentos
+export const getSettlements = (balances: MemberBalance[]): Settlement[] => {
+  const byAmount = (a: { cents: number; userId: string }, b: { cents: number; userId: string }) =>
+    b.cents - a.cents || a.userId.localeCompare(b.userId);
+  const creditors = balances.map(b => ({ userId: b.userId, cents: toCents(b.balance) })).filter(b => b.cents > 0).sort(byAmount);
+  const debtors = balances.map(b => ({ userId: b.userId, cents: -toCents(b.balance) })).filter(b => b.cents > 0).sort(byAmount);
+
+  const settlements: Settlement[] = [];
+  let c = 0;
+  let d = 0;
+  while (c < creditors.length && d < debtors.length) {
+    const cents = Math.min(creditors[c].cents, debtors[d].cents);
+    settlements.push({ from: debtors[d].userId, to: creditors[c].userId, amount: cents / 100 });
+    creditors[c].cents -= cents;
+    debtors[d].cents -= cents;
+    if (creditors[c].cents === 0) c++;
+    if (debtors[d].cents === 0) d++;
+  }
+  return settlements;
+};
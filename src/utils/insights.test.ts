@@ -0,0 +1,136 @@
+import { RecurringRule, Transaction } from '../types/finance';
+import { formatCurrency } from './currency';
+import { detectNewRecurringCharges, detectUnusualExpenses, forecastMonthEnd, getInsights } from './insights';
+import { makeTransaction } from '../test/fixtures';
+
+// 20 de setembro de 2024: faltam 10 dias para o fim do mês
+const now = new Date(2024, 8, 20, 12);
+
+const tx = (description: string, amount: number, month: number, day: number, overrides: Partial<Transaction> = {}) =>
+  makeTransaction({ description, amount, createdAt: new Date(2024, month, day, 12).toISOString(), ...overrides });
+
+const rule = (description: string, amount: number, dayOfMonth: number, type: RecurringRule['type'] = 'expense'): RecurringRule => ({
+  _id: `r-${description}`,
+  type,
+  amount,
+  description,
+  category: 'Moradia',
+  frequency: 'monthly',
+  dayOfMonth,
+  startDate: '2024-01-01',
+  endDate: null,
+  lastMaterialized: '2024-09-01'
+});
+
+// Mercado entre R$ 38 e R$ 50 e um jantar de R$ 300; aluguel sempre igual
+const food = { category: 'Alimentação' };
+const housing = { category: 'Moradia' };
+const unusualDataset: Transaction[] = [
+  tx('Mercado', 40, 6, 3, food),
+  tx('Padaria', 45, 6, 18, food),
+  tx('Mercado', 50, 7, 2, food),
+  tx('Feira', 38, 7, 16, food),
+  tx('Mercado', 42, 8, 1, food),
+  tx('Jantar de aniversário', 300, 8, 15, food),
+  tx('Aluguel', 1200, 5, 10, housing),
+  tx('Aluguel', 1200, 6, 10, housing),
+  tx('Aluguel', 1200, 7, 10, housing),
+  tx('Conta de luz', 100, 7, 28, housing),
+  tx('Aluguel', 1200, 8, 10, housing),
+  // Caro, mas a categoria não tem histórico suficiente
+  tx('Show', 500, 8, 12, { category: 'Lazer' }),
+  tx('Cinema', 40, 7, 12, { category: 'Lazer' })
+];
+
+const recurringDataset: Transaction[] = [
+  tx('Netflix', 39.9, 6, 25),
+  tx('Netflix', 39.9, 7, 25),
+  // Assinatura antiga: começou bem antes dos últimos 100 dias
+  ...[0, 1, 2, 3, 4, 5, 6, 7].map(month => tx('Spotify', 21.9, month, 5)),
+  // Já cadastrada como recorrente
+  tx('Academia 07/2024', 99.9, 6, 15),
+  tx('Academia 08/2024', 99.9, 7, 15),
+  // Mesmo nome, valor muito diferente
+  tx('Streaming', 39.9, 6, 12),
+  tx('Streaming', 55.9, 7, 12),
+  // Cobrança mensal que parou
+  tx('Revista', 15, 3, 1),
+  tx('Revista', 15, 4, 1)
+];
+
+describe('detectUnusualExpenses', () => {
+  test('aponta o gasto muito acima da mediana da categoria', () => {
+    const insights = detectUnusualExpenses(unusualDataset, now);
+
+    expect(insights).toHaveLength(1);
+    expect(insights[0]).toMatchObject({
+      id: `unusual-${unusualDataset[5]._id}`,
+      kind: 'unusual-expense',
+      severity: 'alert',
+      transactionId: unusualDataset[5]._id
+    });
+    expect(insights[0].message).toContain(formatCurrency(42));
+    expect(insights[0].message).toContain('7,1x');
+  });
+
+  test('ignora gastos com mais de 30 dias', () => {
+    expect(detectUnusualExpenses(unusualDataset, new Date(2024, 9, 20, 12))).toEqual([]);
+  });
+});
+
+describe('detectNewRecurringCharges', () => {
+  test('encontra só a cobrança mensal nova, ativa e ainda não cadastrada', () => {
+    const insights = detectNewRecurringCharges(recurringDataset, [rule('Academia', 99.9, 8)], now);
+
+    expect(insights.map(i => i.id)).toEqual(['recurring-netflix']);
+    expect(insights[0]).toMatchObject({ kind: 'new-recurring', transactionId: recurringDataset[1]._id });
+    expect(insights[0].message).toContain('2 meses seguidos');
+  });
+
+  test('sem a regra, a academia também aparece', () => {
+    expect(detectNewRecurringCharges(recurringDataset, [], now).map(i => i.id)).toEqual(['recurring-academia', 'recurring-netflix']);
+  });
+});
+
+describe('forecastMonthEnd', () => {
+  // Agosto fechou com R$ 500; em setembro, salário, aluguel (recorrente) e R$ 600 de gastos do dia a dia
+  const monthDataset: Transaction[] = [
+    tx('Salário', 3000, 7, 5, { type: 'income' }),
+    tx('Gastos de agosto', 2500, 7, 20),
+    tx('Salário', 3000, 8, 5, { type: 'income' }),
+    tx('Aluguel', 1200, 8, 10),
+    tx('Mercado', 400, 8, 12),
+    tx('Farmácia', 200, 8, 18),
+    tx('Reserva', 300, 8, 6, { type: 'transfer' }),
+    // Parcela que ainda vai cair neste mês, e outra só no mês que vem
+    tx('Geladeira', 100, 8, 25, { installment: { groupId: 'g', number: 2, total: 10 } }),
+    tx('Geladeira', 100, 9, 25, { installment: { groupId: 'g', number: 3, total: 10 } })
+  ];
+  const rules = [rule('Aluguel', 1200, 10), rule('Conta de luz', 100, 28)];
+
+  test('projeta o saldo com o ritmo diário e o que já está agendado', () => {
+    expect(forecastMonthEnd(monthDataset, rules, now)).toEqual({
+      currentBalance: 1700,
+      dailyPace: 30,
+      daysLeft: 10,
+      scheduledNet: -200,
+      projectedBalance: 1200,
+      projectedMonthNet: 700
+    });
+  });
+
+  test('sem lançamentos no mês não há previsão', () => {
+    expect(forecastMonthEnd(monthDataset, rules, new Date(2024, 11, 5))).toBeNull();
+  });
+});
+
+describe('getInsights', () => {
+  test('ordena por gravidade e relevância, de forma determinística', () => {
+    const dataset = [...unusualDataset, ...recurringDataset, tx('Mercado', 45, 8, 19, food)];
+    const first = getInsights(dataset, [rule('Academia', 99.9, 8)], now);
+
+    expect(first.map(i => i.kind)).toEqual(['unusual-expense', 'month-end-forecast', 'new-recurring']);
+    expect(first[1].severity).toBe('alert');
+    expect(getInsights([...dataset].reverse(), [rule('Academia', 99.9, 8)], now)).toEqual(first);
+  });
+});
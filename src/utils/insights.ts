@@ -0,0 +1,221 @@
+import { RecurringRule, Transaction } from '../types/finance';
+import { normalizeText } from './commandParser';
+import { formatCurrency } from './currency';
+import { getUpcomingEntries } from './recurring';
+
+// Insights do dashboard: gastos fora do padrão da categoria, assinaturas novas
+// e a previsão do fim do mês. Tudo depende só das transações, das regras
+// recorrentes e de `now`, para ser previsível e testável.
+
+export type InsightKind = 'unusual-expense' | 'new-recurring' | 'month-end-forecast';
+
+export type InsightSeverity = 'alert' | 'warning' | 'info' | 'positive';
+
+export interface Insight {
+  id: string; // estável entre renders, para as keys e para dispensar
+  kind: InsightKind;
+  severity: InsightSeverity;
+  title: string;
+  message: string;
+  // Relevância dentro da mesma gravidade, de 0 a 100
+  score: number;
+  transactionId?: string;
+}
+
+export interface MonthEndForecast {
+  currentBalance: number;
+  // Média diária dos gastos variáveis do mês (sem parcelas, contas recorrentes e contribuições para metas)
+  dailyPace: number;
+  daysLeft: number;
+  // Parcelas e recorrências que ainda vencem neste mês (receitas positivas)
+  scheduledNet: number;
+  projectedBalance: number;
+  projectedMonthNet: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Gasto fora do padrão: só olhamos os últimos dias e exigimos um histórico mínimo na categoria
+const UNUSUAL_WINDOW_DAYS = 30;
+const MIN_CATEGORY_HISTORY = 4;
+// Z-score robusto (mediana e desvio absoluto mediano) acima do qual o gasto chama atenção
+const UNUSUAL_Z_SCORE = 3.5;
+const UNUSUAL_MIN_RATIO = 2;
+
+// Cobrança recorrente: intervalos de um mês (com folga) e valores parecidos
+const MONTHLY_GAP_DAYS = { min: 25, max: 35 };
+const SAME_AMOUNT_TOLERANCE = 0.15;
+// "Nova" = começou há pouco e continua ativa
+const NEW_SERIES_DAYS = 100;
+const ACTIVE_SERIES_DAYS = 40;
+
+const SEVERITY_WEIGHT: Record<InsightSeverity, number> = { alert: 300, warning: 200, info: 100, positive: 0 };
+
+const daysBetween = (from: Date, to: Date): number => (to.getTime() - from.getTime()) / DAY_MS;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+const clampScore = (value: number): number => Math.max(0, Math.min(100, Math.round(value)));
+
+// Descrição sem acentos, números nem pontuação ("Netflix 09/2024" e "Netflix 10/2024" são a mesma cobrança)
+const seriesKey = (description: string): string => normalizeText(description).replace(/[^a-z]+/g, ' ').trim();
+
+// Parcelas e futuras ficam de fora: as parcelas já são recorrentes por definição
+const pastExpenses = (transactions: Transaction[], now: Date): Transaction[] =>
+  transactions
+    .filter(t => t.type === 'expense' && !t.installment && new Date(t.createdAt) <= now)
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+const isSimilarAmount = (a: number, b: number): boolean => Math.abs(a - b) <= SAME_AMOUNT_TOLERANCE * Math.max(a, b);
+
+export const detectUnusualExpenses = (transactions: Transaction[], now: Date = new Date()): Insight[] => {
+  const expenses = pastExpenses(transactions, now);
+
+  return expenses.flatMap(candidate => {
+    const date = new Date(candidate.createdAt);
+    if (daysBetween(date, now) > UNUSUAL_WINDOW_DAYS) return [];
+
+    const history = expenses.filter(t => t.category === candidate.category && t._id !== candidate._id && new Date(t.createdAt) < date);
+    if (history.length < MIN_CATEGORY_HISTORY) return [];
+    // Gasto conhecido, como o aluguel: mesma descrição e valor parecido antes
+    const key = seriesKey(candidate.description);
+    if (history.some(t => seriesKey(t.description) === key && isSimilarAmount(t.amount, candidate.amount))) return [];
+
+    const typical = median(history.map(t => t.amount));
+    const deviation = median(history.map(t => Math.abs(t.amount - typical)));
+    const ratio = typical > 0 ? candidate.amount / typical : Infinity;
+    // Histórico todo igual (desvio zero): basta passar da proporção mínima
+    const zScore = deviation > 0 ? (0.6745 * (candidate.amount - typical)) / deviation : Infinity;
+    if (zScore < UNUSUAL_Z_SCORE || ratio < UNUSUAL_MIN_RATIO) return [];
+
+    return [{
+      id: `unusual-${candidate._id}`,
+      kind: 'unusual-expense' as const,
+      severity: ratio >= 4 ? ('alert' as const) : ('warning' as const),
+      title: `Gasto fora do padrão em ${candidate.category}`,
+      message: `${candidate.description} custou ${formatCurrency(candidate.amount)}, ${ratio.toFixed(1).replace('.', ',')}x o gasto típico da categoria (${formatCurrency(typical)}).`,
+      score: clampScore(ratio * 10),
+      transactionId: candidate._id
+    }];
+  });
+};
+
+export const detectNewRecurringCharges = (
+  transactions: Transaction[],
+  rules: RecurringRule[] = [],
+  now: Date = new Date()
+): Insight[] => {
+  const knownKeys = new Set(rules.map(rule => seriesKey(rule.description)));
+  const groups = new Map<string, Transaction[]>();
+  pastExpenses(transactions, now).forEach(t => {
+    const key = seriesKey(t.description);
+    if (!key || knownKeys.has(key)) return;
+    groups.set(key, [...(groups.get(key) || []), t]);
+  });
+
+  const insights: Insight[] = [];
+  groups.forEach((occurrences, key) => {
+    // Sequência final de cobranças mensais com valores parecidos com a última
+    const last = occurrences[occurrences.length - 1];
+    const run = [last];
+    for (let i = occurrences.length - 2; i >= 0; i--) {
+      const gap = daysBetween(new Date(occurrences[i].createdAt), new Date(run[0].createdAt));
+      if (gap < MONTHLY_GAP_DAYS.min || gap > MONTHLY_GAP_DAYS.max || !isSimilarAmount(occurrences[i].amount, last.amount)) break;
+      run.unshift(occurrences[i]);
+    }
+
+    const first = run[0];
+    if (
+      run.length < 2 ||
+      daysBetween(new Date(first.createdAt), now) > NEW_SERIES_DAYS ||
+      daysBetween(new Date(last.createdAt), now) > ACTIVE_SERIES_DAYS
+    ) return;
+
+    insights.push({
+      id: `recurring-${key}`,
+      kind: 'new-recurring',
+      severity: 'info',
+      title: 'Nova cobrança recorrente',
+      message: `${last.description} foi cobrado ${run.length} meses seguidos (${formatCurrency(last.amount)}). ` +
+        'Se for uma assinatura, cadastre como recorrente para entrar nas previsões.',
+      score: clampScore(last.amount / 5),
+      transactionId: last._id
+    });
+  });
+  return insights;
+};
+
+const signedAmount = (entry: Pick<Transaction, 'type' | 'amount'>): number => {
+  if (entry.type === 'transfer') return 0;
+  return entry.type === 'income' ? entry.amount : -entry.amount;
+};
+
+// Saldo no fim do mês: o de hoje, mais o que já está agendado (parcelas e
+// recorrências) e os gastos variáveis no ritmo diário do mês até agora.
+// null quando ainda não há lançamentos no mês para medir o ritmo.
+export const forecastMonthEnd = (
+  transactions: Transaction[],
+  rules: RecurringRule[] = [],
+  now: Date = new Date()
+): MonthEndForecast | null => {
+  const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+  const monthEnd = new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59, 999);
+  const daysLeft = monthEnd.getDate() - now.getDate();
+
+  const past = transactions.filter(t => new Date(t.createdAt) <= now);
+  const thisMonth = past.filter(t => new Date(t.createdAt) >= monthStart);
+  if (thisMonth.length === 0) return null;
+
+  const recurringKeys = new Set(rules.map(rule => seriesKey(rule.description)));
+  const variableSpent = thisMonth
+    .filter(t => t.type === 'expense' && !t.installment && !t.goalId && !recurringKeys.has(seriesKey(t.description)))
+    .reduce((sum, t) => sum + t.amount, 0);
+  const dailyPace = variableSpent / now.getDate();
+
+  const scheduledInstallments = transactions
+    .filter(t => {
+      const date = new Date(t.createdAt);
+      return date > now && date <= monthEnd;
+    })
+    .reduce((sum, t) => sum + signedAmount(t), 0);
+  const scheduledRecurring = getUpcomingEntries(rules, daysLeft, now).reduce((sum, entry) => sum + signedAmount(entry), 0);
+  const scheduledNet = scheduledInstallments + scheduledRecurring;
+
+  const currentBalance = past.reduce((sum, t) => sum + signedAmount(t), 0);
+  const remainingNet = scheduledNet - dailyPace * daysLeft;
+  return {
+    currentBalance,
+    dailyPace,
+    daysLeft,
+    scheduledNet,
+    projectedBalance: currentBalance + remainingNet,
+    projectedMonthNet: thisMonth.reduce((sum, t) => sum + signedAmount(t), 0) + remainingNet
+  };
+};
+
+const monthEndInsight = (forecast: MonthEndForecast): Insight => {
+  const negative = forecast.projectedMonthNet < 0;
+  return {
+    id: 'month-end-forecast',
+    kind: 'month-end-forecast',
+    severity: forecast.projectedBalance < 0 ? 'alert' : negative ? 'warning' : 'positive',
+    title: negative ? 'O mês deve fechar no vermelho' : 'Previsão para o fim do mês',
+    message: `No ritmo atual (${formatCurrency(forecast.dailyPace)}/dia em gastos variáveis), o saldo fecha o mês em ` +
+      `${formatCurrency(forecast.projectedBalance)} e o mês termina com ${formatCurrency(forecast.projectedMonthNet)}.`,
+    score: clampScore(Math.abs(forecast.projectedMonthNet) / 50)
+  };
+};
+
+// Todos os insights, dos mais importantes para os menos
+export const getInsights = (transactions: Transaction[], rules: RecurringRule[] = [], now: Date = new Date()): Insight[] => {
+  const forecast = forecastMonthEnd(transactions, rules, now);
+  return [
+    ...(forecast ? [monthEndInsight(forecast)] : []),
+    ...detectUnusualExpenses(transactions, now),
+    ...detectNewRecurringCharges(transactions, rules, now)
+  ].sort((a, b) => SEVERITY_WEIGHT[b.severity] + b.score - (SEVERITY_WEIGHT[a.severity] + a.score) || a.id.localeCompare(b.id));
+};
@@ -0,0 +1,103 @@
+import { PeriodFilter, PeriodPreset, ReportPeriod } from '../types/finance';
+
+export const PERIOD_LABELS: Record<PeriodPreset, string> = {
+  today: 'Hoje',
+  week: 'Últimos 7 dias',
+  month: 'Este mês',
+  all: 'Geral',
+  custom: 'Personalizado'
+};
+
+export const ALL_TIME: PeriodFilter = { preset: 'all' };
+
+const PRESETS = Object.keys(PERIOD_LABELS) as PeriodPreset[];
+const DATE_INPUT = /^\d{4}-\d{2}-\d{2}$/;
+
+const startOfDay = (date: Date): Date => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+};
+
+// "2024-09-30" -> Date local (new Date("2024-09-30") seria meia-noite UTC)
+export const parseDateInput = (value: string): Date => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Date -> "2024-09-30" no fuso local, o formato dos <input type="date">
+export const toDateInput = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Início do período; null para "geral" (sem limite)
+export const getPeriodStart = (period: ReportPeriod, now: Date = new Date()): Date | null => {
+  switch (period) {
+    case 'today':
+      return startOfDay(now);
+    case 'week': {
+      const start = startOfDay(now);
+      start.setDate(start.getDate() - 6);
+      return start;
+    }
+    case 'month':
+      return new Date(now.getFullYear(), now.getMonth(), 1);
+    case 'all':
+      return null;
+  }
+};
+
+// Intervalo [start, end) do filtro; null significa sem limite daquele lado
+export const getPeriodRange = (filter: PeriodFilter, now: Date = new Date()): { start: Date | null; end: Date | null } => {
+  if (filter.preset !== 'custom') {
+    return { start: getPeriodStart(filter.preset, now), end: null };
+  }
+
+  const end = filter.to ? parseDateInput(filter.to) : null;
+  if (end) end.setDate(end.getDate() + 1);
+  return { start: filter.from ? parseDateInput(filter.from) : null, end };
+};
+
+export const isWithinPeriod = (dateString: string, filter: PeriodFilter, now: Date = new Date()): boolean => {
+  const { start, end } = getPeriodRange(filter, now);
+  const time = new Date(dateString).getTime();
+  return (start === null || time >= start.getTime()) && (end === null || time < end.getTime());
+};
+
+const formatDateInput = (value: string): string => parseDateInput(value).toLocaleDateString('pt-BR');
+
+export const getPeriodLabel = (filter: PeriodFilter): string => {
+  if (filter.preset !== 'custom') return PERIOD_LABELS[filter.preset];
+  if (filter.from && filter.to) return `${formatDateInput(filter.from)} – ${formatDateInput(filter.to)}`;
+  if (filter.from) return `Desde ${formatDateInput(filter.from)}`;
+  if (filter.to) return `Até ${formatDateInput(filter.to)}`;
+  return PERIOD_LABELS.custom;
+};
+
+// O período fica na query string, ao lado dos filtros da lista (ver routes.ts); quem é o
+// usuário vem da sessão. Ex.: /transacoes?period=custom&from=2024-09-01&to=2024-09-30&categoria=Lazer
+export const readPeriodFromParams = (params: URLSearchParams): PeriodFilter => {
+  const preset = params.get('period') as PeriodPreset | null;
+  if (!preset || !PRESETS.includes(preset)) return ALL_TIME;
+  if (preset !== 'custom') return { preset };
+
+  const from = params.get('from');
+  const to = params.get('to');
+  return {
+    preset,
+    from: from && DATE_INPUT.test(from) ? from : undefined,
+    to: to && DATE_INPUT.test(to) ? to : undefined
+  };
+};
+
+export const writePeriodToParams = (params: URLSearchParams, filter: PeriodFilter): void => {
+  params.delete('period');
+  params.delete('from');
+  params.delete('to');
+  if (filter.preset === 'all') return;
+
+  params.set('period', filter.preset);
+  if (filter.preset === 'custom') {
+    if (filter.from) params.set('from', filter.from);
+    if (filter.to) params.set('to', filter.to);
+  }
+};
@@ -0,0 +1,116 @@
+import { RecurringRule, Transaction } from '../types/finance';
+import {
+  getDueOccurrences,
+  getMonthClosingForecast,
+  getOccurrences,
+  getProjectedBalance,
+  getUpcomingEntries,
+  toTransactionInput
+} from './recurring';
+
+const rule = (overrides: Partial<RecurringRule>): RecurringRule => ({
+  _id: 'r1',
+  type: 'expense',
+  amount: 100,
+  description: 'Conta de luz',
+  category: 'Moradia',
+  frequency: 'monthly',
+  dayOfMonth: 15,
+  startDate: '2024-01-01',
+  endDate: null,
+  lastMaterialized: null,
+  ...overrides
+});
+
+describe('getOccurrences', () => {
+  test('repete todo mês no dia escolhido', () => {
+    expect(getOccurrences(rule({}), '2024-03-01', '2024-05-31')).toEqual(['2024-03-15', '2024-04-15', '2024-05-15']);
+  });
+
+  test('usa o último dia em meses mais curtos', () => {
+    expect(getOccurrences(rule({ dayOfMonth: 31 }), '2024-01-01', '2024-04-30')).toEqual([
+      '2024-01-31',
+      '2024-02-29',
+      '2024-03-31',
+      '2024-04-30'
+    ]);
+  });
+
+  test('respeita início, fim e frequência', () => {
+    expect(getOccurrences(rule({ startDate: '2024-01-20' }), '2024-01-01', '2024-02-28')).toEqual(['2024-02-15']);
+    expect(getOccurrences(rule({ endDate: '2024-02-15' }), '2024-01-01', '2024-12-31')).toEqual(['2024-01-15', '2024-02-15']);
+    expect(getOccurrences(rule({ frequency: 'quarterly' }), '2024-01-01', '2024-12-31')).toEqual([
+      '2024-01-15',
+      '2024-04-15',
+      '2024-07-15',
+      '2024-10-15'
+    ]);
+    expect(getOccurrences(rule({ frequency: 'yearly' }), '2024-01-01', '2026-06-30')).toEqual([
+      '2024-01-15',
+      '2025-01-15',
+      '2026-01-15'
+    ]);
+  });
+});
+
+describe('getDueOccurrences', () => {
+  const now = new Date(2024, 3, 20, 10);
+
+  test('lança tudo desde o início quando nada foi lançado', () => {
+    expect(getDueOccurrences(rule({ startDate: '2024-02-01' }), now)).toEqual(['2024-02-15', '2024-03-15', '2024-04-15']);
+  });
+
+  test('continua a partir da última ocorrência lançada', () => {
+    expect(getDueOccurrences(rule({ lastMaterialized: '2024-03-15' }), now)).toEqual(['2024-04-15']);
+    expect(getDueOccurrences(rule({ lastMaterialized: '2024-04-15' }), now)).toEqual([]);
+  });
+
+  test('gera a transação ao meio-dia do vencimento', () => {
+    expect(toTransactionInput(rule({}), '2024-04-15')).toEqual({
+      type: 'expense',
+      amount: 100,
+      description: 'Conta de luz',
+      category: 'Moradia',
+      createdAt: new Date(2024, 3, 15, 12).toISOString(),
+      recurrenceKey: 'r1:2024-04-15'
+    });
+  });
+});
+
+describe('previsão', () => {
+  const now = new Date(2024, 3, 20, 10);
+  const rules = [
+    rule({}),
+    rule({ _id: 'r2', type: 'income', amount: 3000, description: 'Salário', category: 'Trabalho', dayOfMonth: 5 }),
+    rule({ _id: 'r3', amount: 1200, description: 'Aluguel', dayOfMonth: 25 })
+  ];
+
+  test('lista as próximas ocorrências em ordem de data', () => {
+    const upcoming = getUpcomingEntries(rules, 30, now);
+    expect(upcoming.map(entry => `${entry.date} ${entry.description}`)).toEqual([
+      '2024-04-25 Aluguel',
+      '2024-05-05 Salário',
+      '2024-05-15 Conta de luz'
+    ]);
+  });
+
+  test('projeta o saldo dia a dia', () => {
+    const upcoming = getUpcomingEntries(rules, 30, now);
+    const points = getProjectedBalance(500, upcoming, 30, now);
+
+    expect(points).toHaveLength(31);
+    expect(points[0]).toEqual({ date: '2024-04-20', balance: 500 });
+    expect(points.find(p => p.date === '2024-04-25')?.balance).toBe(-700);
+    expect(points.find(p => p.date === '2024-05-05')?.balance).toBe(2300);
+    expect(points[points.length - 1]).toEqual({ date: '2024-05-20', balance: 2200 });
+  });
+
+  test('fecha o mês somando o realizado com o que ainda vence', () => {
+    const transactions: Transaction[] = [
+      { _id: 't1', type: 'income', amount: 3000, description: 'Salário', category: 'Trabalho', createdAt: new Date(2024, 3, 5, 12).toISOString(), userId: 'u' },
+      { _id: 't2', type: 'expense', amount: 400, description: 'Mercado', category: 'Alimentação', createdAt: new Date(2024, 3, 10, 12).toISOString(), userId: 'u' },
+      { _id: 't3', type: 'expense', amount: 999, description: 'Mês passado', category: 'Outros', createdAt: new Date(2024, 2, 28, 12).toISOString(), userId: 'u' }
+    ];
+    expect(getMonthClosingForecast(transactions, getUpcomingEntries(rules, 30, now), now)).toBe(1400);
+  });
+});
@@ -0,0 +1,142 @@
+import { CashFlowType, RecurrenceFrequency, RecurringRule, Transaction, TransactionInput } from '../types/finance';
+import { parseDateInput, toDateInput } from './period';
+
+// Regras recorrentes: quando cada uma vence, o que já deve virar transação
+// e a previsão de contas e receitas para os próximos dias.
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  monthly: 'Mensal',
+  quarterly: 'Trimestral',
+  yearly: 'Anual'
+};
+
+const FREQUENCY_MONTHS: Record<RecurrenceFrequency, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12
+};
+
+export interface UpcomingEntry {
+  key: string;
+  ruleId: string;
+  date: string; // yyyy-mm-dd
+  type: CashFlowType;
+  amount: number;
+  description: string;
+  category: string;
+}
+
+export interface ProjectedBalancePoint {
+  date: string; // yyyy-mm-dd
+  balance: number;
+}
+
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+// Dia da regra naquele mês, limitado ao último dia (31 vira 30 em abril, 28/29 em fevereiro)
+const occurrenceInMonth = (year: number, month: number, dayOfMonth: number): Date => {
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  return new Date(year, month, Math.min(dayOfMonth, lastDay));
+};
+
+// Datas (yyyy-mm-dd) em que a regra vence dentro de [from, to], ambos inclusive
+export const getOccurrences = (rule: RecurringRule, from: string, to: string): string[] => {
+  const start = parseDateInput(rule.startDate);
+  const last = rule.endDate && rule.endDate < to ? rule.endDate : to;
+  const step = FREQUENCY_MONTHS[rule.frequency];
+  const dates: string[] = [];
+
+  for (let offset = 0; ; offset += step) {
+    const date = toDateInput(occurrenceInMonth(start.getFullYear(), start.getMonth() + offset, rule.dayOfMonth));
+    if (date > last) break;
+    if (date >= rule.startDate && date >= from) dates.push(date);
+  }
+  return dates;
+};
+
+// Ocorrências que já venceram (até hoje) e ainda não foram lançadas
+export const getDueOccurrences = (rule: RecurringRule, now: Date = new Date()): string[] => {
+  const from = rule.lastMaterialized ? toDateInput(addDays(parseDateInput(rule.lastMaterialized), 1)) : rule.startDate;
+  return getOccurrences(rule, from, toDateInput(now));
+};
+
+// Chave da ocorrência; o backend ignora uma criação repetida com a mesma chave
+export const getRecurrenceKey = (ruleId: string, date: string): string => `${ruleId}:${date}`;
+
+// Lançada ao meio-dia local, como as transações importadas de extrato
+export const toTransactionInput = (rule: RecurringRule, date: string): TransactionInput => {
+  const createdAt = parseDateInput(date);
+  createdAt.setHours(12, 0, 0, 0);
+  return {
+    type: rule.type,
+    amount: rule.amount,
+    description: rule.description,
+    category: rule.category,
+    createdAt: createdAt.toISOString(),
+    recurrenceKey: getRecurrenceKey(rule._id, date)
+  };
+};
+
+// Próximas contas e receitas, de amanhã até daqui a `days` dias (as de hoje já viram transação)
+export const getUpcomingEntries = (rules: RecurringRule[], days: number, now: Date = new Date()): UpcomingEntry[] => {
+  const from = toDateInput(addDays(now, 1));
+  const to = toDateInput(addDays(now, days));
+
+  return rules
+    .flatMap(rule =>
+      getOccurrences(rule, from, to).map(date => ({
+        key: `${rule._id}-${date}`,
+        ruleId: rule._id,
+        date,
+        type: rule.type,
+        amount: rule.amount,
+        description: rule.description,
+        category: rule.category
+      }))
+    )
+    .sort((a, b) => a.date.localeCompare(b.date) || a.description.localeCompare(b.description));
+};
+
+// Transferências não mudam o saldo total, só o de cada conta
+const signedAmount = (entry: Pick<Transaction, 'type' | 'amount'>): number => {
+  if (entry.type === 'transfer') return 0;
+  return entry.type === 'income' ? entry.amount : -entry.amount;
+};
+
+// Saldo dia a dia partindo do saldo atual e somando as próximas ocorrências
+export const getProjectedBalance = (
+  currentBalance: number,
+  upcoming: UpcomingEntry[],
+  days: number,
+  now: Date = new Date()
+): ProjectedBalancePoint[] => {
+  const points: ProjectedBalancePoint[] = [{ date: toDateInput(now), balance: currentBalance }];
+  let balance = currentBalance;
+
+  for (let day = 1; day <= days; day++) {
+    const date = toDateInput(addDays(now, day));
+    balance += upcoming.filter(entry => entry.date === date).reduce((sum, entry) => sum + signedAmount(entry), 0);
+    points.push({ date, balance });
+  }
+  return points;
+};
+
+// Resultado previsto do mês corrente: o que já entrou e saiu mais o que ainda vence até o fim do mês
+export const getMonthClosingForecast = (
+  transactions: Transaction[],
+  upcoming: UpcomingEntry[],
+  now: Date = new Date()
+): number => {
+  const monthPrefix = toDateInput(now).slice(0, 7);
+  const realized = transactions
+    .filter(t => toDateInput(new Date(t.createdAt)).startsWith(monthPrefix))
+    .reduce((sum, t) => sum + signedAmount(t), 0);
+  const pending = upcoming
+    .filter(entry => entry.date.startsWith(monthPrefix))
+    .reduce((sum, entry) => sum + signedAmount(entry), 0);
+  return realized + pending;
+};
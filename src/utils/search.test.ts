@@ -0,0 +1,101 @@
+import { Transaction } from '../types/finance';
+import { getHighlightSegments, matchesSearch, parseSearchQuery } from './search';
+
+const now = new Date(2024, 9, 1, 12);
+
+const transactions: Transaction[] = [
+  { _id: 't1', type: 'expense', amount: 50, description: 'Mercado do bairro', category: 'Alimentação', createdAt: new Date(2024, 8, 10, 9).toISOString(), userId: 'u' },
+  { _id: 't2', type: 'income', amount: 3000, description: 'Salário', category: 'Salário', createdAt: new Date(2024, 8, 5, 9).toISOString(), userId: 'u' },
+  { _id: 't3', type: 'expense', amount: 32.9, description: 'Uber centro', category: 'Transporte', createdAt: new Date(2024, 8, 30, 22).toISOString(), userId: 'u' },
+  { _id: 't4', type: 'expense', amount: 100, description: 'Conta de luz', category: 'Contas fixas', createdAt: new Date(2024, 7, 20, 9).toISOString(), userId: 'u' }
+];
+
+const search = (query: string) =>
+  transactions.filter(t => matchesSearch(t, parseSearchQuery(query, now))).map(t => t._id);
+
+describe('parseSearchQuery', () => {
+  test('separa texto livre dos operadores', () => {
+    expect(parseSearchQuery('Uber  >=20,50 cat:Transporte tipo:despesa', now)).toEqual({
+      terms: ['uber'],
+      amounts: [{ operator: '>=', value: 20.5 }],
+      category: 'transporte',
+      type: 'expense',
+      from: null,
+      to: null
+    });
+  });
+
+  test('datas sem ano usam o ano corrente e "ate" inclui o dia inteiro', () => {
+    const query = parseSearchQuery('de:01/09 até:30/09', now);
+    expect(query.from).toEqual(new Date(2024, 8, 1));
+    expect(query.to).toEqual(new Date(2024, 8, 30, 23, 59, 59, 999));
+    expect(parseSearchQuery('de:15/08/23', now).from).toEqual(new Date(2023, 7, 15));
+  });
+
+  test('aceita valores entre aspas', () => {
+    const query = parseSearchQuery('cat:"Contas fixas" "do bairro"', now);
+    expect(query.category).toBe('contas fixas');
+    expect(query.terms).toEqual(['do bairro']);
+  });
+
+  test('operador inválido vira texto comum', () => {
+    const query = parseSearchQuery('tipo:xyz de:31/02 >abc', now);
+    expect(query.type).toBeNull();
+    expect(query.from).toBeNull();
+    expect(query.amounts).toEqual([]);
+    expect(query.terms).toEqual(['tipo:xyz', 'de:31/02', '>abc']);
+  });
+});
+
+describe('matchesSearch', () => {
+  test('ignora acentos e maiúsculas na descrição e na categoria', () => {
+    expect(search('alimentacao')).toEqual(['t1']);
+    expect(search('SALARIO')).toEqual(['t2']);
+  });
+
+  test('tolera um erro de digitação em palavras maiores', () => {
+    expect(search('mercdo')).toEqual(['t1']);
+    expect(search('transprte')).toEqual(['t3']);
+    // Termos curtos precisam bater exatamente
+    expect(search('ubr')).toEqual([]);
+  });
+
+  test('todas as palavras precisam bater', () => {
+    expect(search('conta luz')).toEqual(['t4']);
+    expect(search('conta mercado')).toEqual([]);
+  });
+
+  test('filtra por faixa de valor', () => {
+    expect(search('>50')).toEqual(['t2', 't4']);
+    expect(search('<=50')).toEqual(['t1', 't3']);
+    expect(search('>30 <100')).toEqual(['t1', 't3']);
+    expect(search('=32,90')).toEqual(['t3']);
+  });
+
+  test('filtra por categoria, tipo e período', () => {
+    expect(search('cat:transp')).toEqual(['t3']);
+    expect(search('tipo:receita')).toEqual(['t2']);
+    expect(search('de:01/09 ate:30/09')).toEqual(['t1', 't2', 't3']);
+    expect(search('ate:31/08')).toEqual(['t4']);
+  });
+});
+
+describe('getHighlightSegments', () => {
+  test('marca o trecho encontrado mantendo os acentos originais', () => {
+    expect(getHighlightSegments('Alimentação', ['acao'])).toEqual([
+      { text: 'Aliment', match: false },
+      { text: 'ação', match: true }
+    ]);
+  });
+
+  test('marca a palavra inteira quando o termo tem erro de digitação', () => {
+    expect(getHighlightSegments('Mercado do bairro', ['mercdo'])).toEqual([
+      { text: 'Mercado', match: true },
+      { text: ' do bairro', match: false }
+    ]);
+  });
+
+  test('sem termos não marca nada', () => {
+    expect(getHighlightSegments('Uber', [])).toEqual([{ text: 'Uber', match: false }]);
+  });
+});
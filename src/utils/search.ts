@@ -0,0 +1,201 @@
+import { Transaction, TransactionType } from '../types/finance';
+import { normalizeText } from './commandParser';
+import { parseBRLAmount } from './currency';
+import { getTransactionCategories } from './splits';
+
+// Busca da lista de transações: texto livre (sem acento, tolerante a erros de
+// digitação) mais operadores, ex.: "uber >20 cat:transporte de:01/09 ate:30/09"
+
+export type AmountOperator = '>' | '>=' | '<' | '<=' | '=';
+
+export interface AmountCondition {
+  operator: AmountOperator;
+  value: number;
+}
+
+export interface SearchQuery {
+  // Palavras (ou "frases entre aspas") já normalizadas; todas precisam bater
+  terms: string[];
+  amounts: AmountCondition[];
+  category: string | null;
+  type: TransactionType | null;
+  from: Date | null;
+  to: Date | null;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export const SEARCH_OPERATORS_HINT = '>100  <=50  cat:Transporte  tipo:receita  de:01/09  ate:30/09';
+
+const TYPE_ALIASES: Record<string, TransactionType> = {
+  receita: 'income',
+  receitas: 'income',
+  entrada: 'income',
+  entradas: 'income',
+  despesa: 'expense',
+  despesas: 'expense',
+  gasto: 'expense',
+  gastos: 'expense',
+  saida: 'expense',
+  saidas: 'expense',
+  transferencia: 'transfer',
+  transferencias: 'transfer'
+};
+
+const TOKEN_PATTERN = /[^\s:"]+:"[^"]*"?|"[^"]*"?|\S+/g;
+const AMOUNT_PATTERN = /^(>=|<=|>|<|=)(.+)$/;
+const KEY_VALUE_PATTERN = /^([^:]+):(.+)$/;
+const DATE_PATTERN = /^(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?$/;
+
+const unquote = (value: string): string => value.replace(/^"|"$/g, '');
+
+// "01/09" usa o ano corrente; "01/09/24" vira 2024
+const parseSearchDate = (value: string, now: Date, endOfDay: boolean): Date | null => {
+  const match = value.match(DATE_PATTERN);
+  if (!match) return null;
+  const day = Number(match[1]);
+  const month = Number(match[2]) - 1;
+  const year = match[3] ? Number(match[3].length === 2 ? `20${match[3]}` : match[3]) : now.getFullYear();
+  const date = endOfDay ? new Date(year, month, day, 23, 59, 59, 999) : new Date(year, month, day);
+  // Rejeita datas que o Date "corrige", como 31/02
+  return date.getMonth() === month && date.getDate() === day ? date : null;
+};
+
+export const parseSearchQuery = (input: string, now: Date = new Date()): SearchQuery => {
+  const query: SearchQuery = { terms: [], amounts: [], category: null, type: null, from: null, to: null };
+
+  (input.match(TOKEN_PATTERN) || []).forEach(token => {
+    const amountMatch = token.match(AMOUNT_PATTERN);
+    const amount = amountMatch ? parseBRLAmount(amountMatch[2]) : null;
+    if (amountMatch && amount !== null) {
+      query.amounts.push({ operator: amountMatch[1] as AmountOperator, value: amount });
+      return;
+    }
+
+    const keyValue = token.match(KEY_VALUE_PATTERN);
+    if (keyValue) {
+      const key = normalizeText(keyValue[1]);
+      const value = unquote(keyValue[2]);
+      if ((key === 'cat' || key === 'categoria') && value) {
+        query.category = normalizeText(value);
+        return;
+      }
+      if (key === 'tipo' && TYPE_ALIASES[normalizeText(value)]) {
+        query.type = TYPE_ALIASES[normalizeText(value)];
+        return;
+      }
+      const date = key === 'de' || key === 'desde'
+        ? parseSearchDate(value, now, false)
+        : key === 'ate' ? parseSearchDate(value, now, true) : null;
+      if (date) {
+        if (key === 'ate') query.to = date;
+        else query.from = date;
+        return;
+      }
+    }
+
+    // Operador inválido vale como texto comum
+    const term = normalizeText(unquote(token));
+    if (term) query.terms.push(term);
+  });
+
+  return query;
+};
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Erros de digitação aceitos: nenhum em termos curtos, um a partir de 4 letras, dois a partir de 8
+const typoTolerance = (term: string): number => (term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0);
+
+// Texto normalizado letra a letra, guardando de qual posição original veio cada letra
+const normalizeWithIndex = (text: string): { normalized: string; origin: number[] } => {
+  let normalized = '';
+  const origin: number[] = [];
+  Array.from(text).forEach((char, index) => {
+    const plain = normalizeText(char) || (/\s/.test(char) ? ' ' : '');
+    normalized += plain;
+    for (let i = 0; i < plain.length; i++) origin.push(index);
+  });
+  return { normalized, origin };
+};
+
+// Trechos [início, fim) do texto normalizado que batem com o termo: primeiro
+// como substring; se não houver, palavras inteiras parecidas o suficiente
+const findTermRanges = (normalized: string, term: string): [number, number][] => {
+  const ranges: [number, number][] = [];
+  for (let index = normalized.indexOf(term); index !== -1; index = normalized.indexOf(term, index + term.length)) {
+    ranges.push([index, index + term.length]);
+  }
+  const tolerance = typoTolerance(term);
+  if (ranges.length > 0 || tolerance === 0) return ranges;
+
+  for (const word of Array.from(normalized.matchAll(/[a-z0-9]+/g))) {
+    const start = word.index || 0;
+    // Compara também com o começo da palavra, para quem ainda está digitando
+    const prefix = word[0].slice(0, term.length);
+    if (levenshtein(term, word[0]) <= tolerance || (prefix.length === term.length && levenshtein(term, prefix) <= tolerance)) {
+      ranges.push([start, start + word[0].length]);
+    }
+  }
+  return ranges;
+};
+
+const matchesTerm = (text: string, term: string): boolean =>
+  findTermRanges(normalizeWithIndex(text).normalized, term).length > 0;
+
+const matchesAmount = (amount: number, { operator, value }: AmountCondition): boolean => {
+  switch (operator) {
+    case '>': return amount > value;
+    case '>=': return amount >= value;
+    case '<': return amount < value;
+    case '<=': return amount <= value;
+    default: return Math.abs(amount - value) < 0.005;
+  }
+};
+
+export const matchesSearch = (transaction: Transaction, query: SearchQuery): boolean => {
+  const date = new Date(transaction.createdAt);
+  return (
+    query.terms.every(term => matchesTerm(transaction.description, term) || matchesTerm(transaction.category, term)) &&
+    query.amounts.every(condition => matchesAmount(transaction.amount, condition)) &&
+    (!query.category || getTransactionCategories(transaction).some(c => normalizeText(c).includes(query.category as string))) &&
+    (!query.type || transaction.type === query.type) &&
+    (!query.from || date >= query.from) &&
+    (!query.to || date <= query.to)
+  );
+};
+
+// Divide o texto em trechos destacados (que batem com algum termo) e comuns
+export const getHighlightSegments = (text: string, terms: string[]): HighlightSegment[] => {
+  const { normalized, origin } = normalizeWithIndex(text);
+  const marked = new Array<boolean>(text.length).fill(false);
+  terms.forEach(term => {
+    findTermRanges(normalized, term).forEach(([start, end]) => {
+      for (let i = origin[start]; i <= origin[end - 1]; i++) marked[i] = true;
+    });
+  });
+
+  const segments: HighlightSegment[] = [];
+  Array.from(text).forEach((char, index) => {
+    const last = segments[segments.length - 1];
+    if (last && last.match === marked[index]) {
+      last.text += char;
+    } else {
+      segments.push({ text: char, match: marked[index] });
+    }
+  });
+  return segments;
+};
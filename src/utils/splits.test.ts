@@ -0,0 +1,79 @@
+import { Transaction } from '../types/finance';
+import { getCategoryAmounts, getMainCategory, renameSplitCategory, validateSplits } from './splits';
+import { computeSummary } from './summary';
+import { makeTransaction } from '../test/fixtures';
+
+const tx = (overrides: Partial<Transaction>) =>
+  makeTransaction({ amount: 189.75, description: 'Supermercado do mês', category: 'Alimentação', ...overrides });
+
+const splits = [
+  { category: 'Alimentação', amount: 150 },
+  { category: 'Limpeza', amount: 39.75 }
+];
+
+describe('getCategoryAmounts', () => {
+  test('sem divisão, a própria categoria leva o total', () => {
+    expect(getCategoryAmounts(tx({ splits: null }))).toEqual([{ category: 'Alimentação', amount: 189.75 }]);
+  });
+
+  test('com divisão, devolve as partes', () => {
+    expect(getCategoryAmounts(tx({ splits }))).toEqual(splits);
+  });
+});
+
+describe('getMainCategory', () => {
+  test('fica com a parte de maior valor e, no empate, com a primeira', () => {
+    expect(getMainCategory(splits)).toBe('Alimentação');
+    expect(getMainCategory([{ category: 'Lazer', amount: 10 }, { category: 'Saúde', amount: 10 }])).toBe('Lazer');
+  });
+});
+
+describe('validateSplits', () => {
+  test('aceita partes que fecham com o total, centavo a centavo', () => {
+    expect(validateSplits(splits, 189.75)).toBeNull();
+    expect(validateSplits([{ category: 'A', amount: 0.1 }, { category: 'B', amount: 0.2 }], 0.3)).toBeNull();
+  });
+
+  test('exige ao menos duas partes com categoria e valor', () => {
+    expect(validateSplits([splits[0]], 150)).toMatch(/pelo menos 2/);
+    expect(validateSplits([splits[0], { category: ' ', amount: 39.75 }], 189.75)).toMatch(/categoria/);
+    expect(validateSplits([splits[0], { category: 'Limpeza', amount: 0 }], 150)).toMatch(/maior que zero/);
+  });
+
+  test('não repete categoria', () => {
+    expect(validateSplits([splits[0], { category: 'alimentação', amount: 39.75 }], 189.75)).toMatch(/uma vez/);
+  });
+
+  test('diz quanto falta ou quanto passou do total', () => {
+    expect(validateSplits(splits, 200)).toMatch(/^Faltam R\$\s10,25/);
+    expect(validateSplits(splits, 180)).toMatch(/passam do total em R\$\s9,75/);
+  });
+});
+
+describe('renameSplitCategory', () => {
+  test('renomeia a categoria dentro da divisão', () => {
+    expect(renameSplitCategory(splits, 'Limpeza', 'Casa')).toEqual([
+      { category: 'Alimentação', amount: 150 },
+      { category: 'Casa', amount: 39.75 }
+    ]);
+  });
+
+  test('juntar soma as partes e, se sobrar uma só, desfaz a divisão', () => {
+    const three = [...splits, { category: 'Higiene', amount: 10.25 }];
+    expect(renameSplitCategory(three, 'Higiene', 'Limpeza')).toEqual([
+      { category: 'Alimentação', amount: 150 },
+      { category: 'Limpeza', amount: 50 }
+    ]);
+    expect(renameSplitCategory(splits, 'Limpeza', 'Alimentação')).toBeNull();
+    expect(renameSplitCategory(null, 'Limpeza', 'Casa')).toBeNull();
+  });
+});
+
+describe('computeSummary com divisões', () => {
+  test('cada parte entra na sua categoria e o total continua o da transação', () => {
+    const summary = computeSummary([tx({ splits }), tx({ _id: 't2', amount: 20, category: 'Limpeza', splits: null })]);
+    expect(summary.totalExpenses).toBeCloseTo(209.75);
+    expect(summary.expenseCategorySummary).toEqual({ Alimentação: 150, Limpeza: 59.75 });
+    expect(summary.categorySummary).toEqual({ Alimentação: 150, Limpeza: 59.75 });
+  });
+});
@@ -0,0 +1,52 @@
+import { Transaction, TransactionSplit } from '../types/finance';
+import { formatCurrency } from './currency';
+
+// Transações divididas entre categorias. Totais por categoria (resumo,
+// orçamentos, gráficos) devem sempre passar por getCategoryAmounts.
+
+export const MIN_SPLITS = 2;
+
+const toCents = (amount: number): number => Math.round(amount * 100);
+
+// Partes da transação por categoria; sem divisão, a própria categoria com o total
+export const getCategoryAmounts = (transaction: Pick<Transaction, 'category' | 'amount' | 'splits'>): TransactionSplit[] =>
+  transaction.splits && transaction.splits.length > 0
+    ? transaction.splits
+    : [{ category: transaction.category, amount: transaction.amount }];
+
+export const getTransactionCategories = (transaction: Pick<Transaction, 'category' | 'amount' | 'splits'>): string[] =>
+  getCategoryAmounts(transaction).map(split => split.category);
+
+// Categoria principal: a de maior valor (no empate, a primeira)
+export const getMainCategory = (splits: TransactionSplit[]): string =>
+  splits.reduce((main, split) => (split.amount > main.amount ? split : main), splits[0]).category;
+
+// Mensagem de erro para o formulário, ou null se a divisão fecha com o total
+export const validateSplits = (splits: TransactionSplit[], total: number): string | null => {
+  if (splits.length < MIN_SPLITS) return `Divida em pelo menos ${MIN_SPLITS} categorias`;
+  if (splits.some(split => !split.category.trim())) return 'Informe a categoria de cada parte';
+  if (splits.some(split => !(split.amount > 0))) return 'Cada parte precisa de um valor maior que zero';
+  const names = splits.map(split => split.category.trim().toLowerCase());
+  if (new Set(names).size !== names.length) return 'Cada categoria só pode aparecer uma vez';
+
+  const difference = toCents(total) - splits.reduce((sum, split) => sum + toCents(split.amount), 0);
+  if (difference > 0) return `Faltam ${formatCurrency(difference / 100)} para fechar o total`;
+  if (difference < 0) return `As partes passam do total em ${formatCurrency(-difference / 100)}`;
+  return null;
+};
+
+// Renomear (ou juntar) uma categoria também vale dentro das divisões; partes que
+// caem na mesma categoria são somadas, e se sobrar uma só a divisão deixa de existir
+export const renameSplitCategory = (
+  splits: TransactionSplit[] | null | undefined,
+  from: string,
+  to: string
+): TransactionSplit[] | null => {
+  if (!splits || splits.length === 0) return null;
+  const merged = new Map<string, number>();
+  splits.forEach(split => {
+    const category = split.category === from ? to : split.category;
+    merged.set(category, (toCents(merged.get(category) || 0) + toCents(split.amount)) / 100);
+  });
+  return merged.size < MIN_SPLITS ? null : Array.from(merged, ([category, amount]) => ({ category, amount }));
+};
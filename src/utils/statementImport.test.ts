@@ -0,0 +1,114 @@
+import { Transaction } from '../types/finance';
+import {
+  buildImportRows,
+  mapCsvRows,
+  parseCSV,
+  parseOFX,
+  parseStatementAmount,
+  parseStatementDate
+} from './statementImport';
+
+const existing: Transaction[] = [
+  { _id: 'a1', type: 'expense', amount: 50, description: 'Mercado', category: 'Alimentação', createdAt: new Date(2024, 8, 15, 9).toISOString(), userId: 'u' },
+  { _id: 'a2', type: 'expense', amount: 32.9, description: 'Uber centro', category: 'Transporte', createdAt: new Date(2024, 8, 10, 9).toISOString(), userId: 'u' }
+];
+
+describe('parseCSV', () => {
+  test('detecta ";" e respeita campos entre aspas', () => {
+    expect(parseCSV('Data;Descrição;Valor\n15/09/2024;"Padaria; pão";-12,50\n')).toEqual([
+      ['Data', 'Descrição', 'Valor'],
+      ['15/09/2024', 'Padaria; pão', '-12,50']
+    ]);
+  });
+});
+
+describe('parseStatementAmount', () => {
+  test.each([
+    ['-1.234,56', ',', -1234.56],
+    ['(50,00)', ',', -50],
+    ['50,00-', ',', -50],
+    ['R$ 10,00', ',', 10],
+    ['1,234.56', '.', 1234.56],
+    ['abc', ',', null]
+  ] as const)('%s com separador "%s"', (input, separator, expected) => {
+    expect(parseStatementAmount(input, separator)).toBe(expected);
+  });
+});
+
+describe('parseStatementDate', () => {
+  test('aceita dd/mm/aaaa e dd/mm/aa', () => {
+    expect(parseStatementDate('15/09/2024', 'dd/mm/yyyy')).toBe(new Date(2024, 8, 15, 12).toISOString());
+    expect(parseStatementDate('15/09/24', 'dd/mm/yyyy')).toBe(new Date(2024, 8, 15, 12).toISOString());
+  });
+
+  test('rejeita datas inexistentes', () => {
+    expect(parseStatementDate('31/02/2024', 'dd/mm/yyyy')).toBeNull();
+  });
+});
+
+describe('mapCsvRows', () => {
+  test('usa o sinal do valor como tipo e reporta linhas inválidas', () => {
+    const rows = parseCSV('Data;Histórico;Valor\n15/09/2024;PIX Salário;3.500,00\n16/09/2024;Lanche;-25,50\nxx;Erro;1,00');
+    const result = mapCsvRows(rows, {
+      mapping: { date: 0, description: 1, amount: 2, type: null, category: null },
+      hasHeader: true,
+      dateFormat: 'dd/mm/yyyy',
+      decimalSeparator: ','
+    });
+
+    expect(result.entries.map(e => [e.type, e.amount, e.description])).toEqual([
+      ['income', 3500, 'PIX Salário'],
+      ['expense', 25.5, 'Lanche']
+    ]);
+    expect(result.errors).toEqual([{ line: 4, message: 'Data inválida: "xx"' }]);
+  });
+});
+
+describe('parseOFX', () => {
+  test('lê transações no formato SGML', () => {
+    const ofx = [
+      '<OFX><BANKTRANLIST>',
+      '<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20240915120000[-3:BRT]<TRNAMT>-50.00<FITID>1<MEMO>MERCADO BOM PRECO</STMTTRN>',
+      '<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20240905<TRNAMT>3500.00<FITID>2<NAME>SALARIO</STMTTRN>',
+      '</BANKTRANLIST></OFX>'
+    ].join('\n');
+
+    const { entries, errors } = parseOFX(ofx);
+    expect(errors).toEqual([]);
+    expect(entries.map(e => [e.type, e.amount, e.description])).toEqual([
+      ['expense', 50, 'MERCADO BOM PRECO'],
+      ['income', 3500, 'SALARIO']
+    ]);
+  });
+});
+
+describe('buildImportRows', () => {
+  test('marca duplicados prováveis e sugere categoria pelo histórico', () => {
+    const rows = buildImportRows(
+      [
+        { line: 2, createdAt: new Date(2024, 8, 15, 12).toISOString(), description: 'MERCADO', amount: 50, type: 'expense' },
+        { line: 3, createdAt: new Date(2024, 8, 20, 12).toISOString(), description: 'UBER *TRIP', amount: 18, type: 'expense' }
+      ],
+      existing
+    );
+
+    expect(rows[0].duplicateOf && rows[0].duplicateOf._id).toBe('a1');
+    expect(rows[0].selected).toBe(false);
+    expect(rows[1].duplicateOf).toBeNull();
+    expect(rows[1].input.category).toBe('Transporte');
+  });
+
+  test('palavras-chave do usuário valem depois da descrição idêntica no histórico', () => {
+    const rows = buildImportRows(
+      [
+        { line: 2, createdAt: new Date(2024, 9, 1, 12).toISOString(), description: 'UBER *TRIP', amount: 18, type: 'expense' },
+        { line: 3, createdAt: new Date(2024, 9, 2, 12).toISOString(), description: 'Mercado', amount: 70, type: 'expense' }
+      ],
+      existing,
+      { Aplicativos: ['uber'], Feira: ['mercado'] }
+    );
+
+    expect(rows[0].input.category).toBe('Aplicativos');
+    expect(rows[1].input.category).toBe('Alimentação');
+  });
+});
@@ -0,0 +1,308 @@
+import { CashFlowType, Transaction, TransactionInput } from '../types/finance';
+import { KeywordRules, matchKeywordRules, normalizeText, suggestCategory } from './commandParser';
+
+// Importação de extratos bancários (CSV e OFX) para transações
+
+export interface StatementEntry {
+  line: number;
+  createdAt: string;
+  description: string;
+  amount: number;
+  type: CashFlowType;
+  category?: string; // quando o próprio arquivo já traz a categoria
+}
+
+export interface StatementParseResult {
+  entries: StatementEntry[];
+  errors: { line: number; message: string }[];
+}
+
+export type CsvDateFormat = 'dd/mm/yyyy' | 'yyyy-mm-dd';
+
+// Índices das colunas do CSV; type/category são opcionais (null = não mapeada)
+export interface CsvColumnMapping {
+  date: number;
+  description: number;
+  amount: number;
+  type: number | null;
+  category: number | null;
+}
+
+export interface CsvImportOptions {
+  mapping: CsvColumnMapping;
+  hasHeader: boolean;
+  dateFormat: CsvDateFormat;
+  decimalSeparator: ',' | '.';
+}
+
+export interface ImportRow {
+  key: string;
+  input: TransactionInput;
+  duplicateOf: Transaction | null;
+  selected: boolean;
+}
+
+// ---------- CSV ----------
+
+const CSV_DELIMITERS = [';', ',', '\t'];
+
+export const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/)[0] || '';
+  const counts = CSV_DELIMITERS.map(delimiter => ({
+    delimiter,
+    count: firstLine.replace(/"[^"]*"/g, '').split(delimiter).length - 1
+  }));
+  counts.sort((a, b) => b.count - a.count);
+  return counts[0].count > 0 ? counts[0].delimiter : ',';
+};
+
+// Parser simples de CSV com suporte a campos entre aspas e aspas escapadas ("")
+export const parseCSV = (text: string, delimiter: string = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+const toLocalNoonIso = (year: number, month: number, day: number): string | null => {
+  const date = new Date(year, month - 1, day, 12, 0, 0, 0);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return date.toISOString();
+};
+
+// "15/09/2024", "15/09/24", "15-09-2024" ou "2024-09-15" -> ISO (meio-dia local)
+export const parseStatementDate = (text: string, format: CsvDateFormat): string | null => {
+  const value = text.trim();
+
+  if (format === 'yyyy-mm-dd') {
+    const match = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+    return match ? toLocalNoonIso(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+  }
+
+  const match = value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})\b/);
+  if (!match) return null;
+  const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+  return toLocalNoonIso(year, Number(match[2]), Number(match[1]));
+};
+
+// Valor com sinal: "-1.234,56", "(50,00)", "50,00-" e "R$ 10,00" são aceitos
+export const parseStatementAmount = (text: string, decimalSeparator: ',' | '.'): number | null => {
+  let value = text.replace(/R\$/i, '').replace(/\s/g, '');
+  if (!value) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(value)) {
+    negative = true;
+    value = value.slice(1, -1);
+  }
+  if (value.startsWith('-')) {
+    negative = true;
+    value = value.slice(1);
+  } else if (value.endsWith('-')) {
+    negative = true;
+    value = value.slice(0, -1);
+  } else if (value.startsWith('+')) {
+    value = value.slice(1);
+  }
+
+  const thousandsSeparator = decimalSeparator === ',' ? '.' : ',';
+  value = value.split(thousandsSeparator).join('').replace(decimalSeparator, '.');
+  if (!/^\d+(\.\d+)?$/.test(value)) return null;
+
+  const amount = Number(value);
+  return negative ? -amount : amount;
+};
+
+const INCOME_TYPE_WORDS = ['c', 'credito', 'entrada', 'receita', 'deposito'];
+const EXPENSE_TYPE_WORDS = ['d', 'debito', 'saida', 'despesa', 'pagamento'];
+
+const parseTypeColumn = (text: string): CashFlowType | null => {
+  const value = normalizeText(text);
+  if (INCOME_TYPE_WORDS.includes(value)) return 'income';
+  if (EXPENSE_TYPE_WORDS.includes(value)) return 'expense';
+  return null;
+};
+
+export const mapCsvRows = (rows: string[][], options: CsvImportOptions): StatementParseResult => {
+  const { mapping, hasHeader, dateFormat, decimalSeparator } = options;
+  const result: StatementParseResult = { entries: [], errors: [] };
+
+  rows.forEach((row, index) => {
+    if (hasHeader && index === 0) return;
+    const line = index + 1;
+    const cell = (column: number | null) => (column === null ? '' : (row[column] || '').trim());
+
+    const createdAt = parseStatementDate(cell(mapping.date), dateFormat);
+    if (!createdAt) {
+      result.errors.push({ line, message: `Data inválida: "${cell(mapping.date)}"` });
+      return;
+    }
+
+    const signedAmount = parseStatementAmount(cell(mapping.amount), decimalSeparator);
+    if (signedAmount === null || signedAmount === 0) {
+      result.errors.push({ line, message: `Valor inválido: "${cell(mapping.amount)}"` });
+      return;
+    }
+
+    const description = cell(mapping.description);
+    if (!description) {
+      result.errors.push({ line, message: 'Descrição vazia' });
+      return;
+    }
+
+    const explicitType = mapping.type === null ? null : parseTypeColumn(cell(mapping.type));
+    result.entries.push({
+      line,
+      createdAt,
+      description,
+      amount: Math.abs(signedAmount),
+      type: explicitType || (signedAmount < 0 ? 'expense' : 'income'),
+      category: cell(mapping.category) || undefined
+    });
+  });
+
+  return result;
+};
+
+// ---------- OFX ----------
+
+const readOfxTag = (block: string, tag: string): string => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : '';
+};
+
+// Aceita tanto o OFX 1.x (SGML, sem tags de fechamento) quanto o 2.x (XML)
+export const parseOFX = (text: string): StatementParseResult => {
+  const result: StatementParseResult = { entries: [], errors: [] };
+  const blocks = text.split(/<STMTTRN>/i).slice(1).map(block => block.split(/<\/STMTTRN>/i)[0]);
+
+  blocks.forEach((block, index) => {
+    const line = index + 1;
+    const posted = readOfxTag(block, 'DTPOSTED').match(/^(\d{4})(\d{2})(\d{2})/);
+    const createdAt = posted ? toLocalNoonIso(Number(posted[1]), Number(posted[2]), Number(posted[3])) : null;
+    if (!createdAt) {
+      result.errors.push({ line, message: 'Transação sem DTPOSTED válido' });
+      return;
+    }
+
+    const rawAmount = readOfxTag(block, 'TRNAMT').replace(',', '.');
+    const signedAmount = /^[-+]?\d+(\.\d+)?$/.test(rawAmount) ? Number(rawAmount) : NaN;
+    if (!Number.isFinite(signedAmount) || signedAmount === 0) {
+      result.errors.push({ line, message: `Valor inválido: "${rawAmount}"` });
+      return;
+    }
+
+    result.entries.push({
+      line,
+      createdAt,
+      description: readOfxTag(block, 'MEMO') || readOfxTag(block, 'NAME') || 'Sem descrição',
+      amount: Math.abs(signedAmount),
+      type: signedAmount < 0 ? 'expense' : 'income'
+    });
+  });
+
+  return result;
+};
+
+// ---------- Categorias e duplicados ----------
+
+const significantWords = (text: string): string[] =>
+  normalizeText(text).split(/[^a-z0-9]+/).filter(word => word.length >= 3);
+
+// Usa o histórico do usuário: mesma descrição, depois as palavras-chave que ele
+// cadastrou, depois a descrição que compartilha mais palavras; sem correspondência,
+// cai nas palavras-chave padrão do parser de comandos
+export const suggestCategoryFromHistory = (
+  description: string,
+  type: CashFlowType,
+  history: Transaction[],
+  customRules: KeywordRules = {}
+): string => {
+  const candidates = history.filter(t => t.type === type);
+  const normalized = normalizeText(description);
+
+  const exact = candidates.find(t => normalizeText(t.description) === normalized);
+  if (exact) return exact.category;
+
+  const custom = matchKeywordRules(description, customRules);
+  if (custom) return custom;
+
+  const words = significantWords(description);
+  let bestCategory: string | null = null;
+  let bestScore = 0;
+  for (const t of candidates) {
+    const score = significantWords(t.description).filter(word => words.includes(word)).length;
+    if (score > bestScore) {
+      bestScore = score;
+      bestCategory = t.category;
+    }
+  }
+  if (bestCategory) return bestCategory;
+
+  return suggestCategory(description);
+};
+
+const isSameDay = (a: string, b: string): boolean => new Date(a).toDateString() === new Date(b).toDateString();
+
+const descriptionsMatch = (a: string, b: string): boolean => {
+  const left = normalizeText(a);
+  const right = normalizeText(b);
+  return left === right || left.includes(right) || right.includes(left);
+};
+
+// Provável duplicado: mesmo tipo, mesmo valor, mesmo dia e descrição parecida
+export const findProbableDuplicate = (input: TransactionInput, existing: Transaction[]): Transaction | null =>
+  existing.find(t =>
+    t.type === input.type &&
+    Math.round(t.amount * 100) === Math.round(input.amount * 100) &&
+    isSameDay(t.createdAt, input.createdAt) &&
+    descriptionsMatch(t.description, input.description)
+  ) || null;
+
+export const buildImportRows = (entries: StatementEntry[], existing: Transaction[], customRules: KeywordRules = {}): ImportRow[] =>
+  entries.map(entry => {
+    const input: TransactionInput = {
+      type: entry.type,
+      amount: entry.amount,
+      description: entry.description,
+      category: entry.category || suggestCategoryFromHistory(entry.description, entry.type, existing, customRules),
+      createdAt: entry.createdAt
+    };
+    const duplicateOf = findProbableDuplicate(input, existing);
+    return { key: `line-${entry.line}`, input, duplicateOf, selected: duplicateOf === null };
+  });
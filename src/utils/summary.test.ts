@@ -0,0 +1,24 @@
+import { Transaction } from '../types/finance';
+import { completeSummary, computeSummary } from './summary';
+
+const transactions: Transaction[] = [
+  { _id: 't1', type: 'expense', amount: 50, description: 'Mercado', category: 'Alimentação', createdAt: '2024-09-10T12:00:00.000Z', userId: 'u' },
+  { _id: 't2', type: 'income', amount: 3000, description: 'Salário', category: 'Trabalho', createdAt: '2024-09-05T12:00:00.000Z', userId: 'u' }
+];
+
+describe('completeSummary', () => {
+  test('resumo de backend antigo ganha os totais por tipo calculados das transações', () => {
+    const { expenseCategorySummary, incomeCategorySummary, ...legacy } = computeSummary(transactions);
+
+    expect(completeSummary(legacy, transactions)).toEqual({
+      ...legacy,
+      expenseCategorySummary: { Alimentação: 50 },
+      incomeCategorySummary: { Trabalho: 3000 }
+    });
+  });
+
+  test('resumo completo fica como veio do servidor', () => {
+    const summary = { ...computeSummary(transactions), expenseCategorySummary: { Outros: 1 } };
+    expect(completeSummary(summary, [])).toBe(summary);
+  });
+});
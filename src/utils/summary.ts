@@ -0,0 +1,48 @@
+import { ServerSummary, Summary, Transaction } from '../types/finance';
+import { getCategoryAmounts } from './splits';
+
+// Calcula o resumo (totais e categorias) a partir de uma lista de transações.
+// Transferências entram na contagem, mas não em receitas, despesas ou categorias.
+// Transações divididas contam cada parte na sua categoria.
+export const computeSummary = (transactions: Transaction[]): Summary => {
+  let totalIncome = 0;
+  let totalExpenses = 0;
+  const categorySummary: Record<string, number> = {};
+  const expenseCategorySummary: Record<string, number> = {};
+  const incomeCategorySummary: Record<string, number> = {};
+
+  transactions.forEach(t => {
+    if (t.type === 'transfer') return;
+    const byType = t.type === 'income' ? incomeCategorySummary : expenseCategorySummary;
+    if (t.type === 'income') {
+      totalIncome += t.amount;
+    } else {
+      totalExpenses += t.amount;
+    }
+    getCategoryAmounts(t).forEach(({ category, amount }) => {
+      byType[category] = (byType[category] || 0) + amount;
+      categorySummary[category] = (categorySummary[category] || 0) + amount;
+    });
+  });
+
+  return {
+    totalIncome,
+    totalExpenses,
+    balance: totalIncome - totalExpenses,
+    categorySummary,
+    expenseCategorySummary,
+    incomeCategorySummary,
+    transactionCount: transactions.length
+  };
+};
+
+// Completa o resumo de um backend antigo com os totais por tipo, calculados das transações
+export const completeSummary = (summary: ServerSummary, transactions: Transaction[]): Summary => {
+  if (summary.expenseCategorySummary && summary.incomeCategorySummary) return summary as Summary;
+  const computed = computeSummary(transactions);
+  return {
+    ...summary,
+    expenseCategorySummary: summary.expenseCategorySummary || computed.expenseCategorySummary,
+    incomeCategorySummary: summary.incomeCategorySummary || computed.incomeCategorySummary
+  };
+};
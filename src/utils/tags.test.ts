@@ -0,0 +1,35 @@
+import { formatTags, getTagCounts, normalizeTag, parseTags } from './tags';
+import { makeTransaction } from '../test/fixtures';
+
+const tx = (_id: string, tags?: string[]) => makeTransaction({ _id, amount: 10, category: 'Lazer', tags });
+
+describe('normalizeTag', () => {
+  test('tira acentos, maiúsculas, # e troca espaços por hífen', () => {
+    expect(normalizeTag('#Viagem Floripa')).toBe('viagem-floripa');
+    expect(normalizeTag('  Presentes de Natal! ')).toBe('presentes-de-natal');
+    expect(normalizeTag('###')).toBe('');
+  });
+});
+
+describe('parseTags', () => {
+  test('separa por vírgulas, ignora vazios e repetições', () => {
+    expect(parseTags('Viagem Floripa, #viagem-floripa, , Presentes')).toEqual(['viagem-floripa', 'presentes']);
+    expect(parseTags('')).toEqual([]);
+  });
+
+  test('volta para o texto do formulário', () => {
+    expect(formatTags(['viagem-floripa', 'presentes'])).toBe('viagem-floripa, presentes');
+    expect(formatTags(undefined)).toBe('');
+  });
+});
+
+describe('getTagCounts', () => {
+  test('conta o uso de cada tag, das mais usadas para as menos', () => {
+    const transactions = [tx('t1', ['viagem', 'presentes']), tx('t2', ['viagem']), tx('t3'), tx('t4', ['academia'])];
+    expect(getTagCounts(transactions)).toEqual([
+      { tag: 'viagem', count: 2 },
+      { tag: 'academia', count: 1 },
+      { tag: 'presentes', count: 1 }
+    ]);
+  });
+});
@@ -0,0 +1,30 @@
+import { Transaction } from '../types/finance';
+import { normalizeText } from './commandParser';
+
+// Tags: etiquetas livres que cortam categorias ("viagem-floripa", "presentes").
+// Guardadas sem acento, em minúsculas e com hífen no lugar dos espaços.
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+// "#Viagem Floripa" -> "viagem-floripa"; vazio quando não sobra nada
+export const normalizeTag = (raw: string): string =>
+  normalizeText(raw)
+    .replace(/^#+/, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+// Texto do formulário, separado por vírgulas, sem repetições
+export const parseTags = (input: string): string[] =>
+  Array.from(new Set(input.split(',').map(normalizeTag).filter(Boolean)));
+
+export const formatTags = (tags: string[] | undefined): string => (tags || []).join(', ');
+
+// Tags mais usadas primeiro; no empate, em ordem alfabética
+export const getTagCounts = (transactions: Transaction[]): TagCount[] => {
+  const counts = new Map<string, number>();
+  transactions.forEach(t => (t.tags || []).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+  return Array.from(counts, ([tag, count]) => ({ tag, count })).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
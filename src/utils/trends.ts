@@ -0,0 +1,98 @@
+import { Transaction } from '../types/finance';
+import { getCategoryAmounts } from './splits';
+
+// Séries mensais para os gráficos de evolução
+
+export interface MonthlyTotals {
+  month: string; // yyyy-mm
+  label: string; // set/24
+  income: number;
+  expenses: number;
+  net: number;
+  balance: number; // saldo acumulado até o fim do mês
+}
+
+export interface CategoryChange {
+  category: string;
+  current: number;
+  previous: number;
+  change: number;
+  changePercent: number | null; // null quando não houve gasto no mês anterior
+}
+
+const MONTH_NAMES = ['jan', 'fev', 'mar', 'abr', 'mai', 'jun', 'jul', 'ago', 'set', 'out', 'nov', 'dez'];
+
+export const getMonthKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+export const getMonthLabel = (monthKey: string): string => {
+  const [year, month] = monthKey.split('-').map(Number);
+  return `${MONTH_NAMES[month - 1]}/${String(year).slice(-2)}`;
+};
+
+const nextMonthKey = (monthKey: string): string => {
+  const [year, month] = monthKey.split('-').map(Number);
+  return getMonthKey(new Date(year, month, 1));
+};
+
+// Agrupa por mês de createdAt, preenchendo os meses sem movimentação
+export const groupByMonth = (transactions: Transaction[]): MonthlyTotals[] => {
+  if (transactions.length === 0) return [];
+
+  const totals = new Map<string, { income: number; expenses: number }>();
+  transactions.forEach(t => {
+    const key = getMonthKey(new Date(t.createdAt));
+    const entry = totals.get(key) || { income: 0, expenses: 0 };
+    if (t.type === 'income') {
+      entry.income += t.amount;
+    } else if (t.type === 'expense') {
+      entry.expenses += t.amount;
+    }
+    totals.set(key, entry);
+  });
+
+  const keys = [...totals.keys()].sort();
+  const lastKey = keys[keys.length - 1];
+  const result: MonthlyTotals[] = [];
+  let balance = 0;
+
+  for (let key = keys[0]; key <= lastKey; key = nextMonthKey(key)) {
+    const { income, expenses } = totals.get(key) || { income: 0, expenses: 0 };
+    balance += income - expenses;
+    result.push({ month: key, label: getMonthLabel(key), income, expenses, net: income - expenses, balance });
+  }
+  return result;
+};
+
+// Variação das despesas por categoria entre o mês de referência e o anterior
+export const getCategoryMonthOverMonth = (transactions: Transaction[], reference: Date = new Date()): CategoryChange[] => {
+  const currentKey = getMonthKey(reference);
+  const previousKey = getMonthKey(new Date(reference.getFullYear(), reference.getMonth() - 1, 1));
+  const byCategory = new Map<string, { current: number; previous: number }>();
+
+  transactions.forEach(t => {
+    if (t.type !== 'expense') return;
+    const key = getMonthKey(new Date(t.createdAt));
+    if (key !== currentKey && key !== previousKey) return;
+
+    getCategoryAmounts(t).forEach(({ category, amount }) => {
+      const entry = byCategory.get(category) || { current: 0, previous: 0 };
+      if (key === currentKey) {
+        entry.current += amount;
+      } else {
+        entry.previous += amount;
+      }
+      byCategory.set(category, entry);
+    });
+  });
+
+  return [...byCategory.entries()]
+    .map(([category, { current, previous }]) => ({
+      category,
+      current,
+      previous,
+      change: current - previous,
+      changePercent: previous > 0 ? ((current - previous) / previous) * 100 : null
+    }))
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+};
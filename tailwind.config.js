@@ -4,7 +4,24 @@ module.exports = {
     "./src/**/*.{js,jsx,ts,tsx}",
   ],
   theme: {
-    extend: {},
+    extend: {
+      // Destaque das transações que chegam em tempo real e entrada da gaveta de detalhes
+      keyframes: {
+        'flash-in': {
+          '0%': { opacity: '0', transform: 'translateY(-0.5rem)', backgroundColor: 'rgba(30, 64, 175, 0.6)' },
+          '15%': { opacity: '1', transform: 'translateY(0)' },
+          '100%': { backgroundColor: 'transparent' },
+        },
+        'slide-in-right': {
+          '0%': { transform: 'translateX(100%)' },
+          '100%': { transform: 'translateX(0)' },
+        },
+      },
+      animation: {
+        'flash-in': 'flash-in 4s ease-out',
+        'slide-in-right': 'slide-in-right 0.2s ease-out',
+      },
+    },
   },
   plugins: [],
 }
\ No newline at end of file